@@ -13,6 +13,32 @@ import * as path from 'path';
 
 let client: LanguageClient;
 
+// Árbol devuelto por la petición jsp/includeHierarchy
+interface IncludeHierarchyNode {
+	uri: string;
+	children: IncludeHierarchyNode[];
+	cycle?: boolean;
+}
+
+interface IncludeHierarchyItem extends vscode.QuickPickItem {
+	uri?: string;
+}
+
+// Aplana el árbol en elementos del QuickPick, sangrados según la profundidad
+function toHierarchyItems(nodes: IncludeHierarchyNode[], depth: number = 0): IncludeHierarchyItem[] {
+	const items: IncludeHierarchyItem[] = [];
+	for (const node of nodes) {
+		const uri = vscode.Uri.parse(node.uri);
+		items.push({
+			label: `${'\u2003'.repeat(depth)}${path.basename(uri.fsPath)}`,
+			description: vscode.workspace.asRelativePath(uri) + (node.cycle ? ' (cycle)' : ''),
+			uri: node.uri
+		});
+		items.push(...toHierarchyItems(node.children, depth + 1));
+	}
+	return items;
+}
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export async function activate(context: vscode.ExtensionContext) {
@@ -37,14 +63,26 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	// Opciones del cliente
 	const clientOptions: LanguageClientOptions = {
-		documentSelector: [{ scheme: 'file', language: 'jsp' }],
+		documentSelector: [
+			{ scheme: 'file', language: 'jsp' },
+			// Los TLD se sincronizan para navegar de tag-class a la clase Java
+			{ scheme: 'file', pattern: '**/*.tld' }
+		],
 		synchronize: {
-			fileEvents: vscode.workspace.createFileSystemWatcher('**/*.{jsp,jspx,jspf}')
+			fileEvents: [
+				vscode.workspace.createFileSystemWatcher('**/*.{jsp,jspx,jspf,tag,tagx}'),
+				vscode.workspace.createFileSystemWatcher('**/{*.tld,web.xml}'),
+				// Mantiene al día el índice de clases Java del servidor
+				vscode.workspace.createFileSystemWatcher('**/*.java'),
+				// Los cambios en los ficheros de build recargan los proyectos Maven y Gradle
+				vscode.workspace.createFileSystemWatcher('**/{pom.xml,build.gradle,build.gradle.kts,settings.gradle,settings.gradle.kts,gradle.properties}')
+			]
 		},
 		initializationOptions: {
 			javaSourcePaths: vscode.workspace.getConfiguration('jsp-support').get('javaSourcePaths'),
 			javaHome: vscode.workspace.getConfiguration('jsp-support').get('javaHome') || process.env.JAVA_HOME || '',
-			mavenRepository: vscode.workspace.getConfiguration('jsp-support').get('mavenRepository') || ''
+			mavenRepository: vscode.workspace.getConfiguration('jsp-support').get('mavenRepository') || '',
+			gradleUserHome: vscode.workspace.getConfiguration('jsp-support').get('gradleUserHome') || ''
 		}
 	};
 
@@ -110,6 +148,88 @@ export async function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	// Registrar el comando Show Include Hierarchy
+	const hierarchyCommand = vscode.commands.registerCommand('jsp-support.showIncludeHierarchy', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return;
+		}
+
+		if (!client || !client.isRunning()) {
+			vscode.window.showErrorMessage('JSP language server is not active.');
+			return;
+		}
+
+		try {
+			const hierarchy = await client.sendRequest<{ includes: IncludeHierarchyNode[]; includedBy: IncludeHierarchyNode[] }>(
+				'jsp/includeHierarchy',
+				{ uri: editor.document.uri.toString() }
+			);
+
+			if (hierarchy.includes.length === 0 && hierarchy.includedBy.length === 0) {
+				vscode.window.showInformationMessage('This page neither includes nor is included by other pages.');
+				return;
+			}
+
+			const items: IncludeHierarchyItem[] = [
+				{ label: 'Included by', kind: vscode.QuickPickItemKind.Separator },
+				...toHierarchyItems(hierarchy.includedBy),
+				{ label: 'Includes', kind: vscode.QuickPickItemKind.Separator },
+				...toHierarchyItems(hierarchy.includes)
+			];
+
+			// Abrir la página seleccionada
+			const picked = await vscode.window.showQuickPick(items, {
+				placeHolder: `Include hierarchy of ${path.basename(editor.document.uri.fsPath)}`,
+				matchOnDescription: true
+			});
+			if (picked?.uri) {
+				await vscode.window.showTextDocument(vscode.Uri.parse(picked.uri));
+			}
+		} catch (error) {
+			console.error('Error in Show Include Hierarchy:', error);
+			vscode.window.showErrorMessage(`Error building include hierarchy: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+
+	// Registrar el comando Find JSP References (editores Java)
+	const javaReferencesCommand = vscode.commands.registerCommand('jsp-support.findJspReferences', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId !== 'java') {
+			return;
+		}
+
+		if (!client || !client.isRunning()) {
+			vscode.window.showErrorMessage('JSP language server is not active.');
+			return;
+		}
+
+		const position = editor.selection.active;
+		try {
+			// El servidor no sincroniza archivos Java, así que se envía el contenido actual
+			const locations = await client.sendRequest<Location[]>('jsp/javaReferences', {
+				uri: editor.document.uri.toString(),
+				text: editor.document.getText(),
+				position: { line: position.line, character: position.character }
+			});
+
+			if (locations.length === 0) {
+				vscode.window.showInformationMessage('No JSP references found.');
+				return;
+			}
+
+			await vscode.commands.executeCommand(
+				'editor.action.showReferences',
+				editor.document.uri,
+				position,
+				locations.map(location => client.protocol2CodeConverter.asLocation(location))
+			);
+		} catch (error) {
+			console.error('Error in Find JSP References:', error);
+			vscode.window.showErrorMessage(`Error searching for JSP references: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+
 	// Registrar proveedores de funcionalidades
 	context.subscriptions.push(
 		vscode.languages.registerCompletionItemProvider('jsp', {
@@ -141,7 +261,7 @@ export async function activate(context: vscode.ExtensionContext) {
 		}, '@', '<')
 	);
 
-	context.subscriptions.push(disposable);
+	context.subscriptions.push(disposable, hierarchyCommand, javaReferencesCommand);
 }
 
 // This method is called when your extension is deactivated
@@ -7,11 +7,39 @@
     InitializeResult,
     CompletionItem,
     CompletionItemKind,
+    CompletionList,
     TextDocumentPositionParams,
     Definition,
     Location,
     Range,
     Position,
+    Diagnostic,
+    DiagnosticSeverity,
+    Hover,
+    MarkupKind,
+    InsertTextFormat,
+    DidChangeWatchedFilesParams,
+    DocumentLink,
+    DocumentLinkParams,
+    ReferenceParams,
+    FileChangeType,
+    PrepareRenameParams,
+    RenameParams,
+    WorkspaceEdit,
+    TextEdit,
+    ResponseError,
+    LSPErrorCodes,
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    SignatureHelp,
+    SignatureHelpParams,
+    SignatureInformation,
+    SymbolKind,
+    TypeHierarchyItem,
+    TypeHierarchyPrepareParams,
+    TypeHierarchySupertypesParams,
+    TypeHierarchySubtypesParams,
 } from 'vscode-languageserver/node';
 
 import { TextDocument as TextDocumentContent } from 'vscode-languageserver-textdocument';
@@ -51,29 +79,241 @@ interface MavenDependency {
 interface VariableDeclaration {
     name: string;
     type: string;
+    offset: number; // position of the variable name in the document
+}
+
+type JspNodeKind = 'directive' | 'scriptlet' | 'expression' | 'declaration' | 'comment'
+    | 'action' | 'customTag' | 'el' | 'template';
+
+interface JspAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number; // first character inside the quotes
+    valueEnd: number;
+}
+
+interface JspNode {
+    kind: JspNodeKind;
+    start: number;
+    end: number;
+    contentStart: number; // Java code, EL body, comment text or tag/directive body
+    contentEnd: number;
+    closed: boolean; // false when the terminating delimiter is missing
+    name?: string; // directive name ("page") or tag name ("jsp:include", "c:forEach")
+    attributes?: JspAttribute[];
+    isEndTag?: boolean;
+    selfClosing?: boolean;
+    deferred?: boolean; // "#{...}" EL
+    children?: JspNode[]; // expressions and EL embedded in attribute values
+}
+
+interface ImportEntry {
+    fqn: string; // "com.example.MyClass" or "com.example.*"
+    start: number;
+    end: number;
+    fromDirective: boolean; // <%@ page import %> rather than a Java import statement
+}
+
+interface TagAttributeInfo {
+    name: string;
+    required: boolean;
+    rtexprvalue: boolean;
+    type?: string;
+    description?: string;
+    nameOffset: number; // <name> text of the <attribute> in the TLD
+}
+
+interface TagVariableInfo {
+    nameGiven?: string;
+    nameFromAttribute?: string;
+    variableClass: string;
+    scope: 'NESTED' | 'AT_BEGIN' | 'AT_END';
+}
+
+interface TagInfo {
+    name: string;
+    tagClass?: string;
+    tagFile?: string; // .tag/.tagx implementing the tag, for tag files
+    bodyContent?: string;
+    description?: string;
+    dynamicAttributes: boolean;
+    attributes: TagAttributeInfo[];
+    variables: TagVariableInfo[];
+    nameOffset: number; // <name> text of the <tag> in the TLD
+}
+
+interface TagFunctionInfo {
+    name: string;
+    functionClass?: string;
+    signature?: string; // "int length(java.lang.Object)"
+    description?: string;
+    nameOffset: number; // <name> text of the <function> in the TLD
+}
+
+interface TagLibrary {
+    uri: string;
+    shortName: string;
+    description?: string;
+    location: { path: string; jarPath?: string }; // TLD file, or entry name inside jarPath
+    tags: TagInfo[];
+    functions: TagFunctionInfo[];
+}
+
+/** A static include or jsp:include / jsp:forward from one page to another */
+interface IncludeEdge {
+    target: string; // Included file path
+    range: Range; // Target attribute value in the including file
+    isStatic: boolean; // Include directive (same translation unit) rather than jsp:include / jsp:forward
+}
+
+/** A reference from a page to a Java type or one of its methods */
+interface JavaUsage {
+    fqn: string;
+    member?: string; // Method name for calls
+    range: Range;
+}
+
+/** A class known to the class index */
+interface JavaClassEntry {
+    fqn: string;
+    origin: 'workspace' | 'maven' | 'jdk';
+}
+
+/** A token of Java source. Comments are dropped; a Javadoc is kept on the token that follows it */
+interface JavaToken {
+    kind: 'word' | 'symbol' | 'literal';
+    text: string;
+    start: number;
+    end: number;
+    javadoc?: string;
+}
+
+interface JavaParameter {
+    type: string; // "String", "Map<String, Integer>", "Object..." for varargs
+    name: string;
+}
+
+/** A field, method or constructor declared in a Java class body */
+interface JavaMemberDeclaration {
+    kind: 'field' | 'method' | 'constructor';
+    name: string;
+    modifiers: string[]; // Including implicit ones: interface fields are public static final
+    type: string; // Field type or method return type, '' for constructors
+    parameters: JavaParameter[];
+    varargs: boolean;
+    signature: string; // Declaration up to its body or initializer, annotations left out
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string; // Raw /** ... */ comment, '' when there is none
+}
+
+interface JavaClassDeclaration {
+    kind: 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+    name: string;
+    qualifiedName: string; // Nested classes use dots: "com.acme.Outer.Inner"
+    modifiers: string[];
+    superclass: string | null; // As written, with type arguments
+    interfaces: string[]; // implements list, or the extends list of an interface
+    signature: string;
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string;
+    members: JavaMemberDeclaration[];
+    classes: JavaClassDeclaration[];
+}
+
+/** Declarations of one .java file */
+interface JavaCompilationUnit {
+    packageName: string;
+    imports: string[]; // "java.util.List", "java.util.*", "static java.lang.Math.max"
+    classes: JavaClassDeclaration[];
+    lineStarts: number[]; // Offset of each line, for offset -> position conversion
+}
+
+/** A field or method read from a .class file */
+interface ClassFileMember {
+    access: number;
+    name: string;
+    descriptor: string;
+    signature?: string; // Generic signature, when the member uses type variables or arguments
+    constantValue?: number | bigint | string; // ConstantValue of a static final field
+    parameterNames: string[]; // From MethodParameters or the LocalVariableTable, empty when compiled without them
+    exceptions: string[]; // Internal names ("java/io/IOException")
+}
+
+/** The parts of a .class file a stub needs. Class names are internal names ("com/acme/Outer$Inner") */
+interface ClassFile {
+    access: number;
+    thisClass: string;
+    superClass: string | null;
+    interfaces: string[];
+    signature?: string;
+    fields: ClassFileMember[];
+    methods: ClassFileMember[];
+    innerClasses: { name: string; outer: string | null; simpleName: string | null; access: number }[];
+}
+
+/** Transitive includes (or includers) of a page, as returned by jsp/includeHierarchy */
+interface IncludeHierarchyNode {
+    uri: string;
+    children: IncludeHierarchyNode[];
+    cycle?: boolean; // Page already appears higher up this branch
 }
 
 interface DocumentCache {
     version: number;
+    nodes: JspNode[];
     variables: VariableDeclaration[];
     imports: Map<string, string>; // simpleName -> fullyQualifiedName
+    importEntries: ImportEntry[];
 }
 
 // ─── State ──────────────────────────────────────────────────────────────────
 let workspaceFolders: string[] = [];
 let javaSourcePaths: JavaSourcePath[] = [];
+let javaSourcePathsConfig: string[] = [];
 let mavenDependencies: MavenDependency[] = [];
 let mavenRepoPath: string = '';
+let gradleCachePath: string = '';
+// Webapp directories declared by Gradle builds (src/main/webapp unless webAppDirName is set)
+let projectWebappPaths: string[] = [];
+// Gradle project directories already parsed (root projects and their subprojects)
+const gradleProjectPaths = new Set<string>();
 let javaHomePath: string = '';
 
 // Caches
 const documentCaches = new Map<string, DocumentCache>();
 // Cache: fullyQualifiedClassName -> { jarPath, entryName } for sources.jar lookups
 const sourceJarClassCache = new Map<string, { jarPath: string; entryName: string } | null>();
+// Cache: artifact path in a Gradle cache version directory -> jar under its hash directory
+const gradleJarCache = new Map<string, string>();
 // Cache: zip path -> AdmZip instance (avoid re-opening the same archive)
 const zipCache = new Map<string, AdmZip>();
 // Cache: extracted temp files for opening in editor
 const extractedFileCache = new Map<string, string>();
+// Cache: JDK class path ("java/lang/String.java") -> src.zip entry ("java.base/java/lang/String.java")
+let jdkEntryIndex: Map<string, string> | null = null;
+// Cache: zip path -> package directories that directly contain classes ("com/example")
+const zipPackageCache = new Map<string, Set<string>>();
+// Cache: taglib URI (or webapp-relative TLD path) -> parsed tag library
+let taglibIndex: Map<string, TagLibrary> | null = null;
+// Cache: tag directory -> library of its tag files
+const tagdirCache = new Map<string, TagLibrary | null>();
+// Include graph: including file path -> its include edges
+let includeGraph: Map<string, IncludeEdge[]> | null = null;
+// Include graph: including file path -> file names its include attributes name, resolved or not
+const includeTargetNames = new Map<string, Set<string>>();
+// Java usage index: page file path -> Java types and methods it references
+let javaUsageIndex: Map<string, JavaUsage[]> | null = null;
+// Java class index: simple class name -> classes with that name in workspace sources, Maven jars and the JDK
+let javaClassIndex: Map<string, JavaClassEntry[]> | null = null;
+// Background build of the Java class index, started once the client is initialized
+let javaClassIndexBuild: Promise<Map<string, JavaClassEntry[]>> | null = null;
+// Cache: Java source file path (workspace, extracted jar entry or stub) -> parsed declarations
+const javaUnitCache = new Map<string, { content: string; unit: JavaCompilationUnit }>();
+// Pending diagnostics runs per document URI
+const validationTimers = new Map<string, NodeJS.Timeout>();
 // Temp dir for extracted sources
 let tempDir: string = '';
 
@@ -84,9 +324,16 @@ connection.onInitialize((params: InitializeParams) => {
             textDocumentSync: TextDocumentSyncKind.Incremental,
             completionProvider: {
                 resolveProvider: true,
-                triggerCharacters: ['@', '<', ' ', '"', ':', '/', '.', '>', '/']
+                triggerCharacters: ['@', '<', ' ', '"', ':', '/', '.', '>', '/', '{']
             },
-            definitionProvider: true
+            definitionProvider: true,
+            hoverProvider: true,
+            signatureHelpProvider: { triggerCharacters: ['(', ','] },
+            typeHierarchyProvider: true,
+            documentLinkProvider: { resolveProvider: false },
+            referencesProvider: true,
+            renameProvider: { prepareProvider: true },
+            codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.SourceOrganizeImports] }
         }
     };
 
@@ -111,24 +358,15 @@ connection.onInitialize((params: InitializeParams) => {
             || path.join(os.homedir(), '.m2', 'repository');
         console.log('Maven repository:', mavenRepoPath);
 
-        // Collect Java source paths and Maven dependencies
-        const javaSourcePathsConfig: string[] = params.initializationOptions?.javaSourcePaths || [];
-        javaSourcePaths = [];
-        mavenDependencies = [];
-
-        for (const folder of workspaceFolders) {
-            collectJavaSourcePaths(folder, path.join(folder, 'pom.xml'), javaSourcePathsConfig);
-        }
+        // Resolve Gradle module cache (GRADLE_USER_HOME/caches/modules-2/files-2.1)
+        const gradleUserHome = params.initializationOptions?.gradleUserHome
+            || process.env.GRADLE_USER_HOME || path.join(os.homedir(), '.gradle');
+        gradleCachePath = path.join(gradleUserHome, 'caches', 'modules-2', 'files-2.1');
+        console.log('Gradle cache:', gradleCachePath);
 
-        // Fallback: scan for any pom.xml files not yet discovered
-        // This handles cases like:
-        //   - Parent POM in a subdirectory (e.g. parent-suite/pom.xml)
-        //   - Deeply nested multi-module Maven projects
-        //   - Modules not referenced in parent POM's <modules>
-        const discoveredPaths = new Set(javaSourcePaths.map(p => p.sourcePath));
-        for (const folder of workspaceFolders) {
-            scanForPomFiles(folder, discoveredPaths, javaSourcePathsConfig);
-        }
+        // Collect Java source paths and Maven / Gradle dependencies
+        javaSourcePathsConfig = params.initializationOptions?.javaSourcePaths || [];
+        collectProjects();
 
         console.log('All Java source paths:', javaSourcePaths);
         console.log('All Maven dependencies:', mavenDependencies.length);
@@ -137,6 +375,33 @@ connection.onInitialize((params: InitializeParams) => {
     return result;
 });
 
+/** Java source paths, dependencies and webapp directories of the Maven and Gradle builds in the workspace */
+function collectProjects(): void {
+    javaSourcePaths = [];
+    mavenDependencies = [];
+    projectWebappPaths = [];
+    gradleProjectPaths.clear();
+
+    for (const folder of workspaceFolders) {
+        collectJavaSourcePaths(folder, path.join(folder, 'pom.xml'), javaSourcePathsConfig);
+    }
+
+    // Fallback: scan for any pom.xml files or Gradle builds not yet discovered
+    // This handles cases like:
+    //   - Parent POM in a subdirectory (e.g. parent-suite/pom.xml)
+    //   - Deeply nested multi-module Maven projects
+    //   - Modules not referenced in parent POM's <modules>
+    //   - Gradle builds in a subdirectory of the workspace folder
+    const discoveredPaths = new Set(javaSourcePaths.map(p => p.sourcePath));
+    for (const folder of workspaceFolders) {
+        scanForPomFiles(folder, discoveredPaths, javaSourcePathsConfig);
+    }
+}
+
+connection.onInitialized(() => {
+    startJavaClassIndex();
+});
+
 // ─── Utility Functions ──────────────────────────────────────────────────────
 
 function uriToFsPath(uri: string): string {
@@ -169,6 +434,29 @@ function getZip(zipPath: string): AdmZip | null {
     }
 }
 
+/** Recursively collect files with the given extensions under a directory (with depth limit) */
+function collectFilesByExtension(dir: string, extensions: string[], skipDirs: Set<string>, depth: number = 0, maxDepth: number = 8): string[] {
+    if (depth > maxDepth) { return []; }
+    const results: string[] = [];
+
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+        return results;
+    }
+
+    for (const entry of entries) {
+        if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
+            results.push(path.join(dir, entry.name));
+        } else if (entry.isDirectory() && !skipDirs.has(entry.name)) {
+            results.push(...collectFilesByExtension(path.join(dir, entry.name), extensions, skipDirs, depth + 1, maxDepth));
+        }
+    }
+
+    return results;
+}
+
 // ─── POM Parsing ────────────────────────────────────────────────────────────
 
 function parsePomXml(pomPath: string): PomInfo & { dependencies: MavenDependency[] } {
@@ -230,6 +518,18 @@ function parsePomXml(pomPath: string): PomInfo & { dependencies: MavenDependency
 }
 
 function collectJavaSourcePaths(basePath: string, pomPath: string, configPaths: string[]): void {
+    if (!fs.existsSync(pomPath) && isGradleProject(basePath)) {
+        collectGradleSourcePaths(basePath, new Map());
+        // Configured paths add to the discovered source sets
+        for (const relPath of configPaths) {
+            const absPath = path.join(basePath, relPath);
+            if (fs.existsSync(absPath)) {
+                addSourcePathIfNew(basePath, absPath);
+            }
+        }
+        return;
+    }
+
     if (!fs.existsSync(pomPath)) {
         const paths = configPaths.length > 0 ? configPaths : ['src/main/java', 'java', 'src', ''];
         for (const relPath of paths) {
@@ -252,9 +552,7 @@ function collectJavaSourcePaths(basePath: string, pomPath: string, configPaths:
 
     // Collect Maven dependencies (deduplicate)
     for (const dep of pomInfo.dependencies) {
-        if (!mavenDependencies.some(d => d.groupId === dep.groupId && d.artifactId === dep.artifactId && d.version === dep.version)) {
-            mavenDependencies.push(dep);
-        }
+        addDependencyIfNew(dep);
     }
 
     // Recurse into sub-modules
@@ -270,12 +568,18 @@ function addSourcePathIfNew(modulePath: string, sourcePath: string): void {
     }
 }
 
+function addDependencyIfNew(dep: MavenDependency): void {
+    if (!mavenDependencies.some(d => d.groupId === dep.groupId && d.artifactId === dep.artifactId && d.version === dep.version)) {
+        mavenDependencies.push(dep);
+    }
+}
+
 /** Directories to skip when scanning for pom.xml files */
-const SCAN_SKIP_DIRS = new Set(['node_modules', '.git', 'target', 'build', '.idea', '.settings', 'bin', '.mvn']);
+const SCAN_SKIP_DIRS = new Set(['node_modules', '.git', 'target', 'build', '.idea', '.settings', 'bin', '.mvn', '.gradle']);
 
 /**
- * Recursively scan a directory for pom.xml files that were not already
- * discovered through the normal module-recursion path.
+ * Recursively scan a directory for pom.xml files (and Gradle builds) that were
+ * not already discovered through the normal module-recursion path.
  * This serves as a fallback for:
  *   - Parent POM located in a subdirectory
  *   - Deeply nested multi-module projects
@@ -313,10 +617,10 @@ function scanForPomFiles(dir: string, alreadyDiscovered: Set<string>, configPath
 
             // Collect Maven dependencies (deduplicate)
             for (const dep of pomInfo.dependencies) {
-                if (!mavenDependencies.some(d => d.groupId === dep.groupId && d.artifactId === dep.artifactId && d.version === dep.version)) {
-                    mavenDependencies.push(dep);
-                }
+                addDependencyIfNew(dep);
             }
+        } else if (isGradleProject(subDir)) {
+            collectGradleSourcePaths(subDir, new Map());
         }
 
         // Continue scanning deeper
@@ -324,421 +628,4070 @@ function scanForPomFiles(dir: string, alreadyDiscovered: Set<string>, configPath
     }
 }
 
-// ─── Document Caching ───────────────────────────────────────────────────────
+// ─── Gradle Build Parsing ───────────────────────────────────────────────────
 
-function getDocCache(doc: TextDocumentContent): DocumentCache {
-    const uri = doc.uri;
-    const existing = documentCaches.get(uri);
-    if (existing && existing.version === doc.version) {
-        return existing;
-    }
+/** Settings and build script names (Groovy DSL first, then Kotlin DSL) */
+const GRADLE_SETTINGS_FILES = ['settings.gradle', 'settings.gradle.kts'];
+const GRADLE_BUILD_FILES = ['build.gradle', 'build.gradle.kts'];
 
-    const text = doc.getText();
-    const variables = parseVariableDeclarations(text);
-    const imports = parseImports(text);
-    const cache: DocumentCache = { version: doc.version, variables, imports };
-    documentCaches.set(uri, cache);
-    return cache;
+/** Calls inside a dependencies block whose string argument is not a module coordinate */
+const GRADLE_NON_COORDINATE_CALLS = new Set([
+    'project', 'files', 'fileTree', 'platform', 'enforcedPlatform', 'kotlin',
+    'gradleApi', 'localGroovy', 'because', 'exclude', 'strictly', 'require', 'prefer', 'reject',
+]);
+
+/** Literal assignments usable as version variables: def/val x = '1.0', ext.x = '1.0', set("x", "1.0"), extra["x"] = "1.0" */
+const GRADLE_PROPERTY_RES = [
+    /\b(\w+)\s*(?::\s*String\s*)?=\s*(['"])([^'"$\n]*)\2/g,
+    /\bset\(\s*(['"])(\w+)\1\s*,\s*(['"])([^'"$\n]*)\3\s*\)/g,
+    /\bextra\[\s*(['"])(\w+)\1\s*\]\s*=\s*(['"])([^'"$\n]*)\3/g,
+    /\bval\s+(\w+)\s+by\s+extra\(\s*(['"])([^'"$\n]*)\2\s*\)/g,
+];
+
+function findGradleFile(dir: string, names: string[]): string | null {
+    for (const name of names) {
+        const filePath = path.join(dir, name);
+        if (fs.existsSync(filePath)) { return filePath; }
+    }
+    return null;
 }
 
-function parseImports(text: string): Map<string, string> {
-    const imports = new Map<string, string>();
+function isGradleProject(dir: string): boolean {
+    return findGradleFile(dir, GRADLE_SETTINGS_FILES) !== null || findGradleFile(dir, GRADLE_BUILD_FILES) !== null;
+}
 
-    // JSP import directives: <%@page import="com.A,com.B" %>
-    // Handle multi-line directives by scanning the whole text
-    const jspImportRe = /<%@\s*page[\s\S]*?import="([^"]*?)"\s*[\s\S]*?%>/g;
-    let m;
-    while ((m = jspImportRe.exec(text)) !== null) {
-        const importList = m[1];
-        for (const entry of importList.split(',')) {
-            const fqn = entry.trim().replace(/\s+/g, '');
-            if (fqn) {
-                const simpleName = fqn.split('.').pop()!;
-                if (simpleName !== '*') {
-                    imports.set(simpleName, fqn);
-                }
-            }
-        }
+/** Read a Gradle script with its comments replaced by spaces (strings are kept) */
+function readGradleScript(filePath: string | null): string {
+    if (!filePath) { return ''; }
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return content.replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+            (m, str) => str ?? m.replace(/[^\n]/g, ' '));
+    } catch (error) {
+        console.error('Error reading Gradle script:', filePath, error);
+        return '';
     }
+}
 
-    // Java-style imports inside scriptlets: import com.example.MyClass;
-    const javaImportRe = /\bimport\s+([\w.]+)\s*;/g;
-    while ((m = javaImportRe.exec(text)) !== null) {
-        const fqn = m[1];
-        const simpleName = fqn.split('.').pop()!;
-        if (simpleName !== '*') {
-            imports.set(simpleName, fqn);
+/**
+ * Blocks "name { ... }" of a Gradle script, with the offsets of the whole block.
+ * `name` is a regex source, e.g. 'main|getByName\\("main"\\)'.
+ */
+function findGradleBlocks(content: string, name: string): { body: string; start: number; end: number }[] {
+    const blocks: { body: string; start: number; end: number }[] = [];
+    const re = new RegExp(`(^|[^\\w.])(?:${name})\\s*\\{`, 'g');
+    let m;
+    while ((m = re.exec(content)) !== null) {
+        const bodyStart = m.index + m[0].length;
+        let depth = 1;
+        let i = bodyStart;
+        for (; i < content.length && depth > 0; i++) {
+            if (content[i] === '{') { depth++; }
+            else if (content[i] === '}') { depth--; }
         }
+        blocks.push({ body: content.slice(bodyStart, depth === 0 ? i - 1 : i), start: m.index + m[1].length, end: i });
+        re.lastIndex = i;
     }
-
-    return imports;
+    return blocks;
 }
 
-function parseVariableDeclarations(text: string): VariableDeclaration[] {
-    const declarations: VariableDeclaration[] = [];
-    const scriptletRe = /<%[\s\S]*?%>/g;
-    let block;
+/** Quoted strings of a Groovy / Kotlin argument list */
+function getGradleStrings(text: string): string[] {
+    return [...text.matchAll(/(['"])([^'"\n]*)\1/g)].map(m => m[2]);
+}
 
-    while ((block = scriptletRe.exec(text)) !== null) {
-        const content = block[0];
+/**
+ * Subprojects of a settings script: include 'app', ':lib:core' / include(":app"),
+ * mapped to their directories (":lib:core" -> "lib/core", or its projectDir when set).
+ */
+function parseGradleSettings(settingsPath: string): string[] {
+    const content = readGradleScript(settingsPath);
+    const projectDirs = new Map<string, string>();
+    const dirRe = /\bproject\(\s*(['"])([^'"]+)\1\s*\)\.projectDir\s*=\s*(?:file\(|new\s+File\(\s*(?:rootDir|settingsDir)\s*,)\s*(['"])([^'"]+)\3/g;
+    for (const m of content.matchAll(dirRe)) {
+        projectDirs.set(m[2].replace(/^:/, ''), m[4]);
+    }
 
-        // Type var = ...
-        const declRe = /([A-Z][\w]*(?:\.[A-Z][\w]*)*)\s+([a-z][\w]*)\s*=/g;
-        let m;
-        while ((m = declRe.exec(content)) !== null) {
-            declarations.push({ name: m[2], type: m[1] });
+    const modules: string[] = [];
+    const includeRe = /\binclude\b\s*\(?((?:\s*(['"])[^'"\n]+\2\s*,?)+)/g;
+    for (const m of content.matchAll(includeRe)) {
+        for (const project of getGradleStrings(m[1])) {
+            const name = project.replace(/^:/, '');
+            if (!name) { continue; }
+            const dir = projectDirs.get(name) ?? name.split(':').join('/');
+            if (!modules.includes(dir)) { modules.push(dir); }
         }
+    }
+    return modules;
+}
 
-        // for (Type var : collection)
-        const forRe = /for\s*\(\s*([A-Z][\w]*(?:\.[A-Z][\w]*)*)\s+([a-z][\w]*)\s*:/g;
-        while ((m = forRe.exec(content)) !== null) {
-            declarations.push({ name: m[2], type: m[1] });
+/** Properties of gradle.properties and of literal assignments in a build script */
+function collectGradleProperties(projectDir: string, content: string, inherited: Map<string, string>): Map<string, string> {
+    const properties = new Map(inherited);
+    try {
+        const propertiesPath = path.join(projectDir, 'gradle.properties');
+        if (fs.existsSync(propertiesPath)) {
+            for (const line of fs.readFileSync(propertiesPath, 'utf-8').split(/\r?\n/)) {
+                const m = /^\s*([\w.-]+)\s*[=:]\s*(.*?)\s*$/.exec(line);
+                if (m && !line.trimStart().startsWith('#')) { properties.set(m[1], m[2]); }
+            }
         }
+    } catch (error) {
+        console.error('Error reading gradle.properties:', projectDir, error);
     }
 
-    return declarations;
+    for (const re of GRADLE_PROPERTY_RES) {
+        for (const m of content.matchAll(re)) {
+            // Name and value are the first and last capture that is not a quote
+            const groups = m.slice(1).filter(g => g !== '"' && g !== '\'');
+            properties.set(groups[0], groups[groups.length - 1]);
+        }
+    }
+    return properties;
 }
 
-// ─── Class Resolution ───────────────────────────────────────────────────────
+/** Substitute $name / ${name} / ${rootProject.ext.name}; null when a variable is unknown */
+function interpolateGradleString(value: string, properties: Map<string, string>): string | null {
+    let unresolved = false;
+    const result = value.replace(/\$\{\s*([\w.]+)\s*\}|\$(\w+)/g, (_, dotted: string | undefined, simple: string | undefined) => {
+        const name = simple ?? dotted!.split('.').pop()!;
+        const resolved = properties.get(name);
+        if (resolved === undefined) { unresolved = true; }
+        return resolved ?? '';
+    });
+    return unresolved || result.includes('$') ? null : result;
+}
 
 /**
- * Directly resolve a .java file by package path (no recursive search).
- * e.g. "com.example.MyClass" -> srcPath/com/example/MyClass.java
+ * Newest version of a module in the Gradle cache or the Maven repository, for
+ * dependencies whose version comes from a platform / BOM or is dynamic ("1.+").
  */
-function resolveJavaFileDirect(srcPath: string, fqn: string): string | null {
-    const relativePath = fqn.replace(/\./g, path.sep) + '.java';
-    const fullPath = path.join(srcPath, relativePath);
-    if (fs.existsSync(fullPath)) {
-        return fullPath;
+function findCachedDependencyVersion(groupId: string, artifactId: string): string | null {
+    const versions: string[] = [];
+    for (const dir of [
+        path.join(gradleCachePath, groupId, artifactId),
+        path.join(mavenRepoPath, groupId.replace(/\./g, path.sep), artifactId),
+    ]) {
+        try {
+            versions.push(...fs.readdirSync(dir, { withFileTypes: true }).filter(e => e.isDirectory()).map(e => e.name));
+        } catch {
+            // Not in this repository
+        }
     }
-    return null;
+    versions.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    return versions[0] ?? null;
 }
 
-/**
- * Find the line number (0-based) where a class/interface/enum is defined.
- */
-function findClassLine(content: string, simpleClassName: string): number {
-    const lines = content.split('\n');
-    const re = new RegExp(`\\b(?:class|interface|enum)\\s+${simpleClassName}\\b`);
-    for (let i = 0; i < lines.length; i++) {
-        if (re.test(lines[i])) {
-            return i;
-        }
+function toGradleDependency(groupId: string, artifactId: string, version: string | null): MavenDependency | null {
+    if (!groupId || !artifactId) { return null; }
+    if (!version || /[+[\]()]|^latest\./.test(version)) {
+        version = findCachedDependencyVersion(groupId, artifactId);
     }
-    return -1;
+    return version ? { groupId, artifactId, version } : null;
 }
 
 /**
- * Find a method definition in Java source content.
+ * Module dependencies of the dependencies blocks (buildscript classpath excluded), in
+ * string notation ('g:a:v', "g:a:v:classifier@jar") and map notation
+ * (group: 'g', name: 'a', version: 'v' / group = "g", name = "a", version = "v").
  */
-function findMethodLine(content: string, simpleClassName: string, methodName: string, paramCount: number): { line: number; col: number } | null {
-    const lines = content.split('\n');
-    const classRe = new RegExp(`\\b(?:class|interface|enum)\\s+${simpleClassName}\\b`);
-    let inClass = false;
-    let bracketCount = 0;
-    let bestMatch: { line: number; col: number; paramDiff: number } | null = null;
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        if (!inClass) {
-            if (classRe.test(line)) {
-                inClass = true;
-                bracketCount = 0;
-            }
-            continue;
-        }
+function parseGradleDependencies(content: string, properties: Map<string, string>): MavenDependency[] {
+    for (const block of findGradleBlocks(content, 'buildscript').reverse()) {
+        content = content.slice(0, block.start) + ' '.repeat(block.end - block.start) + content.slice(block.end);
+    }
 
-        for (const ch of line) {
-            if (ch === '{') { bracketCount++; }
-            else if (ch === '}') { bracketCount--; }
+    const dependencies: MavenDependency[] = [];
+    for (const { body } of findGradleBlocks(content, 'dependencies')) {
+        const stringRe = /\b(\w+)\s*\(?\s*(['"])([^'"\n]+)\2/g;
+        for (const m of body.matchAll(stringRe)) {
+            if (GRADLE_NON_COORDINATE_CALLS.has(m[1])) { continue; }
+            const notation = m[3].replace(/@\w+$/, '');
+            const coordinates = interpolateGradleString(notation, properties);
+            const parts = (coordinates ?? notation).split(':');
+            if (parts.length < 2) { continue; }
+            const dep = toGradleDependency(parts[0], parts[1], coordinates !== null ? parts[2] ?? null : null);
+            if (dep) { dependencies.push(dep); }
         }
-        if (bracketCount < 0) { break; }
-
-        const methodRe = new RegExp(`\\b${methodName}\\s*\\(`);
-        const match = methodRe.exec(line);
-        if (match) {
-            let fullSig = line.substring(match.index);
-            let j = i;
-            while (!fullSig.includes(')') && j < lines.length - 1) {
-                j++;
-                fullSig += ' ' + lines[j];
-            }
-            const paramStr = fullSig.substring(fullSig.indexOf('(') + 1, fullSig.indexOf(')'));
-            const params = paramStr.trim() ? paramStr.split(',').length : 0;
-            const diff = Math.abs(params - paramCount);
 
-            if (diff === 0) {
-                return { line: i, col: match.index };
-            }
-            if (!bestMatch || diff < bestMatch.paramDiff) {
-                bestMatch = { line: i, col: match.index, paramDiff: diff };
+        const mapRe = /\b(\w+)\s*\(?\s*((?:\w+\s*[:=]\s*(['"])[^'"\n]*\3\s*,?\s*)+)/g;
+        for (const m of body.matchAll(mapRe)) {
+            if (GRADLE_NON_COORDINATE_CALLS.has(m[1])) { continue; }
+            const attributes = new Map<string, string>();
+            for (const a of m[2].matchAll(/(\w+)\s*[:=]\s*(['"])([^'"\n]*)\2/g)) {
+                attributes.set(a[1], a[3]);
             }
+            const group = interpolateGradleString(attributes.get('group') ?? '', properties);
+            const name = interpolateGradleString(attributes.get('name') ?? '', properties);
+            const version = attributes.has('version') ? interpolateGradleString(attributes.get('version')!, properties) : null;
+            const dep = group && name ? toGradleDependency(group, name, version) : null;
+            if (dep) { dependencies.push(dep); }
         }
     }
-
-    return bestMatch ? { line: bestMatch.line, col: bestMatch.col } : null;
+    return dependencies;
 }
 
 /**
- * Sort source paths to prioritize the module containing the current file.
+ * Java source directories of the main source set. `srcDirs = [...]` / `setSrcDirs(...)`
+ * replace the src/main/java convention, `srcDir` / `srcDirs(...)` add to it.
  */
-function sortSourcePaths(currentFileUri: string | undefined): JavaSourcePath[] {
-    if (!currentFileUri || !currentFileUri.startsWith('file://')) {
-        return javaSourcePaths;
+function parseGradleSourceSets(content: string): string[] {
+    const mainBlocks = [
+        ...findGradleBlocks(content, 'sourceSets').flatMap(b =>
+            findGradleBlocks(b.body, 'main|getByName\\(\\s*"main"\\s*\\)|named\\(\\s*"main"\\s*\\)')),
+        ...findGradleBlocks(content, 'sourceSets\\s*\\.\\s*main'),
+    ];
+    const statements: string[] = [];
+    for (const main of mainBlocks) {
+        statements.push(...findGradleBlocks(main.body, 'java').map(b => b.body));
+        statements.push(...[...main.body.matchAll(/\bjava\s*\.\s*((?:set)?[sS]rcDirs?\b[^\n]*)/g)].map(m => m[1]));
     }
-    try {
-        const currentFilePath = fileURLToPath(currentFileUri);
-        return [...javaSourcePaths].sort((a, b) => {
-            const aIn = currentFilePath.startsWith(a.modulePath);
-            const bIn = currentFilePath.startsWith(b.modulePath);
-            if (aIn && !bIn) { return -1; }
-            if (!aIn && bIn) { return 1; }
-            return b.modulePath.length - a.modulePath.length;
-        });
-    } catch {
-        return javaSourcePaths;
+    const dottedRe = /\bsourceSets\s*(?:\.\s*main|\[\s*"main"\s*\]|\.getByName\(\s*"main"\s*\))\s*\.\s*java\s*\.\s*((?:set)?[sS]rcDirs?\b[^\n]*)/g;
+    statements.push(...[...content.matchAll(dottedRe)].map(m => m[1]));
+
+    let directories = ['src/main/java'];
+    for (const statement of statements) {
+        for (const m of statement.matchAll(/\b(setSrcDirs|srcDirs?)\b(\s*=)?([^\n]*)/g)) {
+            const dirs = getGradleStrings(m[3]);
+            if (m[1] === 'setSrcDirs' || m[2]) {
+                directories = dirs;
+            } else {
+                directories.push(...dirs.filter(d => !directories.includes(d)));
+            }
+        }
     }
+    return directories;
 }
 
-// ─── Go to Definition: Workspace Sources ────────────────────────────────────
+/** Webapp directory of the war plugin: webAppDirName / webAppDirectory, or src/main/webapp */
+function parseGradleWebappDirectory(content: string): string {
+    const m = /\bwebAppDirName\s*=\s*(['"])([^'"\n]+)\1/.exec(content)
+        ?? /\bwebAppDirectory(?:\s*=|\.set\()\s*(?:file\(|layout\.projectDirectory\.dir\()\s*(['"])([^'"\n]+)\1/.exec(content);
+    return m ? m[2] : 'src/main/webapp';
+}
 
-async function findJavaDefinition(className: string, currentFileUri?: string): Promise<Location | null> {
-    console.log('findJavaDefinition:', className);
-    const simpleClass = className.split('.').pop()!;
-    const sorted = sortSourcePaths(currentFileUri);
+/**
+ * Parse the settings and build scripts of a Gradle project directory. Subprojects
+ * inherit the version properties of their parent (gradle.properties and ext blocks).
+ */
+function parseGradleBuild(projectDir: string, inheritedProperties: Map<string, string>): PomInfo & {
+    dependencies: MavenDependency[];
+    webappDirectory: string;
+    properties: Map<string, string>;
+} {
+    const settingsPath = findGradleFile(projectDir, GRADLE_SETTINGS_FILES);
+    const content = readGradleScript(findGradleFile(projectDir, GRADLE_BUILD_FILES));
+    const properties = collectGradleProperties(projectDir, content, inheritedProperties);
+    return {
+        sourceDirectories: parseGradleSourceSets(content),
+        modules: settingsPath ? parseGradleSettings(settingsPath) : [],
+        dependencies: parseGradleDependencies(content, properties),
+        webappDirectory: parseGradleWebappDirectory(content),
+        properties,
+    };
+}
 
-    for (const srcInfo of sorted) {
-        const filePath = resolveJavaFileDirect(srcInfo.sourcePath, className);
-        if (!filePath) { continue; }
+function collectGradleSourcePaths(basePath: string, inheritedProperties: Map<string, string>): void {
+    if (gradleProjectPaths.has(basePath)) { return; }
+    gradleProjectPaths.add(basePath);
 
-        const content = fs.readFileSync(filePath, 'utf-8');
+    const buildInfo = parseGradleBuild(basePath, inheritedProperties);
 
-        // Verify package matches if FQN was given
-        if (className.includes('.')) {
-            const expectedPkg = className.substring(0, className.lastIndexOf('.'));
-            const pkgMatch = content.match(/^\s*package\s+([\w.]+)\s*;/m);
-            const actualPkg = pkgMatch ? pkgMatch[1] : '';
-            if (actualPkg !== expectedPkg) { continue; }
+    for (const relPath of buildInfo.sourceDirectories) {
+        const absPath = path.join(basePath, relPath);
+        if (fs.existsSync(absPath)) {
+            addSourcePathIfNew(basePath, absPath);
         }
+    }
 
-        const line = findClassLine(content, simpleClass);
-        if (line >= 0) {
-            const lineText = content.split('\n')[line];
-            const col = lineText.indexOf(simpleClass);
-            return Location.create(
-                pathToFileURL(filePath).toString(),
-                Range.create(Position.create(line, col >= 0 ? col : 0), Position.create(line, (col >= 0 ? col : 0) + simpleClass.length))
-            );
-        }
+    for (const dep of buildInfo.dependencies) {
+        addDependencyIfNew(dep);
     }
 
-    return null;
+    const webappPath = path.join(basePath, buildInfo.webappDirectory);
+    if (fs.existsSync(webappPath) && !projectWebappPaths.includes(webappPath)) {
+        projectWebappPaths.push(webappPath);
+    }
+
+    // Recurse into the subprojects of settings.gradle
+    for (const mod of buildInfo.modules) {
+        collectGradleSourcePaths(path.join(basePath, mod), buildInfo.properties);
+    }
 }
 
-async function findJavaMethodDefinition(className: string, methodName: string, paramCount: number, currentFileUri?: string): Promise<Location | null> {
-    console.log('findJavaMethodDefinition:', className, methodName, paramCount);
-    const simpleClass = className.split('.').pop()!;
-    const sorted = sortSourcePaths(currentFileUri);
+// ─── JSP Tokenizer ──────────────────────────────────────────────────────────
 
-    for (const srcInfo of sorted) {
-        const filePath = resolveJavaFileDirect(srcInfo.sourcePath, className);
-        if (!filePath) { continue; }
+/** Directive, standard action or custom tag prefix (e.g. "<jsp:include", "</c:forEach") */
+const JSP_TAG_START_RE = /<(\/?)([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)(?=[\s/>]|$)/y;
+const ATTRIBUTE_NAME_RE = /[A-Za-z_:][\w:.-]*/y;
 
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const result = findMethodLine(content, simpleClass, methodName, paramCount);
-        if (result) {
-            return Location.create(
-                pathToFileURL(filePath).toString(),
-                Range.create(Position.create(result.line, result.col), Position.create(result.line, result.col + methodName.length))
-            );
+/**
+ * Split a page into its JSP constructs. Every offset is absolute in the document text.
+ * Template HTML is kept as 'template' nodes so the list covers the whole page.
+ */
+function tokenizeJsp(text: string): JspNode[] {
+    const nodes: JspNode[] = [];
+    let templateStart = 0;
+    let i = 0;
+
+    const flushTemplate = (upTo: number) => {
+        if (upTo > templateStart) {
+            nodes.push({ kind: 'template', start: templateStart, end: upTo, contentStart: templateStart, contentEnd: upTo, closed: true });
+        }
+    };
+
+    while (i < text.length) {
+        let node: JspNode | null = null;
+        const ch = text[i];
+
+        if (ch === '<') {
+            if (text.startsWith('<%', i)) {
+                node = scanScriptingElement(text, i);
+            } else {
+                node = scanJspTag(text, i);
+            }
+        } else if (isElStart(text, i)) {
+            node = scanEl(text, i);
+        }
+
+        if (node) {
+            flushTemplate(i);
+            nodes.push(node);
+            i = node.end;
+            templateStart = i;
+        } else {
+            i++;
         }
     }
+    flushTemplate(text.length);
 
-    return null;
+    return nodes;
 }
 
-// ─── Go to Definition: Maven Sources JAR ────────────────────────────────────
-
-function getSourcesJarPath(dep: MavenDependency): string {
-    const groupPath = dep.groupId.replace(/\./g, path.sep);
-    return path.join(mavenRepoPath, groupPath, dep.artifactId, dep.version,
-        `${dep.artifactId}-${dep.version}-sources.jar`);
+function isElStart(text: string, i: number): boolean {
+    return (text[i] === '$' || text[i] === '#') && text[i + 1] === '{' && text[i - 1] !== '\\';
 }
 
 /**
- * Find which sources.jar contains a given fully qualified class name.
+ * Scan a JSP comment, directive, scriptlet, expression or declaration starting at "<%".
  */
-function findClassInSourcesJars(fqn: string): { jarPath: string; entryName: string } | null {
-    if (sourceJarClassCache.has(fqn)) {
-        return sourceJarClassCache.get(fqn)!;
+function scanScriptingElement(text: string, start: number): JspNode {
+    if (text.startsWith('<%--', start)) {
+        const close = text.indexOf('--%>', start + 4);
+        const closed = close !== -1;
+        return {
+            kind: 'comment', start, end: closed ? close + 4 : text.length,
+            contentStart: start + 4, contentEnd: closed ? close : text.length, closed
+        };
     }
 
-    const entryName = fqn.replace(/\./g, '/') + '.java';
-
-    for (const dep of mavenDependencies) {
-        const jarPath = getSourcesJarPath(dep);
-        const zip = getZip(jarPath);
-        if (!zip) { continue; }
-
-        const entry = zip.getEntry(entryName);
-        if (entry) {
-            const result = { jarPath, entryName };
-            sourceJarClassCache.set(fqn, result);
-            return result;
-        }
+    if (text[start + 2] === '@') {
+        let nameStart = start + 3;
+        while (nameStart < text.length && /\s/.test(text[nameStart])) { nameStart++; }
+        let nameEnd = nameStart;
+        while (nameEnd < text.length && /[\w.]/.test(text[nameEnd])) { nameEnd++; }
+
+        const scan = scanAttributes(text, nameEnd, true);
+        return {
+            kind: 'directive', start, end: scan.end,
+            contentStart: start + 3, contentEnd: scan.closed ? scan.end - 2 : scan.end, closed: scan.closed,
+            name: text.substring(nameStart, nameEnd), attributes: scan.attributes, children: scan.children
+        };
     }
 
-    sourceJarClassCache.set(fqn, null);
-    return null;
+    const marker = text[start + 2];
+    const kind: JspNodeKind = marker === '!' ? 'declaration' : marker === '=' ? 'expression' : 'scriptlet';
+    const contentStart = start + (kind === 'scriptlet' ? 2 : 3);
+    const close = findJavaCodeEnd(text, contentStart);
+    const closed = close !== -1;
+
+    return {
+        kind, start, end: closed ? close + 2 : text.length,
+        contentStart, contentEnd: closed ? close : text.length, closed
+    };
 }
 
 /**
- * Extract a Java source from a zip/jar to a temp file and return its path.
+ * Find the "%>" that terminates a Java code block, skipping string and char literals.
+ * Returns -1 when the block is never closed.
  */
-function extractSourceToTemp(zipPath: string, entryName: string): string | null {
-    const cacheKey = `${zipPath}::${entryName}`;
+function findJavaCodeEnd(text: string, from: number): number {
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            // Literals cannot span lines, which keeps a stray quote from eating the page
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '%' && text[i + 1] === '>') { return i; }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Scan an EL expression "${...}" or "#{...}", honouring nested braces and EL string literals.
+ * An unterminated expression only extends to the end of its line.
+ */
+function scanEl(text: string, start: number): JspNode {
+    let depth = 0;
+    let i = start + 2;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            if (depth === 0) {
+                return {
+                    kind: 'el', start, end: i + 1, contentStart: start + 2, contentEnd: i,
+                    closed: true, deferred: text[start] === '#'
+                };
+            }
+            depth--;
+        }
+        i++;
+    }
+
+    const lineEnd = text.indexOf('\n', start);
+    const end = lineEnd === -1 ? text.length : lineEnd;
+    return { kind: 'el', start, end, contentStart: start + 2, contentEnd: end, closed: false, deferred: text[start] === '#' };
+}
+
+/**
+ * Scan a standard action ("jsp:*") or custom tag ("prefix:name") start or end tag.
+ * Returns null when the "<" does not open a prefixed tag (plain HTML stays template text).
+ */
+function scanJspTag(text: string, start: number): JspNode | null {
+    JSP_TAG_START_RE.lastIndex = start;
+    const m = JSP_TAG_START_RE.exec(text);
+    if (!m) { return null; }
+
+    const contentStart = start + m[0].length;
+    const scan = scanAttributes(text, contentStart, false);
+    const contentEnd = scan.closed ? scan.end - (scan.selfClosing ? 2 : 1) : scan.end;
+
+    return {
+        kind: m[2] === 'jsp' ? 'action' : 'customTag',
+        start, end: scan.end, contentStart, contentEnd, closed: scan.closed,
+        name: `${m[2]}:${m[3]}`, attributes: scan.attributes, children: scan.children,
+        isEndTag: m[1] === '/', selfClosing: scan.selfClosing
+    };
+}
+
+interface AttributeScan {
+    attributes: JspAttribute[];
+    /** Expressions and EL embedded in attribute values */
+    children: JspNode[];
+    /** Offset just past the terminator, or where scanning gave up */
+    end: number;
+    closed: boolean;
+    selfClosing: boolean;
+}
+
+/**
+ * Scan name="value" pairs up to "%>" (directives) or ">" / "/>" (tags).
+ * A "<" outside a quoted value means the element was never terminated.
+ */
+function scanAttributes(text: string, from: number, directive: boolean): AttributeScan {
+    const attributes: JspAttribute[] = [];
+    const children: JspNode[] = [];
+    const result = (end: number, closed: boolean, selfClosing: boolean = false): AttributeScan =>
+        ({ attributes, children, end, closed, selfClosing });
+
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (directive && text.startsWith('%>', i)) { return result(i + 2, true); }
+        if (!directive && ch === '>') { return result(i + 1, true); }
+        if (!directive && text.startsWith('/>', i)) { return result(i + 2, true, true); }
+        if (ch === '<') { return result(i, false); }
+
+        ATTRIBUTE_NAME_RE.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME_RE.exec(text);
+        if (!nameMatch) { i++; continue; }
+
+        const attr: JspAttribute = {
+            name: nameMatch[0], value: '', nameStart: i,
+            valueStart: i + nameMatch[0].length, valueEnd: i + nameMatch[0].length
+        };
+        attributes.push(attr);
+        i += nameMatch[0].length;
+
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+        if (text[j] !== '=') { continue; }
+        j++;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+
+        const quote = text[j];
+        if (quote === '"' || quote === "'") {
+            let k = j + 1;
+            while (k < text.length && text[k] !== quote) {
+                if (text.startsWith('<%', k)) {
+                    const child = scanScriptingElement(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else if (isElStart(text, k)) {
+                    const child = scanEl(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else {
+                    k++;
+                }
+            }
+            attr.valueStart = j + 1;
+            attr.valueEnd = Math.min(k, text.length);
+            attr.value = text.substring(attr.valueStart, attr.valueEnd);
+            if (k >= text.length) { return result(text.length, false); }
+            i = k + 1;
+        } else {
+            let k = j;
+            while (k < text.length && !/[\s>]/.test(text[k]) && !text.startsWith('%>', k)) { k++; }
+            attr.valueStart = j;
+            attr.valueEnd = k;
+            attr.value = text.substring(j, k);
+            i = k;
+        }
+    }
+
+    return result(text.length, false);
+}
+
+// ─── Document Model Queries ─────────────────────────────────────────────────
+
+function isJavaNode(node: JspNode | undefined): boolean {
+    return !!node && (node.kind === 'scriptlet' || node.kind === 'expression' || node.kind === 'declaration');
+}
+
+/** Page directives, including the XML form <jsp:directive.page .../> used in .jspx */
+function isPageDirective(node: JspNode): boolean {
+    return (node.kind === 'directive' && node.name === 'page')
+        || (node.kind === 'action' && node.name === 'jsp:directive.page');
+}
+
+function getAttribute(node: JspNode, name: string): JspAttribute | undefined {
+    return node.attributes?.find(a => a.name === name);
+}
+
+/** The attribute whose value holds the offset, if the offset is inside a value */
+function getAttributeAtValue(node: JspNode, offset: number): JspAttribute | undefined {
+    return node.attributes?.find(a =>
+        a.valueStart > a.nameStart + a.name.length && offset >= a.valueStart && offset <= a.valueEnd);
+}
+
+function nodeContains(node: JspNode, offset: number): boolean {
+    // Unterminated nodes also own the position right after their last character
+    return offset >= node.start && (offset < node.end || (!node.closed && offset === node.end));
+}
+
+/** Find the top-level node at an offset */
+function findTopLevelNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    let lo = 0;
+    let hi = nodes.length - 1;
+    let candidate = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (nodes[mid].start <= offset) {
+            candidate = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    if (candidate === -1) { return undefined; }
+
+    const node = nodes[candidate];
+    return nodeContains(node, offset) ? node : undefined;
+}
+
+/**
+ * Find the innermost node at an offset, descending into expressions and EL
+ * embedded in tag attribute values.
+ */
+function findNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    const node = findTopLevelNodeAt(nodes, offset);
+    if (!node) { return undefined; }
+
+    const child = node.children?.find(c => nodeContains(c, offset));
+    return child ?? node;
+}
+
+/** Java code blocks, including <%= %> expressions embedded in tag attributes */
+function getJavaNodes(nodes: JspNode[]): JspNode[] {
+    const result: JspNode[] = [];
+    for (const node of nodes) {
+        if (isJavaNode(node)) {
+            result.push(node);
+        } else if (node.children) {
+            result.push(...node.children.filter(isJavaNode));
+        }
+    }
+    return result;
+}
+
+// ─── Document Caching ───────────────────────────────────────────────────────
+
+function getDocCache(doc: TextDocumentContent): DocumentCache {
+    const uri = doc.uri;
+    const existing = documentCaches.get(uri);
+    if (existing && existing.version === doc.version) {
+        return existing;
+    }
+
+    const cache = buildDocCache(doc);
+    documentCaches.set(uri, cache);
+    return cache;
+}
+
+/** Cached model for open documents; pages read from disk are parsed without caching */
+function getPageCache(doc: TextDocumentContent): DocumentCache {
+    return documents.get(doc.uri) === doc ? getDocCache(doc) : buildDocCache(doc);
+}
+
+/** Parse a document without caching it, e.g. a page read from disk for an index */
+function buildDocCache(doc: TextDocumentContent): DocumentCache {
+    const text = doc.getText();
+    const nodes = tokenizeJsp(text);
+    const variables = parseVariableDeclarations(text, nodes);
+    const importEntries = parseImports(text, nodes);
+    const imports = new Map<string, string>();
+    for (const entry of importEntries) {
+        const simpleName = entry.fqn.split('.').pop()!;
+        if (simpleName !== '*') {
+            imports.set(simpleName, entry.fqn);
+        }
+    }
+
+    return { version: doc.version, nodes, variables, imports, importEntries };
+}
+
+function parseImports(text: string, nodes: JspNode[]): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+
+    // JSP import directives: <%@page import="com.A,com.B" %>
+    for (const node of nodes) {
+        if (!isPageDirective(node)) { continue; }
+        for (const attr of node.attributes ?? []) {
+            if (attr.name !== 'import') { continue; }
+            let entryStart = attr.valueStart;
+            for (const part of attr.value.split(',')) {
+                const leading = part.length - part.trimStart().length;
+                const trimmed = part.trim();
+                const fqn = trimmed.replace(/\s+/g, '');
+                if (fqn) {
+                    const start = entryStart + leading;
+                    entries.push({ fqn, start, end: start + trimmed.length, fromDirective: true });
+                }
+                entryStart += part.length + 1;
+            }
+        }
+    }
+
+    // Java-style imports inside scriptlets: import com.example.MyClass;
+    for (const node of getJavaNodes(nodes)) {
+        const code = text.substring(node.contentStart, node.contentEnd);
+        const javaImportRe = /\bimport\s+([\w.]+(?:\.\*)?)\s*;/g;
+        let m;
+        while ((m = javaImportRe.exec(code)) !== null) {
+            const start = node.contentStart + m.index + m[0].indexOf(m[1]);
+            entries.push({ fqn: m[1], start, end: start + m[1].length, fromDirective: false });
+        }
+    }
+
+    return entries;
+}
+
+function parseVariableDeclarations(text: string, nodes: JspNode[]): VariableDeclaration[] {
+    const declarations: VariableDeclaration[] = [];
+
+    for (const node of getJavaNodes(nodes)) {
+        const content = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+
+        // Type var = ..., Type var;, for (Type var : ...), catch (Type var), method parameters
+        const declRe = /(?<![\w$.])((?:[A-Za-z_$][\w$]*\s*\.\s*)*[A-Za-z_$][\w$]*(?:\s*<[^;=(){}]*?>)?(?:\s*\[\s*\])*)\s+([a-z_$][\w$]*)\s*(?=[=;,:)])/g;
+        let m;
+        while ((m = declRe.exec(content)) !== null) {
+            const type = m[1].replace(/\s+/g, ' ').replace(/\s*([.<>[\],])\s*/g, '$1').replace(/,/g, ', ');
+            const firstWord = type.split(/[.<[]/)[0];
+            if (JAVA_NON_TYPE_KEYWORDS.has(firstWord) || JAVA_NON_TYPE_KEYWORDS.has(m[2])) { continue; }
+            const offset = node.contentStart + m.index + m[0].lastIndexOf(m[2]);
+            declarations.push({ name: m[2], type, offset });
+        }
+    }
+
+    // <jsp:useBean id="cart" class="com.acme.Cart"/>: type= wins over class=, beanName= names a class too
+    for (const node of nodes) {
+        if (node.kind !== 'action' || node.name !== 'jsp:useBean') { continue; }
+        const id = getAttribute(node, 'id');
+        const type = getAttribute(node, 'type') ?? getAttribute(node, 'class') ?? getAttribute(node, 'beanName');
+        if (id?.value && type?.value && !/[$#]\{|<%/.test(type.value)) {
+            declarations.push({ name: id.value, type: type.value.trim(), offset: id.valueStart });
+        }
+    }
+    declarations.sort((a, b) => a.offset - b.offset);
+
+    return declarations;
+}
+
+// ─── Java Source Parser ─────────────────────────────────────────────────────
+
+const JAVA_IDENTIFIER_RE = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const JAVA_NUMBER_RE = /(?:\d|\.\d)(?:[eEpP][+-]|[\w.])*/y;
+
+const JAVA_MODIFIERS = new Set([
+    'public', 'protected', 'private', 'static', 'final', 'abstract', 'native', 'synchronized',
+    'transient', 'volatile', 'strictfp', 'default', 'sealed'
+]);
+
+/**
+ * Split Java source into words, literals and symbols. Comments are skipped, but a
+ * Javadoc is attached to the next token so declarations can pick it up.
+ */
+function tokenizeJava(content: string): JavaToken[] {
+    const tokens: JavaToken[] = [];
+    let javadoc: string | undefined;
+    let i = 0;
+
+    const push = (kind: JavaToken['kind'], start: number, end: number) => {
+        tokens.push({ kind, text: content.substring(start, end), start, end, javadoc });
+        javadoc = undefined;
+        i = end;
+    };
+
+    /** End of a string or char literal opened at i; stops at an unterminated line */
+    const scanQuoted = (quote: string): number => {
+        let j = i + 1;
+        while (j < content.length && content[j] !== quote && content[j] !== '\n') {
+            j += content[j] === '\\' ? 2 : 1;
+        }
+        return Math.min(j + 1, content.length);
+    };
+
+    while (i < content.length) {
+        const ch = content[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (content.startsWith('//', i)) {
+            const eol = content.indexOf('\n', i);
+            i = eol < 0 ? content.length : eol;
+        } else if (content.startsWith('/*', i)) {
+            const close = content.indexOf('*/', i + 2);
+            const end = close < 0 ? content.length : close + 2;
+            // "/**/" is an empty comment, not a Javadoc
+            if (content.startsWith('/**', i) && end - i > 4) { javadoc = content.substring(i, end); }
+            i = end;
+        } else if (content.startsWith('"""', i)) {
+            let j = i + 3;
+            while (j < content.length && !content.startsWith('"""', j)) {
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            push('literal', i, Math.min(j + 3, content.length));
+        } else if (ch === '"' || ch === '\'') {
+            push('literal', i, scanQuoted(ch));
+        } else {
+            JAVA_IDENTIFIER_RE.lastIndex = i;
+            JAVA_NUMBER_RE.lastIndex = i;
+            if (JAVA_IDENTIFIER_RE.test(content)) {
+                push('word', i, JAVA_IDENTIFIER_RE.lastIndex);
+            } else if (JAVA_NUMBER_RE.test(content)) {
+                push('literal', i, JAVA_NUMBER_RE.lastIndex);
+            } else {
+                push('symbol', i, content.startsWith('...', i) ? i + 3 : i + 1);
+            }
+        }
+    }
+    return tokens;
+}
+
+/** Rebuild declaration text from tokens, with single spaces where Java needs them */
+function joinJavaTokens(tokens: JavaToken[], from: number, to: number): string {
+    let text = '';
+    for (let k = from; k < to; k++) {
+        const token = tokens[k];
+        const previous = k > from ? tokens[k - 1] : null;
+        const separated = previous !== null && (
+            (token.kind !== 'symbol' && (previous.kind !== 'symbol' || /^(?:[,>\])?&]|\.\.\.)$/.test(previous.text)))
+            || token.text === '&' || (token.text === '@' && previous.text !== '(')
+            || (token.text === '<' && JAVA_MODIFIERS.has(previous.text)));
+        text += (separated ? ' ' : '') + token.text;
+    }
+    return text;
+}
+
+/**
+ * Parse the package, imports and class declarations of a Java source, with the
+ * fields, methods and constructors of every class and nested class. Method bodies,
+ * initializers and anonymous classes are skipped without being parsed.
+ */
+function parseJavaSource(content: string): JavaCompilationUnit {
+    const tokens = tokenizeJava(content);
+    let p = 0;
+
+    const is = (text: string, ahead: number = 0) => tokens[p + ahead]?.text === text;
+    const isWord = (ahead: number = 0) => tokens[p + ahead]?.kind === 'word';
+
+    /** Skip from an opening token past its matching close */
+    const skipBalanced = (open: string, close: string) => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p++].text;
+            if (text === open) { depth++; }
+            else if (text === close && --depth <= 0) { return; }
+        }
+    };
+
+    /** "@Name", "@a.b.Name" or "@Name(...)" */
+    const skipAnnotation = () => {
+        p++;
+        while (isWord() && is('.', 1) && isWord(2)) { p += 2; }
+        p++;
+        if (is('(')) { skipBalanced('(', ')'); }
+    };
+
+    /** A type as written: "java.util.Map<String, List<Integer>>[]", '' if none starts here */
+    const readType = (): string => {
+        while (is('@') && !is('interface', 1)) { skipAnnotation(); }
+        let text = '';
+        while (isWord()) {
+            text += tokens[p++].text;
+            if (is('<')) {
+                const start = p;
+                skipBalanced('<', '>');
+                text += joinJavaTokens(tokens, start, p);
+            }
+            if (!is('.') || !isWord(1)) { break; }
+            text += '.';
+            p++;
+        }
+        while (text && is('[') && is(']', 1)) {
+            text += '[]';
+            p += 2;
+        }
+        return text;
+    };
+
+    const readTypeList = (): string[] => {
+        const types = [readType()];
+        while (is(',')) {
+            p++;
+            types.push(readType());
+        }
+        return types.filter(Boolean);
+    };
+
+    /** Modifiers and annotations before a declaration; signatures start after the annotations */
+    const parseModifiers = (): { modifiers: string[]; signatureStart: number } => {
+        const modifiers: string[] = [];
+        let signatureStart = p;
+        for (;;) {
+            if (is('@') && !is('interface', 1)) {
+                skipAnnotation();
+                signatureStart = p;
+            } else if (is('non') && is('-', 1) && is('sealed', 2)) {
+                modifiers.push('non-sealed');
+                p += 3;
+            } else if (isWord() && JAVA_MODIFIERS.has(tokens[p].text) && !is('.', 1)) {
+                modifiers.push(tokens[p++].text);
+            } else {
+                return { modifiers, signatureStart };
+            }
+        }
+    };
+
+    /** "(String name, int... values)", starting at the open parenthesis */
+    const parseParameters = (): { parameters: JavaParameter[]; varargs: boolean; nameTokens: JavaToken[] } => {
+        const parameters: JavaParameter[] = [];
+        const nameTokens: JavaToken[] = [];
+        let varargs = false;
+        p++;
+        while (p < tokens.length && !is(')')) {
+            parseModifiers();
+            let type = readType();
+            if (is('...')) {
+                type += '...';
+                varargs = true;
+                p++;
+            }
+            if (isWord()) {
+                const nameToken = tokens[p++];
+                while (is('[') && is(']', 1)) {
+                    type += '[]';
+                    p += 2;
+                }
+                if (type && nameToken.text !== 'this') {
+                    parameters.push({ type, name: nameToken.text });
+                    nameTokens.push(nameToken);
+                }
+            }
+            // Skip whatever could not be read, up to the next parameter
+            while (p < tokens.length && !is(',') && !is(')')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            if (is(',')) { p++; }
+        }
+        p++;
+        return { parameters, varargs, nameTokens };
+    };
+
+    /**
+     * Skip a field initializer up to the ',' or ';' that ends it. A top-level comma only
+     * ends it when another declarator follows, so "new HashMap<K, V>()" is skipped whole.
+     */
+    const skipInitializer = () => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p].text;
+            if (text === '(' || text === '[' || text === '{') { depth++; }
+            else if (text === ')' || text === ']' || text === '}') {
+                if (depth === 0) { return; }
+                depth--;
+            } else if (depth === 0 && (text === ';'
+                || (text === ',' && isWord(1) && /^(?:[=,;[])$/.test(tokens[p + 2]?.text ?? '')))) {
+                return;
+            }
+            p++;
+        }
+    };
+
+    const isClassStart = () => is('class') || is('interface') || is('enum') || (is('@') && is('interface', 1))
+        || (is('record') && isWord(1) && (is('(', 2) || is('<', 2)));
+
+    const parseClass = (modifiers: string[], javadoc: string, signatureStart: number, outerName: string): JavaClassDeclaration => {
+        let kind: JavaClassDeclaration['kind'];
+        if (is('@')) {
+            kind = 'annotation';
+            p++;
+        } else {
+            kind = tokens[p].text as JavaClassDeclaration['kind'];
+        }
+        p++;
+
+        const nameToken = tokens[p] ?? tokens[p - 1];
+        p++;
+        const decl: JavaClassDeclaration = {
+            kind, name: nameToken.text, qualifiedName: outerName ? `${outerName}.${nameToken.text}` : nameToken.text,
+            modifiers, superclass: null, interfaces: [], signature: '',
+            nameStart: nameToken.start, nameEnd: nameToken.end, javadoc, members: [], classes: []
+        };
+
+        if (is('<')) { skipBalanced('<', '>'); }
+        if (kind === 'record' && is('(')) {
+            // Each record component has a public accessor method
+            const { parameters, nameTokens } = parseParameters();
+            parameters.forEach((component, k) => {
+                const token = nameTokens[k];
+                decl.members.push({
+                    kind: 'method', name: component.name, modifiers: ['public'], type: component.type,
+                    parameters: [], varargs: false, signature: `public ${component.type} ${component.name}()`,
+                    nameStart: token.start, nameEnd: token.end, javadoc: ''
+                });
+            });
+        }
+
+        while (p < tokens.length && !is('{')) {
+            if (is('extends')) {
+                p++;
+                const types = readTypeList();
+                if (kind === 'interface') { decl.interfaces.push(...types); } else { decl.superclass = types[0] ?? null; }
+            } else if (is('implements')) {
+                p++;
+                decl.interfaces.push(...readTypeList());
+            } else {
+                p++; // "permits" list and anything unexpected
+            }
+        }
+        decl.signature = joinJavaTokens(tokens, signatureStart, p);
+
+        if (is('{')) {
+            p++;
+            if (kind === 'enum') { parseEnumConstants(decl); }
+            while (p < tokens.length && !is('}')) { parseMember(decl); }
+            p++;
+        }
+        return decl;
+    };
+
+    /** Enum constants are public static final fields of the enum type */
+    const parseEnumConstants = (decl: JavaClassDeclaration) => {
+        while (p < tokens.length && !is(';') && !is('}')) {
+            const javadoc = tokens[p].javadoc ?? '';
+            while (is('@')) { skipAnnotation(); }
+            if (!isWord()) {
+                p++;
+                continue;
+            }
+            const nameToken = tokens[p++];
+            decl.members.push({
+                kind: 'field', name: nameToken.text, modifiers: ['public', 'static', 'final'], type: decl.name,
+                parameters: [], varargs: false, signature: `${decl.name} ${nameToken.text}`,
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('(')) { skipBalanced('(', ')'); }
+            if (is('{')) { skipBalanced('{', '}'); }
+            if (is(',')) { p++; }
+        }
+        if (is(';')) { p++; }
+    };
+
+    const parseMember = (owner: JavaClassDeclaration) => {
+        const memberStart = p;
+        const javadoc = tokens[p].javadoc ?? '';
+
+        // Initializer blocks and stray semicolons
+        if (is(';')) {
+            p++;
+            return;
+        }
+        if (is('{') || (is('static') && is('{', 1))) {
+            if (is('static')) { p++; }
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const { modifiers, signatureStart } = parseModifiers();
+        const inInterface = owner.kind === 'interface' || owner.kind === 'annotation';
+        if (inInterface && !modifiers.includes('private') && !modifiers.includes('public')) { modifiers.unshift('public'); }
+
+        if (isClassStart()) {
+            if (inInterface && !modifiers.includes('static')) { modifiers.push('static'); }
+            owner.classes.push(parseClass(modifiers, javadoc, signatureStart, owner.qualifiedName));
+            return;
+        }
+
+        // Type parameters of a generic method or constructor
+        if (is('<')) { skipBalanced('<', '>'); }
+
+        // Compact canonical constructor of a record
+        if (is(owner.name) && is('{', 1)) {
+            p++;
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const isConstructor = is(owner.name) && is('(', 1);
+        const type = isConstructor ? '' : readType();
+        if ((!isConstructor && !type) || !isWord()) {
+            // Not a declaration: skip to the end of whatever this is
+            while (p < tokens.length && !is(';') && !is('}') && !is('{')) { p++; }
+            if (is('{')) { skipBalanced('{', '}'); } else if (is(';')) { p++; }
+            if (p === memberStart) { p++; }
+            return;
+        }
+
+        let nameToken = tokens[p++];
+        if (is('(')) {
+            const { parameters, varargs } = parseParameters();
+            while (is('[') && is(']', 1)) { p += 2; }
+            // throws clause, or the default value of an annotation member
+            while (p < tokens.length && !is('{') && !is(';')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            const signature = joinJavaTokens(tokens, signatureStart, p);
+            if (is('{')) { skipBalanced('{', '}'); } else { p++; }
+
+            if (inInterface && !modifiers.includes('default') && !modifiers.includes('static') && !modifiers.includes('private')) {
+                modifiers.push('abstract');
+            }
+            owner.members.push({
+                kind: isConstructor ? 'constructor' : 'method', name: nameToken.text, modifiers, type,
+                parameters, varargs, signature, nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            return;
+        }
+
+        // Fields; interface fields are implicitly static final
+        if (inInterface) {
+            for (const implicit of ['static', 'final']) {
+                if (!modifiers.includes(implicit)) { modifiers.push(implicit); }
+            }
+        }
+        for (;;) {
+            let fieldType = type;
+            while (is('[') && is(']', 1)) {
+                fieldType += '[]';
+                p += 2;
+            }
+            owner.members.push({
+                kind: 'field', name: nameToken.text, modifiers, type: fieldType, parameters: [], varargs: false,
+                signature: [...modifiers, fieldType, nameToken.text].join(' '),
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('=')) { skipInitializer(); }
+            if (!is(',') || !isWord(1)) { break; }
+            p++;
+            nameToken = tokens[p++];
+        }
+        if (is(';')) { p++; }
+    };
+
+    const unit: JavaCompilationUnit = { packageName: '', imports: [], classes: [], lineStarts: [0] };
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') { unit.lineStarts.push(i + 1); }
+    }
+
+    while (p < tokens.length) {
+        if (is('package') || is('import')) {
+            const keyword = tokens[p++].text;
+            const start = p;
+            while (p < tokens.length && !is(';')) { p++; }
+            const name = joinJavaTokens(tokens, start, p).replace(/\s*\.\s*/g, '.');
+            if (keyword === 'package') { unit.packageName = name; } else { unit.imports.push(name); }
+            p++;
+            continue;
+        }
+
+        const start = p;
+        const javadoc = tokens[p].javadoc ?? '';
+        const { modifiers, signatureStart } = parseModifiers();
+        if (isClassStart()) {
+            unit.classes.push(parseClass(modifiers, javadoc, signatureStart, unit.packageName));
+        } else if (p === start) {
+            p++;
+        }
+    }
+    return unit;
+}
+
+/**
+ * Parsed declarations of a Java source file, reused while its content is unchanged.
+ * Sources from jars are keyed by the temp file they are extracted to.
+ */
+function getJavaCompilationUnit(filePath: string, content: string): JavaCompilationUnit {
+    const cached = javaUnitCache.get(filePath);
+    if (cached && cached.content === content) { return cached.unit; }
+
+    const unit = parseJavaSource(content);
+    javaUnitCache.set(filePath, { content, unit });
+    return unit;
+}
+
+function javaOffsetToPosition(unit: JavaCompilationUnit, offset: number): Position {
+    let low = 0;
+    let high = unit.lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (unit.lineStarts[mid] <= offset) { low = mid; } else { high = mid - 1; }
+    }
+    return Position.create(low, offset - unit.lineStarts[low]);
+}
+
+function javaPositionToOffset(unit: JavaCompilationUnit, position: Position): number {
+    return (unit.lineStarts[position.line] ?? 0) + position.character;
+}
+
+/** Range of the name of a class or member declaration */
+function getJavaNameRange(unit: JavaCompilationUnit, decl: { nameStart: number; nameEnd: number }): Range {
+    return Range.create(javaOffsetToPosition(unit, decl.nameStart), javaOffsetToPosition(unit, decl.nameEnd));
+}
+
+/** Every class of a compilation unit, top-level classes first */
+function listJavaClasses(unit: JavaCompilationUnit): JavaClassDeclaration[] {
+    const classes = [...unit.classes];
+    for (let i = 0; i < classes.length; i++) {
+        classes.push(...classes[i].classes);
+    }
+    return classes;
+}
+
+/**
+ * The class an FQN names in a unit. Falls back to the simple name, for nested
+ * classes reached through their outer class's file and for simple-name lookups.
+ */
+function findClassDeclaration(unit: JavaCompilationUnit, fqn: string): JavaClassDeclaration | null {
+    const classes = listJavaClasses(unit);
+    const simpleName = fqn.split('.').pop()!;
+    return classes.find(c => c.qualifiedName === fqn) ?? classes.find(c => c.name === simpleName) ?? null;
+}
+
+/**
+ * The overload of a method (or constructor, by the class name) that best fits a
+ * call with paramCount arguments: exact arity, then varargs, then the closest arity.
+ */
+function findMethodDeclaration(decl: JavaClassDeclaration, methodName: string, paramCount: number): JavaMemberDeclaration | null {
+    let best: JavaMemberDeclaration | null = null;
+    let bestScore = Infinity;
+    for (const member of decl.members) {
+        if (member.kind === 'field' || member.name !== methodName) { continue; }
+        const count = member.parameters.length;
+        const score = count === paramCount ? 0
+            : member.varargs && paramCount >= count - 1 ? 1
+            : 2 + Math.abs(count - paramCount);
+        if (score < bestScore) {
+            best = member;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/** The class or member whose name spans the offset */
+function findJavaDeclarationAt(unit: JavaCompilationUnit, offset: number): JavaClassDeclaration | JavaMemberDeclaration | null {
+    for (const decl of listJavaClasses(unit)) {
+        if (offset >= decl.nameStart && offset <= decl.nameEnd) { return decl; }
+        const member = decl.members.find(m => offset >= m.nameStart && offset <= m.nameEnd);
+        if (member) { return member; }
+    }
+    return null;
+}
+
+/** "String name, int... values" */
+function formatJavaParameters(member: JavaMemberDeclaration): string {
+    return member.parameters.map(param => `${param.type} ${param.name}`).join(', ');
+}
+
+// ─── Class Resolution ───────────────────────────────────────────────────────
+
+/**
+ * Directly resolve a .java file by package path (no recursive search).
+ * e.g. "com.example.MyClass" -> srcPath/com/example/MyClass.java
+ */
+function resolveJavaFileDirect(srcPath: string, fqn: string): string | null {
+    const relativePath = fqn.replace(/\./g, path.sep) + '.java';
+    const fullPath = path.join(srcPath, relativePath);
+    if (fs.existsSync(fullPath)) {
+        return fullPath;
+    }
+    return null;
+}
+
+/**
+ * Sort source paths to prioritize the module containing the current file.
+ */
+function sortSourcePaths(currentFileUri: string | undefined): JavaSourcePath[] {
+    if (!currentFileUri || !currentFileUri.startsWith('file://')) {
+        return javaSourcePaths;
+    }
+    try {
+        const currentFilePath = fileURLToPath(currentFileUri);
+        return [...javaSourcePaths].sort((a, b) => {
+            const aIn = currentFilePath.startsWith(a.modulePath);
+            const bIn = currentFilePath.startsWith(b.modulePath);
+            if (aIn && !bIn) { return -1; }
+            if (!aIn && bIn) { return 1; }
+            return b.modulePath.length - a.modulePath.length;
+        });
+    } catch {
+        return javaSourcePaths;
+    }
+}
+
+// ─── Go to Definition: Workspace Sources ────────────────────────────────────
+
+async function findJavaDefinition(className: string, currentFileUri?: string): Promise<Location | null> {
+    console.log('findJavaDefinition:', className);
+    const sorted = sortSourcePaths(currentFileUri);
+
+    for (const srcInfo of sorted) {
+        const filePath = resolveJavaFileDirect(srcInfo.sourcePath, className);
+        if (!filePath) { continue; }
+
+        const unit = getJavaCompilationUnit(filePath, await fs.promises.readFile(filePath, 'utf-8'));
+
+        // Verify package matches if FQN was given
+        if (className.includes('.') && unit.packageName !== className.substring(0, className.lastIndexOf('.'))) { continue; }
+
+        const decl = findClassDeclaration(unit, className);
+        if (decl) {
+            return Location.create(pathToFileURL(filePath).toString(), getJavaNameRange(unit, decl));
+        }
+    }
+
+    return null;
+}
+
+// ─── Go to Definition: Maven Sources JAR ────────────────────────────────────
+
+/**
+ * Path of a dependency artifact in the local Maven repository or, when only Gradle
+ * downloaded it, in the Gradle cache (<group>/<artifact>/<version>/<sha1>/<file>).
+ */
+function getDependencyJarPath(dep: MavenDependency, fileName: string): string {
+    const groupPath = dep.groupId.replace(/\./g, path.sep);
+    const mavenPath = path.join(mavenRepoPath, groupPath, dep.artifactId, dep.version, fileName);
+    if (fs.existsSync(mavenPath)) { return mavenPath; }
+
+    const versionDir = path.join(gradleCachePath, dep.groupId, dep.artifactId, dep.version);
+    const cached = gradleJarCache.get(path.join(versionDir, fileName));
+    if (cached) { return cached; }
+    try {
+        for (const hashDir of fs.readdirSync(versionDir)) {
+            const jarPath = path.join(versionDir, hashDir, fileName);
+            if (fs.existsSync(jarPath)) {
+                gradleJarCache.set(path.join(versionDir, fileName), jarPath);
+                return jarPath;
+            }
+        }
+    } catch {
+        // Not in the Gradle cache
+    }
+    return mavenPath;
+}
+
+function getSourcesJarPath(dep: MavenDependency): string {
+    return getDependencyJarPath(dep, `${dep.artifactId}-${dep.version}-sources.jar`);
+}
+
+/**
+ * Find which sources.jar contains a given fully qualified class name.
+ */
+function findClassInSourcesJars(fqn: string): { jarPath: string; entryName: string } | null {
+    if (sourceJarClassCache.has(fqn)) {
+        return sourceJarClassCache.get(fqn)!;
+    }
+
+    const entryName = fqn.replace(/\./g, '/') + '.java';
+
+    for (const dep of mavenDependencies) {
+        const jarPath = getSourcesJarPath(dep);
+        const zip = getZip(jarPath);
+        if (!zip) { continue; }
+
+        const entry = zip.getEntry(entryName);
+        if (entry) {
+            const result = { jarPath, entryName };
+            sourceJarClassCache.set(fqn, result);
+            return result;
+        }
+    }
+
+    sourceJarClassCache.set(fqn, null);
+    return null;
+}
+
+function getBinaryJarPath(dep: MavenDependency): string {
+    return getDependencyJarPath(dep, `${dep.artifactId}-${dep.version}.jar`);
+}
+
+/**
+ * Find which binary jar contains a compiled class (used when no sources.jar is published).
+ */
+function findClassInBinaryJars(fqn: string): string | null {
+    const entryName = fqn.replace(/\./g, '/') + '.class';
+    for (const dep of mavenDependencies) {
+        const jarPath = getBinaryJarPath(dep);
+        const zip = getZip(jarPath);
+        if (zip && zip.getEntry(entryName)) {
+            return jarPath;
+        }
+    }
+    return null;
+}
+
+/**
+ * Collect the package directories of a zip/jar, e.g. "java/util" for "java.base/java/util/List.java".
+ */
+function getZipPackages(zipPath: string): Set<string> {
+    const cached = zipPackageCache.get(zipPath);
+    if (cached) { return cached; }
+
+    const packages = new Set<string>();
+    const zip = getZip(zipPath);
+    if (zip) {
+        for (const entry of zip.getEntries()) {
+            if (entry.isDirectory || !/\.(java|class)$/.test(entry.entryName)) { continue; }
+            const dir = stripModulePrefix(entry.entryName).split('/').slice(0, -1).join('/');
+            if (dir) { packages.add(dir); }
+        }
+    }
+    zipPackageCache.set(zipPath, packages);
+    return packages;
+}
+
+/** JDK 9+ src.zip entries start with a module directory ("java.base/"); package dirs never contain dots */
+function stripModulePrefix(entryName: string): string {
+    const slash = entryName.indexOf('/');
+    return slash > 0 && entryName.substring(0, slash).includes('.') ? entryName.substring(slash + 1) : entryName;
+}
+
+/**
+ * Extract a Java source from a zip/jar to a temp file and return its path.
+ */
+function extractSourceToTemp(zipPath: string, entryName: string): string | null {
+    const cacheKey = `${zipPath}::${entryName}`;
     if (extractedFileCache.has(cacheKey)) {
         const cached = extractedFileCache.get(cacheKey)!;
         if (fs.existsSync(cached)) { return cached; }
     }
 
-    const zip = getZip(zipPath);
-    if (!zip) { return null; }
+    const zip = getZip(zipPath);
+    if (!zip) { return null; }
+
+    const entry = zip.getEntry(entryName);
+    if (!entry) { return null; }
+
+    try {
+        const content = zip.readAsText(entry);
+        const outPath = path.join(tempDir, path.basename(zipPath, '.jar'), entryName.replace(/\//g, path.sep));
+        const outDir = path.dirname(outPath);
+        if (!fs.existsSync(outDir)) {
+            fs.mkdirSync(outDir, { recursive: true });
+        }
+        fs.writeFileSync(outPath, content, 'utf-8');
+        extractedFileCache.set(cacheKey, outPath);
+        return outPath;
+    } catch (e) {
+        console.error('Error extracting source:', e);
+        return null;
+    }
+}
+
+/**
+ * Locate a class inside an extracted or bundled Java source file.
+ */
+function findDefinitionInFile(filePath: string, fqn: string): Location | null {
+    const unit = getJavaCompilationUnit(filePath, fs.readFileSync(filePath, 'utf-8'));
+    const decl = findClassDeclaration(unit, fqn);
+    return decl ? Location.create(pathToFileURL(filePath).toString(), getJavaNameRange(unit, decl)) : null;
+}
+
+async function findDefinitionInSourcesJar(fqn: string): Promise<Location | null> {
+    const found = findClassInSourcesJars(fqn);
+    if (!found) { return null; }
+
+    const extracted = extractSourceToTemp(found.jarPath, found.entryName);
+    if (!extracted) { return null; }
+
+    return findDefinitionInFile(extracted, fqn);
+}
+
+// ─── Go to Definition: Class File Stubs ─────────────────────────────────────
+
+const ACC_PUBLIC = 0x0001;
+const ACC_PRIVATE = 0x0002;
+const ACC_PROTECTED = 0x0004;
+const ACC_STATIC = 0x0008;
+const ACC_FINAL = 0x0010;
+const ACC_SYNCHRONIZED = 0x0020;
+const ACC_BRIDGE = 0x0040;
+const ACC_VARARGS = 0x0080;
+const ACC_NATIVE = 0x0100;
+const ACC_INTERFACE = 0x0200;
+const ACC_ABSTRACT = 0x0400;
+const ACC_SYNTHETIC = 0x1000;
+const ACC_ANNOTATION = 0x2000;
+const ACC_ENUM = 0x4000;
+
+const DESCRIPTOR_BASE_TYPES: Record<string, string> = {
+    B: 'byte', C: 'char', D: 'double', F: 'float', I: 'int', J: 'long', S: 'short', Z: 'boolean', V: 'void'
+};
+
+/**
+ * Read the declarations of a compiled class: constant pool, supertypes, fields and
+ * methods with their generic signatures, and parameter names when the class was
+ * compiled with them. Returns null for anything that is not a valid class file.
+ */
+function parseClassFile(data: Buffer): ClassFile | null {
+    let pos = 0;
+    const u1 = () => data.readUInt8(pos++);
+    const u2 = () => { pos += 2; return data.readUInt16BE(pos - 2); };
+    const u4 = () => { pos += 4; return data.readUInt32BE(pos - 4); };
+
+    try {
+        if (u4() !== 0xCAFEBABE) { return null; }
+        pos += 4; // minor and major version
+
+        // Constant pool: UTF-8 strings, class and string references, numeric constants
+        const poolCount = u2();
+        const utf8: string[] = [];
+        const refs: number[] = [];
+        const constants: (number | bigint)[] = [];
+        for (let i = 1; i < poolCount; i++) {
+            const tag = u1();
+            switch (tag) {
+                case 1: {
+                    const length = u2();
+                    utf8[i] = data.toString('utf8', pos, pos + length);
+                    pos += length;
+                    break;
+                }
+                case 3: constants[i] = data.readInt32BE(pos); pos += 4; break;
+                case 4: constants[i] = data.readFloatBE(pos); pos += 4; break;
+                case 5: constants[i] = data.readBigInt64BE(pos); pos += 8; i++; break;
+                case 6: constants[i] = data.readDoubleBE(pos); pos += 8; i++; break;
+                case 7: case 8: case 16: case 19: case 20: refs[i] = u2(); break;
+                case 9: case 10: case 11: case 12: case 17: case 18: pos += 4; break;
+                case 15: pos += 3; break;
+                default: return null;
+            }
+        }
+        const className = (index: number) => index ? utf8[refs[index]] : null;
+
+        /** Walk an attribute table, calling read with pos at each attribute's body */
+        const readAttributes = (read: (name: string) => void) => {
+            const count = u2();
+            for (let k = 0; k < count; k++) {
+                const name = utf8[u2()];
+                const length = u4();
+                const end = pos + length;
+                read(name);
+                pos = end;
+            }
+        };
+
+        const readMembers = (isMethod: boolean): ClassFileMember[] => {
+            const members: ClassFileMember[] = [];
+            const count = u2();
+            for (let k = 0; k < count; k++) {
+                const member: ClassFileMember = { access: u2(), name: utf8[u2()], descriptor: utf8[u2()], parameterNames: [], exceptions: [] };
+                const localNames = new Map<number, string>();
+                readAttributes(name => {
+                    if (name === 'Signature') {
+                        member.signature = utf8[u2()];
+                    } else if (name === 'ConstantValue') {
+                        const index = u2();
+                        member.constantValue = refs[index] !== undefined ? utf8[refs[index]] : constants[index];
+                    } else if (name === 'Exceptions') {
+                        const exceptions = u2();
+                        for (let e = 0; e < exceptions; e++) { member.exceptions.push(className(u2())!); }
+                    } else if (name === 'MethodParameters') {
+                        const parameters = u1();
+                        for (let e = 0; e < parameters; e++) {
+                            const nameIndex = u2();
+                            u2();
+                            member.parameterNames.push(nameIndex ? utf8[nameIndex] : '');
+                        }
+                    } else if (name === 'Code') {
+                        pos += 4; // max_stack, max_locals
+                        const codeLength = u4();
+                        pos += codeLength;
+                        const handlers = u2();
+                        pos += handlers * 8;
+                        readAttributes(codeAttribute => {
+                            if (codeAttribute !== 'LocalVariableTable') { return; }
+                            const locals = u2();
+                            for (let e = 0; e < locals; e++) {
+                                const startPc = u2();
+                                pos += 2;
+                                const localName = utf8[u2()];
+                                pos += 2;
+                                const slot = u2();
+                                if (startPc === 0) { localNames.set(slot, localName); }
+                            }
+                        });
+                    }
+                });
+                if (isMethod && member.parameterNames.length === 0 && localNames.size > 0) {
+                    member.parameterNames = getParameterSlots(member).map(slot => localNames.get(slot) ?? '');
+                }
+                members.push(member);
+            }
+            return members;
+        };
+
+        const classFile: ClassFile = {
+            access: u2(), thisClass: className(u2())!, superClass: className(u2()),
+            interfaces: [], fields: [], methods: [], innerClasses: []
+        };
+        const interfaceCount = u2();
+        for (let k = 0; k < interfaceCount; k++) { classFile.interfaces.push(className(u2())!); }
+        classFile.fields = readMembers(false);
+        classFile.methods = readMembers(true);
+        readAttributes(name => {
+            if (name === 'Signature') {
+                classFile.signature = utf8[u2()];
+            } else if (name === 'InnerClasses') {
+                const count = u2();
+                for (let k = 0; k < count; k++) {
+                    const inner = className(u2())!;
+                    const outer = className(u2());
+                    const simpleIndex = u2();
+                    classFile.innerClasses.push({ name: inner, outer, simpleName: simpleIndex ? utf8[simpleIndex] : null, access: u2() });
+                }
+            }
+        });
+        return classFile;
+    } catch (e) {
+        console.error('Error reading class file:', e);
+        return null;
+    }
+}
+
+/** Local variable slots of a method's parameters: long and double take two */
+function getParameterSlots(method: ClassFileMember): number[] {
+    const slots: number[] = [];
+    let slot = method.access & ACC_STATIC ? 0 : 1;
+    const params = method.descriptor.substring(1, method.descriptor.indexOf(')'));
+    for (let i = 0; i < params.length; i++) {
+        slots.push(slot);
+        const wide = params[i] === 'J' || params[i] === 'D';
+        while (params[i] === '[') { i++; }
+        if (params[i] === 'L') { i = params.indexOf(';', i); }
+        slot += wide ? 2 : 1;
+    }
+    return slots;
+}
+
+/**
+ * Read one type from a descriptor or generic signature ("Ljava/util/List<TE;>;", "[I")
+ * as Java source. Class names are passed through nameOf for display.
+ */
+function readTypeSignature(sig: string, start: number, nameOf: (internalName: string) => string): { type: string; end: number } {
+    let i = start;
+    let dims = 0;
+    while (sig[i] === '[') {
+        dims++;
+        i++;
+    }
+
+    let type: string;
+    if (DESCRIPTOR_BASE_TYPES[sig[i]]) {
+        type = DESCRIPTOR_BASE_TYPES[sig[i++]];
+    } else if (sig[i] === 'T') {
+        const semi = sig.indexOf(';', i);
+        type = sig.substring(i + 1, semi);
+        i = semi + 1;
+    } else {
+        // Lpkg/Outer<TT;>.Inner<TU;>;
+        i++;
+        type = '';
+        let internalName = '';
+        for (;;) {
+            const segmentStart = i;
+            while (i < sig.length && !'<.;'.includes(sig[i])) { i++; }
+            const segment = sig.substring(segmentStart, i);
+            if (internalName) {
+                internalName += '$' + segment;
+                type += '.' + segment;
+            } else {
+                internalName = segment;
+                type = nameOf(segment);
+            }
+
+            if (sig[i] === '<') {
+                i++;
+                const args: string[] = [];
+                while (i < sig.length && sig[i] !== '>') {
+                    if (sig[i] === '*') {
+                        args.push('?');
+                        i++;
+                        continue;
+                    }
+                    const bound = sig[i] === '+' ? '? extends ' : sig[i] === '-' ? '? super ' : '';
+                    if (bound) { i++; }
+                    const arg = readTypeSignature(sig, i, nameOf);
+                    args.push(bound + arg.type);
+                    i = arg.end;
+                }
+                i++;
+                type += `<${args.join(', ')}>`;
+            }
+            if (sig[i++] !== '.') { break; }
+        }
+    }
+    return { type: type + '[]'.repeat(dims), end: i };
+}
+
+/** "<T:Ljava/lang/Object;U::Ljava/lang/Comparable<TU;>;>" -> "<T, U extends Comparable<U>>" */
+function readTypeParameters(sig: string, start: number, nameOf: (internalName: string) => string): { text: string; end: number } {
+    if (sig[start] !== '<') { return { text: '', end: start }; }
+    let i = start + 1;
+    const params: string[] = [];
+    while (i < sig.length && sig[i] !== '>') {
+        const colon = sig.indexOf(':', i);
+        const name = sig.substring(i, colon);
+        i = colon;
+        const bounds: string[] = [];
+        while (sig[i] === ':') {
+            i++;
+            if (sig[i] === ':') { continue; } // no class bound, interface bounds follow
+            const bound = readTypeSignature(sig, i, nameOf);
+            if (bound.type !== 'Object') { bounds.push(bound.type); }
+            i = bound.end;
+        }
+        params.push(bounds.length > 0 ? `${name} extends ${bounds.join(' & ')}` : name);
+    }
+    return { text: `<${params.join(', ')}>`, end: i + 1 };
+}
+
+/** Java literal of a ConstantValue attribute, or null when it has no source form */
+function formatConstantValue(value: number | bigint | string, descriptor: string): string | null {
+    if (typeof value === 'string') { return JSON.stringify(value); }
+    if (typeof value === 'bigint') { return `${value}L`; }
+    if (!Number.isFinite(value)) { return null; }
+    switch (descriptor) {
+        case 'Z': return value ? 'true' : 'false';
+        case 'C': return value === 39 ? '\'\\\'\'' : '\'' + JSON.stringify(String.fromCharCode(value)).slice(1, -1) + '\'';
+        case 'F': {
+            // Shortest decimal that reads back as the same float
+            let precision = 1;
+            while (precision < 9 && Math.fround(Number(value.toPrecision(precision))) !== value) { precision++; }
+            return `${Number(value.toPrecision(precision))}f`;
+        }
+        case 'D': return Number.isInteger(value) ? `${value}.0` : String(value);
+        default: return String(value);
+    }
+}
+
+function formatAccessModifiers(access: number): string[] {
+    const modifiers: string[] = [];
+    if (access & ACC_PUBLIC) { modifiers.push('public'); }
+    if (access & ACC_PROTECTED) { modifiers.push('protected'); }
+    if (access & ACC_PRIVATE) { modifiers.push('private'); }
+    if (access & ACC_STATIC) { modifiers.push('static'); }
+    return modifiers;
+}
+
+/**
+ * Java source for a compiled class: its declaration, non-private fields, constructors,
+ * methods and member classes, with bodies left out. Names outside java.lang and the
+ * class's own package are imported unless two classes share a simple name.
+ */
+function generateClassFileStub(zip: AdmZip, internalName: string, jarName: string): string | null {
+    const entry = zip.getEntry(internalName + '.class');
+    const classFile = entry && parseClassFile(entry.getData());
+    if (!classFile) { return null; }
+
+    const slash = internalName.lastIndexOf('/');
+    const packageName = slash >= 0 ? internalName.substring(0, slash).replace(/\//g, '.') : '';
+    const simpleNames = new Map<string, string>(); // simple name -> top-level class it stands for
+
+    const nameOf = (name: string): string => {
+        const fqn = name.replace(/\//g, '.');
+        const lastDot = fqn.lastIndexOf('.');
+        const dollar = fqn.indexOf('$', lastDot + 1);
+        const topLevel = dollar > 0 ? fqn.substring(0, dollar) : fqn;
+        const nested = dollar > 0 ? fqn.substring(dollar).replace(/\$/g, '.') : '';
+        const simple = topLevel.substring(lastDot + 1);
+        const owner = simpleNames.get(simple);
+        if (owner && owner !== topLevel) { return topLevel + nested; }
+        simpleNames.set(simple, topLevel);
+        return simple + nested;
+    };
+    // The class itself owns its simple name
+    nameOf(internalName.split('$')[0]);
+
+    const body = generateClassDeclaration(zip, classFile, nameOf, '', 0);
+
+    const imports = [...simpleNames.values()]
+        .filter(fqn => {
+            const pkg = fqn.substring(0, Math.max(0, fqn.lastIndexOf('.')));
+            return pkg && pkg !== 'java.lang' && pkg !== packageName;
+        })
+        .sort();
+
+    const lines = [
+        `// Generated from ${internalName}.class in ${jarName}: no sources jar is available.`,
+        '// Signatures only; parameter names are argN when the class was compiled without them.',
+        ''
+    ];
+    if (packageName) { lines.push(`package ${packageName};`, ''); }
+    if (imports.length > 0) { lines.push(...imports.map(fqn => `import ${fqn};`), ''); }
+    return lines.join('\n') + '\n' + body;
+}
+
+/** One class declaration of a stub, member classes nested up to a few levels */
+function generateClassDeclaration(zip: AdmZip, classFile: ClassFile, nameOf: (internalName: string) => string,
+    indent: string, depth: number, innerAccess?: number): string {
+    const access = innerAccess ?? classFile.access;
+    const isInterface = (access & ACC_INTERFACE) !== 0;
+    const isEnum = (access & ACC_ENUM) !== 0;
+    const simpleName = classFile.thisClass.substring(classFile.thisClass.lastIndexOf('/') + 1).split('$').pop()!;
+
+    // Header: modifiers, kind, type parameters and supertypes
+    const modifiers = formatAccessModifiers(access);
+    if ((access & ACC_ABSTRACT) && !isInterface) { modifiers.push('abstract'); }
+    if ((access & ACC_FINAL) && !isEnum) { modifiers.push('final'); }
+    const kind = access & ACC_ANNOTATION ? '@interface' : isInterface ? 'interface' : isEnum ? 'enum' : 'class';
+
+    let typeParams = '';
+    let superclass = classFile.superClass ? nameOf(classFile.superClass) : null;
+    let interfaces = classFile.interfaces.map(nameOf);
+    if (classFile.signature) {
+        const params = readTypeParameters(classFile.signature, 0, nameOf);
+        typeParams = params.text;
+        const supertypes: string[] = [];
+        for (let i = params.end; i < classFile.signature.length;) {
+            const supertype = readTypeSignature(classFile.signature, i, nameOf);
+            supertypes.push(supertype.type);
+            i = supertype.end;
+        }
+        superclass = supertypes[0] ?? superclass;
+        interfaces = supertypes.slice(1);
+    }
+
+    let header = `${indent}${[...modifiers, kind].join(' ')} ${simpleName}${typeParams}`;
+    if (superclass && !isInterface && !isEnum && superclass !== 'Object') { header += ` extends ${superclass}`; }
+    if (interfaces.length > 0 && !(access & ACC_ANNOTATION)) {
+        header += `${isInterface ? ' extends ' : ' implements '}${interfaces.join(', ')}`;
+    }
+
+    const memberIndent = indent + '    ';
+    const sections: string[][] = [];
+    const isVisible = (member: ClassFileMember) => !(member.access & (ACC_PRIVATE | ACC_SYNTHETIC | ACC_BRIDGE));
+
+    // Enum constants, then fields
+    if (isEnum) {
+        const constants = classFile.fields.filter(f => f.access & ACC_ENUM).map(f => f.name);
+        sections.push([`${memberIndent}${constants.join(', ')};`]);
+    }
+    sections.push(classFile.fields.filter(f => isVisible(f) && !(f.access & ACC_ENUM)).map(field => {
+        const fieldModifiers = isInterface ? [] : formatAccessModifiers(field.access);
+        if ((field.access & ACC_FINAL) && !isInterface) { fieldModifiers.push('final'); }
+        const type = readTypeSignature(field.signature ?? field.descriptor, 0, nameOf).type;
+        const value = field.constantValue !== undefined ? formatConstantValue(field.constantValue, field.descriptor) : null;
+        return `${memberIndent}${[...fieldModifiers, type, field.name].join(' ')}${value !== null ? ' = ' + value : ''};`;
+    }));
+
+    // Constructors, then methods
+    const methods = classFile.methods.filter(m => isVisible(m) && m.name !== '<clinit>'
+        && !(isEnum && /^(?:values|valueOf)$/.test(m.name) && (m.access & ACC_STATIC)));
+    for (const constructors of [true, false]) {
+        sections.push(methods.filter(m => (m.name === '<init>') === constructors).map(method => {
+            const sig = method.signature ?? method.descriptor;
+            const typeParamsOf = readTypeParameters(sig, 0, nameOf);
+            const paramTypes: string[] = [];
+            let i = typeParamsOf.end + 1;
+            while (sig[i] !== ')') {
+                const param = readTypeSignature(sig, i, nameOf);
+                paramTypes.push(param.type);
+                i = param.end;
+            }
+            const returnType = readTypeSignature(sig, i + 1, nameOf).type;
+            if ((method.access & ACC_VARARGS) && paramTypes.length > 0) {
+                paramTypes.push(paramTypes.pop()!.replace(/\[\]$/, '...'));
+            }
+            // Parameter names only line up when the signature does not drop synthetic parameters
+            const names = method.parameterNames.length === paramTypes.length ? method.parameterNames : [];
+            const params = paramTypes.map((type, k) => `${type} ${names[k] || 'arg' + k}`).join(', ');
+
+            const methodModifiers = formatAccessModifiers(method.access);
+            const isAbstract = (method.access & ACC_ABSTRACT) !== 0;
+            if (isAbstract && !isInterface) { methodModifiers.push('abstract'); }
+            if (isInterface && !isAbstract && !(method.access & ACC_STATIC)) { methodModifiers.push('default'); }
+            if (method.access & ACC_FINAL) { methodModifiers.push('final'); }
+            if (method.access & ACC_SYNCHRONIZED) { methodModifiers.push('synchronized'); }
+            if (method.access & ACC_NATIVE) { methodModifiers.push('native'); }
+            if (typeParamsOf.text) { methodModifiers.push(typeParamsOf.text); }
+
+            const declaration = constructors ? `${simpleName}(${params})` : `${returnType} ${method.name}(${params})`;
+            const throwsClause = method.exceptions.length > 0 ? ` throws ${method.exceptions.map(nameOf).join(', ')}` : '';
+            const body = isAbstract || (method.access & ACC_NATIVE) ? ';' : ' { }';
+            return `${memberIndent}${[...methodModifiers, declaration].join(' ')}${throwsClause}${body}`;
+        }));
+    }
+
+    // Member classes, from their own class files in the same jar
+    if (depth < 3) {
+        const nested: string[] = [];
+        for (const inner of classFile.innerClasses) {
+            if (inner.outer !== classFile.thisClass || !inner.simpleName || inner.access & (ACC_PRIVATE | ACC_SYNTHETIC)) { continue; }
+            const innerEntry = zip.getEntry(inner.name + '.class');
+            const innerClass = innerEntry && parseClassFile(innerEntry.getData());
+            if (innerClass) { nested.push(generateClassDeclaration(zip, innerClass, nameOf, memberIndent, depth + 1, inner.access).trimEnd()); }
+        }
+        sections.push(nested);
+    }
+
+    const members = sections.filter(section => section.length > 0).map(section => section.join('\n'));
+    return `${header} {\n${members.length > 0 ? '\n' + members.join('\n\n') + '\n' : ''}${indent}}\n`;
+}
+
+/**
+ * A generated stub for a class that only a binary jar provides. Written once per jar
+ * and class under the temp dir, and made read-only so editors open it as such.
+ */
+function getClassFileStubPath(fqn: string): string | null {
+    const jarPath = findClassInBinaryJars(fqn);
+    if (!jarPath) { return null; }
+
+    const cacheKey = `${jarPath}::${fqn}`;
+    const cached = extractedFileCache.get(cacheKey);
+    if (cached && fs.existsSync(cached)) { return cached; }
+
+    const zip = getZip(jarPath);
+    const content = zip && generateClassFileStub(zip, fqn.replace(/\./g, '/'), path.basename(jarPath));
+    if (!content) { return null; }
+
+    const outPath = path.join(tempDir, 'class-stubs', path.basename(jarPath, '.jar'), ...fqn.split('.')) + '.java';
+    try {
+        fs.mkdirSync(path.dirname(outPath), { recursive: true });
+        if (fs.existsSync(outPath)) { fs.chmodSync(outPath, 0o644); }
+        fs.writeFileSync(outPath, content, 'utf-8');
+        fs.chmodSync(outPath, 0o444);
+    } catch (e) {
+        console.error('Error writing class stub:', e);
+        return null;
+    }
+    extractedFileCache.set(cacheKey, outPath);
+    return outPath;
+}
+
+// ─── Go to Definition: JDK src.zip ──────────────────────────────────────────
+
+function getJdkSrcZipPath(): string | null {
+    if (!javaHomePath) { return null; }
+    const srcZip = path.join(javaHomePath, 'lib', 'src.zip');
+    return fs.existsSync(srcZip) ? srcZip : null;
+}
+
+function isJdkClass(fqn: string): boolean {
+    return /^(java\.|javax\.|sun\.|com\.sun\.|jdk\.|org\.w3c\.|org\.xml\.)/.test(fqn);
+}
+
+/**
+ * Index src.zip entries by package path once, so lookups do not walk every entry.
+ */
+function getJdkEntryIndex(): Map<string, string> | null {
+    if (jdkEntryIndex) { return jdkEntryIndex; }
+
+    const srcZip = getJdkSrcZipPath();
+    if (!srcZip) { return null; }
+    const zip = getZip(srcZip);
+    if (!zip) { return null; }
+
+    // JDK src.zip has module prefixes like java.base/java/lang/String.java
+    jdkEntryIndex = new Map();
+    for (const entry of zip.getEntries()) {
+        if (entry.entryName.endsWith('.java')) {
+            jdkEntryIndex.set(stripModulePrefix(entry.entryName), entry.entryName);
+        }
+    }
+    return jdkEntryIndex;
+}
+
+async function findDefinitionInJdkSrc(fqn: string): Promise<Location | null> {
+    const srcZip = getJdkSrcZipPath();
+    const index = getJdkEntryIndex();
+    if (!srcZip || !index) { return null; }
+
+    const relativePath = fqn.replace(/\./g, '/') + '.java';
+    const matchedEntry = index.get(relativePath);
+    if (!matchedEntry) { return null; }
+
+    const extracted = extractSourceToTemp(srcZip, matchedEntry);
+    if (!extracted) { return null; }
+
+    return findDefinitionInFile(extracted, fqn);
+}
+
+// ─── Unified Definition Search ──────────────────────────────────────────────
+
+/**
+ * Search across all sources in priority order:
+ * 1. Workspace source files
+ * 2. Maven sources.jar
+ * 3. JDK src.zip
+ * 4. Bundled servlet API stubs
+ * 5. Stubs generated from binary jars
+ */
+async function findDefinitionAnywhere(fqn: string, currentFileUri?: string, methodName?: string, paramCount?: number): Promise<Location | null> {
+    // Members may be declared by a superclass or interface, in any of the sources below
+    if (methodName) {
+        const member = findMemberDefinition(fqn, methodName, paramCount ?? 0, currentFileUri);
+        if (member) { return member; }
+    }
+
+    // 1. Workspace sources
+    const wsClass = await findJavaDefinition(fqn, currentFileUri);
+    if (wsClass) { return wsClass; }
+
+    // 2. Maven sources.jar
+    const mavenResult = await findDefinitionInSourcesJar(fqn);
+    if (mavenResult) { return mavenResult; }
+
+    // 3. JDK src.zip
+    const jdkResult = await findDefinitionInJdkSrc(fqn);
+    if (jdkResult) { return jdkResult; }
+
+    // 4. Bundled servlet API stubs
+    const stubPath = getServletStubPath(fqn);
+    if (stubPath) { return findDefinitionInFile(stubPath, fqn); }
+
+    // 5. Stub generated from the class file of a jar without sources
+    const classStubPath = getClassFileStubPath(fqn);
+    if (classStubPath) { return findDefinitionInFile(classStubPath, fqn); }
+
+    return null;
+}
+
+/**
+ * A method (the overload that best fits paramCount) or field of a type, looked up
+ * through its supertypes. The nearest type whose overload takes that many arguments
+ * wins; otherwise the nearest type declaring the name at all.
+ */
+function findMemberDefinition(fqn: string, memberName: string, paramCount: number, uri?: string): Location | null {
+    let fallback: Location | null = null;
+    for (const source of getClassHierarchySources(fqn, uri)) {
+        const { declaration } = source;
+        const method = findMethodDeclaration(declaration, memberName, paramCount);
+        const member = method ?? declaration.members.find(m => m.kind === 'field' && m.name === memberName);
+        if (!member) { continue; }
+
+        const unit = getJavaCompilationUnit(source.filePath, source.content);
+        const location = Location.create(pathToFileURL(source.filePath).toString(), getJavaNameRange(unit, member));
+        if (!method || method.parameters.length === paramCount || method.varargs) { return location; }
+        fallback ??= location;
+    }
+    return fallback;
+}
+
+/**
+ * Read the source of a class from the first place that has it, in the same
+ * priority order as findDefinitionAnywhere.
+ */
+function readJavaSource(fqn: string, currentFileUri?: string): { filePath: string; content: string } | null {
+    const read = (filePath: string | null) => {
+        if (!filePath) { return null; }
+        try {
+            return { filePath, content: fs.readFileSync(filePath, 'utf-8') };
+        } catch {
+            return null;
+        }
+    };
+
+    for (const srcInfo of sortSourcePaths(currentFileUri)) {
+        const source = read(resolveJavaFileDirect(srcInfo.sourcePath, fqn));
+        if (source) { return source; }
+    }
+
+    const jarEntry = findClassInSourcesJars(fqn);
+    if (jarEntry) {
+        const source = read(extractSourceToTemp(jarEntry.jarPath, jarEntry.entryName));
+        if (source) { return source; }
+    }
+
+    const jdkEntry = getJdkEntryIndex()?.get(fqn.replace(/\./g, '/') + '.java');
+    if (jdkEntry) {
+        const source = read(extractSourceToTemp(getJdkSrcZipPath()!, jdkEntry));
+        if (source) { return source; }
+    }
+
+    return read(getServletStubPath(fqn)) ?? read(getClassFileStubPath(fqn));
+}
+
+/**
+ * Whether a class exists in any of the places readJavaSource looks, checked
+ * without extracting or generating files.
+ */
+function isClassAvailable(fqn: string, currentFileUri?: string): boolean {
+    return sortSourcePaths(currentFileUri).some(s => !!resolveJavaFileDirect(s.sourcePath, fqn))
+        || !!findClassInSourcesJars(fqn)
+        || !!getJdkEntryIndex()?.has(fqn.replace(/\./g, '/') + '.java')
+        || !!getBundledServletStubPath(fqn)
+        || !!findClassInBinaryJars(fqn);
+}
+
+// ─── Java Class Index ───────────────────────────────────────────────────────
+
+/** JDK packages that are not public API and only clutter lookups and completion */
+const JDK_HIDDEN_PACKAGE_RE = /^(?:sun|com\.sun|jdk)\.|\.internal(?:\.|$)/;
+
+const CLASS_ORIGIN_ORDER: JavaClassEntry['origin'][] = ['workspace', 'maven', 'jdk'];
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+/** "com/acme/Foo.java" -> "com.acme.Foo"; null for nested, package-info and module-info classes */
+function toIndexedClassName(relativePath: string): string | null {
+    const m = /^((?:[\w$]+\/)*)([A-Za-z_][\w]*)\.(?:java|class)$/.exec(relativePath);
+    if (!m || m[2] === 'package-info' || m[2] === 'module-info') { return null; }
+    return m[1].replace(/\//g, '.') + m[2];
+}
+
+function addClassEntry(index: Map<string, JavaClassEntry[]>, fqn: string, origin: JavaClassEntry['origin']): void {
+    const simpleName = fqn.split('.').pop()!;
+    const entries = index.get(simpleName) ?? [];
+    if (entries.some(e => e.fqn === fqn)) { return; }
+    entries.push({ fqn, origin });
+    entries.sort((a, b) => CLASS_ORIGIN_ORDER.indexOf(a.origin) - CLASS_ORIGIN_ORDER.indexOf(b.origin) || a.fqn.localeCompare(b.fqn));
+    index.set(simpleName, entries);
+}
+
+/** Class names below a source directory, read asynchronously so the server stays responsive */
+async function collectSourceClassNames(dir: string, relativeDir: string = '', depth: number = 0): Promise<string[]> {
+    if (depth > 20) { return []; }
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const names: string[] = [];
+    for (const entry of entries) {
+        const relativePath = relativeDir + entry.name;
+        if (entry.isDirectory()) {
+            names.push(...await collectSourceClassNames(path.join(dir, entry.name), relativePath + '/', depth + 1));
+        } else if (entry.name.endsWith('.java')) {
+            const fqn = toIndexedClassName(relativePath);
+            if (fqn) { names.push(fqn); }
+        }
+    }
+    return names;
+}
+
+/** Class names in a jar: sources when the dependency publishes them, compiled classes otherwise */
+function collectJarClassNames(dep: MavenDependency): string[] {
+    const zip = getZip(getSourcesJarPath(dep)) ?? getZip(getBinaryJarPath(dep));
+    if (!zip) { return []; }
+
+    const names: string[] = [];
+    for (const entry of zip.getEntries()) {
+        const fqn = !entry.isDirectory && !entry.entryName.startsWith('META-INF/') ? toIndexedClassName(entry.entryName) : null;
+        if (fqn) { names.push(fqn); }
+    }
+    return names;
+}
+
+/**
+ * Index every top-level class of the workspace source paths, the Maven dependencies
+ * and the JDK by simple name. Yields between sources so requests are served meanwhile.
+ */
+async function buildJavaClassIndex(): Promise<Map<string, JavaClassEntry[]>> {
+    const index = new Map<string, JavaClassEntry[]>();
+
+    for (const srcInfo of javaSourcePaths) {
+        for (const fqn of await collectSourceClassNames(srcInfo.sourcePath)) {
+            addClassEntry(index, fqn, 'workspace');
+        }
+    }
+
+    for (const dep of mavenDependencies) {
+        await yieldToEventLoop();
+        for (const fqn of collectJarClassNames(dep)) {
+            addClassEntry(index, fqn, 'maven');
+        }
+    }
+
+    await yieldToEventLoop();
+    for (const relativePath of getJdkEntryIndex()?.keys() ?? []) {
+        const fqn = toIndexedClassName(relativePath);
+        if (fqn && !JDK_HIDDEN_PACKAGE_RE.test(fqn)) { addClassEntry(index, fqn, 'jdk'); }
+    }
+
+    return index;
+}
+
+function startJavaClassIndex(): void {
+    if (javaClassIndexBuild) { return; }
+    const build: Promise<Map<string, JavaClassEntry[]>> = buildJavaClassIndex().then(index => {
+        // A project change started a newer build meanwhile
+        if (javaClassIndexBuild !== build) { return index; }
+        javaClassIndex = index;
+        console.log(`Java class index built: ${index.size} simple names`);
+        // Lookups made while building fell back to direct file checks
+        documents.all().forEach(scheduleValidation);
+        return index;
+    }, error => {
+        // Retried on the next watched file change
+        console.error('Error building the Java class index:', error);
+        if (javaClassIndexBuild === build) { javaClassIndexBuild = null; }
+        return javaClassIndex ?? new Map<string, JavaClassEntry[]>();
+    });
+    javaClassIndexBuild = build;
+}
+
+/**
+ * Re-read the Maven and Gradle builds after a build file changed: source paths and
+ * dependencies may differ, so the class index is rebuilt (the old one serves meanwhile).
+ */
+function reloadProjects(): void {
+    collectProjects();
+    console.log('Projects reloaded:', javaSourcePaths.length, 'source paths,', mavenDependencies.length, 'dependencies');
+    sourceJarClassCache.clear();
+    invalidateTaglibIndex();
+    javaClassIndexBuild = null;
+    startJavaClassIndex();
+}
+
+/** The class index, or null while it is still being built */
+function getJavaClassIndex(): Map<string, JavaClassEntry[]> | null {
+    return javaClassIndex;
+}
+
+/** Classes with a given simple name, workspace classes first */
+function findClassesBySimpleName(simpleName: string): JavaClassEntry[] {
+    return getJavaClassIndex()?.get(simpleName) ?? [];
+}
+
+/**
+ * Whether a top-level class exists. Uses the index once built, and checks the
+ * sources directly before that.
+ */
+function classExists(fqn: string, uri?: string): boolean {
+    const index = getJavaClassIndex();
+    if (!index) { return isClassAvailable(fqn, uri); }
+    return findClassesBySimpleName(fqn.split('.').pop()!).some(e => e.fqn === fqn) || !!getBundledServletStubPath(fqn);
+}
+
+/** Classes of the given packages with a simple name, in package order */
+function findClassesInPackages(simpleName: string, packages: string[], uri?: string): string[] {
+    const found: string[] = [];
+    for (const pkg of packages) {
+        const fqn = `${pkg}.${simpleName}`;
+        if (!found.includes(fqn) && classExists(fqn, uri)) { found.push(fqn); }
+    }
+    return found;
+}
+
+/** Whether a simple name is a java.lang class, which every compilation unit imports */
+function isJavaLangClass(simpleName: string): boolean {
+    return JAVA_LANG_TYPES.has(simpleName) || findClassesBySimpleName(simpleName).some(e => e.fqn === `java.lang.${simpleName}`);
+}
+
+/**
+ * The classes a simple name refers to in a page: its single-type import, otherwise
+ * every class of the on-demand imports (wildcards, the servlet packages every page
+ * imports, and java.lang) with that name.
+ * More than one result means the name is ambiguous.
+ */
+function resolvePageClassCandidates(simpleName: string, cache: DocumentCache, uri?: string): string[] {
+    const imported = cache.imports.get(simpleName);
+    if (imported) { return [imported]; }
+
+    const namespace = getServletNamespace(cache);
+    const packages = [
+        ...cache.importEntries.filter(e => e.fqn.endsWith('.*')).map(e => e.fqn.slice(0, -2)),
+        ...JSP_IMPLICIT_PACKAGES.map(pkg => `${namespace}.${pkg}`),
+    ];
+    const found = findClassesInPackages(simpleName, packages, uri);
+    if (isJavaLangClass(simpleName) && !found.includes(`java.lang.${simpleName}`)) { found.push(`java.lang.${simpleName}`); }
+    return found;
+}
+
+/**
+ * Apply a watched .java file event. Class names come from the file path: created and
+ * changed files that exist are (re)added, deleted ones removed.
+ */
+function updateJavaClassIndex(filePath: string, changeType: FileChangeType): void {
+    const index = getJavaClassIndex();
+    if (!index) { return; }
+
+    const srcInfo = javaSourcePaths.find(p => filePath.startsWith(p.sourcePath + path.sep));
+    const fqn = srcInfo && toIndexedClassName(path.relative(srcInfo.sourcePath, filePath).split(path.sep).join('/'));
+    if (!fqn) { return; }
+
+    // Some watchers report a file written in place of a deleted one as changed
+    if (changeType !== FileChangeType.Deleted && fs.existsSync(filePath)) {
+        addClassEntry(index, fqn, 'workspace');
+        return;
+    }
+    const simpleName = fqn.split('.').pop()!;
+    const remaining = (index.get(simpleName) ?? []).filter(e => e.fqn !== fqn);
+    if (remaining.length > 0) {
+        index.set(simpleName, remaining);
+    } else {
+        index.delete(simpleName);
+    }
+}
+
+// ─── JSP Implicit Objects ───────────────────────────────────────────────────
+
+interface ImplicitObject {
+    name: string;
+    type: string; // relative to the servlet namespace ("servlet.http.HttpSession") or a java.lang FQN
+    description: string;
+}
+
+const JSP_IMPLICIT_OBJECTS: ImplicitObject[] = [
+    { name: 'request', type: 'servlet.http.HttpServletRequest', description: 'The request triggering the service invocation' },
+    { name: 'response', type: 'servlet.http.HttpServletResponse', description: 'The response to the request' },
+    { name: 'session', type: 'servlet.http.HttpSession', description: 'The session object created for the requesting client' },
+    { name: 'application', type: 'servlet.ServletContext', description: 'The servlet context of the web application' },
+    { name: 'out', type: 'servlet.jsp.JspWriter', description: 'The writer that sends output to the response stream' },
+    { name: 'pageContext', type: 'servlet.jsp.PageContext', description: 'The page context for this JSP page' },
+    { name: 'config', type: 'servlet.ServletConfig', description: 'The servlet configuration for this JSP page' },
+    { name: 'page', type: 'java.lang.Object', description: 'The instance of this page\'s implementation class' },
+    { name: 'exception', type: 'java.lang.Throwable', description: 'The uncaught exception that led to this error page' },
+];
+
+/** Packages every page imports on demand besides java.lang, relative to the servlet namespace */
+const JSP_IMPLICIT_PACKAGES = ['servlet', 'servlet.http', 'servlet.jsp'];
+
+/** Servlet API supertypes searched for inherited members (request.getParameter lives on ServletRequest) */
+const SERVLET_SUPERTYPES: Record<string, string[]> = {
+    'servlet.http.HttpServletRequest': ['servlet.ServletRequest'],
+    'servlet.http.HttpServletResponse': ['servlet.ServletResponse'],
+};
+
+/** Directory with the servlet API signature stubs shipped next to dist/ */
+const SERVLET_STUBS_DIR = path.join(__dirname, '..', 'stubs', 'servlet');
+
+/**
+ * Pick javax.servlet or jakarta.servlet: page imports win, then the project's dependencies.
+ */
+function getServletNamespace(cache?: DocumentCache): 'javax' | 'jakarta' {
+    if (cache) {
+        for (const entry of cache.importEntries) {
+            if (entry.fqn.startsWith('jakarta.servlet.')) { return 'jakarta'; }
+            if (entry.fqn.startsWith('javax.servlet.')) { return 'javax'; }
+        }
+    }
+
+    const usesJakarta = mavenDependencies.some(d =>
+        d.groupId.startsWith('jakarta.servlet') || d.groupId === 'jakarta.platform'
+        || (d.groupId === 'org.apache.tomcat.embed' && parseInt(d.version, 10) >= 10));
+    return usesJakarta ? 'jakarta' : 'javax';
+}
+
+function toServletFqn(type: string, namespace: 'javax' | 'jakarta'): string {
+    return type.startsWith('servlet.') ? `${namespace}.${type}` : type;
+}
+
+/**
+ * Type chain of an implicit object (its type followed by servlet supertypes),
+ * or null when the name is not an implicit object or a page variable shadows it.
+ */
+function getImplicitObjectTypes(name: string, cache: DocumentCache): string[] | null {
+    const implicit = JSP_IMPLICIT_OBJECTS.find(o => o.name === name);
+    if (!implicit || cache.variables.some(v => v.name === name)) { return null; }
+
+    const namespace = getServletNamespace(cache);
+    return [implicit.type, ...(SERVLET_SUPERTYPES[implicit.type] ?? [])].map(t => toServletFqn(t, namespace));
+}
+
+/** Path of the bundled javax stub a javax/jakarta servlet class maps to */
+function getBundledServletStubPath(fqn: string): string | null {
+    const m = fqn.match(/^(javax|jakarta)\.servlet\./);
+    if (!m) { return null; }
+
+    const javaxPath = path.join(SERVLET_STUBS_DIR, ...('javax' + fqn.substring(m[1].length)).split('.')) + '.java';
+    return fs.existsSync(javaxPath) ? javaxPath : null;
+}
+
+/**
+ * Path of the bundled stub for a javax/jakarta servlet class. Jakarta stubs are
+ * generated from the javax ones by renaming the package.
+ */
+function getServletStubPath(fqn: string): string | null {
+    const javaxPath = getBundledServletStubPath(fqn);
+    if (!javaxPath) { return null; }
+    if (fqn.startsWith('javax.')) { return javaxPath; }
+
+    const jakartaPath = path.join(tempDir, 'servlet-stubs', ...fqn.split('.')) + '.java';
+    if (!fs.existsSync(jakartaPath)) {
+        try {
+            fs.mkdirSync(path.dirname(jakartaPath), { recursive: true });
+            const content = fs.readFileSync(javaxPath, 'utf-8').replace(/\bjavax\.servlet\b/g, 'jakarta.servlet');
+            fs.writeFileSync(jakartaPath, content, 'utf-8');
+        } catch (e) {
+            console.error('Error generating servlet stub:', e);
+            return null;
+        }
+    }
+    return jakartaPath;
+}
+
+/**
+ * Resolve request.getParameter(...) and friends to the type in the chain that declares the method.
+ */
+async function resolveImplicitObjectMember(types: string[], methodName: string, paramCount: number, uri: string): Promise<Location | null> {
+    for (const fqn of types) {
+        const source = readJavaClassSource(fqn, uri);
+        if (source?.declaration.members.some(m => m.kind === 'method' && m.name === methodName)) {
+            return await findDefinitionAnywhere(fqn, uri, methodName, paramCount);
+        }
+    }
+    return await findDefinitionAnywhere(types[0], uri);
+}
+
+const JAVA_NON_TYPE_KEYWORDS = new Set([
+    'return', 'new', 'throw', 'throws', 'else', 'case', 'if', 'while', 'for', 'switch', 'catch', 'synchronized',
+    'instanceof', 'import', 'package', 'extends', 'implements', 'do', 'try', 'finally', 'default', 'assert', 'yield'
+]);
+
+/** The non-private methods of a class, one entry per overload */
+function listJavaMethods(declaration: JavaClassDeclaration): JavaMemberDeclaration[] {
+    return declaration.members.filter(m => m.kind === 'method' && !m.modifiers.includes('private'));
+}
+
+/** The non-private fields of a class, enum constants included */
+function listJavaFields(declaration: JavaClassDeclaration): JavaMemberDeclaration[] {
+    return declaration.members.filter(m => m.kind === 'field' && !m.modifiers.includes('private'));
+}
+
+// ─── JavaBean Properties ────────────────────────────────────────────────────
+
+/** A Java type with its generic arguments, every name fully qualified */
+interface JavaTypeRef {
+    fqn: string;
+    args: JavaTypeRef[];
+    array: boolean;
+}
+
+interface BeanProperty {
+    name: string;
+    getter: string;
+    type: JavaTypeRef;
+    ownerFqn: string; // Class declaring the getter
+}
+
+const JAVA_PRIMITIVES = new Set(['boolean', 'byte', 'char', 'short', 'int', 'long', 'float', 'double', 'void']);
+
+/** java.lang types commonly used by beans, resolvable without a JDK src.zip */
+const JAVA_LANG_TYPES = new Set([
+    'Object', 'String', 'Boolean', 'Byte', 'Character', 'Short', 'Integer', 'Long',
+    'Float', 'Double', 'Number', 'Enum', 'Class', 'Iterable', 'CharSequence', 'Throwable'
+]);
+
+const OBJECT_TYPE: JavaTypeRef = { fqn: 'java.lang.Object', args: [], array: false };
+
+/**
+ * Parse a Java type ("Map<String, List<Item>>", "Item[]"), resolving each name with resolveName.
+ * Wildcards resolve to their bound, or Object when unbounded.
+ */
+function parseJavaTypeRef(type: string, resolveName: (name: string) => string): JavaTypeRef {
+    let pos = 0;
+    const skipSpaces = () => { while (pos < type.length && /\s/.test(type[pos])) { pos++; } };
+
+    const parse = (): JavaTypeRef => {
+        skipSpaces();
+        const m = /^(?:\?\s*(?:extends|super)\s+)?([\w.$]+|\?)/.exec(type.substring(pos));
+        if (!m) { return OBJECT_TYPE; }
+        pos += m[0].length;
+        const ref: JavaTypeRef = { fqn: m[1] === '?' ? OBJECT_TYPE.fqn : resolveName(m[1]), args: [], array: false };
+
+        skipSpaces();
+        if (type[pos] === '<') {
+            pos++;
+            while (pos < type.length && type[pos] !== '>') {
+                const before = pos;
+                ref.args.push(parse());
+                skipSpaces();
+                if (type[pos] === ',') { pos++; }
+                if (pos === before) { break; }
+            }
+            pos++;
+        }
+
+        let dims;
+        while ((dims = /^\s*\[\s*\]/.exec(type.substring(pos))) !== null) {
+            ref.array = true;
+            pos += dims[0].length;
+        }
+        return ref;
+    };
+    return parse();
+}
+
+function formatJavaTypeRef(type: JavaTypeRef): string {
+    const args = type.args.length ? `<${type.args.map(formatJavaTypeRef).join(', ')}>` : '';
+    return type.fqn.split('.').pop() + args + (type.array ? '[]' : '');
+}
+
+/**
+ * Resolve a type name as written inside a Java source: explicit imports, then the
+ * source's own package, then wildcard imports, then java.lang.
+ */
+function resolveJavaTypeName(name: string, content: string, uri?: string): string {
+    if (JAVA_PRIMITIVES.has(name) || /^[a-z]\w*\./.test(name)) { return name; }
+
+    // Outer.Inner resolves through Outer
+    const simple = name.split('.')[0];
+    const nested = name.substring(simple.length);
+
+    const explicit = new RegExp(`^\\s*import\\s+([\\w.]+\\.${simple})\\s*;`, 'm').exec(content);
+    if (explicit) { return explicit[1] + nested; }
+
+    // Same package, then on-demand imports, then java.lang
+    const pkg = /^\s*package\s+([\w.]+)\s*;/m.exec(content)?.[1];
+    const packages = pkg ? [pkg] : [];
+    const wildcardRe = /^\s*import\s+([\w.]+)\.\*\s*;/gm;
+    let m;
+    while ((m = wildcardRe.exec(content)) !== null) { packages.push(m[1]); }
+
+    const found = findClassesInPackages(simple, packages, uri)[0];
+    if (found) { return found + nested; }
+    if (isJavaLangClass(simple)) { return `java.lang.${name}`; }
+    return pkg ? `${pkg}.${name}` : name;
+}
+
+/** Resolve a type name as written in a JSP: page imports, java.lang, or already qualified */
+function resolvePageTypeName(name: string, cache: DocumentCache): string {
+    const simple = name.split('.')[0];
+    if (!/^[A-Z]/.test(simple)) { return name; }
+    const resolved = resolvePageClassCandidates(simple, cache)[0];
+    return resolved ? resolved + name.substring(simple.length) : name;
+}
+
+function isMapType(fqn: string): boolean {
+    return /^java\.util\.(?:\w*Map|Properties|Hashtable)$/.test(fqn);
+}
+
+/** Type produced by iterating over a value, as c:forEach does */
+function getElementType(type: JavaTypeRef): JavaTypeRef | null {
+    if (type.array) { return { ...type, array: false }; }
+    if (isMapType(type.fqn)) { return { fqn: 'java.util.Map.Entry', args: type.args, array: false }; }
+    return type.args.length === 1 ? type.args[0] : null;
+}
+
+/** JavaBeans decapitalization: getName -> name, getURL -> URL */
+function toPropertyName(accessor: string): string {
+    const base = accessor.replace(/^(get|is)/, '');
+    return /^[A-Z]{2}/.test(base) ? base : base.charAt(0).toLowerCase() + base.substring(1);
+}
+
+/** The source of a class and its parsed declaration */
+interface JavaClassSource {
+    fqn: string;
+    filePath: string;
+    content: string;
+    declaration: JavaClassDeclaration;
+}
+
+function readJavaClassSource(fqn: string, uri?: string): JavaClassSource | null {
+    const source = readJavaSource(fqn, uri);
+    const declaration = source && findClassDeclaration(getJavaCompilationUnit(source.filePath, source.content), fqn);
+    return declaration ? { fqn, ...source!, declaration } : null;
+}
+
+/** Upper bound on the types walked for one hierarchy, in case of cycles through unresolved names */
+const MAX_HIERARCHY_TYPES = 32;
+
+/**
+ * The direct supertypes of a class, resolved against the imports of its own file:
+ * the superclass (java.lang.Object when none is written) and the interfaces it
+ * implements, or the interfaces an interface extends.
+ */
+function getJavaSupertypes(source: JavaClassSource, uri?: string): string[] {
+    const { declaration } = source;
+    const written = declaration.superclass ? [declaration.superclass, ...declaration.interfaces] : declaration.interfaces;
+    const supertypes = written.map(type => resolveJavaTypeName(type.replace(/<.*$/, ''), source.content, uri));
+    if (!declaration.superclass && declaration.kind !== 'interface' && declaration.kind !== 'annotation' && source.fqn !== OBJECT_TYPE.fqn) {
+        supertypes.unshift(OBJECT_TYPE.fqn);
+    }
+    return supertypes;
+}
+
+/**
+ * Sources of a class and all its supertypes that can be found, nearest first:
+ * breadth-first through superclasses and interfaces, java.lang.Object last.
+ */
+function getClassHierarchySources(fqn: string, uri?: string): JavaClassSource[] {
+    const sources: JavaClassSource[] = [];
+    const queue = [fqn];
+    const seen = new Set(queue);
+    let reachesObject = false;
+
+    while (queue.length > 0 && sources.length < MAX_HIERARCHY_TYPES) {
+        const source = readJavaClassSource(queue.shift()!, uri);
+        if (!source) { continue; }
+        sources.push(source);
+
+        for (const supertype of getJavaSupertypes(source, uri)) {
+            if (supertype === OBJECT_TYPE.fqn) { reachesObject = true; }
+            else if (!seen.has(supertype)) {
+                seen.add(supertype);
+                queue.push(supertype);
+            }
+        }
+    }
+
+    const object = reachesObject ? readJavaClassSource(OBJECT_TYPE.fqn, uri) : null;
+    if (object) { sources.push(object); }
+    return sources;
+}
+
+/**
+ * Readable properties of a class and its superclasses: public no-argument
+ * getX() methods, and isX() methods returning boolean.
+ */
+function getBeanProperties(fqn: string, uri?: string): BeanProperty[] {
+    const properties: BeanProperty[] = [];
+    const seen = new Set<string>();
+
+    for (const { fqn: owner, content, declaration } of getClassHierarchySources(fqn, uri)) {
+        for (const method of listJavaMethods(declaration)) {
+            if (method.parameters.length > 0 || method.name === 'getClass' || method.modifiers.includes('static')) { continue; }
+            const isGetter = /^get[A-Z_]/.test(method.name)
+                || (/^is[A-Z_]/.test(method.name) && method.type === 'boolean');
+            if (!isGetter) { continue; }
+
+            const name = toPropertyName(method.name);
+            if (seen.has(name)) { continue; }
+            seen.add(name);
+            properties.push({
+                name,
+                getter: method.name,
+                type: parseJavaTypeRef(method.type, n => resolveJavaTypeName(n, content, uri)),
+                ownerFqn: owner
+            });
+        }
+    }
+    return properties;
+}
+
+/** Writable properties of a class and its superclasses: public setX(value) methods */
+function getWritableBeanProperties(fqn: string, uri?: string): { name: string; setter: string; type: string; ownerFqn: string }[] {
+    const properties: { name: string; setter: string; type: string; ownerFqn: string }[] = [];
+    const seen = new Set<string>();
+
+    for (const { fqn: owner, declaration } of getClassHierarchySources(fqn, uri)) {
+        for (const method of listJavaMethods(declaration)) {
+            if (!/^set[A-Z_]/.test(method.name) || method.parameters.length !== 1 || method.modifiers.includes('static')) { continue; }
+            const name = toPropertyName(method.name.replace(/^set/, 'get'));
+            if (seen.has(name)) { continue; }
+            seen.add(name);
+            properties.push({ name, setter: method.name, type: method.parameters[0].type, ownerFqn: owner });
+        }
+    }
+    return properties;
+}
+
+// ─── jsp:useBean ────────────────────────────────────────────────────────────
+
+/** Hover text for property="*" */
+const WILDCARD_PROPERTY_DOC = 'Sets every bean property whose name matches a request parameter, '
+    + 'converting the parameter value to the property type. Parameters with an empty value are skipped.';
+
+/** Variables a page declares with jsp:useBean, before an offset when one is given */
+function getUseBeanDeclarations(cache: DocumentCache, before: number = Infinity): VariableDeclaration[] {
+    return cache.variables.filter(v => v.offset < before && findNodeAt(cache.nodes, v.offset)?.name === 'jsp:useBean');
+}
+
+/**
+ * Beans a jsp:setProperty / jsp:getProperty can refer to: those declared earlier in
+ * the page, then those of the other files of its translation unit, each with the
+ * page model its type resolves in.
+ */
+function getVisibleBeans(node: JspNode, doc: TextDocumentContent, cache: DocumentCache): { bean: VariableDeclaration; cache: DocumentCache }[] {
+    const beans = getUseBeanDeclarations(cache, node.start).map(bean => ({ bean, cache }));
+    for (const page of getTranslationUnitPages(doc)) {
+        beans.push(...getUseBeanDeclarations(page.cache).map(bean => ({ bean, cache: page.cache })));
+    }
+    return beans;
+}
+
+/**
+ * The class of the bean a jsp:setProperty / jsp:getProperty refers to through name=.
+ * The other files of the translation unit are only read when the page declares no such bean.
+ */
+function getUseBeanClass(node: JspNode, doc: TextDocumentContent, cache: DocumentCache): string | null {
+    const name = getAttribute(node, 'name')?.value;
+    const local = getUseBeanDeclarations(cache, node.start).filter(v => v.name === name).pop();
+    const found = local ? { bean: local, cache } : getVisibleBeans(node, doc, cache).find(b => b.bean.name === name);
+    return found ? parseJavaTypeRef(found.bean.type, n => resolvePageTypeName(n, found.cache)).fqn : null;
+}
+
+function isBeanPropertyAction(node: JspNode | undefined): boolean {
+    return node?.kind === 'action' && (node.name === 'jsp:setProperty' || node.name === 'jsp:getProperty');
+}
+
+/** Properties jsp:setProperty can write or jsp:getProperty can read, by name */
+function getBeanActionProperties(node: JspNode, fqn: string, uri: string): Map<string, { type: string; ownerFqn: string; method: string; paramCount: number }> {
+    const properties = new Map<string, { type: string; ownerFqn: string; method: string; paramCount: number }>();
+    if (node.name === 'jsp:setProperty') {
+        for (const p of getWritableBeanProperties(fqn, uri)) {
+            properties.set(p.name, { type: p.type, ownerFqn: p.ownerFqn, method: p.setter, paramCount: 1 });
+        }
+    } else {
+        for (const p of getBeanProperties(fqn, uri)) {
+            properties.set(p.name, { type: formatJavaTypeRef(p.type), ownerFqn: p.ownerFqn, method: p.getter, paramCount: 0 });
+        }
+    }
+    return properties;
+}
+
+/**
+ * Completions for name= (declared beans) and property= (bean setters or getters)
+ * of jsp:setProperty / jsp:getProperty, or null elsewhere.
+ */
+function getBeanActionCompletions(offset: number, node: JspNode | undefined, doc: TextDocumentContent, cache: DocumentCache): CompletionItem[] | null {
+    if (!isBeanPropertyAction(node)) { return null; }
+    const attr = getAttributeAtValue(node!, offset);
+    if (!attr) { return null; }
+
+    if (attr.name === 'name') {
+        const seen = new Set<string>();
+        return getVisibleBeans(node!, doc, cache)
+            .filter(b => !seen.has(b.bean.name) && seen.add(b.bean.name))
+            .map(b => ({ label: b.bean.name, kind: CompletionItemKind.Variable, detail: b.bean.type }));
+    }
+    if (attr.name !== 'property') { return null; }
+
+    const fqn = getUseBeanClass(node!, doc, cache);
+    if (!fqn) { return []; }
+    const items: CompletionItem[] = [...getBeanActionProperties(node!, fqn, doc.uri)].map(([name, p]) => ({
+        label: name,
+        kind: CompletionItemKind.Property,
+        detail: p.type,
+        documentation: `${p.ownerFqn}.${p.method}()`
+    }));
+    if (node!.name === 'jsp:setProperty') {
+        items.push({
+            label: '*',
+            kind: CompletionItemKind.Keyword,
+            documentation: WILDCARD_PROPERTY_DOC,
+            sortText: '~'
+        });
+    }
+    return items;
+}
+
+/**
+ * Definition of a property="..." value: the setter for jsp:setProperty, the getter
+ * for jsp:getProperty. Undefined when the offset is not in such a value.
+ */
+async function resolveBeanPropertyDefinition(offset: number, node: JspNode, doc: TextDocumentContent, cache: DocumentCache): Promise<Location | null | undefined> {
+    if (!isBeanPropertyAction(node)) { return undefined; }
+    const attr = getAttributeAtValue(node, offset);
+    if (attr?.name !== 'property') { return undefined; }
+
+    const fqn = getUseBeanClass(node, doc, cache);
+    const property = fqn ? getBeanActionProperties(node, fqn, doc.uri).get(attr.value) : undefined;
+    if (!property) { return null; }
+    return await findDefinitionAnywhere(property.ownerFqn, doc.uri, property.method, property.paramCount);
+}
+
+// ─── Tag Libraries ──────────────────────────────────────────────────────────
+
+/** Directories never searched for TLDs inside WEB-INF */
+const TLD_SCAN_SKIP_DIRS = new Set(['classes', 'lib']);
+
+/**
+ * Webapp roots of every workspace folder and Java module (e.g. module/src/main/webapp),
+ * after the webapp directories declared by Gradle builds.
+ */
+function getWebappRoots(): string[] {
+    const bases = new Set([...workspaceFolders, ...javaSourcePaths.map(p => p.modulePath)]);
+    const roots: string[] = projectWebappPaths.filter(dir => fs.existsSync(path.join(dir, 'WEB-INF')));
+    for (const base of bases) {
+        for (const webRoot of WEBAPP_ROOTS) {
+            const dir = path.join(base, webRoot);
+            if (fs.existsSync(path.join(dir, 'WEB-INF')) && !roots.includes(dir)) {
+                roots.push(dir);
+            }
+        }
+    }
+    return roots;
+}
+
+/**
+ * Find the webapp root a JSP lives in: the closest ancestor with a WEB-INF directory,
+ * or the Gradle webapp directory containing it.
+ */
+function findWebappRoot(filePath: string): string | null {
+    let dir = path.dirname(filePath);
+    while (true) {
+        if (fs.existsSync(path.join(dir, 'WEB-INF'))) { return dir; }
+        const parent = path.dirname(dir);
+        if (parent === dir) { break; }
+        dir = parent;
+    }
+    const declared = projectWebappPaths.find(webappPath => filePath.startsWith(webappPath + path.sep));
+    return declared ?? getWebappRoots()[0] ?? null;
+}
+
+/** Replace matches with spaces so offsets into the original text stay valid */
+function blankOut(text: string, re: RegExp): string {
+    return text.replace(re, m => m.replace(/[^\n]/g, ' '));
+}
+
+function findXmlElement(xml: string, element: string): { text: string; offset: number } | undefined {
+    const m = new RegExp(`<${element}>\\s*([\\s\\S]*?)\\s*</${element}>`).exec(xml);
+    if (!m) { return undefined; }
+    return {
+        text: m[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim(),
+        offset: m.index + m[0].indexOf(m[1], element.length + 2)
+    };
+}
+
+function getXmlElementText(xml: string, element: string): string | undefined {
+    return findXmlElement(xml, element)?.text;
+}
+
+/**
+ * Parse a tag library descriptor. Handles both the JSP 1.1 (tagclass, bodycontent, info)
+ * and JSP 1.2+ (tag-class, body-content, description) element names.
+ */
+function parseTld(content: string, location: TagLibrary['location']): TagLibrary {
+    const xml = blankOut(content, /<!--[\s\S]*?-->/g);
+    const tags: TagInfo[] = [];
+
+    const tagRe = /<tag>([\s\S]*?)<\/tag>/g;
+    let m;
+    while ((m = tagRe.exec(xml)) !== null) {
+        const bodyOffset = m.index + '<tag>'.length;
+        const attributes: TagAttributeInfo[] = [];
+        const attrRe = /<attribute>([\s\S]*?)<\/attribute>/g;
+        let am;
+        while ((am = attrRe.exec(m[1])) !== null) {
+            const name = findXmlElement(am[1], 'name');
+            if (!name) { continue; }
+            attributes.push({
+                name: name.text,
+                required: /^(true|yes)$/i.test(getXmlElementText(am[1], 'required') ?? ''),
+                rtexprvalue: /^(true|yes)$/i.test(getXmlElementText(am[1], 'rtexprvalue') ?? ''),
+                type: getXmlElementText(am[1], 'type'),
+                description: getXmlElementText(am[1], 'description'),
+                nameOffset: bodyOffset + am.index + '<attribute>'.length + name.offset
+            });
+        }
+
+        const variables: TagVariableInfo[] = [];
+        const variableRe = /<variable>([\s\S]*?)<\/variable>/g;
+        let vm;
+        while ((vm = variableRe.exec(m[1])) !== null) {
+            variables.push({
+                nameGiven: getXmlElementText(vm[1], 'name-given'),
+                nameFromAttribute: getXmlElementText(vm[1], 'name-from-attribute'),
+                variableClass: getXmlElementText(vm[1], 'variable-class') ?? 'java.lang.String',
+                scope: parseVariableScope(getXmlElementText(vm[1], 'scope'))
+            });
+        }
+
+        // The tag's own elements, without those of its attributes and variables
+        const own = blankOut(m[1], /<(attribute|variable)>[\s\S]*?<\/\1>/g);
+        const name = findXmlElement(own, 'name');
+        if (!name) { continue; }
+        tags.push({
+            name: name.text,
+            tagClass: getXmlElementText(own, 'tag-class') ?? getXmlElementText(own, 'tagclass'),
+            bodyContent: getXmlElementText(own, 'body-content') ?? getXmlElementText(own, 'bodycontent'),
+            description: getXmlElementText(own, 'description') ?? getXmlElementText(own, 'info'),
+            dynamicAttributes: /^(true|yes)$/i.test(getXmlElementText(own, 'dynamic-attributes') ?? ''),
+            attributes,
+            variables,
+            nameOffset: bodyOffset + name.offset
+        });
+    }
+
+    const functions: TagFunctionInfo[] = [];
+    const functionRe = /<function>([\s\S]*?)<\/function>/g;
+    while ((m = functionRe.exec(xml)) !== null) {
+        const name = findXmlElement(m[1], 'name');
+        if (!name) { continue; }
+        functions.push({
+            name: name.text,
+            functionClass: getXmlElementText(m[1], 'function-class'),
+            signature: getXmlElementText(m[1], 'function-signature'),
+            description: getXmlElementText(m[1], 'description'),
+            nameOffset: m.index + '<function>'.length + name.offset
+        });
+    }
+
+    // Library-level elements come before the first tag or function
+    const header = xml.split(/<(?:tag|tag-file|function)>/)[0];
+    return {
+        uri: getXmlElementText(header, 'uri') ?? '',
+        shortName: getXmlElementText(header, 'short-name') ?? getXmlElementText(header, 'shortname') ?? '',
+        description: getXmlElementText(header, 'description') ?? getXmlElementText(header, 'info'),
+        location,
+        tags,
+        functions
+    };
+}
+
+function parseVariableScope(scope: string | undefined): TagVariableInfo['scope'] {
+    return scope === 'AT_BEGIN' || scope === 'AT_END' ? scope : 'NESTED';
+}
+
+function isTagFile(filePath: string): boolean {
+    return /\.tagx?$/i.test(filePath);
+}
+
+/** Name of a <%@ name %> directive or of its XML form <jsp:directive.name/> */
+function getDirectiveName(node: JspNode): string | undefined {
+    if (node.kind === 'directive') { return node.name; }
+    if (node.kind === 'action' && node.name?.startsWith('jsp:directive.')) {
+        return node.name.substring('jsp:directive.'.length);
+    }
+    return undefined;
+}
+
+/**
+ * Describe a tag file from its tag, attribute and variable directives,
+ * applying the JSP defaults for tag files.
+ */
+function parseTagFile(filePath: string): TagInfo | null {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    const tag: TagInfo = {
+        name: path.basename(filePath).replace(/\.tagx?$/i, ''),
+        tagFile: filePath,
+        bodyContent: 'scriptless',
+        dynamicAttributes: false,
+        attributes: [],
+        variables: [],
+        nameOffset: 0
+    };
+
+    for (const node of tokenizeJsp(content)) {
+        const value = (name: string) => getAttribute(node, name)?.value;
+        switch (getDirectiveName(node)) {
+            case 'tag':
+                tag.bodyContent = value('body-content') ?? tag.bodyContent;
+                tag.description = value('description') ?? tag.description;
+                tag.dynamicAttributes = tag.dynamicAttributes || !!value('dynamic-attributes');
+                break;
+            case 'attribute': {
+                const name = getAttribute(node, 'name');
+                if (!name) { break; }
+                tag.attributes.push({
+                    name: name.value,
+                    required: /^(true|yes)$/i.test(value('required') ?? ''),
+                    rtexprvalue: !/^(false|no)$/i.test(value('rtexprvalue') ?? ''),
+                    type: /^(true|yes)$/i.test(value('fragment') ?? '') ? 'JspFragment' : value('type') ?? 'java.lang.String',
+                    description: value('description'),
+                    nameOffset: name.valueStart
+                });
+                break;
+            }
+            case 'variable':
+                tag.variables.push({
+                    nameGiven: value('name-given'),
+                    nameFromAttribute: value('name-from-attribute'),
+                    variableClass: value('variable-class') ?? 'java.lang.String',
+                    scope: parseVariableScope(value('scope'))
+                });
+                break;
+        }
+    }
+    return tag;
+}
+
+/**
+ * Library for a taglib directive's tagdir ("/WEB-INF/tags/ui"): one tag per
+ * .tag/.tagx file directly inside the directory.
+ */
+function getTagdirLibrary(tagdir: string, documentUri: string): TagLibrary | null {
+    const webRoot = findWebappRoot(uriToFsPath(documentUri));
+    if (!webRoot) { return null; }
+
+    const dir = path.join(webRoot, tagdir);
+    if (tagdirCache.has(dir)) { return tagdirCache.get(dir)!; }
+
+    let library: TagLibrary | null = null;
+    try {
+        const tags = fs.readdirSync(dir)
+            .filter(isTagFile)
+            .map(file => parseTagFile(path.join(dir, file)))
+            .filter((tag): tag is TagInfo => tag !== null);
+        library = { uri: tagdir, shortName: path.basename(dir), location: { path: dir }, tags, functions: [] };
+    } catch {
+        // Directory does not exist
+    }
+
+    tagdirCache.set(dir, library);
+    return library;
+}
+
+function parseTldFile(filePath: string): TagLibrary | null {
+    try {
+        return parseTld(fs.readFileSync(filePath, 'utf-8'), { path: filePath });
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Index every TLD the project can see. Later sources override earlier ones:
+ * 1. META-INF/*.tld inside Maven dependency jars
+ * 2. WEB-INF/**\/*.tld in each webapp root (also keyed by their webapp path)
+ * 3. <taglib> mappings in WEB-INF/web.xml
+ */
+function getTaglibIndex(): Map<string, TagLibrary> {
+    if (taglibIndex) { return taglibIndex; }
+    const index = new Map<string, TagLibrary>();
+
+    for (const dep of mavenDependencies) {
+        const jarPath = getBinaryJarPath(dep);
+        const zip = getZip(jarPath);
+        if (!zip) { continue; }
+        for (const entry of zip.getEntries()) {
+            if (!entry.entryName.startsWith('META-INF/') || !entry.entryName.endsWith('.tld')) { continue; }
+            try {
+                const lib = parseTld(zip.readAsText(entry), { path: entry.entryName, jarPath });
+                if (lib.uri) { index.set(lib.uri, lib); }
+            } catch (e) {
+                console.error('Error reading TLD:', jarPath, entry.entryName, e);
+            }
+        }
+    }
+
+    for (const webRoot of getWebappRoots()) {
+        const webInf = path.join(webRoot, 'WEB-INF');
+        for (const tldPath of collectFilesByExtension(webInf, ['.tld'], TLD_SCAN_SKIP_DIRS)) {
+            const lib = parseTldFile(tldPath);
+            if (!lib) { continue; }
+            if (lib.uri) { index.set(lib.uri, lib); }
+            index.set('/' + path.relative(webRoot, tldPath).split(path.sep).join('/'), lib);
+        }
+
+        const webXml = path.join(webInf, 'web.xml');
+        if (!fs.existsSync(webXml)) { continue; }
+        try {
+            const content = blankOut(fs.readFileSync(webXml, 'utf-8'), /<!--[\s\S]*?-->/g);
+            const taglibRe = /<taglib>([\s\S]*?)<\/taglib>/g;
+            let m;
+            while ((m = taglibRe.exec(content)) !== null) {
+                const uri = getXmlElementText(m[1], 'taglib-uri');
+                const location = getXmlElementText(m[1], 'taglib-location');
+                if (!uri || !location) { continue; }
+                const tldPath = location.startsWith('/')
+                    ? path.join(webRoot, location)
+                    : path.join(webInf, location);
+                const lib = parseTldFile(tldPath);
+                if (lib) { index.set(uri, lib); }
+            }
+        } catch (e) {
+            console.error('Error reading web.xml:', webXml, e);
+        }
+    }
+
+    taglibIndex = index;
+    return index;
+}
+
+function invalidateTaglibIndex(): void {
+    taglibIndex = null;
+    tagdirCache.clear();
+}
+
+/**
+ * Resolve a taglib directive uri: known URIs first, then a TLD path
+ * relative to the webapp root ("/WEB-INF/x.tld") or to the page.
+ */
+function resolveTaglibUri(uri: string, documentUri: string): TagLibrary | null {
+    const indexed = getTaglibIndex().get(uri);
+    if (indexed) { return indexed; }
+    if (!uri.endsWith('.tld')) { return null; }
+
+    const docPath = uriToFsPath(documentUri);
+    const webRoot = findWebappRoot(docPath);
+    const tldPath = uri.startsWith('/')
+        ? (webRoot ? path.join(webRoot, uri) : null)
+        : path.join(path.dirname(docPath), uri);
+    return tldPath && fs.existsSync(tldPath) ? parseTldFile(tldPath) : null;
+}
+
+/**
+ * Map each prefix declared by the page's taglib directives to its library.
+ * Prefixes whose library cannot be found map to null.
+ */
+function getPageTaglibs(cache: DocumentCache, documentUri: string): Map<string, TagLibrary | null> {
+    const taglibs = new Map<string, TagLibrary | null>();
+    for (const node of cache.nodes) {
+        if (node.kind !== 'directive' || node.name !== 'taglib') { continue; }
+        const prefix = getAttribute(node, 'prefix')?.value;
+        const uri = getAttribute(node, 'uri')?.value;
+        const tagdir = getAttribute(node, 'tagdir')?.value;
+        if (prefix && uri) {
+            taglibs.set(prefix, resolveTaglibUri(uri, documentUri));
+        } else if (prefix && tagdir) {
+            taglibs.set(prefix, getTagdirLibrary(tagdir, documentUri));
+        }
+    }
+    return taglibs;
+}
+
+/** Look up "prefix:name" among the page's tag libraries */
+function findTagInfo(taglibs: Map<string, TagLibrary | null>, qualifiedName: string): { library: TagLibrary; tag: TagInfo | undefined } | null {
+    const [prefix, name] = qualifiedName.split(':');
+    const library = taglibs.get(prefix);
+    if (!library) { return null; }
+    return { library, tag: library.tags.find(t => t.name === name) };
+}
+
+function isTldDocument(uri: string): boolean {
+    return uri.toLowerCase().endsWith('.tld');
+}
+
+/**
+ * Location of an offset inside the file describing a tag: its tag file, or the
+ * library's TLD. TLDs packaged in jars are extracted to the temp dir so the editor can open them.
+ */
+function getTagSourceLocation(library: TagLibrary, tag: TagInfo, offset: number, length: number): Location | null {
+    const filePath = tag.tagFile
+        ?? (library.location.jarPath
+            ? extractSourceToTemp(library.location.jarPath, library.location.path)
+            : library.location.path);
+    if (!filePath) { return null; }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return null;
+    }
+    const tld = TextDocumentContent.create('', 'xml', 0, content);
+    return Location.create(pathToFileURL(filePath).toString(), Range.create(tld.positionAt(offset), tld.positionAt(offset + length)));
+}
+
+/**
+ * Definitions for a custom tag name (its <tag> entry and handler class, or its tag file)
+ * or one of its attribute names (the <attribute> entry and the handler's setter).
+ * Returns undefined when the offset is not on a tag or attribute name.
+ */
+async function resolveCustomTagDefinition(cache: DocumentCache, offset: number, uri: string): Promise<Location[] | undefined> {
+    const node = findNodeAt(cache.nodes, offset);
+    if (node?.kind !== 'customTag' || !node.name) { return undefined; }
+
+    const nameStart = node.start + (node.isEndTag ? 2 : 1);
+    const onName = offset >= nameStart && offset <= nameStart + node.name.length;
+    const attr = onName ? undefined : node.attributes?.find(a => offset >= a.nameStart && offset <= a.nameStart + a.name.length);
+    if (!onName && !attr) { return undefined; }
+
+    const found = findTagInfo(getPageTaglibs(cache, uri), node.name);
+    if (!found?.tag) { return []; }
+    const { library, tag } = found;
+
+    const locations: Location[] = [];
+    if (onName) {
+        const tldLocation = getTagSourceLocation(library, tag, tag.nameOffset, tag.tagFile ? 0 : tag.name.length);
+        if (tldLocation) { locations.push(tldLocation); }
+        if (tag.tagClass) {
+            const classLocation = await findDefinitionAnywhere(tag.tagClass, uri);
+            if (classLocation) { locations.push(classLocation); }
+        }
+        return locations;
+    }
+
+    const info = tag.attributes.find(a => a.name === attr!.name);
+    if (!info) { return []; }
+    const tldLocation = getTagSourceLocation(library, tag, info.nameOffset, info.name.length);
+    if (tldLocation) { locations.push(tldLocation); }
+    if (tag.tagClass) {
+        const setter = 'set' + info.name.charAt(0).toUpperCase() + info.name.substring(1);
+        const setterLocation = await findDefinitionAnywhere(tag.tagClass, uri, setter, 1);
+        if (setterLocation) { locations.push(setterLocation); }
+    }
+    return locations;
+}
+
+/** TLD elements whose text is a fully qualified class name */
+const TLD_CLASS_ELEMENTS = [
+    'tag-class', 'tagclass', 'tei-class', 'teiclass', 'function-class',
+    'variable-class', 'type', 'listener-class', 'validator-class'
+];
+
+/**
+ * Inside a .tld document, resolve the class named by the element under the cursor.
+ */
+async function resolveTldClassReference(text: string, offset: number, uri: string): Promise<Location | null> {
+    const elementRe = new RegExp(`<(${TLD_CLASS_ELEMENTS.join('|')})>\\s*([\\w.$]+)\\s*</\\1>`, 'g');
+    let m;
+    while ((m = elementRe.exec(text)) !== null) {
+        const valueStart = m.index + m[0].indexOf(m[2], m[1].length + 2);
+        if (offset < valueStart || offset > valueStart + m[2].length) { continue; }
+        return await findDefinitionAnywhere(m[2].replace(/\$/g, '.'), uri);
+    }
+    return null;
+}
+
+/**
+ * Tag name and attribute completions for custom tags, or null outside a custom tag.
+ */
+function getCustomTagCompletions(text: string, offset: number, node: JspNode | undefined, cache: DocumentCache, documentUri: string): CompletionItem[] | null {
+    const taglibs = getPageTaglibs(cache, documentUri);
+    if (taglibs.size === 0) { return null; }
+
+    // <prefix:na| — tag names of the library
+    const before = text.substring(Math.max(0, offset - 200), offset);
+    const nameMatch = before.match(/<\/?([A-Za-z_][\w.-]*):([\w.-]*)$/);
+    if (nameMatch) {
+        const library = taglibs.get(nameMatch[1]);
+        if (!library) { return null; }
+        return library.tags.map(tag => ({
+            label: tag.name,
+            kind: CompletionItemKind.Class,
+            detail: `<${nameMatch[1]}:${tag.name}> — ${library.shortName || library.uri}`,
+            documentation: tag.description
+        }));
+    }
+
+    // <prefix:tag | — attributes not yet present on the tag
+    if (node?.kind !== 'customTag' || node.isEndTag || offset <= node.contentStart || getAttributeAtValue(node, offset)) {
+        return null;
+    }
+    const found = findTagInfo(taglibs, node.name!);
+    if (!found?.tag) { return null; }
+
+    const present = new Set(node.attributes!
+        .filter(a => offset < a.nameStart || offset > a.nameStart + a.name.length)
+        .map(a => a.name));
+    return found.tag.attributes
+        .filter(attr => !present.has(attr.name))
+        .map(attr => ({
+            label: attr.name,
+            kind: CompletionItemKind.Property,
+            detail: [attr.required ? 'required' : 'optional', attr.type].filter(Boolean).join(' · '),
+            documentation: attr.description,
+            insertText: `${attr.name}="$1"`,
+            insertTextFormat: InsertTextFormat.Snippet,
+            sortText: (attr.required ? '0' : '1') + attr.name
+        }));
+}
+
+/** "prefix:tag" proposals for every declared library, offered after "<" */
+function getTagNameCompletions(cache: DocumentCache, documentUri: string): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    for (const [prefix, library] of getPageTaglibs(cache, documentUri)) {
+        for (const tag of library?.tags ?? []) {
+            items.push({
+                label: `${prefix}:${tag.name}`,
+                kind: CompletionItemKind.Class,
+                detail: library!.shortName || library!.uri,
+                documentation: tag.description
+            });
+        }
+    }
+    return items;
+}
+
+/**
+ * Scripting variables that custom tags make visible at an offset: NESTED ones inside
+ * the body of an open tag, AT_BEGIN from the start tag on, AT_END after the tag.
+ */
+function getTagVariablesAt(cache: DocumentCache, offset: number, documentUri: string): { name: string; type: string; node: JspNode }[] {
+    const taglibs = getPageTaglibs(cache, documentUri);
+    if (taglibs.size === 0) { return []; }
+
+    const visible: { name: string; type: string; node: JspNode }[] = [];
+    const open: { node: JspNode; tag: TagInfo }[] = [];
+    const declare = (node: JspNode, tag: TagInfo, scopes: TagVariableInfo['scope'][]) => {
+        for (const variable of tag.variables) {
+            if (!scopes.includes(variable.scope)) { continue; }
+            const name = variable.nameGiven
+                ?? (variable.nameFromAttribute && getAttribute(node, variable.nameFromAttribute)?.value);
+            if (name) { visible.push({ name, type: variable.variableClass, node }); }
+        }
+    };
+
+    for (const node of cache.nodes) {
+        if (node.start >= offset) { break; }
+        if (node.kind !== 'customTag' || !node.closed) { continue; }
+
+        if (node.isEndTag) {
+            const index = open.map(o => o.node.name).lastIndexOf(node.name);
+            if (index < 0) { continue; }
+            const [closed] = open.splice(index, 1);
+            declare(closed.node, closed.tag, ['AT_END']);
+            continue;
+        }
+
+        const tag = findTagInfo(taglibs, node.name!)?.tag;
+        if (!tag) { continue; }
+        declare(node, tag, ['AT_BEGIN']);
+        if (node.selfClosing) {
+            declare(node, tag, ['AT_END']);
+        } else {
+            open.push({ node, tag });
+        }
+    }
+
+    for (const { node, tag } of open) { declare(node, tag, ['NESTED']); }
+    return visible;
+}
+
+// ─── Expression Language ────────────────────────────────────────────────────
+
+interface ElImplicitObject {
+    name: string;
+    type: string;
+    description: string;
+}
+
+const EL_IMPLICIT_OBJECTS: ElImplicitObject[] = [
+    { name: 'pageContext', type: 'servlet.jsp.PageContext', description: 'The page context for this JSP page' },
+    { name: 'pageScope', type: 'java.util.Map<String, Object>', description: 'Page-scoped attributes by name' },
+    { name: 'requestScope', type: 'java.util.Map<String, Object>', description: 'Request-scoped attributes by name' },
+    { name: 'sessionScope', type: 'java.util.Map<String, Object>', description: 'Session-scoped attributes by name' },
+    { name: 'applicationScope', type: 'java.util.Map<String, Object>', description: 'Application-scoped attributes by name' },
+    { name: 'param', type: 'java.util.Map<String, String>', description: 'First value of each request parameter' },
+    { name: 'paramValues', type: 'java.util.Map<String, String[]>', description: 'All values of each request parameter' },
+    { name: 'header', type: 'java.util.Map<String, String>', description: 'First value of each request header' },
+    { name: 'headerValues', type: 'java.util.Map<String, String[]>', description: 'All values of each request header' },
+    { name: 'cookie', type: 'java.util.Map<String, servlet.http.Cookie>', description: 'Request cookies by name' },
+    { name: 'initParam', type: 'java.util.Map<String, String>', description: 'Context initialization parameters by name' },
+];
+
+const EL_KEYWORDS = [
+    'and', 'or', 'not', 'eq', 'ne', 'lt', 'gt', 'le', 'ge',
+    'div', 'mod', 'empty', 'instanceof', 'true', 'false', 'null'
+];
+
+/** Tags that only expose their var/varStatus inside their body */
+const EL_ITERATION_TAGS = ['forEach', 'forTokens'];
+
+interface ElVariable {
+    name: string;
+    type?: string;
+    node: JspNode; // Element that introduces the variable
+}
+
+/**
+ * Scoped variables the page has introduced before an offset: jsp:useBean ids,
+ * tag library variables, and var/varStatus attributes of tags that declare none (JSTL style).
+ * Iteration tags only contribute inside their body.
+ */
+function getElVariables(cache: DocumentCache, offset: number, documentUri: string): ElVariable[] {
+    const variables: ElVariable[] = [];
+    const openIterations: JspNode[] = [];
+    const taglibs = getPageTaglibs(cache, documentUri);
+
+    for (const node of cache.nodes) {
+        if (node.start >= offset) { break; }
+        // The tag holding the offset (e.g. its items="${...}") does not see its own var yet
+        if (node.end > offset) { continue; }
+
+        if (node.kind === 'action' && node.name === 'jsp:useBean') {
+            const id = getAttribute(node, 'id')?.value;
+            if (id) {
+                variables.push({ name: id, type: getAttribute(node, 'type')?.value ?? getAttribute(node, 'class')?.value, node });
+            }
+            continue;
+        }
+        if (node.kind !== 'customTag' || !node.closed) { continue; }
+        // Tags that declare their variables are handled by getTagVariablesAt
+        if (findTagInfo(taglibs, node.name!)?.tag?.variables.length) { continue; }
+
+        const localName = node.name!.substring(node.name!.indexOf(':') + 1);
+        if (!EL_ITERATION_TAGS.includes(localName)) {
+            const name = !node.isEndTag && getAttribute(node, 'var')?.value;
+            if (name) { variables.push({ name, node }); }
+        } else if (node.isEndTag) {
+            const index = openIterations.map(n => n.name).lastIndexOf(node.name);
+            if (index >= 0) { openIterations.splice(index, 1); }
+        } else if (!node.selfClosing) {
+            openIterations.push(node);
+        }
+    }
+
+    for (const node of openIterations) {
+        const name = getAttribute(node, 'var')?.value;
+        if (name) { variables.push({ name, node }); }
+        const status = getAttribute(node, 'varStatus')?.value;
+        if (status) {
+            variables.push({ name: status, type: toServletFqn('servlet.jsp.jstl.core.LoopTagStatus', getServletNamespace(cache)), node });
+        }
+    }
+
+    const declared = new Set(variables.map(v => v.name));
+    return variables.concat(getTagVariablesAt(cache, offset, documentUri).filter(v => !declared.has(v.name)));
+}
+
+/** A property chain: base name followed by .property and [index] accessors */
+const EL_CHAIN_PATTERN = '[A-Za-z_$][\\w$]*(?:\\s*\\.\\s*[A-Za-z_$][\\w$]*|\\s*\\[[^\\]]*\\])*';
+
+interface ElAccessor {
+    property?: string; // .name or ['name']
+    index?: string; // [expr]
+    start: number; // Offset of the property name in the chain
+}
+
+function parseElChain(expr: string): { base: string; accessors: ElAccessor[] } | null {
+    const baseMatch = /^\s*([A-Za-z_$][\w$]*)/.exec(expr);
+    if (!baseMatch) { return null; }
+
+    const accessors: ElAccessor[] = [];
+    const accessorRe = /\s*(?:\.\s*([A-Za-z_$][\w$]*)|\[\s*(?:(['"])(.*?)\2|([^\]]*?))\s*\])/y;
+    accessorRe.lastIndex = baseMatch[0].length;
+    let m;
+    while ((m = accessorRe.exec(expr)) !== null) {
+        if (m[1]) {
+            accessors.push({ property: m[1], start: m.index + m[0].lastIndexOf(m[1]) });
+        } else if (m[3] !== undefined) {
+            accessors.push({ property: m[3], start: m.index + m[0].indexOf(m[3]) });
+        } else {
+            accessors.push({ index: m[4], start: m.index });
+        }
+    }
+    return { base: baseMatch[1], accessors };
+}
+
+function getElImplicitObjectType(obj: ElImplicitObject, cache: DocumentCache): JavaTypeRef {
+    const namespace = getServletNamespace(cache);
+    return parseJavaTypeRef(obj.type, n => JAVA_LANG_TYPES.has(n) ? `java.lang.${n}` : toServletFqn(n, namespace));
+}
+
+function isIterationTag(node: JspNode): boolean {
+    return node.kind === 'customTag' && EL_ITERATION_TAGS.includes(node.name!.substring(node.name!.indexOf(':') + 1));
+}
+
+/**
+ * Static type of a name used in EL: a scoped variable (useBean class, tag variable,
+ * element type of an enclosing c:forEach), a scriptlet declaration, or an EL implicit object.
+ */
+function getElVariableType(name: string, cache: DocumentCache, offset: number, uri: string): JavaTypeRef | null {
+    const variable = getElVariables(cache, offset, uri).filter(v => v.name === name).pop();
+    if (variable) {
+        if (variable.type) { return parseJavaTypeRef(variable.type, n => resolvePageTypeName(n, cache)); }
+
+        // <c:forEach items="${order.items}" var="item">
+        const items = isIterationTag(variable.node) && getAttribute(variable.node, 'items')?.value;
+        const el = items && /^\s*[$#]\{([\s\S]*)\}\s*$/.exec(items);
+        if (!el) { return null; }
+        const itemsType = resolveElChainType(el[1].trim(), cache, variable.node.start, uri);
+        return itemsType && getElementType(itemsType);
+    }
+
+    const declared = cache.variables.filter(v => v.name === name && v.offset < offset).pop();
+    if (declared) { return parseJavaTypeRef(declared.type, n => resolvePageTypeName(n, cache)); }
+
+    const implicit = EL_IMPLICIT_OBJECTS.find(o => o.name === name);
+    return implicit ? getElImplicitObjectType(implicit, cache) : null;
+}
+
+/**
+ * Apply one accessor to a type. Beans resolve .name through their getter, maps
+ * through their value type, lists and arrays through their element type.
+ */
+function resolveElAccessor(type: JavaTypeRef, accessor: ElAccessor, uri: string): { type: JavaTypeRef; property?: BeanProperty } | null {
+    if (type.array || (accessor.index !== undefined && !isMapType(type.fqn))) {
+        const element = getElementType(type);
+        return element ? { type: element } : null;
+    }
+    if (isMapType(type.fqn)) {
+        return { type: type.args[1] ?? OBJECT_TYPE };
+    }
+    if (type.fqn === 'java.util.Map.Entry' && (accessor.property === 'key' || accessor.property === 'value')) {
+        return { type: type.args[accessor.property === 'key' ? 0 : 1] ?? OBJECT_TYPE };
+    }
+
+    const property = getBeanProperties(type.fqn, uri).find(p => p.name === accessor.property);
+    return property ? { type: property.type, property } : null;
+}
+
+/** Static type of a whole property chain, or null when any step is unknown */
+function resolveElChainType(expr: string, cache: DocumentCache, offset: number, uri: string): JavaTypeRef | null {
+    const chain = parseElChain(expr);
+    if (!chain) { return null; }
+
+    let type = getElVariableType(chain.base, cache, offset, uri);
+    for (const accessor of chain.accessors) {
+        if (!type) { return null; }
+        type = resolveElAccessor(type, accessor, uri)?.type ?? null;
+    }
+    return type;
+}
+
+/** The property chain in an EL node ending at the identifier under the cursor */
+function getElChainAt(text: string, offset: number, node: JspNode): string | null {
+    let end = offset;
+    while (end < node.contentEnd && /[\w$]/.test(text[end])) { end++; }
+    const before = text.substring(node.contentStart, end);
+    const m = new RegExp(`(?:^|[^\\w$.:'"])(${EL_CHAIN_PATTERN})$`).exec(before);
+    return m ? m[1] : null;
+}
+
+/**
+ * Definition of the identifier under the cursor in EL: a property resolves to its
+ * getter, the base name to the element or declaration introducing it.
+ */
+async function resolveElDefinition(document: TextDocumentContent, offset: number, node: JspNode, cache: DocumentCache): Promise<Location | null> {
+    const uri = document.uri;
+    const expr = getElChainAt(document.getText(), offset, node);
+    const chain = expr && parseElChain(expr);
+    if (!chain) { return null; }
+
+    if (chain.accessors.length === 0) {
+        const variable = getElVariables(cache, offset, uri).filter(v => v.name === chain.base).pop();
+        if (variable) {
+            const attr = variable.node.attributes?.find(a => a.value === chain.base);
+            const start = attr ? attr.valueStart : variable.node.start;
+            return Location.create(uri, Range.create(document.positionAt(start), document.positionAt(start + chain.base.length)));
+        }
+        const declared = cache.variables.filter(v => v.name === chain.base && v.offset < offset).pop();
+        if (declared) {
+            return Location.create(uri, Range.create(document.positionAt(declared.offset), document.positionAt(declared.offset + declared.name.length)));
+        }
+        return null;
+    }
+
+    let type = getElVariableType(chain.base, cache, offset, uri);
+    let step: { type: JavaTypeRef; property?: BeanProperty } | null = null;
+    for (const accessor of chain.accessors) {
+        if (!type) { return null; }
+        step = resolveElAccessor(type, accessor, uri);
+        type = step?.type ?? null;
+    }
+    if (!step?.property) { return null; }
+    return await findDefinitionAnywhere(step.property.ownerFqn, uri, step.property.getter, 0);
+}
 
-    const entry = zip.getEntry(entryName);
-    if (!entry) { return null; }
+// ─── Includes ───────────────────────────────────────────────────────────────
 
-    try {
-        const content = zip.readAsText(entry);
-        const outPath = path.join(tempDir, path.basename(zipPath, '.jar'), entryName.replace(/\//g, path.sep));
-        const outDir = path.dirname(outPath);
-        if (!fs.existsSync(outDir)) {
-            fs.mkdirSync(outDir, { recursive: true });
+/**
+ * The attribute naming another page: file= of the include directive,
+ * page= of jsp:include and jsp:forward.
+ */
+function getIncludeTargetAttribute(node: JspNode): JspAttribute | undefined {
+    if (node.kind === 'directive' && node.name === 'include') { return getAttribute(node, 'file'); }
+    if (node.kind !== 'action') { return undefined; }
+    if (node.name === 'jsp:directive.include') { return getAttribute(node, 'file'); }
+    if (node.name === 'jsp:include' || node.name === 'jsp:forward') { return getAttribute(node, 'page'); }
+    return undefined;
+}
+
+/** Targets computed at request time cannot be resolved statically */
+function isDynamicPath(value: string): boolean {
+    return /<%|[$#]\{/.test(value);
+}
+
+/**
+ * Resolve an include/forward path to a file. Relative paths resolve against the
+ * including file, context-absolute ones ("/WEB-INF/...") against the webapp roots.
+ */
+function resolveIncludePath(target: string, documentUri: string): string | null {
+    const cleaned = target.trim().replace(/[?#].*$/, '');
+    if (!cleaned || isDynamicPath(cleaned)) { return null; }
+
+    const docPath = uriToFsPath(documentUri);
+    const candidates: string[] = [];
+    if (!cleaned.startsWith('/')) {
+        candidates.push(path.resolve(path.dirname(docPath), cleaned));
+    } else {
+        const ownRoot = findWebappRoot(docPath);
+        if (ownRoot) { candidates.push(path.join(ownRoot, cleaned)); }
+        for (const webappPath of projectWebappPaths) {
+            candidates.push(path.join(webappPath, cleaned));
         }
-        fs.writeFileSync(outPath, content, 'utf-8');
-        extractedFileCache.set(cacheKey, outPath);
-        return outPath;
-    } catch (e) {
-        console.error('Error extracting source:', e);
+        const bases = new Set([...workspaceFolders, ...javaSourcePaths.map(p => p.modulePath)]);
+        for (const base of bases) {
+            for (const webRoot of WEBAPP_ROOTS) {
+                candidates.push(path.join(base, webRoot, cleaned));
+            }
+        }
+    }
+
+    return candidates.find(c => fs.existsSync(c) && fs.statSync(c).isFile()) ?? null;
+}
+
+/**
+ * Definition of an include/forward target under the cursor.
+ * Undefined when the offset is not in a target attribute value.
+ */
+function resolveIncludeDefinition(offset: number, node: JspNode, uri: string): Location | null | undefined {
+    const target = getIncludeTargetAttribute(node);
+    if (!target || offset < target.valueStart || offset > target.valueEnd) { return undefined; }
+
+    const filePath = resolveIncludePath(target.value, uri);
+    if (!filePath) { return null; }
+    return Location.create(pathToFileURL(filePath).toString(), Range.create(0, 0, 0, 0));
+}
+
+// ─── Include Graph ──────────────────────────────────────────────────────────
+
+const JSP_FILE_EXTENSIONS = ['.jsp', '.jspx', '.jspf', '.tag', '.tagx'];
+
+/** Directories never searched for pages */
+const JSP_SCAN_SKIP_DIRS = new Set(['node_modules', '.git', 'target', 'build', 'dist', 'out', 'bin', '.idea', '.settings']);
+
+function isJspFile(filePath: string): boolean {
+    return JSP_FILE_EXTENSIONS.some(ext => filePath.toLowerCase().endsWith(ext));
+}
+
+/** Include edges of one file, read from disk, and the file names its include attributes name */
+function scanIncludes(filePath: string): { edges: IncludeEdge[]; targetNames: Set<string> } {
+    const targetNames = new Set<string>();
+    const doc = readPageDocument(filePath, false);
+    if (!doc) { return { edges: [], targetNames }; }
+    const nodes = tokenizeJsp(doc.getText());
+    for (const node of nodes) {
+        const value = getIncludeTargetAttribute(node)?.value.trim().replace(/[?#].*$/, '');
+        if (value) { targetNames.add(path.basename(value)); }
+    }
+    return { edges: collectIncludeEdges(doc, nodes), targetNames };
+}
+
+/** Scan one file again and record its edges in the graph */
+function indexIncludes(graph: Map<string, IncludeEdge[]>, filePath: string): void {
+    const { edges, targetNames } = scanIncludes(filePath);
+    if (edges.length > 0) {
+        graph.set(filePath, edges);
+    } else {
+        graph.delete(filePath);
+    }
+    if (targetNames.size > 0) {
+        includeTargetNames.set(filePath, targetNames);
+    } else {
+        includeTargetNames.delete(filePath);
+    }
+}
+
+function collectIncludeEdges(doc: TextDocumentContent, nodes: JspNode[]): IncludeEdge[] {
+    const edges: IncludeEdge[] = [];
+    for (const node of nodes) {
+        const attr = getIncludeTargetAttribute(node);
+        const target = attr && resolveIncludePath(attr.value, doc.uri);
+        if (target) {
+            edges.push({
+                target,
+                range: Range.create(doc.positionAt(attr!.valueStart), doc.positionAt(attr!.valueEnd)),
+                isStatic: attr!.name === 'file'
+            });
+        }
+    }
+    return edges;
+}
+
+/**
+ * A page as a text document: the open editor contents when preferOpen is set
+ * and the page is open, otherwise the file on disk.
+ */
+function readPageDocument(filePath: string, preferOpen: boolean = true): TextDocumentContent | null {
+    const uri = pathToFileURL(filePath).toString();
+    const open = preferOpen ? documents.get(uri) : undefined;
+    if (open) { return open; }
+    try {
+        return TextDocumentContent.create(uri, 'jsp', 0, fs.readFileSync(filePath, 'utf-8'));
+    } catch {
         return null;
     }
 }
 
-async function findDefinitionInSourcesJar(fqn: string, methodName?: string, paramCount?: number): Promise<Location | null> {
-    const found = findClassInSourcesJars(fqn);
-    if (!found) { return null; }
+/**
+ * A page and the fragments it statically includes, transitively: the files
+ * translated together into one servlet.
+ */
+function getTranslationUnit(filePath: string): string[] {
+    const unit: string[] = [];
+    const visit = (file: string) => {
+        if (unit.includes(file)) { return; }
+        unit.push(file);
+        const doc = readPageDocument(file);
+        if (!doc) { return; }
+        collectIncludeEdges(doc, getPageCache(doc).nodes).filter(e => e.isStatic).forEach(e => visit(e.target));
+    };
+    visit(filePath);
+    return unit;
+}
 
-    const extracted = extractSourceToTemp(found.jarPath, found.entryName);
-    if (!extracted) { return null; }
+/**
+ * Every file translated together with a page: the translation units of the pages
+ * that statically include it (transitively), or its own when nothing includes it.
+ */
+function getEnclosingTranslationUnit(filePath: string): string[] {
+    const roots: string[] = [];
+    const seen = new Set<string>();
+    const climb = (file: string) => {
+        if (seen.has(file)) { return; }
+        seen.add(file);
+        const includers = findIncluders(file).filter(r => r.edge.isStatic);
+        if (includers.length === 0) { roots.push(file); }
+        includers.forEach(r => climb(r.source));
+    };
+    climb(filePath);
 
-    const content = fs.readFileSync(extracted, 'utf-8');
-    const simpleClass = fqn.split('.').pop()!;
-    const uri = pathToFileURL(extracted).toString();
+    const files = [filePath];
+    for (const root of roots) {
+        files.push(...getTranslationUnit(root).filter(f => !files.includes(f)));
+    }
+    return files;
+}
 
-    if (methodName) {
-        const result = findMethodLine(content, simpleClass, methodName, paramCount ?? 0);
-        if (result) {
-            return Location.create(uri,
-                Range.create(Position.create(result.line, result.col), Position.create(result.line, result.col + methodName.length)));
+/**
+ * Include edges of every page in the workspace, built on first use and then
+ * kept up to date from watched file events.
+ */
+function getIncludeGraph(): Map<string, IncludeEdge[]> {
+    if (includeGraph) { return includeGraph; }
+
+    const graph = new Map<string, IncludeEdge[]>();
+    includeTargetNames.clear();
+    for (const folder of workspaceFolders) {
+        for (const filePath of collectFilesByExtension(folder, JSP_FILE_EXTENSIONS, JSP_SCAN_SKIP_DIRS, 0, 12)) {
+            indexIncludes(graph, filePath);
         }
     }
+    console.log(`Include graph built: ${graph.size} including pages`);
 
-    const line = findClassLine(content, simpleClass);
-    if (line >= 0) {
-        const lineText = content.split('\n')[line];
-        const col = lineText.indexOf(simpleClass);
-        return Location.create(uri,
-            Range.create(Position.create(line, col >= 0 ? col : 0), Position.create(line, (col >= 0 ? col : 0) + simpleClass.length)));
+    includeGraph = graph;
+    return graph;
+}
+
+/**
+ * Apply a watched file event. An edited page only changes its own edges; a created or
+ * deleted page can change how other pages' targets resolve, so the pages naming a file
+ * of that name are scanned again too.
+ */
+function updateIncludeGraph(filePath: string, changeType: FileChangeType): void {
+    if (!includeGraph) { return; }
+    indexIncludes(includeGraph, filePath);
+    if (changeType === FileChangeType.Changed) { return; }
+
+    const name = path.basename(filePath);
+    for (const [page, names] of [...includeTargetNames]) {
+        if (page !== filePath && names.has(name)) { indexIncludes(includeGraph, page); }
     }
+}
 
-    return null;
+/** Edges pointing at a file: who includes it, and where */
+function findIncluders(filePath: string): { source: string; edge: IncludeEdge }[] {
+    const result: { source: string; edge: IncludeEdge }[] = [];
+    for (const [source, edges] of getIncludeGraph()) {
+        for (const edge of edges) {
+            if (edge.target === filePath) { result.push({ source, edge }); }
+        }
+    }
+    return result;
 }
 
-// ─── Go to Definition: JDK src.zip ──────────────────────────────────────────
+/**
+ * Transitive include tree of a file in one direction. Pages already on the
+ * current branch are marked as cycles instead of being expanded again.
+ */
+function buildIncludeHierarchy(filePath: string, direction: 'includes' | 'includedBy', branch: Set<string> = new Set()): IncludeHierarchyNode {
+    const node: IncludeHierarchyNode = { uri: pathToFileURL(filePath).toString(), children: [] };
+    if (branch.has(filePath)) {
+        node.cycle = true;
+        return node;
+    }
 
-function getJdkSrcZipPath(): string | null {
-    if (!javaHomePath) { return null; }
-    const srcZip = path.join(javaHomePath, 'lib', 'src.zip');
-    return fs.existsSync(srcZip) ? srcZip : null;
+    const next = direction === 'includes'
+        ? (getIncludeGraph().get(filePath) ?? []).map(e => e.target)
+        : findIncluders(filePath).map(r => r.source);
+
+    branch.add(filePath);
+    for (const child of new Set(next)) {
+        node.children.push(buildIncludeHierarchy(child, direction, branch));
+    }
+    branch.delete(filePath);
+    return node;
 }
 
-function isJdkClass(fqn: string): boolean {
-    return /^(java\.|javax\.|sun\.|com\.sun\.|jdk\.|org\.w3c\.|org\.xml\.)/.test(fqn);
+function comparePositions(a: Position, b: Position): number {
+    return a.line !== b.line ? a.line - b.line : a.character - b.character;
 }
 
-async function findDefinitionInJdkSrc(fqn: string, methodName?: string, paramCount?: number): Promise<Location | null> {
-    const srcZip = getJdkSrcZipPath();
-    if (!srcZip) { return null; }
+/**
+ * Find All References on a Java type or method lists its usages in all pages. Elsewhere
+ * in a page it lists the include directives and jsp:include / jsp:forward actions
+ * that pull the page in (or, on an include target, the target).
+ */
+connection.onReferences((params: ReferenceParams): Location[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return []; }
+
+    // On a Java type or method: its usages across all pages
+    const cache = getDocCache(document);
+    const usage = collectJavaUsages(document, cache).find(u =>
+        comparePositions(u.range.start, params.position) <= 0 && comparePositions(params.position, u.range.end) <= 0);
+    if (usage) { return findJavaUsages(usage.fqn, usage.member); }
+
+    let filePath = uriToFsPath(document.uri);
+    const offset = document.offsetAt(params.position);
+    const node = findNodeAt(cache.nodes, offset);
+    const attr = node && getIncludeTargetAttribute(node);
+    if (attr && offset >= attr.valueStart && offset <= attr.valueEnd) {
+        filePath = resolveIncludePath(attr.value, document.uri) ?? filePath;
+    }
 
-    const relativePath = fqn.replace(/\./g, '/') + '.java';
-    const zip = getZip(srcZip);
-    if (!zip) { return null; }
+    return findIncluders(filePath).map(({ source, edge }) => Location.create(pathToFileURL(source).toString(), edge.range));
+});
 
-    // JDK src.zip has module prefixes like java.base/java/lang/String.java
-    let matchedEntry: string | null = null;
-    for (const entry of zip.getEntries()) {
-        if (entry.entryName.endsWith(relativePath)) {
-            matchedEntry = entry.entryName;
-            break;
-        }
+connection.onRequest('jsp/includeHierarchy', (params: { uri: string }) => {
+    const filePath = uriToFsPath(params.uri);
+    return {
+        includes: buildIncludeHierarchy(filePath, 'includes').children,
+        includedBy: buildIncludeHierarchy(filePath, 'includedBy').children
+    };
+});
+
+// ─── Java Usage Index ───────────────────────────────────────────────────────
+
+/** String/char literals and comments, blanked out before scanning Java code */
+const JAVA_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+/**
+ * Java types and methods a page references: imports, jsp:useBean classes, and in
+ * scripting elements imported or qualified type names (new X(), X.call(), declarations)
+ * and method calls on static types and tracked variables. Names resolve through the
+ * imports and variables of the whole translation unit, as a fragment relies on its includer's.
+ */
+function collectJavaUsages(doc: TextDocumentContent, cache: DocumentCache): JavaUsage[] {
+    const text = doc.getText();
+    const unitCaches = getTranslationUnitPages(doc).map(p => p.cache);
+    const unitCache = withTranslationUnitImports(cache, unitCaches);
+    const findVariable = (name: string, offset: number): VariableDeclaration | undefined =>
+        cache.variables.filter(v => v.name === name && v.offset < offset).pop()
+        ?? unitCaches.flatMap(c => c.variables).filter(v => v.name === name).pop();
+    const usages: JavaUsage[] = [];
+    const add = (fqn: string, start: number, end: number, member?: string) => {
+        usages.push({ fqn, member, range: Range.create(doc.positionAt(start), doc.positionAt(end)) });
+    };
+
+    for (const entry of cache.importEntries) {
+        if (!entry.fqn.endsWith('.*')) { add(entry.fqn, entry.start, entry.end); }
     }
-    if (!matchedEntry) { return null; }
 
-    const extracted = extractSourceToTemp(srcZip, matchedEntry);
-    if (!extracted) { return null; }
+    for (const node of cache.nodes) {
+        if (node.kind === 'action' && node.name === 'jsp:useBean') {
+            for (const attr of [getAttribute(node, 'class'), getAttribute(node, 'type')]) {
+                if (attr?.value && !isDynamicPath(attr.value)) { add(attr.value.trim(), attr.valueStart, attr.valueEnd); }
+            }
+        }
+        if (!isJavaNode(node)) { continue; }
 
-    const content = fs.readFileSync(extracted, 'utf-8');
-    const simpleClass = fqn.split('.').pop()!;
-    const uri = pathToFileURL(extracted).toString();
+        const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+        // Imports were recorded above
+        const body = blankOut(code, /\bimport\s+[\w.*\s]+;/g);
+        const base = node.contentStart;
+        let m;
 
-    if (methodName) {
-        const result = findMethodLine(content, simpleClass, methodName, paramCount ?? 0);
-        if (result) {
-            return Location.create(uri,
-                Range.create(Position.create(result.line, result.col), Position.create(result.line, result.col + methodName.length)));
+        // Qualified names: com.acme.util.Formatter, but not variable.CONSTANT
+        const qualifiedRe = /(?<![\w.])((?:[a-z_]\w*\.)+[A-Z]\w*)/g;
+        while ((m = qualifiedRe.exec(body)) !== null) {
+            const first = m[1].substring(0, m[1].indexOf('.'));
+            if (findVariable(first, base + m.index) || JSP_IMPLICIT_OBJECTS.some(o => o.name === first)) { continue; }
+            add(m[1], base + m.index, base + m.index + m[1].length);
+        }
+
+        // Imported simple names: new Formatter(), Formatter.create(), Formatter f
+        const simpleRe = /(?<![\w.])([A-Z]\w*)\b/g;
+        while ((m = simpleRe.exec(body)) !== null) {
+            const fqn = unitCache.imports.get(m[1]);
+            if (fqn) { add(fqn, base + m.index, base + m.index + m[1].length); }
+        }
+
+        // Calls: Type.method(...) and variable.method(...)
+        const callRe = /(?<![\w.])([A-Za-z_]\w*)\s*\.\s*([a-z_]\w*)\s*\(/g;
+        while ((m = callRe.exec(body)) !== null) {
+            const receiver = m[1];
+            const offset = base + m.index;
+            const variable = findVariable(receiver, offset);
+            const fqn = /^[A-Z]/.test(receiver)
+                ? unitCache.imports.get(receiver)
+                : variable && parseJavaTypeRef(variable.type, n => resolvePageTypeName(n, unitCache)).fqn;
+            if (!fqn) { continue; }
+            const memberStart = offset + m[0].lastIndexOf(m[2]);
+            add(fqn, memberStart, memberStart + m[2].length, m[2]);
+        }
+    }
+    return usages;
+}
+
+/**
+ * Usages of every page in the workspace, built on first use and then kept
+ * up to date from watched file events.
+ */
+function getJavaUsageIndex(): Map<string, JavaUsage[]> {
+    if (javaUsageIndex) { return javaUsageIndex; }
+
+    const index = new Map<string, JavaUsage[]>();
+    for (const folder of workspaceFolders) {
+        for (const filePath of collectFilesByExtension(folder, JSP_FILE_EXTENSIONS, JSP_SCAN_SKIP_DIRS, 0, 12)) {
+            const usages = scanJavaUsages(filePath);
+            if (usages.length > 0) { index.set(filePath, usages); }
         }
     }
+    console.log(`Java usage index built: ${index.size} pages`);
 
-    const line = findClassLine(content, simpleClass);
-    if (line >= 0) {
-        const lineText = content.split('\n')[line];
-        const col = lineText.indexOf(simpleClass);
-        return Location.create(uri,
-            Range.create(Position.create(line, col >= 0 ? col : 0), Position.create(line, (col >= 0 ? col : 0) + simpleClass.length)));
+    javaUsageIndex = index;
+    return index;
+}
+
+function scanJavaUsages(filePath: string): JavaUsage[] {
+    try {
+        const doc = TextDocumentContent.create(pathToFileURL(filePath).toString(), 'jsp', 0, fs.readFileSync(filePath, 'utf-8'));
+        return collectJavaUsages(doc, buildDocCache(doc));
+    } catch {
+        return [];
+    }
+}
+
+function updateJavaUsageIndex(filePath: string, changeType: FileChangeType): void {
+    if (!javaUsageIndex) { return; }
+    const usages = changeType === FileChangeType.Deleted ? [] : scanJavaUsages(filePath);
+    if (usages.length > 0) {
+        javaUsageIndex.set(filePath, usages);
+    } else {
+        javaUsageIndex.delete(filePath);
+    }
+}
+
+/**
+ * Every usage of a type, or of one of its methods, across the workspace pages.
+ * Open documents are searched in their current, possibly unsaved, state.
+ */
+function findJavaUsages(fqn: string, member?: string): Location[] {
+    const files = new Map<string, JavaUsage[]>(getJavaUsageIndex());
+    for (const doc of documents.all()) {
+        if (isTldDocument(doc.uri)) { continue; }
+        files.set(uriToFsPath(doc.uri), collectJavaUsages(doc, getDocCache(doc)));
+    }
+
+    const locations: Location[] = [];
+    for (const [filePath, usages] of files) {
+        const uri = pathToFileURL(filePath).toString();
+        for (const usage of usages) {
+            if (usage.fqn === fqn && usage.member === member) {
+                locations.push(Location.create(uri, usage.range));
+            }
+        }
     }
+    return locations;
+}
 
+/**
+ * The type or member a Java source declares at a position: a class when on its
+ * name (or a constructor's), a method or field of it when on the member's name.
+ */
+function getJavaSymbolAt(content: string, filePath: string, position: Position): { fqn: string; member?: string } | null {
+    const unit = getJavaCompilationUnit(filePath, content);
+    const offset = javaPositionToOffset(unit, position);
+    const isOn = (decl: { nameStart: number; nameEnd: number }) => decl.nameStart <= offset && offset <= decl.nameEnd;
+
+    for (const declaration of listJavaClasses(unit)) {
+        if (isOn(declaration)) { return { fqn: declaration.qualifiedName }; }
+        const member = declaration.members.find(isOn);
+        if (member) {
+            return member.kind === 'constructor'
+                ? { fqn: declaration.qualifiedName }
+                : { fqn: declaration.qualifiedName, member: member.name };
+        }
+    }
     return null;
 }
 
-// ─── Unified Definition Search ──────────────────────────────────────────────
+connection.onRequest('jsp/javaReferences', (params: { uri: string; text: string; position: Position }): Location[] => {
+    const symbol = getJavaSymbolAt(params.text, uriToFsPath(params.uri), params.position);
+    return symbol ? findJavaUsages(symbol.fqn, symbol.member) : [];
+});
+
+// ─── Type Hierarchy ─────────────────────────────────────────────────────────
+
+function toTypeHierarchyItem(source: JavaClassSource): TypeHierarchyItem {
+    const { declaration } = source;
+    const range = getJavaNameRange(getJavaCompilationUnit(source.filePath, source.content), declaration);
+    const kind = declaration.kind === 'interface' || declaration.kind === 'annotation' ? SymbolKind.Interface
+        : declaration.kind === 'enum' ? SymbolKind.Enum
+        : SymbolKind.Class;
+    return {
+        name: declaration.name,
+        kind,
+        detail: source.fqn.substring(0, source.fqn.lastIndexOf('.')),
+        uri: pathToFileURL(source.filePath).toString(),
+        range,
+        selectionRange: range,
+        data: { fqn: source.fqn }
+    };
+}
 
 /**
- * Search across all sources in priority order:
- * 1. Workspace source files
- * 2. Maven sources.jar
- * 3. JDK src.zip
+ * On a class a page references (import, new X(), declaration, jsp:useBean class): that
+ * class. Names from wildcard imports are not usages, so they resolve like definitions.
  */
-async function findDefinitionAnywhere(fqn: string, currentFileUri?: string, methodName?: string, paramCount?: number): Promise<Location | null> {
-    // 1. Workspace sources
-    if (methodName) {
-        const wsMethod = await findJavaMethodDefinition(fqn, methodName, paramCount ?? 0, currentFileUri);
-        if (wsMethod) { return wsMethod; }
+connection.languages.typeHierarchy.onPrepare((params: TypeHierarchyPrepareParams): TypeHierarchyItem[] | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return null; }
+
+    const cache = getDocCache(document);
+    const usage = collectJavaUsages(document, cache).find(u => !u.member
+        && comparePositions(u.range.start, params.position) <= 0 && comparePositions(params.position, u.range.end) <= 0);
+    let fqn = usage?.fqn;
+    if (!fqn && isJavaNode(findNodeAt(cache.nodes, document.offsetAt(params.position)))) {
+        const word = getWordAtOffset(document.getText(), document.offsetAt(params.position));
+        fqn = /^[A-Z]\w*$/.test(word) ? resolvePageClassCandidates(word, cache, document.uri)[0] : undefined;
     }
-    const wsClass = await findJavaDefinition(fqn, currentFileUri);
-    if (wsClass) { return wsClass; }
 
-    // 2. Maven sources.jar
-    const mavenResult = await findDefinitionInSourcesJar(fqn, methodName, paramCount);
-    if (mavenResult) { return mavenResult; }
+    const source = fqn && readJavaClassSource(fqn, document.uri);
+    return source ? [toTypeHierarchyItem(source)] : null;
+});
 
-    // 3. JDK src.zip
-    const jdkResult = await findDefinitionInJdkSrc(fqn, methodName, paramCount);
-    if (jdkResult) { return jdkResult; }
+connection.languages.typeHierarchy.onSupertypes((params: TypeHierarchySupertypesParams): TypeHierarchyItem[] => {
+    const uri = params.item.uri;
+    const source = readJavaClassSource(params.item.data.fqn, uri);
+    if (!source) { return []; }
+    return getJavaSupertypes(source, uri).flatMap(fqn => {
+        const supertype = readJavaClassSource(fqn, uri);
+        return supertype ? [toTypeHierarchyItem(supertype)] : [];
+    });
+});
 
-    return null;
+/**
+ * Subtypes are only searched in workspace sources: scanning every jar for classes
+ * that extend a type would be too slow. Waits for the class index if it is still building.
+ */
+connection.languages.typeHierarchy.onSubtypes(async (params: TypeHierarchySubtypesParams): Promise<TypeHierarchyItem[]> => {
+    const fqn: string = params.item.data.fqn;
+    const simpleName = fqn.split('.').pop()!;
+    startJavaClassIndex();
+    const index = await javaClassIndexBuild!;
+
+    const items: TypeHierarchyItem[] = [];
+    for (const entries of index.values()) {
+        for (const entry of entries) {
+            if (entry.origin !== 'workspace' || entry.fqn === fqn) { continue; }
+            const source = readJavaClassSource(entry.fqn);
+            if (!source) { continue; }
+
+            // Only resolve supertypes whose name could be the type
+            const { declaration } = source;
+            const written = [declaration.superclass ?? '', ...declaration.interfaces].map(t => t.replace(/<.*$/, '').split('.').pop());
+            if (written.includes(simpleName) && getJavaSupertypes(source).includes(fqn)) {
+                items.push(toTypeHierarchyItem(source));
+            }
+        }
+    }
+    return items;
+});
+
+// ─── Document Links ─────────────────────────────────────────────────────────
+
+/** Custom tags (by local name) whose attribute is a context-relative URL, as in JSTL core */
+const TAG_RESOURCE_ATTRIBUTES: Record<string, string> = {
+    import: 'url',
+    url: 'value',
+    redirect: 'url',
+};
+
+/**
+ * Every resource reference of a page: HTML elements, include directives,
+ * jsp:include / jsp:forward and c:import / c:url.
+ */
+function extractResourceReferences(text: string, cache: DocumentCache): ResourceReference[] {
+    const refs = extractHtmlResourceReferences(text, cache.nodes);
+
+    for (const node of cache.nodes) {
+        let attr = getIncludeTargetAttribute(node);
+        if (!attr && node.kind === 'customTag' && !node.isEndTag) {
+            const localName = node.name!.substring(node.name!.indexOf(':') + 1);
+            const attrName = TAG_RESOURCE_ATTRIBUTES[localName];
+            attr = attrName ? getAttribute(node, attrName) : undefined;
+        }
+        if (!attr) { continue; }
+
+        const cleaned = cleanResourcePath(attr.value);
+        if (cleaned) {
+            refs.push({ element: node.name!, ...cleaned, start: attr.valueStart, end: attr.valueEnd });
+        }
+    }
+    return refs;
 }
 
+connection.onDocumentLinks((params: DocumentLinkParams): DocumentLink[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return []; }
+
+    const links: DocumentLink[] = [];
+    for (const ref of extractResourceReferences(document.getText(), getDocCache(document))) {
+        const filePath = ref.contextRelative
+            ? resolveIncludePath(ref.path, document.uri)
+            : resolveIncludePath(ref.path, document.uri) ?? resolveScriptPath(ref.path, document.uri)[0];
+        if (!filePath) { continue; }
+        links.push({
+            range: Range.create(document.positionAt(ref.start), document.positionAt(ref.end)),
+            target: pathToFileURL(filePath).toString()
+        });
+    }
+    return links;
+});
+
 // ─── Word / Context Analysis ────────────────────────────────────────────────
 
 /**
@@ -791,13 +4744,22 @@ function splitClassMethod(fullPath: string): { className: string; methodName: st
  * Count parameters in a method call from the opening parenthesis position.
  */
 function countMethodParams(text: string, openParenPos: number): number {
+    const args = scanCallArguments(text, openParenPos, text.length);
+    return args.closed && args.hasContent ? args.commas + 1 : 0;
+}
+
+/**
+ * Walk the arguments of a call from its opening parenthesis up to end: top-level
+ * commas seen, whether any argument text was seen, and whether the call was closed.
+ */
+function scanCallArguments(text: string, openParenPos: number, end: number): { commas: number; hasContent: boolean; closed: boolean } {
     let depth = 0;
     let hasContent = false;
     let paramCount = 0;
     let inString = false;
     let strChar = '';
 
-    for (let i = openParenPos + 1; i < text.length; i++) {
+    for (let i = openParenPos + 1; i < end; i++) {
         const ch = text[i];
         const prev = i > 0 ? text[i - 1] : '';
 
@@ -811,7 +4773,7 @@ function countMethodParams(text: string, openParenPos: number): number {
 
         if (ch === '(' || ch === '[' || ch === '{') { depth++; hasContent = true; continue; }
         if (ch === ')' || ch === ']' || ch === '}') {
-            if (depth === 0) { return hasContent ? paramCount + 1 : 0; }
+            if (depth === 0) { return { commas: paramCount, hasContent, closed: true }; }
             depth--;
             hasContent = true;
             continue;
@@ -819,7 +4781,7 @@ function countMethodParams(text: string, openParenPos: number): number {
         if (ch === ',' && depth === 0) { paramCount++; hasContent = true; continue; }
         if (!/\s/.test(ch)) { hasContent = true; }
     }
-    return 0;
+    return { commas: paramCount, hasContent, closed: false };
 }
 
 // ─── JavaScript Function Search ─────────────────────────────────────────────
@@ -940,21 +4902,72 @@ function findJsMethodInSamePage(text: string, objectName: string, methodName: st
 
 /** Extract <script src="..."> paths from JSP text */
 function extractScriptSrcPaths(text: string): string[] {
-    const paths: string[] = [];
-    // Match <script ... src="..."> (handles single/double quotes, EL expressions)
-    const scriptRe = /<script[^>]*\bsrc\s*=\s*["']([^"']+)["'][^>]*>/gi;
+    return extractHtmlResourceReferences(text, tokenizeJsp(text))
+        .filter(ref => ref.element === 'script')
+        .map(ref => ref.path.replace(/^\/+/, ''));
+}
+
+interface ResourceReference {
+    element: string;
+    path: string; // Cleaned path: context prefix, query and fragment removed
+    contextRelative: boolean; // "/..." or prefixed with the context path
+    start: number; // Attribute value range in the page
+    end: number;
+}
+
+/** HTML elements whose attribute points at a webapp resource */
+const HTML_RESOURCE_ATTRIBUTES: Record<string, string> = {
+    script: 'src',
+    link: 'href',
+    img: 'src',
+    form: 'action',
+};
+
+/**
+ * Normalize a resource reference: a leading context path expression
+ * (${pageContext.request.contextPath}, ${ctx}, <%= request.getContextPath() %>)
+ * makes it context-relative; query strings and fragments are dropped.
+ * Returns null for external URLs and values that stay dynamic.
+ */
+function cleanResourcePath(value: string): { path: string; contextRelative: boolean } | null {
+    let cleaned = value.trim();
+    let contextRelative = cleaned.startsWith('/');
+
+    const prefix = /^(?:\$\{[^}]*\}|<%=\s*request\.getContextPath\(\)\s*%>)/.exec(cleaned);
+    if (prefix) {
+        cleaned = cleaned.substring(prefix[0].length);
+        contextRelative = true;
+    }
+
+    cleaned = cleaned.replace(/[?#].*$/, '');
+    if (!cleaned || cleaned === '/' || isDynamicPath(cleaned) || /^(?:[a-z][\w+.-]*:|\/\/)/i.test(cleaned)) { return null; }
+    return { path: cleaned, contextRelative };
+}
+
+/**
+ * <script src>, <link href>, <img src> and <form action> references in a page,
+ * outside of JSP elements (comments, scriptlets).
+ */
+function extractHtmlResourceReferences(text: string, nodes: JspNode[]): ResourceReference[] {
+    const refs: ResourceReference[] = [];
+    const elementRe = new RegExp(`<(${Object.keys(HTML_RESOURCE_ATTRIBUTES).join('|')})\\b((?:[^>"']|"[^"]*"|'[^']*')*)>`, 'gi');
     let m;
-    while ((m = scriptRe.exec(text)) !== null) {
-        let srcPath = m[1].trim();
-        // Strip EL expressions like ${pageContext.request.contextPath}
-        srcPath = srcPath.replace(/\$\{[^}]*\}/g, '');
-        // Strip leading slash or dots
-        srcPath = srcPath.replace(/^\/+/, '');
-        if (srcPath) {
-            paths.push(srcPath);
-        }
+    while ((m = elementRe.exec(text)) !== null) {
+        const node = findNodeAt(nodes, m.index);
+        if (node && node.kind !== 'template') { continue; }
+
+        const element = m[1].toLowerCase();
+        // data-src= and the like are other attributes
+        const attrRe = new RegExp(`(?<![\\w-])${HTML_RESOURCE_ATTRIBUTES[element]}\\s*=\\s*(["'])(.*?)\\1`, 'i');
+        const attr = attrRe.exec(m[2]);
+        if (!attr) { continue; }
+
+        const cleaned = cleanResourcePath(attr[2]);
+        if (!cleaned) { continue; }
+        const start = m.index + 1 + m[1].length + attr.index + attr[0].indexOf(attr[1]) + 1;
+        refs.push({ element, ...cleaned, start, end: start + attr[2].length });
     }
-    return paths;
+    return refs;
 }
 
 /** Common webapp root directory patterns in Java projects */
@@ -983,8 +4996,16 @@ function resolveScriptPath(srcPath: string, jspFileUri: string): string[] {
         }
     } catch { /* ignore */ }
 
-    // 2. Relative to webapp roots in each workspace folder
-    for (const wsFolder of workspaceFolders) {
+    // 2. Relative to the webapp directories of Gradle builds
+    for (const webappPath of projectWebappPaths) {
+        const webAppPath = path.join(webappPath, srcPath);
+        if (fs.existsSync(webAppPath)) {
+            candidates.push(webAppPath);
+        }
+    }
+
+    // 3. Relative to webapp roots in each workspace folder and module
+    for (const wsFolder of new Set([...workspaceFolders, ...javaSourcePaths.map(p => p.modulePath)])) {
         // Direct from workspace root
         const directPath = path.join(wsFolder, srcPath);
         if (fs.existsSync(directPath)) {
@@ -1001,37 +5022,19 @@ function resolveScriptPath(srcPath: string, jspFileUri: string): string[] {
     }
 
     // Deduplicate
-    return [...new Set(candidates)];
-}
-
-/** Directories to skip when scanning for JS files */
-const JS_SCAN_SKIP_DIRS = new Set([
-    'node_modules', '.git', 'target', 'build', 'dist', '.idea',
-    '.settings', 'bin', '.mvn', 'WEB-INF/classes', 'META-INF',
-    'out', '.next', '.nuxt', 'coverage',
-]);
-
-/** Recursively collect .js files under a directory (with depth limit) */
-function collectJsFiles(dir: string, depth: number = 0, maxDepth: number = 8): string[] {
-    if (depth > maxDepth) { return []; }
-    const results: string[] = [];
-
-    let entries: fs.Dirent[];
-    try {
-        entries = fs.readdirSync(dir, { withFileTypes: true });
-    } catch {
-        return results;
-    }
-
-    for (const entry of entries) {
-        if (entry.isFile() && entry.name.endsWith('.js')) {
-            results.push(path.join(dir, entry.name));
-        } else if (entry.isDirectory() && !JS_SCAN_SKIP_DIRS.has(entry.name)) {
-            results.push(...collectJsFiles(path.join(dir, entry.name), depth + 1, maxDepth));
-        }
-    }
+    return [...new Set(candidates)];
+}
 
-    return results;
+/** Directories to skip when scanning for JS files */
+const JS_SCAN_SKIP_DIRS = new Set([
+    'node_modules', '.git', 'target', 'build', 'dist', '.idea',
+    '.settings', 'bin', '.mvn', 'WEB-INF/classes', 'META-INF',
+    'out', '.next', '.nuxt', 'coverage',
+]);
+
+/** Recursively collect .js files under a directory (with depth limit) */
+function collectJsFiles(dir: string, depth: number = 0, maxDepth: number = 8): string[] {
+    return collectFilesByExtension(dir, ['.js'], JS_SCAN_SKIP_DIRS, depth, maxDepth);
 }
 
 // Cache for JS files per workspace
@@ -1042,6 +5045,9 @@ function getWorkspaceJsFiles(): string[] {
     if (jsFileCache) { return jsFileCache; }
 
     const files: string[] = [];
+    for (const webappPath of projectWebappPaths) {
+        files.push(...collectJsFiles(webappPath));
+    }
     for (const wsFolder of workspaceFolders) {
         // Prioritize webapp directories
         for (const webRoot of WEBAPP_ROOTS) {
@@ -1203,113 +5209,166 @@ connection.onDefinition(
         const document = documents.get(params.textDocument.uri);
         if (!document) { return null; }
 
-        const text = document.getText();
-        const offset = document.offsetAt(params.position);
-        const cache = getDocCache(document);
+        if (!isTldDocument(document.uri)) {
+            const tagLocations = await resolveCustomTagDefinition(getDocCache(document), document.offsetAt(params.position), document.uri);
+            if (tagLocations) { return tagLocations; }
 
-        // ── Step 1: Check if cursor is inside a JSP import directive ──
-        const jspImportResult = await tryResolveJspImport(text, offset, params.textDocument.uri);
-        if (jspImportResult !== undefined) { return jspImportResult; }
-
-        // ── Step 2: Get the word at cursor ──
-        const word = getWordAtOffset(text, offset);
-        if (!word) { return null; }
-
-        console.log('Word at cursor:', word);
-
-        // ── Step 3: Handle dotted expressions (method calls / FQN) ──
-        if (word.includes('.')) {
-            const javaResult = await handleDottedExpression(word, text, offset, params, cache);
-            if (javaResult) { return javaResult; }
-
-            // Fallback: try JS object.method resolution
-            const parts = word.split('.');
-            if (parts.length === 2) {
-                const [objName, methodName] = parts;
-                // Search same page for JS class/object method
-                const jsMethodRange = findJsMethodInSamePage(text, objName, methodName);
-                if (jsMethodRange) {
-                    return Location.create(params.textDocument.uri, jsMethodRange);
-                }
-                // Search external JS files
-                const externalResult = findJsMethodInExternalFiles(text, objName, methodName, params.textDocument.uri);
-                if (externalResult) { return externalResult; }
-            }
-            // Also try just the last part as a plain function name
-            const lastPart = parts[parts.length - 1];
-            if (lastPart) {
-                const jsRange = findJavaScriptFunction(text, lastPart);
-                if (jsRange) {
-                    return Location.create(params.textDocument.uri, jsRange);
-                }
-                const extResult = findJsFunctionInExternalFiles(text, lastPart, params.textDocument.uri);
-                if (extResult) { return extResult; }
-            }
-            return null;
+            const classLocations = await resolveAmbiguousClassDefinition(document, document.offsetAt(params.position));
+            if (classLocations) { return classLocations; }
         }
 
-        // ── Step 4: Simple class name — resolve via imports ──
-        if (/^[A-Z][\w]*$/.test(word)) {
-            const fqn = cache.imports.get(word);
-            if (fqn) {
-                const result = await findDefinitionAnywhere(fqn, params.textDocument.uri);
-                if (result) { return result; }
-            }
-            // Try direct search in workspace sources
-            const wsResult = await findJavaDefinition(word, params.textDocument.uri);
-            if (wsResult) { return wsResult; }
-        }
+        return await resolveDefinition(document, params);
+    }
+);
 
-        // ── Step 5: JavaScript function — same page ──
-        const jsRange = findJavaScriptFunction(text, word);
-        if (jsRange) {
-            return Location.create(params.textDocument.uri, jsRange);
-        }
+/**
+ * Resolve the symbol under the cursor to its definition. Shared by definition and hover;
+ * hover only shows Java declarations, so javaOnly skips the JavaScript lookups.
+ */
+async function resolveDefinition(document: TextDocumentContent, params: TextDocumentPositionParams, javaOnly: boolean = false): Promise<Location | null> {
+    const text = document.getText();
+    const offset = document.offsetAt(params.position);
+
+    // Second hop: from a TLD to the classes it names
+    if (isTldDocument(document.uri)) {
+        return await resolveTldClassReference(text, offset, params.textDocument.uri);
+    }
+
+    const cache = getDocCache(document);
+
+    // Nothing inside <%-- --%> is live code
+    const node = findNodeAt(cache.nodes, offset);
+    if (node?.kind === 'comment') { return null; }
 
-        // ── Step 6: JavaScript function — external JS files ──
-        const externalJsResult = findJsFunctionInExternalFiles(text, word, params.textDocument.uri);
-        if (externalJsResult) { return externalJsResult; }
+    // EL property chains resolve to bean getters, never to JavaScript
+    if (node?.kind === 'el') { return await resolveElDefinition(document, offset, node, cache); }
 
+    // file="..." / page="..." of include directives, jsp:include and jsp:forward
+    if (node) {
+        const includeResult = resolveIncludeDefinition(offset, node, params.textDocument.uri);
+        if (includeResult !== undefined) { return includeResult; }
+    }
+
+    // property="..." of jsp:setProperty / jsp:getProperty
+    if (node?.kind === 'action') {
+        const beanResult = await resolveBeanPropertyDefinition(offset, node, document, cache);
+        if (beanResult !== undefined) { return beanResult; }
+    }
+
+    // Tag and attribute names are not JavaScript functions
+    if ((node?.kind === 'customTag' || node?.kind === 'action') && !getAttributeAtValue(node, offset)) { return null; }
+
+    // ── Step 1: Check if cursor is inside a JSP import directive ──
+    const jspImportResult = await tryResolveJspImport(cache, offset, params.textDocument.uri);
+    if (jspImportResult !== undefined) { return jspImportResult; }
+
+    // ── Step 2: Get the word at cursor ──
+    const word = getWordAtOffset(text, offset);
+    if (!word) { return null; }
+
+    if (!javaOnly) { console.log('Word at cursor:', word); }
+
+    // ── Step 3: Handle dotted expressions (method calls / FQN) ──
+    if (word.includes('.')) {
+        const javaResult = await handleDottedExpression(word, text, offset, params, cache);
+        if (javaResult || javaOnly) { return javaResult; }
+
+        // Fallback: try JS object.method resolution
+        const parts = word.split('.');
+        if (parts.length === 2) {
+            const [objName, methodName] = parts;
+            // Search same page for JS class/object method
+            const jsMethodRange = findJsMethodInSamePage(text, objName, methodName);
+            if (jsMethodRange) {
+                return Location.create(params.textDocument.uri, jsMethodRange);
+            }
+            // Search external JS files
+            const externalResult = findJsMethodInExternalFiles(text, objName, methodName, params.textDocument.uri);
+            if (externalResult) { return externalResult; }
+        }
+        // Also try just the last part as a plain function name
+        const lastPart = parts[parts.length - 1];
+        if (lastPart) {
+            const jsRange = findJavaScriptFunction(text, lastPart);
+            if (jsRange) {
+                return Location.create(params.textDocument.uri, jsRange);
+            }
+            const extResult = findJsFunctionInExternalFiles(text, lastPart, params.textDocument.uri);
+            if (extResult) { return extResult; }
+        }
         return null;
     }
-);
 
-/**
- * Handle cursor inside a JSP <%@page import="..." %> directive.
- * Returns Location or null if found/not-found, or undefined if cursor is not in an import.
- */
-async function tryResolveJspImport(text: string, offset: number, uri: string): Promise<Location | null | undefined> {
-    const maxRange = 300;
-    let start = -1;
-    for (let i = offset; i >= Math.max(0, offset - maxRange); i--) {
-        if (text.substring(i, i + 2) === '<%') { start = i; break; }
+    // ── Step 4: Simple class name — resolve via imports, then (in Java code) the class index ──
+    if (/^[A-Z][\w]*$/.test(word)) {
+        const fqn = resolvePageClassCandidates(word, cache, params.textDocument.uri)[0]
+            ?? (isJavaNode(node) ? findClassesBySimpleName(word)[0]?.fqn : undefined);
+        if (fqn) {
+            const result = await findDefinitionAnywhere(fqn, params.textDocument.uri);
+            if (result) { return result; }
+        }
+        // Try direct search in workspace sources
+        const wsResult = await findJavaDefinition(word, params.textDocument.uri);
+        if (wsResult) { return wsResult; }
     }
-    let end = -1;
-    for (let i = offset; i < Math.min(text.length, offset + maxRange); i++) {
-        if (text.substring(i, i + 2) === '%>') { end = i + 2; break; }
+
+    // ── Step 4b: JSP implicit object — resolve to its servlet API type ──
+    if (isJavaNode(node)) {
+        const implicitTypes = getImplicitObjectTypes(word, cache);
+        if (implicitTypes) {
+            return await findDefinitionAnywhere(implicitTypes[0], params.textDocument.uri);
+        }
     }
 
-    if (start === -1 || end === -1 || start >= end) { return undefined; }
+    if (javaOnly) { return null; }
 
-    const block = text.substring(start, end);
-    const importRe = /<%@\s*page[\s\S]*?import="([^"]*?)"/;
-    const match = block.match(importRe);
-    if (!match) { return undefined; }
+    // ── Step 5: JavaScript function — same page ──
+    const jsRange = findJavaScriptFunction(text, word);
+    if (jsRange) {
+        return Location.create(params.textDocument.uri, jsRange);
+    }
 
-    const importContent = match[1];
-    const relOffset = (offset - start) - block.indexOf(importContent);
+    // ── Step 6: JavaScript function — external JS files ──
+    const externalJsResult = findJsFunctionInExternalFiles(text, word, params.textDocument.uri);
+    if (externalJsResult) { return externalJsResult; }
 
-    let pkgStart = importContent.lastIndexOf(',', relOffset - 1);
-    pkgStart = pkgStart === -1 ? 0 : pkgStart + 1;
+    return null;
+}
 
-    let pkgEnd = importContent.indexOf(',', relOffset);
-    if (pkgEnd === -1) { pkgEnd = importContent.length; }
+/**
+ * A simple class name in Java code that the page does not import by name and that
+ * several classes match: every candidate, so the editor lets the user pick.
+ */
+async function resolveAmbiguousClassDefinition(document: TextDocumentContent, offset: number): Promise<Location[] | undefined> {
+    const cache = getDocCache(document);
+    if (!isJavaNode(findNodeAt(cache.nodes, offset))) { return undefined; }
+
+    const text = document.getText();
+    const word = getWordAtOffset(text, offset);
+    if (!/^[A-Z]\w*$/.test(word) || cache.imports.has(word)) { return undefined; }
+
+    const onDemand = resolvePageClassCandidates(word, cache, document.uri);
+    const candidates = onDemand.length > 0 ? onDemand : findClassesBySimpleName(word).map(e => e.fqn);
+    if (candidates.length < 2) { return undefined; }
+
+    const locations: Location[] = [];
+    for (const fqn of candidates) {
+        const location = await findDefinitionAnywhere(fqn, document.uri);
+        if (location) { locations.push(location); }
+    }
+    return locations.length > 1 ? locations : undefined;
+}
 
-    const selectedPkg = importContent.substring(pkgStart, pkgEnd).trim().replace(/\s+/g, '');
-    if (!selectedPkg) { return undefined; }
+/**
+ * Handle cursor inside a JSP <%@page import="..." %> directive or a Java import statement.
+ * Returns Location or null if found/not-found, or undefined if cursor is not in an import.
+ */
+async function tryResolveJspImport(cache: DocumentCache, offset: number, uri: string): Promise<Location | null | undefined> {
+    const entry = cache.importEntries.find(e => offset >= e.start && offset <= e.end);
+    if (!entry) { return undefined; }
 
-    console.log('JSP import selected:', selectedPkg);
-    return await findDefinitionAnywhere(selectedPkg, uri);
+    console.log('JSP import selected:', entry.fqn);
+    return await findDefinitionAnywhere(entry.fqn, uri);
 }
 
 /**
@@ -1336,22 +5395,32 @@ async function handleDottedExpression(
         if (parts.length >= 2) {
             const { className, methodName } = splitClassMethod(word);
             const fqn = cache.imports.get(className) || className;
-            return await resolveMethodCall(fqn, methodName, text, offset, uri);
+            return await resolveMethodCall(fqn, methodName, text, offset, uri, cache, className);
         }
     }
 
     // Case B: First part is lowercase — likely variable.method
     if (/^[a-z]/.test(firstPart)) {
-        const varDecl = cache.variables.find(v => v.name === firstPart);
+        const varDecl = cache.variables.filter(v => v.name === firstPart && v.offset < offset).pop()
+            ?? cache.variables.find(v => v.name === firstPart);
         if (varDecl) {
             const methodName = parts.length >= 2 ? parts[parts.length - 1] : '';
-            const fqn = cache.imports.get(varDecl.type) || varDecl.type;
+            const fqn = parseJavaTypeRef(varDecl.type, n => resolvePageTypeName(n, cache)).fqn;
             if (methodName) {
-                return await resolveMethodCall(fqn, methodName, text, offset, uri);
+                return await resolveMethodCall(fqn, methodName, text, offset, uri, cache, firstPart);
             } else {
                 return await findDefinitionAnywhere(fqn, uri);
             }
         }
+
+        // JSP implicit objects: request, session, out, ...
+        const implicitTypes = getImplicitObjectTypes(firstPart, cache);
+        if (implicitTypes) {
+            const methodName = parts.length >= 2 ? parts[parts.length - 1] : '';
+            if (!methodName) { return await findDefinitionAnywhere(implicitTypes[0], uri); }
+            const paramCount = countCallParams(firstPart, methodName, text, offset, cache);
+            return await resolveImplicitObjectMember(implicitTypes, methodName, paramCount, uri);
+        }
     }
 
     // Case C: Starts with a dot — likely chained method call
@@ -1360,49 +5429,736 @@ async function handleDottedExpression(
         const { className, methodName } = splitClassMethod(wordWithBracket);
         if (className && methodName) {
             const fqn = cache.imports.get(className) || className;
-            return await resolveMethodCall(fqn, methodName, text, offset, uri);
+            return await resolveMethodCall(fqn, methodName, text, offset, uri, cache);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Resolve a method call by finding parameter count near cursor, then searching all sources.
+ * @param receiver the expression the method is called on in the page (defaults to the class name)
+ */
+async function resolveMethodCall(className: string, methodName: string, text: string, offset: number, uri: string, cache: DocumentCache, receiver: string = className): Promise<Location | null> {
+    const paramCount = countCallParams(receiver, methodName, text, offset, cache);
+    return await findDefinitionAnywhere(className, uri, methodName, paramCount);
+}
+
+/**
+ * Count the arguments of the receiver.method( call closest to the cursor.
+ */
+function countCallParams(receiver: string, methodName: string, text: string, offset: number, cache: DocumentCache): number {
+    // Only look for the call inside the code block under the cursor
+    const node = findNodeAt(cache.nodes, offset);
+    const blockStart = node ? node.start : 0;
+    const block = node ? text.substring(node.start, node.end) : text;
+
+    const escapedClass = receiver.replace(/\./g, '\\.');
+    const callRe = new RegExp(`${escapedClass}[.]${methodName}\\s*\\(`, 'g');
+    let bestMatch: RegExpExecArray | null = null;
+    let bestDist = Infinity;
+    let m;
+
+    while ((m = callRe.exec(block)) !== null) {
+        const dist = Math.abs(blockStart + m.index - offset);
+        if (dist < bestDist) {
+            bestDist = dist;
+            bestMatch = m;
+        }
+    }
+
+    if (!bestMatch) { return 0; }
+    const parenPos = blockStart + bestMatch.index + bestMatch[0].length - 1;
+    return countMethodParams(text, parenPos);
+}
+
+// ─── Hover ──────────────────────────────────────────────────────────────────
+
+connection.onHover(
+    async (params: TextDocumentPositionParams): Promise<Hover | null> => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document) { return null; }
+
+        if (!isTldDocument(document.uri)) {
+            // Template text holds HTML and JavaScript, nothing with a Java declaration
+            const node = findNodeAt(getDocCache(document).nodes, document.offsetAt(params.position));
+            if (!node || node.kind === 'template') { return null; }
+
+            const elHover = getElVariableHover(document, document.offsetAt(params.position))
+                ?? getWildcardPropertyHover(document, document.offsetAt(params.position));
+            if (elHover) { return elHover; }
+        }
+
+        const location = await resolveDefinition(document, params, true);
+        if (!location || !location.uri.endsWith('.java')) { return null; }
+
+        let unit: JavaCompilationUnit;
+        try {
+            const filePath = uriToFsPath(location.uri);
+            unit = getJavaCompilationUnit(filePath, fs.readFileSync(filePath, 'utf-8'));
+        } catch {
+            return null;
+        }
+
+        const declaration = findJavaDeclarationAt(unit, javaPositionToOffset(unit, location.range.start));
+        if (!declaration) { return null; }
+
+        const text = document.getText();
+        const offset = document.offsetAt(params.position);
+        let start = offset;
+        let end = offset;
+        while (start > 0 && /\w/.test(text[start - 1])) { start--; }
+        while (end < text.length && /\w/.test(text[end])) { end++; }
+
+        return {
+            contents: { kind: MarkupKind.Markdown, value: formatJavaHover(declaration) },
+            range: Range.create(document.positionAt(start), document.positionAt(end))
+        };
+    }
+);
+
+/**
+ * Hover for the base name of an EL property chain: its type and readable properties.
+ */
+function getElVariableHover(document: TextDocumentContent, offset: number): Hover | null {
+    const cache = getDocCache(document);
+    const node = findNodeAt(cache.nodes, offset);
+    if (node?.kind !== 'el') { return null; }
+
+    const text = document.getText();
+    const expr = getElChainAt(text, offset, node);
+    const chain = expr && parseElChain(expr);
+    if (!chain || chain.accessors.length > 0) { return null; }
+
+    const type = getElVariableType(chain.base, cache, offset, document.uri);
+    if (!type) { return null; }
+
+    const parts = ['```java\n' + formatJavaTypeRef(type) + ' ' + chain.base + '\n```'];
+    if (!type.array && !isMapType(type.fqn)) {
+        const properties = getBeanProperties(type.fqn, document.uri);
+        if (properties.length > 0) {
+            parts.push('Properties: ' + properties.map(p => '`' + p.name + '`').join(', '));
+        }
+    }
+
+    let end = offset;
+    while (end < node.contentEnd && /[\w$]/.test(text[end])) { end++; }
+    return {
+        contents: { kind: MarkupKind.Markdown, value: parts.join('\n\n') },
+        range: Range.create(document.positionAt(end - chain.base.length), document.positionAt(end))
+    };
+}
+
+/** Explain property="*" of jsp:setProperty */
+function getWildcardPropertyHover(document: TextDocumentContent, offset: number): Hover | null {
+    const node = findNodeAt(getDocCache(document).nodes, offset);
+    if (node?.name !== 'jsp:setProperty') { return null; }
+    const attr = getAttributeAtValue(node, offset);
+    if (attr?.name !== 'property' || attr.value.trim() !== '*') { return null; }
+
+    return {
+        contents: { kind: MarkupKind.Markdown, value: '`property="*"`\n\n' + WILDCARD_PROPERTY_DOC },
+        range: Range.create(document.positionAt(attr.valueStart), document.positionAt(attr.valueEnd))
+    };
+}
+
+function formatJavaHover(declaration: JavaClassDeclaration | JavaMemberDeclaration): string {
+    const parts = ['```java\n' + declaration.signature + '\n```'];
+    const doc = renderJavadoc(declaration.javadoc);
+    if (doc) { parts.push(doc); }
+    return parts.join('\n\n');
+}
+
+/**
+ * Convert a raw /** ... *\/ comment to Markdown: inline tags become code spans,
+ * common HTML is simplified and block tags (@param, @return, ...) are listed.
+ */
+function renderJavadoc(raw: string): string {
+    if (!raw) { return ''; }
+
+    const body = raw
+        .replace(/^\s*\/\*\*/, '')
+        .replace(/\*\/\s*$/, '')
+        .split('\n')
+        .map(l => l.replace(/^\s*\* ?/, ''))
+        .join('\n');
+
+    const inline = (s: string) => s
+        .replace(/\{@(?:code|literal)\s+([^}]*)\}/g, '`$1`')
+        .replace(/\{@(?:link|linkplain)\s+([^}\s]*)(?:\s+([^}]*))?\}/g, (_m, ref: string, label?: string) =>
+            label ? label : '`' + ref.replace(/^#/, '').replace('#', '.') + '`')
+        .replace(/\{@\w+\s+([^}]*)\}/g, '$1')
+        .replace(/<\/?(?:code|tt)>/gi, '`')
+        .replace(/<p>|<br\s*\/?>/gi, '\n\n')
+        .replace(/<li>/gi, '\n- ')
+        .replace(/<\/?[a-zA-Z][^>]*>/g, '');
+
+    // Split description from block tags
+    const tagStart = body.search(/^\s*@\w+/m);
+    const description = tagStart === -1 ? body : body.substring(0, tagStart);
+    const tagsText = tagStart === -1 ? '' : body.substring(tagStart);
+
+    const out: string[] = [];
+    const desc = inline(description).replace(/\n{3,}/g, '\n\n').trim();
+    if (desc) { out.push(desc); }
+
+    const tags = tagsText.split(/\n(?=\s*@\w+)/).map(t => t.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    for (const tag of tags) {
+        const m = tag.match(/^@(\w+)\s*(.*)$/);
+        if (!m) { continue; }
+        const [, name, rest] = m;
+        if (name === 'param' || name === 'throws' || name === 'exception') {
+            const [target, ...descWords] = rest.split(' ');
+            out.push(`*@${name}* \`${target}\` — ${inline(descWords.join(' '))}`);
+        } else {
+            out.push(`*@${name}* — ${inline(rest)}`);
+        }
+    }
+
+    return out.join('\n\n');
+}
+
+// ─── Signature Help ─────────────────────────────────────────────────────────
+
+/** @param descriptions of a raw Javadoc comment, by parameter name */
+function getJavadocParams(raw: string): Map<string, string> {
+    const params = new Map<string, string>();
+    const paramRe = /@param\s+(\w+)\s+([\s\S]*?)(?=^\s*\*?\s*@\w+|\*\/)/gm;
+    let m;
+    while ((m = paramRe.exec(raw)) !== null) {
+        params.set(m[1], m[2].replace(/^\s*\*\s?/gm, '').replace(/\s+/g, ' ').trim());
+    }
+    return params;
+}
+
+/**
+ * The call whose argument list contains the offset: the callee text before its
+ * open parenthesis, and that parenthesis' offset. Stops at statement boundaries.
+ */
+function findEnclosingCall(text: string, offset: number, node: JspNode): { callee: string; openParen: number } | null {
+    const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE)
+        .substring(0, offset - node.contentStart);
+    let depth = 0;
+    for (let i = code.length - 1; i >= 0; i--) {
+        const ch = code[i];
+        if (ch === ')') { depth++; }
+        else if (ch === '(') {
+            if (depth === 0) {
+                const callee = /((?:[A-Za-z_$][\w$]*\s*\.\s*)*[A-Za-z_$][\w$]*)\s*$/.exec(code.substring(0, i));
+                return callee ? { callee: callee[1].replace(/\s+/g, ''), openParen: node.contentStart + i } : null;
+            }
+            depth--;
+        } else if (depth === 0 && (ch === ';' || ch === '{' || ch === '}')) {
+            return null;
+        }
+    }
+    return null;
+}
+
+connection.onSignatureHelp((params: SignatureHelpParams): SignatureHelp | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return null; }
+
+    const text = document.getText();
+    const offset = document.offsetAt(params.position);
+    const cache = getDocCache(document);
+    const node = findNodeAt(cache.nodes, offset);
+    if (!isJavaNode(node)) { return null; }
+
+    const call = findEnclosingCall(text, offset, node!);
+    const dot = call ? call.callee.lastIndexOf('.') : -1;
+    if (!call || dot < 0) { return null; }
+
+    const methodName = call.callee.substring(dot + 1);
+    const resolved = resolveReceiverSources(call.callee.substring(0, dot), offset, cache, document.uri);
+    if (!resolved) { return null; }
+
+    // Every overload across the type hierarchy; overrides only once
+    const signatures: SignatureInformation[] = [];
+    const seen = new Set<string>();
+    for (const { declaration } of resolved.sources) {
+        for (const method of listJavaMethods(declaration)) {
+            const params = formatJavaParameters(method);
+            if (method.name !== methodName || method.modifiers.includes('static') !== resolved.staticOnly || seen.has(params)) { continue; }
+            seen.add(params);
+
+            const paramDocs = getJavadocParams(method.javadoc);
+            const description = renderJavadoc(method.javadoc.replace(/^\s*\*?\s*@[\s\S]*?(?=\*\/)/m, ''));
+            signatures.push({
+                label: `${method.type} ${method.name}(${params})`,
+                documentation: description ? { kind: MarkupKind.Markdown, value: description } : undefined,
+                parameters: method.parameters.map(param => ({
+                    label: `${param.type} ${param.name}`,
+                    documentation: paramDocs.get(param.name)
+                }))
+            });
+        }
+    }
+    if (signatures.length === 0) { return null; }
+
+    // Same argument counting as navigation; prefer the first overload that can take them all
+    const args = scanCallArguments(text, call.openParen, offset);
+    const argCount = countMethodParams(text, call.openParen);
+    const activeParameter = args.commas;
+    let activeSignature = signatures.findIndex(sig => sig.parameters!.length === Math.max(argCount, activeParameter + 1));
+    if (activeSignature < 0) { activeSignature = Math.max(0, signatures.findIndex(sig => sig.parameters!.length > activeParameter)); }
+
+    return { signatures, activeSignature, activeParameter };
+});
+
+// ─── Rename ─────────────────────────────────────────────────────────────────
+
+const JAVA_RESERVED_WORDS = new Set([
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+    'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+    'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+    'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+    'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null', 'var'
+]);
+
+const JS_RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+    'export', 'extends', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new',
+    'return', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+    'true', 'false', 'null', 'undefined'
+]);
+
+/** JavaScript string literals and comments, blanked out before scanning scripts */
+const JS_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+interface RenameTarget {
+    kind: 'java' | 'javascript';
+    name: string;
+    range: Range;
+    files: string[]; // Files whose occurrences are renamed
+}
+
+function renameRefused(message: string): ResponseError<void> {
+    return new ResponseError(LSPErrorCodes.RequestFailed, message);
+}
+
+/** Offsets of name in a piece of code, skipping member accesses (x.name) */
+function findIdentifierOccurrences(code: string, name: string, skipCalls: boolean): number[] {
+    const occurrences: number[] = [];
+    const re = new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+    let m;
+    while ((m = re.exec(code)) !== null) {
+        if (skipCalls && /^\s*\(/.test(code.substring(m.index + name.length))) { continue; }
+        occurrences.push(m.index);
+    }
+    return occurrences;
+}
+
+/** Java variable occurrences in the scripting elements of a page, as absolute offsets */
+function findJavaVariableOccurrences(text: string, nodes: JspNode[], name: string): number[] {
+    const offsets: number[] = [];
+    for (const node of getJavaNodes(nodes)) {
+        const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+        offsets.push(...findIdentifierOccurrences(code, name, true).map(o => node.contentStart + o));
+    }
+    return offsets;
+}
+
+/** Inline <script> blocks (without src) of a page */
+function getInlineScriptRanges(text: string): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = [];
+    const scriptRe = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+    let m;
+    while ((m = scriptRe.exec(text)) !== null) {
+        if (/\bsrc\s*=/i.test(m[1])) { continue; }
+        const start = m.index + '<script'.length + m[1].length + 1;
+        ranges.push({ start, end: start + m[2].length });
+    }
+    return ranges;
+}
+
+/**
+ * JavaScript occurrences of a name in a page: inside inline scripts and inline
+ * event handlers (onclick="..."), outside of JSP elements.
+ */
+function findJsOccurrences(text: string, nodes: JspNode[], name: string): number[] {
+    const regions = getInlineScriptRanges(text);
+    const handlerRe = /\bon[a-z]+\s*=\s*(["'])([\s\S]*?)\1/gi;
+    let m;
+    while ((m = handlerRe.exec(text)) !== null) {
+        const start = m.index + m[0].indexOf(m[1]) + 1;
+        regions.push({ start, end: start + m[2].length });
+    }
+
+    const offsets: number[] = [];
+    for (const region of regions) {
+        const code = blankOut(text.substring(region.start, region.end), JS_LITERALS_AND_COMMENTS_RE);
+        for (const o of findIdentifierOccurrences(code, name, false)) {
+            const offset = region.start + o;
+            const node = findNodeAt(nodes, offset);
+            if (!node || node.kind === 'template') { offsets.push(offset); }
+        }
+    }
+    return offsets;
+}
+
+/** Whether an inline script of the page declares the function */
+function isJsFunctionDeclaredInPage(text: string, name: string): boolean {
+    const patterns = buildJsFunctionPatterns(name);
+    return getInlineScriptRanges(text).some(r => {
+        const code = blankOut(text.substring(r.start, r.end), JS_LITERALS_AND_COMMENTS_RE);
+        return patterns.some(p => p.test(code));
+    });
+}
+
+/**
+ * Work out what the identifier under the cursor is and where it may be renamed.
+ * Throws with the reason when the rename would not be safe.
+ */
+function resolveRenameTarget(document: TextDocumentContent, position: Position): RenameTarget {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    let start = offset;
+    let end = offset;
+    while (start > 0 && /[\w$]/.test(text[start - 1])) { start--; }
+    while (end < text.length && /[\w$]/.test(text[end])) { end++; }
+    const name = text.substring(start, end);
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) { throw renameRefused('Place the cursor on a variable or function name.'); }
+    if (text[start - 1] === '.') { throw renameRefused(`"${name}" is a member access; only local names can be renamed.`); }
+    const range = Range.create(document.positionAt(start), document.positionAt(end));
+
+    const cache = getDocCache(document);
+    const node = findNodeAt(cache.nodes, offset);
+    const filePath = uriToFsPath(document.uri);
+
+    if (isJavaNode(node)) {
+        if (JSP_IMPLICIT_OBJECTS.some(o => o.name === name) && !cache.variables.some(v => v.name === name)) {
+            throw renameRefused(`"${name}" is a JSP implicit object.`);
+        }
+        if (findIncluders(filePath).some(r => r.edge.isStatic)) {
+            throw renameRefused('This fragment is statically included by other pages; rename from the including page.');
+        }
+
+        const files = getTranslationUnit(filePath);
+        let declarations = 0;
+        for (const file of files) {
+            const doc = readPageDocument(file);
+            if (!doc) { continue; }
+            const pageCache = getPageCache(doc);
+            for (const v of pageCache.variables.filter(v => v.name === name)) {
+                if (findNodeAt(pageCache.nodes, v.offset)?.name === 'jsp:useBean') {
+                    throw renameRefused(`"${name}" is declared by jsp:useBean; rename its id instead.`);
+                }
+                declarations++;
+            }
+        }
+        if (declarations === 0) { throw renameRefused(`Cannot find the declaration of "${name}" in this page or its static includes.`); }
+        if (declarations > 1) { throw renameRefused(`"${name}" is declared more than once in this page; rename it by hand.`); }
+        return { kind: 'java', name, range, files };
+    }
+
+    if (!node || node.kind === 'template') {
+        if (!isJsFunctionDeclaredInPage(text, name)) {
+            throw renameRefused(`"${name}" is not a function declared in this page's <script> blocks.`);
+        }
+        if (findJsFunctionInExternalFiles(text, name, document.uri)) {
+            throw renameRefused(`"${name}" is also declared in an external script; rename it there.`);
+        }
+        if (!findJsOccurrences(text, cache.nodes, name).includes(start)) {
+            throw renameRefused('Place the cursor on a variable or function name.');
+        }
+        return { kind: 'javascript', name, range, files: [filePath] };
+    }
+
+    throw renameRefused('Only scriptlet variables and page JavaScript functions can be renamed.');
+}
+
+connection.onPrepareRename((params: PrepareRenameParams): Range | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return null; }
+    return resolveRenameTarget(document, params.position).range;
+});
+
+connection.onRenameRequest((params: RenameParams): WorkspaceEdit | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return null; }
+
+    const target = resolveRenameTarget(document, params.position);
+    const newName = params.newName.trim();
+    const reserved = target.kind === 'java' ? JAVA_RESERVED_WORDS : JS_RESERVED_WORDS;
+    if (!/^[A-Za-z_$][\w$]*$/.test(newName) || reserved.has(newName)) {
+        throw renameRefused(`"${newName}" is not a valid identifier.`);
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const file of target.files) {
+        const doc = readPageDocument(file);
+        if (!doc) { continue; }
+        const text = doc.getText();
+        const cache = getPageCache(doc);
+
+        if (target.kind === 'java' && cache.variables.some(v => v.name === newName)) {
+            throw renameRefused(`"${newName}" is already declared in ${path.basename(file)}.`);
+        }
+        const offsets = target.kind === 'java'
+            ? findJavaVariableOccurrences(text, cache.nodes, target.name)
+            : findJsOccurrences(text, cache.nodes, target.name);
+        if (offsets.length > 0) {
+            changes[doc.uri] = offsets.map(o => TextEdit.replace(
+                Range.create(doc.positionAt(o), doc.positionAt(o + target.name.length)), newName));
+        }
+    }
+    return { changes };
+});
+
+// ─── Code Actions: Imports ──────────────────────────────────────────────────
+
+/**
+ * Capitalized simple names in scripting elements that are not member accesses:
+ * the class names the page's imports have to provide. Import statements are skipped.
+ */
+function findTypeNameReferences(text: string, cache: DocumentCache): { name: string; start: number }[] {
+    const references: { name: string; start: number }[] = [];
+    for (const node of getJavaNodes(cache.nodes)) {
+        const code = blankOut(blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE), /\bimport\s+[\w.*\s]+;/g);
+        const simpleRe = /(?<![\w$.])([A-Z]\w*)\b/g;
+        let m;
+        while ((m = simpleRe.exec(code)) !== null) {
+            references.push({ name: m[1], start: node.contentStart + m.index });
+        }
+    }
+    return references;
+}
+
+/** Classes declared by the page itself, e.g. a helper class in a <%! %> declaration */
+function getPageDeclaredClassNames(text: string, cache: DocumentCache): Set<string> {
+    const names = new Set<string>();
+    for (const node of getJavaNodes(cache.nodes)) {
+        const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+        const classRe = /\b(?:class|interface|enum)\s+([A-Za-z_$][\w$]*)/g;
+        let m;
+        while ((m = classRe.exec(code)) !== null) { names.add(m[1]); }
+    }
+    return names;
+}
+
+/** The other files translated with a page (its includers and their static includes), parsed */
+function getTranslationUnitPages(doc: TextDocumentContent): { doc: TextDocumentContent; cache: DocumentCache }[] {
+    const filePath = uriToFsPath(doc.uri);
+    const pages: { doc: TextDocumentContent; cache: DocumentCache }[] = [];
+    for (const file of getEnclosingTranslationUnit(filePath).filter(f => f !== filePath)) {
+        const other = readPageDocument(file);
+        if (other) { pages.push({ doc: other, cache: getPageCache(other) }); }
+    }
+    return pages;
+}
+
+/**
+ * The page model with the imports of the files translated with it added: a fragment
+ * uses the imports of the page that includes it, and the other way round.
+ */
+function withTranslationUnitImports(cache: DocumentCache, unitCaches: DocumentCache[]): DocumentCache {
+    if (unitCaches.length === 0) { return cache; }
+    const imports = new Map(cache.imports);
+    const importEntries = [...cache.importEntries];
+    for (const other of unitCaches) {
+        for (const [simpleName, fqn] of other.imports) {
+            if (!imports.has(simpleName)) { imports.set(simpleName, fqn); }
+        }
+        importEntries.push(...other.importEntries);
+    }
+    return { ...cache, imports, importEntries };
+}
+
+/** Simple type names a page refers to: in scripting elements and in jsp:useBean classes */
+function collectUsedTypeNames(text: string, cache: DocumentCache): Set<string> {
+    const used = new Set(findTypeNameReferences(text, cache).map(r => r.name));
+    for (const node of cache.nodes) {
+        if (node.kind !== 'action' || node.name !== 'jsp:useBean') { continue; }
+        for (const name of ['class', 'type', 'beanName']) {
+            const value = getAttribute(node, name)?.value.trim();
+            if (value) { used.add(value.split(/[.<]/)[0]); }
+        }
+    }
+    return used;
+}
+
+/** import="..." attributes of the page directives, in document order */
+function getPageImportAttributes(cache: DocumentCache): { node: JspNode; attr: JspAttribute }[] {
+    const result: { node: JspNode; attr: JspAttribute }[] = [];
+    for (const node of cache.nodes) {
+        if (!isPageDirective(node)) { continue; }
+        for (const attr of node.attributes ?? []) {
+            if (attr.name === 'import') { result.push({ node, attr }); }
         }
     }
+    return result;
+}
+
+/** Separator the page already uses between imports, ", " when there is nothing to copy */
+function getImportSeparator(cache: DocumentCache): string {
+    for (const { attr } of getPageImportAttributes(cache)) {
+        const m = /,\s*/.exec(attr.value);
+        if (m) { return m[0]; }
+    }
+    return ', ';
+}
+
+/**
+ * Edit adding an import: appended to the last import="..." list of the page,
+ * or as a new page directive after the last directive (at the top when there is none).
+ */
+function getAddImportEdit(doc: TextDocumentContent, cache: DocumentCache, fqn: string): TextEdit {
+    const importAttrs = getPageImportAttributes(cache);
+    const last = importAttrs[importAttrs.length - 1];
+    if (last) {
+        const value = last.attr.value.trimEnd();
+        const insertAt = last.attr.valueStart + value.length;
+        const text = value.trim() ? getImportSeparator(cache) + fqn : fqn;
+        return TextEdit.insert(doc.positionAt(insertAt), text);
+    }
 
-    return null;
+    const directive = `<%@ page import="${fqn}" %>`;
+    const lastDirective = cache.nodes.filter(n => n.kind === 'directive' && n.closed).pop();
+    if (lastDirective) {
+        return TextEdit.insert(doc.positionAt(lastDirective.end), '\n' + directive);
+    }
+    return TextEdit.insert(doc.positionAt(0), directive + '\n');
 }
 
 /**
- * Resolve a method call by finding parameter count near cursor, then searching all sources.
+ * Ranges removing import attributes: a directive loses only those attributes, or goes
+ * entirely when it has no other attribute than the removed imports.
  */
-async function resolveMethodCall(className: string, methodName: string, text: string, offset: number, uri: string): Promise<Location | null> {
-    const escapedClass = className.replace(/\./g, '\\.');
-    const callRe = new RegExp(`${escapedClass}[.]${methodName}\\s*\\(`, 'g');
-    let bestMatch: RegExpExecArray | null = null;
-    let bestDist = Infinity;
-    let m;
+function getImportAttributeRemovalRanges(doc: TextDocumentContent, removed: { node: JspNode; attr: JspAttribute }[]): Range[] {
+    const text = doc.getText();
+    const ranges: Range[] = [];
+    for (const node of new Set(removed.map(r => r.node))) {
+        const attrs = removed.filter(r => r.node === node).map(r => r.attr);
+        if ((node.attributes ?? []).every(a => attrs.includes(a))) {
+            let end = node.end;
+            const lineBreak = /^[ \t]*\r?\n/.exec(text.substring(end));
+            if (lineBreak && /(?:^|\n)[ \t]*$/.test(text.substring(0, node.start))) { end += lineBreak[0].length; }
+            ranges.push(Range.create(doc.positionAt(node.start), doc.positionAt(end)));
+            continue;
+        }
 
-    while ((m = callRe.exec(text)) !== null) {
-        const dist = Math.abs(m.index - offset);
-        if (dist < bestDist) {
-            bestDist = dist;
-            bestMatch = m;
+        for (const attr of attrs) {
+            let start = attr.nameStart;
+            while (start > 0 && /\s/.test(text[start - 1])) { start--; }
+            ranges.push(Range.create(doc.positionAt(start), doc.positionAt(attr.valueEnd + 1)));
         }
     }
+    return ranges;
+}
 
-    let paramCount = 0;
-    if (bestMatch) {
-        const parenPos = bestMatch.index + bestMatch[0].length - 1;
-        paramCount = countMethodParams(text, parenPos);
+/**
+ * Edits organizing the page directive imports: single-type imports that no file of
+ * the translation unit uses removed, the rest deduplicated, sorted and merged into the
+ * first import attribute. Wildcard imports are kept since their use cannot be told
+ * apart reliably.
+ */
+function getOrganizeImportsEdits(doc: TextDocumentContent, cache: DocumentCache): TextEdit[] {
+    const importAttrs = getPageImportAttributes(cache);
+    if (importAttrs.length === 0) { return []; }
+
+    // Fragments translated with the page use its imports too
+    const used = collectUsedTypeNames(doc.getText(), cache);
+    for (const page of getTranslationUnitPages(doc)) {
+        collectUsedTypeNames(page.doc.getText(), page.cache).forEach(name => used.add(name));
     }
 
-    return await findDefinitionAnywhere(className, uri, methodName, paramCount);
+    const directiveImports = cache.importEntries.filter(e => e.fromDirective).map(e => e.fqn);
+    const kept = [...new Set(directiveImports)]
+        .filter(fqn => fqn.endsWith('.*') || used.has(fqn.split('.').pop()!))
+        .sort();
+    if (importAttrs.length === 1 && kept.join() === directiveImports.join()) { return []; }
+
+    const edits: TextEdit[] = [];
+    const [first, ...rest] = importAttrs;
+    if (kept.length > 0) {
+        edits.push(TextEdit.replace(
+            Range.create(doc.positionAt(first.attr.valueStart), doc.positionAt(first.attr.valueEnd)),
+            kept.join(getImportSeparator(cache))));
+    }
+    for (const range of getImportAttributeRemovalRanges(doc, kept.length > 0 ? rest : importAttrs)) {
+        edits.push(TextEdit.del(range));
+    }
+    return edits;
 }
 
+connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || isTldDocument(document.uri)) { return []; }
+
+    const cache = getDocCache(document);
+    const actions: CodeAction[] = [];
+    const only = params.context.only;
+    const wants = (kind: string) => !only || only.some(k => kind === k || kind.startsWith(k + '.'));
+
+    if (wants(CodeActionKind.QuickFix)) {
+        for (const diagnostic of params.context.diagnostics) {
+            if (diagnostic.code !== MISSING_IMPORT_CODE && diagnostic.code !== AMBIGUOUS_TYPE_CODE) { continue; }
+            const name = document.getText(diagnostic.range);
+            const unitCache = withTranslationUnitImports(cache, getTranslationUnitPages(document).map(p => p.cache));
+            const candidates = diagnostic.code === AMBIGUOUS_TYPE_CODE
+                ? resolvePageClassCandidates(name, unitCache, document.uri)
+                : findClassesBySimpleName(name).map(e => e.fqn);
+            for (const fqn of candidates) {
+                // The same name can be reported at several places
+                if (actions.some(a => a.title === `Import '${fqn}'`)) { continue; }
+                actions.push({
+                    title: `Import '${fqn}'`,
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    isPreferred: candidates.length === 1,
+                    edit: { changes: { [document.uri]: [getAddImportEdit(document, cache, fqn)] } }
+                });
+            }
+        }
+    }
+
+    if (wants(CodeActionKind.SourceOrganizeImports)) {
+        const edits = getOrganizeImportsEdits(document, cache);
+        if (edits.length > 0) {
+            actions.push({
+                title: 'Organize Imports',
+                kind: CodeActionKind.SourceOrganizeImports,
+                edit: { changes: { [document.uri]: edits } }
+            });
+        }
+    }
+    return actions;
+});
+
 // ─── Autocompletion ─────────────────────────────────────────────────────────
 
 connection.onCompletion(
-    (textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
+    (textDocumentPosition: TextDocumentPositionParams): CompletionItem[] | CompletionList => {
         const document = documents.get(textDocumentPosition.textDocument.uri);
-        if (!document) { return []; }
+        if (!document || isTldDocument(document.uri)) { return []; }
 
         const text = document.getText();
         const offset = document.offsetAt(textDocumentPosition.position);
+        const cache = getDocCache(document);
+        const node = findNodeAt(cache.nodes, offset);
+
+        // Scriptlets, expressions and declarations get Java completions instead of HTML
+        if (isJavaNode(node)) {
+            return getJavaCompletions(document, offset, node!, cache);
+        }
+
+        if (node?.kind === 'el') {
+            return getElCompletions(text, offset, node, cache, document.uri);
+        }
+
+        // <%@ page import="com.acme.| — packages and classes
+        const importAttr = node && isPageDirective(node) ? getAttributeAtValue(node, offset) : undefined;
+        if (importAttr?.name === 'import') {
+            return getImportCompletions(text.substring(importAttr.valueStart, offset), cache);
+        }
+
+        const beanItems = getBeanActionCompletions(offset, node, document, cache);
+        if (beanItems) { return beanItems; }
+
+        const customTagItems = getCustomTagCompletions(text, offset, node, cache, document.uri);
+        if (customTagItems) { return customTagItems; }
 
         const htmlCompletionConfig: CompletionConfiguration = {
             attributeDefaultValue: 'doublequotes',
@@ -1423,15 +6179,25 @@ connection.onCompletion(
             end: textDocumentPosition.position
         });
 
-        if (linePrefix.includes('<%@')) {
+        const inDirective = node?.kind === 'directive';
+
+        // Directive name position: cursor on the (partial) name typed after "<%@"
+        if (inDirective && offset <= text.indexOf(node!.name!, node!.contentStart) + node!.name!.length) {
             items = items.concat([
                 { label: 'page', kind: CompletionItemKind.Keyword, data: 1 },
                 { label: 'include', kind: CompletionItemKind.Keyword, data: 2 },
                 { label: 'taglib', kind: CompletionItemKind.Keyword, data: 3 },
             ]);
+            if (isTagFile(uriToFsPath(document.uri))) {
+                items = items.concat([
+                    { label: 'tag', kind: CompletionItemKind.Keyword, data: 12 },
+                    { label: 'attribute', kind: CompletionItemKind.Keyword, data: 13 },
+                    { label: 'variable', kind: CompletionItemKind.Keyword, data: 14 },
+                ]);
+            }
         }
 
-        if (linePrefix.includes('<%@ page')) {
+        if (inDirective && node!.name === 'page' && !getAttributeAtValue(node!, offset)) {
             items = items.concat([
                 { label: 'language="java"', kind: CompletionItemKind.Property, data: 4 },
                 { label: 'contentType="text/html; charset=UTF-8"', kind: CompletionItemKind.Property, data: 5 },
@@ -1446,15 +6212,286 @@ connection.onCompletion(
                 { label: 'jsp:useBean', kind: CompletionItemKind.Snippet, data: 9 },
                 { label: 'jsp:setProperty', kind: CompletionItemKind.Snippet, data: 10 },
                 { label: 'jsp:getProperty', kind: CompletionItemKind.Snippet, data: 11 },
-            ]);
+            ], getTagNameCompletions(cache, document.uri));
         }
 
         return items;
     }
 );
 
+function getJavaCompletions(document: TextDocumentContent, offset: number, node: JspNode, cache: DocumentCache): CompletionItem[] | CompletionList {
+    const uri = document.uri;
+    const prefix = document.getText().substring(node.contentStart, offset);
+
+    // receiver.| — members of a variable's type, or static members of a class
+    const member = prefix.match(/(?<![\w$.])((?:[a-z_]\w*\s*\.\s*)*[A-Za-z_$][\w$]*)\s*\.\s*\w*$/);
+    if (member) {
+        return getMemberCompletions(member[1].replace(/\s+/g, ''), offset, cache, uri);
+    }
+
+    const namespace = getServletNamespace(cache);
+    const implicitObjects: CompletionItem[] = JSP_IMPLICIT_OBJECTS
+        .filter(o => !cache.variables.some(v => v.name === o.name))
+        .map(o => ({
+            label: o.name,
+            kind: CompletionItemKind.Variable,
+            detail: toServletFqn(o.type, namespace),
+            documentation: o.description
+        }));
+    const tagVariables: CompletionItem[] = getTagVariablesAt(cache, offset, uri).map(v => ({
+        label: v.name,
+        kind: CompletionItemKind.Variable,
+        detail: v.type
+    }));
+
+    const typed = prefix.match(/(?<![\w$.])([A-Z]\w*)$/);
+    const classes = typed ? getClassNameCompletions(typed[1], document, cache) : { isIncomplete: false, items: [] };
+    return { isIncomplete: classes.isIncomplete, items: [...implicitObjects, ...tagVariables, ...classes.items] };
+}
+
+/** Most class names offered for one prefix; the client filters further as the user types */
+const MAX_CLASS_COMPLETIONS = 200;
+
+/**
+ * Class names starting with a typed prefix: imported and java.lang classes first,
+ * then other indexed classes, which add their import to the page when accepted.
+ * Incomplete when capped, so the client asks again as the prefix grows.
+ */
+function getClassNameCompletions(prefix: string, document: TextDocumentContent, cache: DocumentCache): CompletionList {
+    const index = getJavaClassIndex();
+    if (!index) { return { isIncomplete: false, items: [] }; }
+
+    const items: CompletionItem[] = [];
+    for (const [simpleName, entries] of index) {
+        if (!simpleName.startsWith(prefix)) { continue; }
+        const visible = resolvePageClassCandidates(simpleName, cache);
+        for (const entry of entries) {
+            const imported = visible.length === 1 && visible[0] === entry.fqn;
+            // Another class already imported under this name: only the qualified name works
+            const importable = !imported && !cache.imports.has(simpleName);
+            items.push({
+                label: simpleName,
+                kind: CompletionItemKind.Class,
+                detail: entry.fqn,
+                insertText: imported || importable ? simpleName : entry.fqn,
+                filterText: simpleName,
+                sortText: `${imported ? 0 : 1 + CLASS_ORIGIN_ORDER.indexOf(entry.origin)}${simpleName}`,
+                additionalTextEdits: importable ? [getAddImportEdit(document, cache, entry.fqn)] : undefined
+            });
+        }
+        if (items.length >= MAX_CLASS_COMPLETIONS) { return { isIncomplete: true, items }; }
+    }
+    return { isIncomplete: false, items };
+}
+
+/**
+ * Completions inside ${...} and #{...}: scoped variables, EL implicit objects,
+ * operators and keywords, and functions of the page's tag libraries.
+ */
+function getElCompletions(text: string, offset: number, node: JspNode, cache: DocumentCache, uri: string): CompletionItem[] {
+    const prefix = text.substring(node.contentStart, offset);
+    const taglibs = getPageTaglibs(cache, uri);
+
+    // prefix:na| — functions of one library
+    const fnMatch = prefix.match(/([A-Za-z_][\w.-]*):(\w*)$/);
+    if (fnMatch && taglibs.has(fnMatch[1])) {
+        const library = taglibs.get(fnMatch[1]);
+        return (library?.functions ?? []).map(fn => toElFunctionItem(fn, fn.name));
+    }
+
+    // bean.| — readable properties of the bean
+    const member = prefix.match(new RegExp(`(${EL_CHAIN_PATTERN})\\s*\\.\\s*\\w*$`));
+    if (member) {
+        const type = resolveElChainType(member[1], cache, offset, uri);
+        if (!type || type.array || isMapType(type.fqn)) { return []; }
+        return getBeanProperties(type.fqn, uri).map(property => ({
+            label: property.name,
+            kind: CompletionItemKind.Property,
+            detail: formatJavaTypeRef(property.type),
+            documentation: `${property.ownerFqn}.${property.getter}()`
+        }));
+    }
+    if (/\.\s*\w*$/.test(prefix)) { return []; }
+
+    const items: CompletionItem[] = [];
+    const seen = new Set<string>();
+    for (const variable of getElVariables(cache, offset, uri)) {
+        if (seen.has(variable.name)) { continue; }
+        seen.add(variable.name);
+        items.push({
+            label: variable.name,
+            kind: CompletionItemKind.Variable,
+            detail: variable.type,
+            sortText: '0' + variable.name
+        });
+    }
+
+    for (const obj of EL_IMPLICIT_OBJECTS) {
+        if (seen.has(obj.name)) { continue; }
+        items.push({
+            label: obj.name,
+            kind: CompletionItemKind.Variable,
+            detail: formatJavaTypeRef(getElImplicitObjectType(obj, cache)),
+            documentation: obj.description,
+            sortText: '1' + obj.name
+        });
+    }
+
+    for (const keyword of EL_KEYWORDS) {
+        items.push({ label: keyword, kind: CompletionItemKind.Keyword, sortText: '3' + keyword });
+    }
+
+    for (const [libPrefix, library] of taglibs) {
+        for (const fn of library?.functions ?? []) {
+            items.push(toElFunctionItem(fn, `${libPrefix}:${fn.name}`));
+        }
+    }
+    return items;
+}
+
+function toElFunctionItem(fn: TagFunctionInfo, label: string): CompletionItem {
+    return {
+        label,
+        kind: CompletionItemKind.Function,
+        detail: fn.signature,
+        documentation: fn.description,
+        insertText: `${label}($1)`,
+        insertTextFormat: InsertTextFormat.Snippet,
+        sortText: '2' + label
+    };
+}
+
+/**
+ * Members after "receiver.": instance members for variables (declared, jsp:useBean,
+ * tag variables and implicit objects), static members for class names.
+ */
+function getMemberCompletions(receiver: string, offset: number, cache: DocumentCache, uri: string): CompletionItem[] {
+    const resolved = resolveReceiverSources(receiver, offset, cache, uri);
+    return resolved ? getTypeMemberCompletions(resolved.sources, resolved.staticOnly) : [];
+}
+
+/**
+ * Sources of the type a receiver expression names, nearest type first, resolved the
+ * same way as handleDottedExpression: variables first, then classes. Calls on a
+ * class only reach its static members.
+ */
+function resolveReceiverSources(receiver: string, offset: number, cache: DocumentCache, uri: string)
+    : { sources: JavaClassSource[]; staticOnly: boolean } | null {
+    if (/^[a-z_$][\w$]*$/.test(receiver)) {
+        const variable = cache.variables.filter(v => v.name === receiver && v.offset < offset).pop();
+        const type = variable?.type ?? getTagVariablesAt(cache, offset, uri).find(v => v.name === receiver)?.type;
+        if (type) {
+            const fqn = parseJavaTypeRef(type, n => resolvePageTypeName(n, cache)).fqn;
+            return { sources: getClassHierarchySources(fqn, uri), staticOnly: false };
+        }
+        const implicitTypes = getImplicitObjectTypes(receiver, cache);
+        if (implicitTypes) {
+            const sources = implicitTypes.flatMap(fqn => readJavaClassSource(fqn, uri) ?? []);
+            return { sources, staticOnly: false };
+        }
+        return null;
+    }
+
+    const simple = receiver.split('.').pop()!;
+    if (!/^[A-Z]/.test(simple)) { return null; }
+    const fqn = receiver.includes('.') ? receiver : resolvePageClassCandidates(receiver, cache, uri)[0];
+    return fqn ? { sources: getClassHierarchySources(fqn, uri), staticOnly: true } : null;
+}
+
+/**
+ * Fields and methods of a type and its supertypes, nearest first. Overloads are
+ * listed separately; their Javadoc is read in onCompletionResolve.
+ */
+function getTypeMemberCompletions(sources: JavaClassSource[], staticOnly: boolean): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const seen = new Set<string>();
+
+    sources.forEach(({ filePath, declaration }, depth) => {
+        for (const field of listJavaFields(declaration)) {
+            const isStatic = field.modifiers.includes('static');
+            if (isStatic !== staticOnly || seen.has(field.name)) { continue; }
+            seen.add(field.name);
+            items.push({
+                label: field.name,
+                kind: isStatic && field.modifiers.includes('final') ? CompletionItemKind.Constant : CompletionItemKind.Field,
+                detail: `${field.type} ${field.name}`,
+                sortText: String(depth) + field.name,
+                data: { filePath, offset: field.nameStart }
+            });
+        }
+        for (const method of listJavaMethods(declaration)) {
+            const key = `${method.name}(${formatJavaParameters(method)})`;
+            if (method.modifiers.includes('static') !== staticOnly || seen.has(key)) { continue; }
+            seen.add(key);
+            items.push({
+                label: method.name,
+                kind: CompletionItemKind.Method,
+                detail: `${method.type} ${key}`,
+                sortText: String(depth) + method.name,
+                data: { filePath, offset: method.nameStart }
+            });
+        }
+    });
+    return items;
+}
+
+/**
+ * Completions for the import being typed in a page directive: the next package
+ * segment, and the classes of the package typed so far. Incomplete until the
+ * class index is built, so the client asks again.
+ */
+function getImportCompletions(valueBeforeCursor: string, cache: DocumentCache): CompletionList {
+    const typed = valueBeforeCursor.substring(valueBeforeCursor.lastIndexOf(',') + 1).trimStart();
+    const index = getJavaClassIndex();
+    if (!/^[\w$.]*$/.test(typed) || !index) { return { isIncomplete: !index, items: [] }; }
+
+    const lastDot = typed.lastIndexOf('.');
+    const pkgPrefix = typed.substring(0, lastDot + 1); // "com.acme." or "" at the first segment
+    const subpackages = new Set<string>();
+    const items: CompletionItem[] = [];
+
+    for (const entries of index.values()) {
+        for (const entry of entries) {
+            if (!entry.fqn.startsWith(pkgPrefix)) { continue; }
+            const rest = entry.fqn.substring(pkgPrefix.length);
+            const dot = rest.indexOf('.');
+            if (dot >= 0) {
+                subpackages.add(rest.substring(0, dot));
+            } else if (pkgPrefix && cache.imports.get(rest) !== entry.fqn) {
+                items.push({
+                    label: rest,
+                    kind: CompletionItemKind.Class,
+                    detail: entry.fqn,
+                    sortText: '1' + rest
+                });
+            }
+        }
+    }
+
+    for (const segment of subpackages) {
+        items.push({ label: segment, kind: CompletionItemKind.Module, detail: `package ${pkgPrefix}${segment}`, sortText: '0' + segment });
+    }
+    if (items.some(item => item.kind === CompletionItemKind.Class)) {
+        items.push({ label: '*', kind: CompletionItemKind.Keyword, detail: `All classes of ${pkgPrefix.slice(0, -1)}`, sortText: '2' });
+    }
+    return { isIncomplete: false, items };
+}
+
 connection.onCompletionResolve(
     (item: CompletionItem): CompletionItem => {
+        // Java members: Javadoc from the declaring source
+        if (item.data?.filePath) {
+            try {
+                const unit = getJavaCompilationUnit(item.data.filePath, fs.readFileSync(item.data.filePath, 'utf-8'));
+                const declaration = findJavaDeclarationAt(unit, item.data.offset);
+                const javadoc = declaration && renderJavadoc(declaration.javadoc);
+                if (javadoc) { item.documentation = { kind: MarkupKind.Markdown, value: javadoc }; }
+            } catch {
+                // Source removed since the completion was computed
+            }
+            return item;
+        }
+
         switch (item.data) {
             case 1: item.detail = 'JSP Page Directive'; item.documentation = 'Defines page-dependent attributes'; break;
             case 7: item.detail = 'JSP Include Action'; item.documentation = 'Includes content of another JSP page at runtime'; break;
@@ -1462,14 +6499,476 @@ connection.onCompletionResolve(
             case 9: item.detail = 'JSP UseBean Action'; item.documentation = 'Declares and instantiates a JavaBean'; break;
             case 10: item.detail = 'JSP SetProperty Action'; item.documentation = 'Sets the value of a JavaBean property'; break;
             case 11: item.detail = 'JSP GetProperty Action'; item.documentation = 'Gets the value of a JavaBean property'; break;
+            case 12: item.detail = 'JSP Tag Directive'; item.documentation = 'Declares properties of a tag file'; break;
+            case 13: item.detail = 'JSP Attribute Directive'; item.documentation = 'Declares an attribute of a tag file'; break;
+            case 14: item.detail = 'JSP Variable Directive'; item.documentation = 'Exposes a variable from a tag file to the calling page'; break;
         }
         return item;
     }
 );
 
-// ─── Document Change Listener (invalidate JS cache) ────────────────────────
-documents.onDidChangeContent(() => {
+// ─── Diagnostics ────────────────────────────────────────────────────────────
+
+/** Delay after the last edit before a document is validated */
+const VALIDATION_DELAY_MS = 500;
+
+function scheduleValidation(doc: TextDocumentContent): void {
+    if (isTldDocument(doc.uri)) { return; }
+
+    const pending = validationTimers.get(doc.uri);
+    if (pending) { clearTimeout(pending); }
+
+    validationTimers.set(doc.uri, setTimeout(() => {
+        validationTimers.delete(doc.uri);
+        try {
+            validateDocument(doc);
+        } catch (e) {
+            console.error('Error validating document:', e);
+        }
+    }, VALIDATION_DELAY_MS));
+}
+
+function validateDocument(doc: TextDocumentContent): void {
+    const cache = getDocCache(doc);
+    const diagnostics: Diagnostic[] = [];
+
+    diagnostics.push(...collectStructureDiagnostics(doc, cache));
+    diagnostics.push(...collectImportDiagnostics(doc, cache));
+    diagnostics.push(...collectTypeResolutionDiagnostics(doc, cache));
+    diagnostics.push(...collectTaglibDiagnostics(doc, cache));
+    diagnostics.push(...collectUseBeanDiagnostics(doc, cache));
+    diagnostics.push(...collectIncludeDiagnostics(doc, cache));
+
+    connection.sendDiagnostics({ uri: doc.uri, diagnostics });
+}
+
+/** Opening delimiters and the terminator each scripting element needs */
+const UNTERMINATED_MESSAGES: Partial<Record<JspNodeKind, { open: number; message: string }>> = {
+    scriptlet: { open: 2, message: "Unterminated scriptlet: missing '%>'" },
+    expression: { open: 3, message: "Unterminated expression: missing '%>'" },
+    declaration: { open: 3, message: "Unterminated declaration: missing '%>'" },
+    comment: { open: 4, message: "Unterminated JSP comment: missing '--%>'" },
+    directive: { open: 3, message: "Unterminated directive: missing '%>'" },
+    el: { open: 2, message: "Unterminated EL expression: missing '}'" },
+};
+
+/**
+ * Prefixes whose tags are JSP elements: "jsp" and those declared by taglib directives.
+ * Other prefixed tags (<o:p>, <svg:rect>) are template text.
+ */
+function getDeclaredTagPrefixes(caches: DocumentCache[]): Set<string> {
+    const prefixes = new Set(['jsp']);
+    for (const cache of caches) {
+        for (const node of cache.nodes) {
+            const prefix = node.kind === 'directive' && node.name === 'taglib' ? getAttribute(node, 'prefix')?.value : undefined;
+            if (prefix) { prefixes.add(prefix); }
+        }
+    }
+    return prefixes;
+}
+
+/**
+ * Report unbalanced JSP delimiters and mismatched jsp:* / custom tag pairs. A fragment
+ * may use the prefixes declared by the pages that include it.
+ */
+function collectStructureDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const text = doc.getText();
+    const diagnostics: Diagnostic[] = [];
+    const prefixes = getDeclaredTagPrefixes([cache, ...getTranslationUnitPages(doc).map(p => p.cache)]);
+    const report = (start: number, end: number, message: string) => {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: Range.create(doc.positionAt(start), doc.positionAt(end)),
+            message,
+            source: 'jsp'
+        });
+    };
+
+    // Tag name range: "<c:out" / "</c:out" without the brackets
+    const reportTag = (node: JspNode, message: string) => {
+        const nameStart = node.start + (node.isEndTag ? 2 : 1);
+        report(nameStart, nameStart + node.name!.length, message);
+    };
+
+    const openTags: JspNode[] = [];
+
+    for (const node of cache.nodes) {
+        for (const element of [node, ...(node.children ?? [])]) {
+            const unterminated = UNTERMINATED_MESSAGES[element.kind];
+            if (unterminated && !element.closed) {
+                report(element.start, element.start + unterminated.open, unterminated.message);
+            }
+        }
+
+        if (node.kind === 'template') {
+            // A "%>" in template text has no opening delimiter
+            let idx = text.indexOf('%>', node.start);
+            while (idx !== -1 && idx < node.end - 1) {
+                report(idx, idx + 2, "Unexpected '%>' without a matching '<%'");
+                idx = text.indexOf('%>', idx + 2);
+            }
+            continue;
+        }
+
+        if (node.kind !== 'action' && node.kind !== 'customTag') { continue; }
+        if (!prefixes.has(node.name!.split(':')[0])) { continue; }
+
+        if (!node.closed) {
+            reportTag(node, `Tag <${node.isEndTag ? '/' : ''}${node.name}> is missing '>'`);
+            continue;
+        }
+
+        if (node.selfClosing) { continue; }
+
+        if (!node.isEndTag) {
+            openTags.push(node);
+            continue;
+        }
+
+        const matchIdx = openTags.map(t => t.name).lastIndexOf(node.name);
+        if (matchIdx === -1) {
+            reportTag(node, `Closing tag </${node.name}> has no matching opening tag`);
+            continue;
+        }
+
+        // Everything opened after the match was never closed
+        const [, ...unclosedTags] = openTags.splice(matchIdx);
+        for (const unclosed of unclosedTags) {
+            reportTag(unclosed, `Tag <${unclosed.name}> is not closed before </${node.name}>`);
+        }
+    }
+
+    for (const unclosed of openTags) {
+        reportTag(unclosed, `Tag <${unclosed.name}> has no closing tag`);
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Report <%@ page import %> entries that resolve to no class or package.
+ */
+function collectImportDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const entry of cache.importEntries) {
+        if (!entry.fromDirective) { continue; }
+
+        const resolvable = entry.fqn.endsWith('.*')
+            ? isPackageResolvable(entry.fqn.slice(0, -2))
+            : isClassResolvable(entry.fqn, doc.uri);
+        if (resolvable) { continue; }
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: Range.create(doc.positionAt(entry.start), doc.positionAt(entry.end)),
+            message: `The import ${entry.fqn} cannot be resolved`,
+            source: 'jsp'
+        });
+    }
+
+    return diagnostics;
+}
+
+/** Diagnostic codes the import quick fixes attach to */
+const MISSING_IMPORT_CODE = 'missing-import';
+const AMBIGUOUS_TYPE_CODE = 'ambiguous-type';
+
+/**
+ * Report simple class names in scripting elements that the page does not import
+ * although indexed classes have that name, and names that more than one on-demand
+ * import (a wildcard import, the implicit servlet packages or java.lang) provides.
+ */
+function collectTypeResolutionDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!getJavaClassIndex()) { return diagnostics; }
+
+    const text = doc.getText();
+    const unitPages = getTranslationUnitPages(doc);
+    const unitCache = withTranslationUnitImports(cache, unitPages.map(p => p.cache));
+    const pageClasses = getPageDeclaredClassNames(text, cache);
+    for (const page of unitPages) {
+        getPageDeclaredClassNames(page.doc.getText(), page.cache).forEach(name => pageClasses.add(name));
+    }
+    const candidatesByName = new Map<string, string[]>();
+    for (const { name, start } of findTypeNameReferences(text, cache)) {
+        if (unitCache.imports.has(name) || pageClasses.has(name) || cache.variables.some(v => v.name === name)) { continue; }
+        if (!candidatesByName.has(name)) { candidatesByName.set(name, resolvePageClassCandidates(name, unitCache, doc.uri)); }
+        const candidates = candidatesByName.get(name)!;
+        const range = Range.create(doc.positionAt(start), doc.positionAt(start + name.length));
+
+        if (candidates.length > 1) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range,
+                message: `The type ${name} is ambiguous: ${candidates.join(', ')}`,
+                source: 'jsp',
+                code: AMBIGUOUS_TYPE_CODE
+            });
+        } else if (candidates.length === 0 && findClassesBySimpleName(name).length > 0) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range,
+                message: `${name} cannot be resolved to a type; it is not imported`,
+                source: 'jsp',
+                code: MISSING_IMPORT_CODE
+            });
+        }
+    }
+    return diagnostics;
+}
+
+/**
+ * Attribute names a tag receives through <jsp:attribute name="..."> children: the
+ * actions between its start tag (nodes[startIndex]) and its end tag, nested tags excluded.
+ */
+function getJspAttributeChildNames(nodes: JspNode[], startIndex: number): Set<string> {
+    const names = new Set<string>();
+    if (nodes[startIndex].selfClosing) { return names; }
+
+    let depth = 0;
+    for (let i = startIndex + 1; i < nodes.length && depth >= 0; i++) {
+        const node = nodes[i];
+        if ((node.kind !== 'action' && node.kind !== 'customTag') || !node.closed) { continue; }
+        if (node.isEndTag) {
+            depth--;
+            continue;
+        }
+        if (depth === 0 && node.name === 'jsp:attribute') {
+            const name = getAttribute(node, 'name')?.value.trim();
+            if (name) { names.add(name); }
+        }
+        if (!node.selfClosing) { depth++; }
+    }
+    return names;
+}
+
+/** Required attributes of a tag that neither its start tag nor a jsp:attribute child supplies */
+function getMissingRequiredAttributes(nodes: JspNode[], startIndex: number, tag: TagInfo): string[] {
+    const node = nodes[startIndex];
+    const missing = tag.attributes.filter(a => a.required && !getAttribute(node, a.name)).map(a => a.name);
+    if (missing.length === 0) { return missing; }
+
+    const children = getJspAttributeChildNames(nodes, startIndex);
+    return missing.filter(name => !children.has(name));
+}
+
+/**
+ * Report unknown taglib URIs, unknown tags and attributes, and missing required attributes.
+ */
+function collectTaglibDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const report = (start: number, end: number, message: string, severity: DiagnosticSeverity) => {
+        diagnostics.push({
+            severity,
+            range: Range.create(doc.positionAt(start), doc.positionAt(end)),
+            message,
+            source: 'jsp'
+        });
+    };
+
+    const taglibs = getPageTaglibs(cache, doc.uri);
+
+    for (const [index, node] of cache.nodes.entries()) {
+        if (node.kind === 'directive' && node.name === 'taglib') {
+            const uriAttr = getAttribute(node, 'uri');
+            const tagdirAttr = getAttribute(node, 'tagdir');
+            const prefix = getAttribute(node, 'prefix')?.value;
+            if (uriAttr && prefix && taglibs.get(prefix) === null) {
+                report(uriAttr.valueStart, uriAttr.valueEnd,
+                    `Cannot find the tag library descriptor for "${uriAttr.value}"`, DiagnosticSeverity.Warning);
+            } else if (tagdirAttr && prefix && taglibs.get(prefix) === null) {
+                report(tagdirAttr.valueStart, tagdirAttr.valueEnd,
+                    `Cannot find the tag directory "${tagdirAttr.value}"`, DiagnosticSeverity.Warning);
+            }
+            continue;
+        }
+
+        // Unterminated tags are still being typed
+        if (node.kind !== 'customTag' || node.isEndTag || !node.closed) { continue; }
+
+        const found = findTagInfo(taglibs, node.name!);
+        if (!found) { continue; }
+
+        const nameStart = node.start + 1;
+        const nameEnd = nameStart + node.name!.length;
+        if (!found.tag) {
+            report(nameStart, nameEnd,
+                `Unknown tag <${node.name}> in tag library "${found.library.uri || found.library.shortName}"`, DiagnosticSeverity.Error);
+            continue;
+        }
+
+        for (const attr of node.attributes ?? []) {
+            if (!found.tag.dynamicAttributes && !found.tag.attributes.some(a => a.name === attr.name)) {
+                report(attr.nameStart, attr.nameStart + attr.name.length,
+                    `Attribute "${attr.name}" is not defined for <${node.name}>`, DiagnosticSeverity.Warning);
+            }
+        }
+
+        for (const missing of getMissingRequiredAttributes(cache.nodes, index, found.tag)) {
+            report(nameStart, nameEnd,
+                `Missing required attribute "${missing}" for <${node.name}>`, DiagnosticSeverity.Error);
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Check jsp:setProperty / jsp:getProperty against the declared beans and their
+ * setters and getters. Beans whose class source cannot be read are not checked.
+ * A fragment may use beans declared by the page that includes it.
+ */
+function collectUseBeanDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const node of cache.nodes) {
+        if (!isBeanPropertyAction(node) || !node.closed) { continue; }
+        const nameAttr = getAttribute(node, 'name');
+        const propertyAttr = getAttribute(node, 'property');
+        if (!nameAttr || /[$#]\{|<%/.test(nameAttr.value)) { continue; }
+
+        const fqn = getUseBeanClass(node, doc, cache);
+        if (!fqn) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: Range.create(doc.positionAt(nameAttr.valueStart), doc.positionAt(nameAttr.valueEnd)),
+                message: `No bean named "${nameAttr.value}" is declared with jsp:useBean before this action`,
+                source: 'jsp'
+            });
+            continue;
+        }
+
+        const property = propertyAttr?.value.trim();
+        if (!property || property === '*' || /[$#]\{|<%/.test(property) || !readJavaSource(fqn, doc.uri)) { continue; }
+        if (!getBeanActionProperties(node, fqn, doc.uri).has(property)) {
+            const access = node.name === 'jsp:setProperty' ? 'writable (no setter)' : 'readable (no getter)';
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: Range.create(doc.positionAt(propertyAttr!.valueStart), doc.positionAt(propertyAttr!.valueEnd)),
+                message: `Property "${property}" is not ${access} on ${fqn}`,
+                source: 'jsp'
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Report include/forward targets that do not exist. A missing static include breaks
+ * translation (Error); jsp:include / jsp:forward only fail at request time (Warning)
+ * and may point at servlet mappings, so only paths with a file extension are checked.
+ */
+function collectIncludeDiagnostics(doc: TextDocumentContent, cache: DocumentCache): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const node of cache.nodes) {
+        const target = getIncludeTargetAttribute(node);
+        if (!target || !target.value.trim() || isDynamicPath(target.value)) { continue; }
+
+        const isDirective = target.name === 'file';
+        const pathPart = target.value.trim().replace(/[?#].*$/, '');
+        if (!isDirective && !/\.\w+$/.test(pathPart)) { continue; }
+        if (resolveIncludePath(target.value, doc.uri)) { continue; }
+
+        diagnostics.push({
+            severity: isDirective ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+            range: Range.create(doc.positionAt(target.valueStart), doc.positionAt(target.valueEnd)),
+            message: `Cannot resolve "${target.value.trim()}"`,
+            source: 'jsp'
+        });
+    }
+
+    return diagnostics;
+}
+
+function isClassResolvable(fqn: string, uri: string): boolean {
+    // Without a JDK src.zip there is nothing to check JDK classes against
+    if (isJdkClass(fqn) && !getJdkEntryIndex()) { return true; }
+    if (getJavaClassIndex() && classExists(fqn, uri)) { return true; }
+    if (isClassAvailable(fqn, uri)) { return true; }
+
+    // Nested class import: com.example.Outer.Inner resolves through Outer
+    const lastDot = fqn.lastIndexOf('.');
+    if (lastDot > 0) {
+        const outer = fqn.substring(0, lastDot);
+        if (/^[A-Z]/.test(outer.split('.').pop()!)) {
+            return isClassResolvable(outer, uri);
+        }
+    }
+    return false;
+}
+
+function isPackageResolvable(pkg: string): boolean {
+    const pkgPath = pkg.replace(/\./g, '/');
+    if (isJdkClass(pkg + '.') && !getJdkEntryIndex()) { return true; }
+
+    for (const srcInfo of javaSourcePaths) {
+        const dir = path.join(srcInfo.sourcePath, pkgPath.replace(/\//g, path.sep));
+        try {
+            if (fs.statSync(dir).isDirectory()) { return true; }
+        } catch { /* not here */ }
+    }
+
+    for (const dep of mavenDependencies) {
+        if (getZipPackages(getSourcesJarPath(dep)).has(pkgPath)) { return true; }
+        if (getZipPackages(getBinaryJarPath(dep)).has(pkgPath)) { return true; }
+    }
+
+    const srcZip = getJdkSrcZipPath();
+    if (srcZip && getZipPackages(srcZip).has(pkgPath)) { return true; }
+
+    // Static-style wildcard over a class: com.example.Constants.*
+    const last = pkg.split('.').pop()!;
+    return /^[A-Z]/.test(last) && (!!findClassInSourcesJars(pkg) || !!findClassInBinaryJars(pkg)
+        || javaSourcePaths.some(p => resolveJavaFileDirect(p.sourcePath, pkg) !== null));
+}
+
+// ─── Watched Files ──────────────────────────────────────────────────────────
+
+/** Files whose changes alter the source paths and dependencies of the workspace */
+const BUILD_FILE_RE = /[\\/](?:pom\.xml|(?:build|settings)\.gradle(?:\.kts)?|gradle\.properties)$/;
+
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    if (params.changes.some(c => BUILD_FILE_RE.test(uriToFsPath(c.uri)))) {
+        reloadProjects();
+    } else if (!javaClassIndexBuild) {
+        // The last build failed
+        startJavaClassIndex();
+    }
+
+    for (const change of params.changes) {
+        const filePath = uriToFsPath(change.uri);
+        if (isJspFile(filePath)) {
+            updateIncludeGraph(filePath, change.type);
+            updateJavaUsageIndex(filePath, change.type);
+        } else if (filePath.endsWith('.java')) {
+            updateJavaClassIndex(filePath, change.type);
+        }
+    }
+
+    const taglibChanged = params.changes.some(c => /\.(tld|tagx?)$|[\\/]web\.xml$/.test(uriToFsPath(c.uri)));
+    if (taglibChanged) {
+        invalidateTaglibIndex();
+        documents.all().forEach(scheduleValidation);
+    }
+});
+
+// ─── Document Change Listener ───────────────────────────────────────────────
+documents.onDidChangeContent(change => {
     invalidateJsFileCache();
+    scheduleValidation(change.document);
+});
+
+documents.onDidClose(e => {
+    documentCaches.delete(e.document.uri);
+    const pending = validationTimers.get(e.document.uri);
+    if (pending) {
+        clearTimeout(pending);
+        validationTimers.delete(e.document.uri);
+    }
+    connection.sendDiagnostics({ uri: e.document.uri, diagnostics: [] });
 });
 
 // ─── Start ──────────────────────────────────────────────────────────────────
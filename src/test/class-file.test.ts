@@ -0,0 +1,744 @@
+/**
+ * Unit test: Validate the class file reader and the stub generator in server.ts:
+ *   - Constant pool, supertypes, generic signatures and constant values
+ *   - Parameter names from MethodParameters or the LocalVariableTable
+ *   - Stubs: imports, modifiers, varargs, throws clauses and member classes
+ *   - Synthetic, bridge and private members left out
+ */
+
+import * as assert from 'assert';
+import AdmZip from 'adm-zip';
+
+// ── Replicate the class file reader and stub generator from server.ts ───────
+
+/** A field or method read from a .class file */
+interface ClassFileMember {
+    access: number;
+    name: string;
+    descriptor: string;
+    signature?: string; // Generic signature, when the member uses type variables or arguments
+    constantValue?: number | bigint | string; // ConstantValue of a static final field
+    parameterNames: string[]; // From MethodParameters or the LocalVariableTable, empty when compiled without them
+    exceptions: string[]; // Internal names ("java/io/IOException")
+}
+
+/** The parts of a .class file a stub needs. Class names are internal names ("com/acme/Outer$Inner") */
+interface ClassFile {
+    access: number;
+    thisClass: string;
+    superClass: string | null;
+    interfaces: string[];
+    signature?: string;
+    fields: ClassFileMember[];
+    methods: ClassFileMember[];
+    innerClasses: { name: string; outer: string | null; simpleName: string | null; access: number }[];
+}
+
+const ACC_PUBLIC = 0x0001;
+const ACC_PRIVATE = 0x0002;
+const ACC_PROTECTED = 0x0004;
+const ACC_STATIC = 0x0008;
+const ACC_FINAL = 0x0010;
+const ACC_SYNCHRONIZED = 0x0020;
+const ACC_BRIDGE = 0x0040;
+const ACC_VARARGS = 0x0080;
+const ACC_NATIVE = 0x0100;
+const ACC_INTERFACE = 0x0200;
+const ACC_ABSTRACT = 0x0400;
+const ACC_SYNTHETIC = 0x1000;
+const ACC_ANNOTATION = 0x2000;
+const ACC_ENUM = 0x4000;
+
+const DESCRIPTOR_BASE_TYPES: Record<string, string> = {
+    B: 'byte', C: 'char', D: 'double', F: 'float', I: 'int', J: 'long', S: 'short', Z: 'boolean', V: 'void'
+};
+
+/**
+ * Read the declarations of a compiled class: constant pool, supertypes, fields and
+ * methods with their generic signatures, and parameter names when the class was
+ * compiled with them. Returns null for anything that is not a valid class file.
+ */
+function parseClassFile(data: Buffer): ClassFile | null {
+    let pos = 0;
+    const u1 = () => data.readUInt8(pos++);
+    const u2 = () => { pos += 2; return data.readUInt16BE(pos - 2); };
+    const u4 = () => { pos += 4; return data.readUInt32BE(pos - 4); };
+
+    try {
+        if (u4() !== 0xCAFEBABE) { return null; }
+        pos += 4; // minor and major version
+
+        // Constant pool: UTF-8 strings, class and string references, numeric constants
+        const poolCount = u2();
+        const utf8: string[] = [];
+        const refs: number[] = [];
+        const constants: (number | bigint)[] = [];
+        for (let i = 1; i < poolCount; i++) {
+            const tag = u1();
+            switch (tag) {
+                case 1: {
+                    const length = u2();
+                    utf8[i] = data.toString('utf8', pos, pos + length);
+                    pos += length;
+                    break;
+                }
+                case 3: constants[i] = data.readInt32BE(pos); pos += 4; break;
+                case 4: constants[i] = data.readFloatBE(pos); pos += 4; break;
+                case 5: constants[i] = data.readBigInt64BE(pos); pos += 8; i++; break;
+                case 6: constants[i] = data.readDoubleBE(pos); pos += 8; i++; break;
+                case 7: case 8: case 16: case 19: case 20: refs[i] = u2(); break;
+                case 9: case 10: case 11: case 12: case 17: case 18: pos += 4; break;
+                case 15: pos += 3; break;
+                default: return null;
+            }
+        }
+        const className = (index: number) => index ? utf8[refs[index]] : null;
+
+        /** Walk an attribute table, calling read with pos at each attribute's body */
+        const readAttributes = (read: (name: string) => void) => {
+            const count = u2();
+            for (let k = 0; k < count; k++) {
+                const name = utf8[u2()];
+                const length = u4();
+                const end = pos + length;
+                read(name);
+                pos = end;
+            }
+        };
+
+        const readMembers = (isMethod: boolean): ClassFileMember[] => {
+            const members: ClassFileMember[] = [];
+            const count = u2();
+            for (let k = 0; k < count; k++) {
+                const member: ClassFileMember = { access: u2(), name: utf8[u2()], descriptor: utf8[u2()], parameterNames: [], exceptions: [] };
+                const localNames = new Map<number, string>();
+                readAttributes(name => {
+                    if (name === 'Signature') {
+                        member.signature = utf8[u2()];
+                    } else if (name === 'ConstantValue') {
+                        const index = u2();
+                        member.constantValue = refs[index] !== undefined ? utf8[refs[index]] : constants[index];
+                    } else if (name === 'Exceptions') {
+                        const exceptions = u2();
+                        for (let e = 0; e < exceptions; e++) { member.exceptions.push(className(u2())!); }
+                    } else if (name === 'MethodParameters') {
+                        const parameters = u1();
+                        for (let e = 0; e < parameters; e++) {
+                            const nameIndex = u2();
+                            u2();
+                            member.parameterNames.push(nameIndex ? utf8[nameIndex] : '');
+                        }
+                    } else if (name === 'Code') {
+                        pos += 4; // max_stack, max_locals
+                        const codeLength = u4();
+                        pos += codeLength;
+                        const handlers = u2();
+                        pos += handlers * 8;
+                        readAttributes(codeAttribute => {
+                            if (codeAttribute !== 'LocalVariableTable') { return; }
+                            const locals = u2();
+                            for (let e = 0; e < locals; e++) {
+                                const startPc = u2();
+                                pos += 2;
+                                const localName = utf8[u2()];
+                                pos += 2;
+                                const slot = u2();
+                                if (startPc === 0) { localNames.set(slot, localName); }
+                            }
+                        });
+                    }
+                });
+                if (isMethod && member.parameterNames.length === 0 && localNames.size > 0) {
+                    member.parameterNames = getParameterSlots(member).map(slot => localNames.get(slot) ?? '');
+                }
+                members.push(member);
+            }
+            return members;
+        };
+
+        const classFile: ClassFile = {
+            access: u2(), thisClass: className(u2())!, superClass: className(u2()),
+            interfaces: [], fields: [], methods: [], innerClasses: []
+        };
+        const interfaceCount = u2();
+        for (let k = 0; k < interfaceCount; k++) { classFile.interfaces.push(className(u2())!); }
+        classFile.fields = readMembers(false);
+        classFile.methods = readMembers(true);
+        readAttributes(name => {
+            if (name === 'Signature') {
+                classFile.signature = utf8[u2()];
+            } else if (name === 'InnerClasses') {
+                const count = u2();
+                for (let k = 0; k < count; k++) {
+                    const inner = className(u2())!;
+                    const outer = className(u2());
+                    const simpleIndex = u2();
+                    classFile.innerClasses.push({ name: inner, outer, simpleName: simpleIndex ? utf8[simpleIndex] : null, access: u2() });
+                }
+            }
+        });
+        return classFile;
+    } catch (e) {
+        console.error('Error reading class file:', e);
+        return null;
+    }
+}
+
+/** Local variable slots of a method's parameters: long and double take two */
+function getParameterSlots(method: ClassFileMember): number[] {
+    const slots: number[] = [];
+    let slot = method.access & ACC_STATIC ? 0 : 1;
+    const params = method.descriptor.substring(1, method.descriptor.indexOf(')'));
+    for (let i = 0; i < params.length; i++) {
+        slots.push(slot);
+        const wide = params[i] === 'J' || params[i] === 'D';
+        while (params[i] === '[') { i++; }
+        if (params[i] === 'L') { i = params.indexOf(';', i); }
+        slot += wide ? 2 : 1;
+    }
+    return slots;
+}
+
+/**
+ * Read one type from a descriptor or generic signature ("Ljava/util/List<TE;>;", "[I")
+ * as Java source. Class names are passed through nameOf for display.
+ */
+function readTypeSignature(sig: string, start: number, nameOf: (internalName: string) => string): { type: string; end: number } {
+    let i = start;
+    let dims = 0;
+    while (sig[i] === '[') {
+        dims++;
+        i++;
+    }
+
+    let type: string;
+    if (DESCRIPTOR_BASE_TYPES[sig[i]]) {
+        type = DESCRIPTOR_BASE_TYPES[sig[i++]];
+    } else if (sig[i] === 'T') {
+        const semi = sig.indexOf(';', i);
+        type = sig.substring(i + 1, semi);
+        i = semi + 1;
+    } else {
+        // Lpkg/Outer<TT;>.Inner<TU;>;
+        i++;
+        type = '';
+        let internalName = '';
+        for (;;) {
+            const segmentStart = i;
+            while (i < sig.length && !'<.;'.includes(sig[i])) { i++; }
+            const segment = sig.substring(segmentStart, i);
+            if (internalName) {
+                internalName += '$' + segment;
+                type += '.' + segment;
+            } else {
+                internalName = segment;
+                type = nameOf(segment);
+            }
+
+            if (sig[i] === '<') {
+                i++;
+                const args: string[] = [];
+                while (i < sig.length && sig[i] !== '>') {
+                    if (sig[i] === '*') {
+                        args.push('?');
+                        i++;
+                        continue;
+                    }
+                    const bound = sig[i] === '+' ? '? extends ' : sig[i] === '-' ? '? super ' : '';
+                    if (bound) { i++; }
+                    const arg = readTypeSignature(sig, i, nameOf);
+                    args.push(bound + arg.type);
+                    i = arg.end;
+                }
+                i++;
+                type += `<${args.join(', ')}>`;
+            }
+            if (sig[i++] !== '.') { break; }
+        }
+    }
+    return { type: type + '[]'.repeat(dims), end: i };
+}
+
+/** "<T:Ljava/lang/Object;U::Ljava/lang/Comparable<TU;>;>" -> "<T, U extends Comparable<U>>" */
+function readTypeParameters(sig: string, start: number, nameOf: (internalName: string) => string): { text: string; end: number } {
+    if (sig[start] !== '<') { return { text: '', end: start }; }
+    let i = start + 1;
+    const params: string[] = [];
+    while (i < sig.length && sig[i] !== '>') {
+        const colon = sig.indexOf(':', i);
+        const name = sig.substring(i, colon);
+        i = colon;
+        const bounds: string[] = [];
+        while (sig[i] === ':') {
+            i++;
+            if (sig[i] === ':') { continue; } // no class bound, interface bounds follow
+            const bound = readTypeSignature(sig, i, nameOf);
+            if (bound.type !== 'Object') { bounds.push(bound.type); }
+            i = bound.end;
+        }
+        params.push(bounds.length > 0 ? `${name} extends ${bounds.join(' & ')}` : name);
+    }
+    return { text: `<${params.join(', ')}>`, end: i + 1 };
+}
+
+/** Java literal of a ConstantValue attribute, or null when it has no source form */
+function formatConstantValue(value: number | bigint | string, descriptor: string): string | null {
+    if (typeof value === 'string') { return JSON.stringify(value); }
+    if (typeof value === 'bigint') { return `${value}L`; }
+    if (!Number.isFinite(value)) { return null; }
+    switch (descriptor) {
+        case 'Z': return value ? 'true' : 'false';
+        case 'C': return value === 39 ? '\'\\\'\'' : '\'' + JSON.stringify(String.fromCharCode(value)).slice(1, -1) + '\'';
+        case 'F': {
+            // Shortest decimal that reads back as the same float
+            let precision = 1;
+            while (precision < 9 && Math.fround(Number(value.toPrecision(precision))) !== value) { precision++; }
+            return `${Number(value.toPrecision(precision))}f`;
+        }
+        case 'D': return Number.isInteger(value) ? `${value}.0` : String(value);
+        default: return String(value);
+    }
+}
+
+function formatAccessModifiers(access: number): string[] {
+    const modifiers: string[] = [];
+    if (access & ACC_PUBLIC) { modifiers.push('public'); }
+    if (access & ACC_PROTECTED) { modifiers.push('protected'); }
+    if (access & ACC_PRIVATE) { modifiers.push('private'); }
+    if (access & ACC_STATIC) { modifiers.push('static'); }
+    return modifiers;
+}
+
+/**
+ * Java source for a compiled class: its declaration, non-private fields, constructors,
+ * methods and member classes, with bodies left out. Names outside java.lang and the
+ * class's own package are imported unless two classes share a simple name.
+ */
+function generateClassFileStub(zip: AdmZip, internalName: string, jarName: string): string | null {
+    const entry = zip.getEntry(internalName + '.class');
+    const classFile = entry && parseClassFile(entry.getData());
+    if (!classFile) { return null; }
+
+    const slash = internalName.lastIndexOf('/');
+    const packageName = slash >= 0 ? internalName.substring(0, slash).replace(/\//g, '.') : '';
+    const simpleNames = new Map<string, string>(); // simple name -> top-level class it stands for
+
+    const nameOf = (name: string): string => {
+        const fqn = name.replace(/\//g, '.');
+        const lastDot = fqn.lastIndexOf('.');
+        const dollar = fqn.indexOf('$', lastDot + 1);
+        const topLevel = dollar > 0 ? fqn.substring(0, dollar) : fqn;
+        const nested = dollar > 0 ? fqn.substring(dollar).replace(/\$/g, '.') : '';
+        const simple = topLevel.substring(lastDot + 1);
+        const owner = simpleNames.get(simple);
+        if (owner && owner !== topLevel) { return topLevel + nested; }
+        simpleNames.set(simple, topLevel);
+        return simple + nested;
+    };
+    // The class itself owns its simple name
+    nameOf(internalName.split('$')[0]);
+
+    const body = generateClassDeclaration(zip, classFile, nameOf, '', 0);
+
+    const imports = [...simpleNames.values()]
+        .filter(fqn => {
+            const pkg = fqn.substring(0, Math.max(0, fqn.lastIndexOf('.')));
+            return pkg && pkg !== 'java.lang' && pkg !== packageName;
+        })
+        .sort();
+
+    const lines = [
+        `// Generated from ${internalName}.class in ${jarName}: no sources jar is available.`,
+        '// Signatures only; parameter names are argN when the class was compiled without them.',
+        ''
+    ];
+    if (packageName) { lines.push(`package ${packageName};`, ''); }
+    if (imports.length > 0) { lines.push(...imports.map(fqn => `import ${fqn};`), ''); }
+    return lines.join('\n') + '\n' + body;
+}
+
+/** One class declaration of a stub, member classes nested up to a few levels */
+function generateClassDeclaration(zip: AdmZip, classFile: ClassFile, nameOf: (internalName: string) => string,
+    indent: string, depth: number, innerAccess?: number): string {
+    const access = innerAccess ?? classFile.access;
+    const isInterface = (access & ACC_INTERFACE) !== 0;
+    const isEnum = (access & ACC_ENUM) !== 0;
+    const simpleName = classFile.thisClass.substring(classFile.thisClass.lastIndexOf('/') + 1).split('$').pop()!;
+
+    // Header: modifiers, kind, type parameters and supertypes
+    const modifiers = formatAccessModifiers(access);
+    if ((access & ACC_ABSTRACT) && !isInterface) { modifiers.push('abstract'); }
+    if ((access & ACC_FINAL) && !isEnum) { modifiers.push('final'); }
+    const kind = access & ACC_ANNOTATION ? '@interface' : isInterface ? 'interface' : isEnum ? 'enum' : 'class';
+
+    let typeParams = '';
+    let superclass = classFile.superClass ? nameOf(classFile.superClass) : null;
+    let interfaces = classFile.interfaces.map(nameOf);
+    if (classFile.signature) {
+        const params = readTypeParameters(classFile.signature, 0, nameOf);
+        typeParams = params.text;
+        const supertypes: string[] = [];
+        for (let i = params.end; i < classFile.signature.length;) {
+            const supertype = readTypeSignature(classFile.signature, i, nameOf);
+            supertypes.push(supertype.type);
+            i = supertype.end;
+        }
+        superclass = supertypes[0] ?? superclass;
+        interfaces = supertypes.slice(1);
+    }
+
+    let header = `${indent}${[...modifiers, kind].join(' ')} ${simpleName}${typeParams}`;
+    if (superclass && !isInterface && !isEnum && superclass !== 'Object') { header += ` extends ${superclass}`; }
+    if (interfaces.length > 0 && !(access & ACC_ANNOTATION)) {
+        header += `${isInterface ? ' extends ' : ' implements '}${interfaces.join(', ')}`;
+    }
+
+    const memberIndent = indent + '    ';
+    const sections: string[][] = [];
+    const isVisible = (member: ClassFileMember) => !(member.access & (ACC_PRIVATE | ACC_SYNTHETIC | ACC_BRIDGE));
+
+    // Enum constants, then fields
+    if (isEnum) {
+        const constants = classFile.fields.filter(f => f.access & ACC_ENUM).map(f => f.name);
+        sections.push([`${memberIndent}${constants.join(', ')};`]);
+    }
+    sections.push(classFile.fields.filter(f => isVisible(f) && !(f.access & ACC_ENUM)).map(field => {
+        const fieldModifiers = isInterface ? [] : formatAccessModifiers(field.access);
+        if ((field.access & ACC_FINAL) && !isInterface) { fieldModifiers.push('final'); }
+        const type = readTypeSignature(field.signature ?? field.descriptor, 0, nameOf).type;
+        const value = field.constantValue !== undefined ? formatConstantValue(field.constantValue, field.descriptor) : null;
+        return `${memberIndent}${[...fieldModifiers, type, field.name].join(' ')}${value !== null ? ' = ' + value : ''};`;
+    }));
+
+    // Constructors, then methods
+    const methods = classFile.methods.filter(m => isVisible(m) && m.name !== '<clinit>'
+        && !(isEnum && /^(?:values|valueOf)$/.test(m.name) && (m.access & ACC_STATIC)));
+    for (const constructors of [true, false]) {
+        sections.push(methods.filter(m => (m.name === '<init>') === constructors).map(method => {
+            const sig = method.signature ?? method.descriptor;
+            const typeParamsOf = readTypeParameters(sig, 0, nameOf);
+            const paramTypes: string[] = [];
+            let i = typeParamsOf.end + 1;
+            while (sig[i] !== ')') {
+                const param = readTypeSignature(sig, i, nameOf);
+                paramTypes.push(param.type);
+                i = param.end;
+            }
+            const returnType = readTypeSignature(sig, i + 1, nameOf).type;
+            if ((method.access & ACC_VARARGS) && paramTypes.length > 0) {
+                paramTypes.push(paramTypes.pop()!.replace(/\[\]$/, '...'));
+            }
+            // Parameter names only line up when the signature does not drop synthetic parameters
+            const names = method.parameterNames.length === paramTypes.length ? method.parameterNames : [];
+            const params = paramTypes.map((type, k) => `${type} ${names[k] || 'arg' + k}`).join(', ');
+
+            const methodModifiers = formatAccessModifiers(method.access);
+            const isAbstract = (method.access & ACC_ABSTRACT) !== 0;
+            if (isAbstract && !isInterface) { methodModifiers.push('abstract'); }
+            if (isInterface && !isAbstract && !(method.access & ACC_STATIC)) { methodModifiers.push('default'); }
+            if (method.access & ACC_FINAL) { methodModifiers.push('final'); }
+            if (method.access & ACC_SYNCHRONIZED) { methodModifiers.push('synchronized'); }
+            if (method.access & ACC_NATIVE) { methodModifiers.push('native'); }
+            if (typeParamsOf.text) { methodModifiers.push(typeParamsOf.text); }
+
+            const declaration = constructors ? `${simpleName}(${params})` : `${returnType} ${method.name}(${params})`;
+            const throwsClause = method.exceptions.length > 0 ? ` throws ${method.exceptions.map(nameOf).join(', ')}` : '';
+            const body = isAbstract || (method.access & ACC_NATIVE) ? ';' : ' { }';
+            return `${memberIndent}${[...methodModifiers, declaration].join(' ')}${throwsClause}${body}`;
+        }));
+    }
+
+    // Member classes, from their own class files in the same jar
+    if (depth < 3) {
+        const nested: string[] = [];
+        for (const inner of classFile.innerClasses) {
+            if (inner.outer !== classFile.thisClass || !inner.simpleName || inner.access & (ACC_PRIVATE | ACC_SYNTHETIC)) { continue; }
+            const innerEntry = zip.getEntry(inner.name + '.class');
+            const innerClass = innerEntry && parseClassFile(innerEntry.getData());
+            if (innerClass) { nested.push(generateClassDeclaration(zip, innerClass, nameOf, memberIndent, depth + 1, inner.access).trimEnd()); }
+        }
+        sections.push(nested);
+    }
+
+    const members = sections.filter(section => section.length > 0).map(section => section.join('\n'));
+    return `${header} {\n${members.length > 0 ? '\n' + members.join('\n\n') + '\n' : ''}${indent}}\n`;
+}
+
+// ── Helpers: a minimal class file writer for fixtures ──────────────────────
+
+interface MemberSpec {
+    access: number;
+    name: string;
+    descriptor: string;
+    signature?: string;
+    constant?: number | bigint | string;
+    exceptions?: string[];
+    params?: string[]; // MethodParameters
+    locals?: [string, string, number][]; // LocalVariableTable: name, descriptor, slot
+}
+
+interface ClassSpec {
+    access: number;
+    name: string;
+    superName?: string;
+    interfaces?: string[];
+    signature?: string;
+    fields?: MemberSpec[];
+    methods?: MemberSpec[];
+    inner?: { name: string; outer?: string; simpleName?: string; access: number }[];
+}
+
+const u2 = (value: number) => {
+    const b = Buffer.alloc(2);
+    b.writeUInt16BE(value);
+    return b;
+};
+const u4 = (value: number) => {
+    const b = Buffer.alloc(4);
+    b.writeUInt32BE(value);
+    return b;
+};
+
+/** Assemble a class file: a constant pool with the entries the spec needs, then the class body */
+function writeClassFile(spec: ClassSpec): Buffer {
+    const entries: Buffer[] = [];
+    const indexes = new Map<string, number>();
+    let next = 1;
+    const add = (key: string, bytes: Buffer, wide = false) => {
+        if (!indexes.has(key)) {
+            indexes.set(key, next);
+            entries.push(bytes);
+            next += wide ? 2 : 1;
+        }
+        return indexes.get(key)!;
+    };
+    const utf8 = (s: string) => {
+        const bytes = Buffer.from(s, 'utf8');
+        return add('u' + s, Buffer.concat([Buffer.from([1]), u2(bytes.length), bytes]));
+    };
+    const ref = (tag: number, s: string) => {
+        const index = utf8(s);
+        return add(tag + s, Buffer.concat([Buffer.from([tag]), u2(index)]));
+    };
+    const cls = (name: string) => ref(7, name);
+    const constant = (value: number | bigint | string) => {
+        if (typeof value === 'string') { return ref(8, value); }
+        if (typeof value === 'bigint') {
+            const b = Buffer.alloc(9);
+            b[0] = 5;
+            b.writeBigInt64BE(value, 1);
+            return add('l' + value, b, true);
+        }
+        const b = Buffer.alloc(5);
+        b[0] = 3;
+        b.writeInt32BE(value, 1);
+        return add('i' + value, b);
+    };
+    const attribute = (name: string, body: Buffer) => Buffer.concat([u2(utf8(name)), u4(body.length), body]);
+    const table = (items: Buffer[]) => Buffer.concat([u2(items.length), ...items]);
+
+    const member = (m: MemberSpec) => {
+        const attributes: Buffer[] = [];
+        if (m.signature) { attributes.push(attribute('Signature', u2(utf8(m.signature)))); }
+        if (m.constant !== undefined) { attributes.push(attribute('ConstantValue', u2(constant(m.constant)))); }
+        if (m.exceptions) { attributes.push(attribute('Exceptions', table(m.exceptions.map(e => u2(cls(e)))))); }
+        if (m.params) {
+            const params = m.params.map(p => Buffer.concat([u2(utf8(p)), u2(0)]));
+            attributes.push(attribute('MethodParameters', Buffer.concat([Buffer.from([params.length]), ...params])));
+        }
+        if (m.locals) {
+            const locals = table(m.locals.map(([name, descriptor, slot]) =>
+                Buffer.concat([u2(0), u2(1), u2(utf8(name)), u2(utf8(descriptor)), u2(slot)])));
+            const code = Buffer.concat([u2(1), u2(10), u4(1), Buffer.from([0xb1]), u2(0), table([attribute('LocalVariableTable', locals)])]);
+            attributes.push(attribute('Code', code));
+        }
+        return Buffer.concat([u2(m.access), u2(utf8(m.name)), u2(utf8(m.descriptor)), table(attributes)]);
+    };
+
+    const header = [u2(spec.access), u2(cls(spec.name)), u2(spec.superName ? cls(spec.superName) : 0)];
+    const interfaces = table((spec.interfaces ?? []).map(i => u2(cls(i))));
+    const fields = table((spec.fields ?? []).map(member));
+    const methods = table((spec.methods ?? []).map(member));
+    const classAttributes: Buffer[] = [];
+    if (spec.signature) { classAttributes.push(attribute('Signature', u2(utf8(spec.signature)))); }
+    if (spec.inner) {
+        classAttributes.push(attribute('InnerClasses', table(spec.inner.map(i => Buffer.concat([
+            u2(cls(i.name)), u2(i.outer ? cls(i.outer) : 0), u2(i.simpleName ? utf8(i.simpleName) : 0), u2(i.access)
+        ])))));
+    }
+    const body = Buffer.concat([...header, interfaces, fields, methods, table(classAttributes)]);
+    return Buffer.concat([u4(0xCAFEBABE), u2(0), u2(52), u2(next), ...entries, body]);
+}
+
+const W = 'com/corp/widgets/';
+
+const WIDGET: ClassSpec = {
+    access: ACC_PUBLIC, name: W + 'Widget', superName: W + 'Base', interfaces: ['java/io/Serializable'],
+    signature: `<T::Ljava/lang/Comparable<TT;>;>L${W}Base;Ljava/io/Serializable;`,
+    inner: [
+        { name: W + 'Widget$Part', outer: W + 'Widget', simpleName: 'Part', access: ACC_PUBLIC | ACC_STATIC },
+        { name: W + 'Widget$1', access: 0 }
+    ],
+    fields: [
+        { access: ACC_PUBLIC | ACC_STATIC | ACC_FINAL, name: 'MAX', descriptor: 'I', constant: 10 },
+        { access: ACC_PUBLIC | ACC_STATIC | ACC_FINAL, name: 'NAME', descriptor: 'Ljava/lang/String;', constant: 'w"x' },
+        { access: ACC_PUBLIC | ACC_STATIC | ACC_FINAL, name: 'BIG', descriptor: 'J', constant: 5n },
+        { access: ACC_PROTECTED, name: 'items', descriptor: 'Ljava/util/List;', signature: 'Ljava/util/List<TT;>;' },
+        { access: ACC_PRIVATE, name: 'secret', descriptor: 'I' },
+        { access: ACC_PUBLIC, name: 'other', descriptor: 'Lcom/other/List;' }
+    ],
+    methods: [
+        {
+            access: ACC_PUBLIC, name: '<init>', descriptor: '(Ljava/lang/String;)V',
+            locals: [['this', `L${W}Widget;`, 0], ['label', 'Ljava/lang/String;', 1]]
+        },
+        {
+            access: ACC_PUBLIC | ACC_VARARGS, name: 'render', descriptor: '(Ljava/util/Map;J[I)Ljava/lang/String;',
+            signature: '(Ljava/util/Map<Ljava/lang/String;+Ljava/lang/Object;>;J[I)Ljava/lang/String;',
+            exceptions: ['java/io/IOException'], params: ['model', 'timeout', 'flags']
+        },
+        { access: ACC_PUBLIC, name: 'render', descriptor: '()Ljava/lang/String;' },
+        {
+            access: ACC_PUBLIC | ACC_STATIC, name: 'create', descriptor: `()L${W}Widget;`,
+            signature: `<X::Ljava/lang/Comparable<TX;>;>()L${W}Widget<TX;>;`
+        },
+        { access: ACC_PUBLIC | ACC_BRIDGE | ACC_SYNTHETIC, name: 'compareTo', descriptor: '(Ljava/lang/Object;)I' },
+        { access: ACC_PRIVATE, name: 'hidden', descriptor: '()V' },
+        {
+            access: ACC_PUBLIC | ACC_STATIC, name: 'sum', descriptor: '(JI)J',
+            locals: [['total', 'J', 0], ['step', 'I', 2]]
+        }
+    ]
+};
+
+const PART: ClassSpec = {
+    access: ACC_PUBLIC, name: W + 'Widget$Part', superName: 'java/lang/Object',
+    methods: [{ access: ACC_PUBLIC, name: 'size', descriptor: '()I' }]
+};
+
+function makeJar(...specs: ClassSpec[]): AdmZip {
+    const zip = new AdmZip();
+    for (const spec of specs) { zip.addFile(spec.name + '.class', writeClassFile(spec)); }
+    return zip;
+}
+
+const identity = (internalName: string) => internalName.replace(/\//g, '.');
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Class File Tests', () => {
+
+    test('reads supertypes, signatures and constant values', () => {
+        const classFile = parseClassFile(writeClassFile(WIDGET))!;
+        assert.strictEqual(classFile.thisClass, W + 'Widget');
+        assert.strictEqual(classFile.superClass, W + 'Base');
+        assert.deepStrictEqual(classFile.interfaces, ['java/io/Serializable']);
+        assert.ok(classFile.signature!.startsWith('<T::'));
+
+        const constants = classFile.fields.filter(f => f.constantValue !== undefined).map(f => [f.name, f.constantValue]);
+        assert.deepStrictEqual(constants, [['MAX', 10], ['NAME', 'w"x'], ['BIG', 5n]]);
+        assert.deepStrictEqual(classFile.innerClasses.map(i => i.simpleName), ['Part', null]);
+    });
+
+    test('reads parameter names from MethodParameters or the LocalVariableTable', () => {
+        const methods = parseClassFile(writeClassFile(WIDGET))!.methods;
+        const names = (name: string) => methods.find(m => m.name === name)!.parameterNames;
+        assert.deepStrictEqual(names('render'), ['model', 'timeout', 'flags']);
+        // Instance methods start at slot 1, and a long takes two slots
+        assert.deepStrictEqual(names('<init>'), ['label']);
+        assert.deepStrictEqual(names('sum'), ['total', 'step']);
+        assert.deepStrictEqual(methods.find(m => m.name === 'render')!.exceptions, ['java/io/IOException']);
+    });
+
+    test('rejects data that is not a class file', () => {
+        assert.strictEqual(parseClassFile(Buffer.from('PK\u0003\u0004 not a class')), null);
+    });
+
+    test('reads descriptors and generic signatures as Java types', () => {
+        const type = (sig: string) => readTypeSignature(sig, 0, identity).type;
+        assert.strictEqual(type('[[I'), 'int[][]');
+        assert.strictEqual(type('Ljava/util/Map<TK;+Ljava/lang/Number;>;'), 'java.util.Map<K, ? extends java.lang.Number>');
+        assert.strictEqual(type('Ljava/util/List<*>;'), 'java.util.List<?>');
+        assert.strictEqual(type('Lcom/a/Outer<TT;>.Inner<-TU;>;'), 'com.a.Outer<T>.Inner<? super U>');
+
+        const params = readTypeParameters('<T:Ljava/lang/Object;U::Ljava/lang/Comparable<TU;>;>()V', 0, n => n.split('/').pop()!);
+        assert.strictEqual(params.text, '<T, U extends Comparable<U>>');
+    });
+
+    test('formats constant values as Java literals', () => {
+        assert.strictEqual(formatConstantValue(1, 'Z'), 'true');
+        assert.strictEqual(formatConstantValue(65, 'C'), "'A'");
+        assert.strictEqual(formatConstantValue(39, 'C'), "'\\''");
+        assert.strictEqual(formatConstantValue(Math.fround(0.1), 'F'), '0.1f');
+        assert.strictEqual(formatConstantValue(2, 'D'), '2.0');
+        assert.strictEqual(formatConstantValue(Infinity, 'D'), null);
+    });
+
+    test('generates a stub with imports, modifiers and member classes', () => {
+        const stub = generateClassFileStub(makeJar(WIDGET, PART), W + 'Widget', 'widgets-1.0.jar')!;
+        const lines = stub.split('\n').map(l => l.trim());
+
+        assert.ok(lines[0].includes('Widget.class in widgets-1.0.jar'));
+        assert.ok(lines.includes('package com.corp.widgets;'));
+        assert.deepStrictEqual(lines.filter(l => l.startsWith('import ')), [
+            'import java.io.IOException;', 'import java.io.Serializable;', 'import java.util.List;', 'import java.util.Map;'
+        ]);
+        assert.ok(lines.includes('public class Widget<T extends Comparable<T>> extends Base implements Serializable {'));
+        assert.ok(lines.includes('public static final String NAME = "w\\"x";'));
+        assert.ok(lines.includes('public static final long BIG = 5L;'));
+        // com.other.List clashes with the imported java.util.List
+        assert.ok(lines.includes('public com.other.List other;'));
+        assert.ok(lines.includes('public Widget(String label) { }'));
+        assert.ok(lines.includes('public String render(Map<String, ? extends Object> model, long timeout, int... flags) throws IOException { }'));
+        assert.ok(lines.includes('public static <X extends Comparable<X>> Widget<X> create() { }'));
+        assert.ok(lines.includes('public static class Part {'));
+        assert.ok(lines.includes('public int size() { }'));
+    });
+
+    test('leaves out private, synthetic and bridge members', () => {
+        const stub = generateClassFileStub(makeJar(WIDGET, PART), W + 'Widget', 'widgets-1.0.jar')!;
+        assert.ok(!stub.includes('secret'));
+        assert.ok(!stub.includes('hidden'));
+        assert.ok(!stub.includes('compareTo'));
+        assert.ok(!stub.includes('Widget$1'));
+    });
+
+    test('generates enums and interfaces', () => {
+        const mode: ClassSpec = {
+            access: ACC_PUBLIC | ACC_FINAL | ACC_ENUM, name: W + 'Mode', superName: 'java/lang/Enum',
+            signature: `Ljava/lang/Enum<L${W}Mode;>;`,
+            fields: [
+                { access: ACC_PUBLIC | ACC_STATIC | ACC_FINAL | ACC_ENUM, name: 'ON', descriptor: `L${W}Mode;` },
+                { access: ACC_PUBLIC | ACC_STATIC | ACC_FINAL | ACC_ENUM, name: 'OFF', descriptor: `L${W}Mode;` },
+                { access: ACC_PRIVATE | ACC_STATIC | ACC_FINAL | ACC_SYNTHETIC, name: '$VALUES', descriptor: `[L${W}Mode;` }
+            ],
+            methods: [
+                { access: ACC_PUBLIC | ACC_STATIC, name: 'values', descriptor: `()[L${W}Mode;` },
+                { access: ACC_PUBLIC, name: 'label', descriptor: '()Ljava/lang/String;' }
+            ]
+        };
+        const shape: ClassSpec = {
+            access: ACC_PUBLIC | ACC_INTERFACE | ACC_ABSTRACT, name: W + 'Shape', superName: 'java/lang/Object',
+            methods: [
+                { access: ACC_PUBLIC | ACC_ABSTRACT, name: 'area', descriptor: '()D' },
+                { access: ACC_PUBLIC, name: 'describe', descriptor: '()Ljava/lang/String;' }
+            ]
+        };
+        const zip = makeJar(mode, shape);
+
+        const enumLines = generateClassFileStub(zip, W + 'Mode', 'w.jar')!.split('\n').map(l => l.trim());
+        assert.ok(enumLines.includes('public enum Mode {'));
+        assert.ok(enumLines.includes('ON, OFF;'));
+        assert.ok(!enumLines.some(l => l.includes('values()') || l.includes('$VALUES')));
+        assert.ok(enumLines.includes('public String label() { }'));
+
+        const interfaceLines = generateClassFileStub(zip, W + 'Shape', 'w.jar')!.split('\n').map(l => l.trim());
+        assert.ok(interfaceLines.includes('public interface Shape {'));
+        assert.ok(interfaceLines.includes('public double area();'));
+        assert.ok(interfaceLines.includes('public default String describe() { }'));
+    });
+
+    test('returns null for classes missing from the jar', () => {
+        assert.strictEqual(generateClassFileStub(makeJar(PART), W + 'Widget', 'w.jar'), null);
+    });
+});
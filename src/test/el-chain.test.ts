@@ -0,0 +1,246 @@
+/**
+ * Unit test: Validate the EL property chain resolution in server.ts:
+ *   - Chains with .property, ['property'] and [index] accessors
+ *   - The chain under the cursor inside an EL expression
+ *   - Generic Java types, element types of lists, arrays and maps
+ *   - JavaBeans property names and getter navigation
+ */
+
+import * as assert from 'assert';
+
+// ── Replicate the types / helpers from server.ts ────────────────────────────
+
+/** The part of a JSP node getElChainAt reads */
+interface JspNode {
+    contentStart: number;
+    contentEnd: number;
+}
+
+/** A Java type with its generic arguments, every name fully qualified */
+interface JavaTypeRef {
+    fqn: string;
+    args: JavaTypeRef[];
+    array: boolean;
+}
+
+interface BeanProperty {
+    name: string;
+    getter: string;
+    type: JavaTypeRef;
+    ownerFqn: string; // Class declaring the getter
+}
+
+const OBJECT_TYPE: JavaTypeRef = { fqn: 'java.lang.Object', args: [], array: false };
+
+/**
+ * Parse a Java type ("Map<String, List<Item>>", "Item[]"), resolving each name with resolveName.
+ * Wildcards resolve to their bound, or Object when unbounded.
+ */
+function parseJavaTypeRef(type: string, resolveName: (name: string) => string): JavaTypeRef {
+    let pos = 0;
+    const skipSpaces = () => { while (pos < type.length && /\s/.test(type[pos])) { pos++; } };
+
+    const parse = (): JavaTypeRef => {
+        skipSpaces();
+        const m = /^(?:\?\s*(?:extends|super)\s+)?([\w.$]+|\?)/.exec(type.substring(pos));
+        if (!m) { return OBJECT_TYPE; }
+        pos += m[0].length;
+        const ref: JavaTypeRef = { fqn: m[1] === '?' ? OBJECT_TYPE.fqn : resolveName(m[1]), args: [], array: false };
+
+        skipSpaces();
+        if (type[pos] === '<') {
+            pos++;
+            while (pos < type.length && type[pos] !== '>') {
+                const before = pos;
+                ref.args.push(parse());
+                skipSpaces();
+                if (type[pos] === ',') { pos++; }
+                if (pos === before) { break; }
+            }
+            pos++;
+        }
+
+        let dims;
+        while ((dims = /^\s*\[\s*\]/.exec(type.substring(pos))) !== null) {
+            ref.array = true;
+            pos += dims[0].length;
+        }
+        return ref;
+    };
+    return parse();
+}
+
+function formatJavaTypeRef(type: JavaTypeRef): string {
+    const args = type.args.length ? `<${type.args.map(formatJavaTypeRef).join(', ')}>` : '';
+    return type.fqn.split('.').pop() + args + (type.array ? '[]' : '');
+}
+
+function isMapType(fqn: string): boolean {
+    return /^java\.util\.(?:\w*Map|Properties|Hashtable)$/.test(fqn);
+}
+
+/** Type produced by iterating over a value, as c:forEach does */
+function getElementType(type: JavaTypeRef): JavaTypeRef | null {
+    if (type.array) { return { ...type, array: false }; }
+    if (isMapType(type.fqn)) { return { fqn: 'java.util.Map.Entry', args: type.args, array: false }; }
+    return type.args.length === 1 ? type.args[0] : null;
+}
+
+/** JavaBeans decapitalization: getName -> name, getURL -> URL */
+function toPropertyName(accessor: string): string {
+    const base = accessor.replace(/^(get|is)/, '');
+    return /^[A-Z]{2}/.test(base) ? base : base.charAt(0).toLowerCase() + base.substring(1);
+}
+
+/** A property chain: base name followed by .property and [index] accessors */
+const EL_CHAIN_PATTERN = '[A-Za-z_$][\\w$]*(?:\\s*\\.\\s*[A-Za-z_$][\\w$]*|\\s*\\[[^\\]]*\\])*';
+
+interface ElAccessor {
+    property?: string; // .name or ['name']
+    index?: string; // [expr]
+    start: number; // Offset of the property name in the chain
+}
+
+function parseElChain(expr: string): { base: string; accessors: ElAccessor[] } | null {
+    const baseMatch = /^\s*([A-Za-z_$][\w$]*)/.exec(expr);
+    if (!baseMatch) { return null; }
+
+    const accessors: ElAccessor[] = [];
+    const accessorRe = /\s*(?:\.\s*([A-Za-z_$][\w$]*)|\[\s*(?:(['"])(.*?)\2|([^\]]*?))\s*\])/y;
+    accessorRe.lastIndex = baseMatch[0].length;
+    let m;
+    while ((m = accessorRe.exec(expr)) !== null) {
+        if (m[1]) {
+            accessors.push({ property: m[1], start: m.index + m[0].lastIndexOf(m[1]) });
+        } else if (m[3] !== undefined) {
+            accessors.push({ property: m[3], start: m.index + m[0].indexOf(m[3]) });
+        } else {
+            accessors.push({ index: m[4], start: m.index });
+        }
+    }
+    return { base: baseMatch[1], accessors };
+}
+
+/** The property chain in an EL node ending at the identifier under the cursor */
+function getElChainAt(text: string, offset: number, node: JspNode): string | null {
+    let end = offset;
+    while (end < node.contentEnd && /[\w$]/.test(text[end])) { end++; }
+    const before = text.substring(node.contentStart, end);
+    const m = new RegExp(`(?:^|[^\\w$.:'"])(${EL_CHAIN_PATTERN})$`).exec(before);
+    return m ? m[1] : null;
+}
+
+/**
+ * Apply one accessor to a type. Beans resolve .name through their getter, maps
+ * through their value type, lists and arrays through their element type.
+ */
+function resolveElAccessor(type: JavaTypeRef, accessor: ElAccessor, uri: string): { type: JavaTypeRef; property?: BeanProperty } | null {
+    if (type.array || (accessor.index !== undefined && !isMapType(type.fqn))) {
+        const element = getElementType(type);
+        return element ? { type: element } : null;
+    }
+    if (isMapType(type.fqn)) {
+        return { type: type.args[1] ?? OBJECT_TYPE };
+    }
+    if (type.fqn === 'java.util.Map.Entry' && (accessor.property === 'key' || accessor.property === 'value')) {
+        return { type: type.args[accessor.property === 'key' ? 0 : 1] ?? OBJECT_TYPE };
+    }
+
+    const property = getBeanProperties(type.fqn, uri).find(p => p.name === accessor.property);
+    return property ? { type: property.type, property } : null;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const CLASSES: Record<string, string> = {
+    Order: 'com.acme.Order', Customer: 'com.acme.Customer', Item: 'com.acme.Item',
+    String: 'java.lang.String', Integer: 'java.lang.Integer',
+    List: 'java.util.List', Map: 'java.util.Map', HashMap: 'java.util.HashMap'
+};
+const resolveName = (name: string) => CLASSES[name] ?? name;
+const type = (text: string) => parseJavaTypeRef(text, resolveName);
+
+/** Bean getters of the fixture classes, standing in for the Java sources server.ts reads */
+const BEANS: Record<string, [string, string][]> = {
+    'com.acme.Order': [['getCustomer', 'Customer'], ['getItems', 'List<Item>'], ['getTotals', 'Map<String, Integer>']],
+    'com.acme.Customer': [['getName', 'String'], ['isActive', 'boolean'], ['getURL', 'String']],
+    'com.acme.Item': [['getSku', 'String']]
+};
+
+function getBeanProperties(fqn: string, _uri?: string): BeanProperty[] {
+    return (BEANS[fqn] ?? []).map(([getter, returnType]) =>
+        ({ name: toPropertyName(getter), getter, type: type(returnType), ownerFqn: fqn }));
+}
+
+/** resolveElChainType with the base variable's type given */
+function resolveChain(baseType: string, expr: string): string | null {
+    let current: JavaTypeRef | null = type(baseType);
+    for (const accessor of parseElChain(expr)!.accessors) {
+        if (!current) { return null; }
+        current = resolveElAccessor(current, accessor, '')?.type ?? null;
+    }
+    return current && formatJavaTypeRef(current);
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('EL Chain Tests', () => {
+
+    test('parses property and index accessors with their offsets', () => {
+        const expr = "order.customer['name'][0] . items";
+        const chain = parseElChain(expr)!;
+        assert.strictEqual(chain.base, 'order');
+        assert.deepStrictEqual(chain.accessors.map(a => a.property ?? `[${a.index}]`), ['customer', 'name', '[0]', 'items']);
+        assert.strictEqual(expr.substring(chain.accessors[0].start, chain.accessors[0].start + 8), 'customer');
+        assert.strictEqual(expr.substring(chain.accessors[1].start, chain.accessors[1].start + 4), 'name');
+        assert.strictEqual(expr.substring(chain.accessors[3].start, chain.accessors[3].start + 5), 'items');
+        assert.strictEqual(parseElChain('1 + x'), null);
+    });
+
+    test('finds the chain ending at the identifier under the cursor', () => {
+        const text = '${not empty order.customer.name and fn:length(x.y) > 0}';
+        const node: JspNode = { contentStart: 2, contentEnd: text.length - 1 };
+        assert.strictEqual(getElChainAt(text, text.indexOf('customer') + 2, node), 'order.customer');
+        assert.strictEqual(getElChainAt(text, text.indexOf('name'), node), 'order.customer.name');
+        assert.strictEqual(getElChainAt(text, text.indexOf('y)'), node), 'x.y');
+        // A function name is not a property chain
+        assert.strictEqual(getElChainAt(text, text.indexOf('length'), node), null);
+    });
+
+    test('parses generic types and iterates over them', () => {
+        const map = type('Map<String, List<Item>>');
+        assert.strictEqual(map.fqn, 'java.util.Map');
+        assert.strictEqual(formatJavaTypeRef(map), 'Map<String, List<Item>>');
+        assert.strictEqual(formatJavaTypeRef(getElementType(map)!), 'Entry<String, List<Item>>');
+        assert.strictEqual(formatJavaTypeRef(getElementType(type('List<? extends Item>'))!), 'Item');
+        assert.strictEqual(formatJavaTypeRef(getElementType(type('Item []'))!), 'Item');
+        assert.strictEqual(getElementType(type('Customer')), null);
+    });
+
+    test('derives JavaBeans property names from getters', () => {
+        assert.strictEqual(toPropertyName('getName'), 'name');
+        assert.strictEqual(toPropertyName('isActive'), 'active');
+        assert.strictEqual(toPropertyName('getURL'), 'URL');
+    });
+
+    test('navigates bean getters, lists, arrays and maps', () => {
+        assert.strictEqual(resolveChain('Order', 'order.customer.name'), 'String');
+        assert.strictEqual(resolveChain('Order', "order['customer'].active"), 'boolean');
+        assert.strictEqual(resolveChain('Order', 'order.items[0].sku'), 'String');
+        assert.strictEqual(resolveChain('Item[]', 'items[i]'), 'Item');
+        assert.strictEqual(resolveChain('Order', 'order.totals.anything'), 'Integer');
+        assert.strictEqual(resolveChain('HashMap<String, Item>', 'm["k"].sku'), 'String');
+    });
+
+    test('map entries expose key and value', () => {
+        const entry = getElementType(type('Map<String, Order>'))!;
+        assert.strictEqual(formatJavaTypeRef(resolveElAccessor(entry, { property: 'key', start: 0 }, '')!.type), 'String');
+        assert.strictEqual(formatJavaTypeRef(resolveElAccessor(entry, { property: 'value', start: 0 }, '')!.type), 'Order');
+    });
+
+    test('unknown properties end the chain', () => {
+        assert.strictEqual(resolveChain('Order', 'order.customer.missing'), null);
+        assert.strictEqual(resolveChain('Order', 'order.missing.name'), null);
+        assert.strictEqual(resolveChain('Customer', 'c.name[0]'), null);
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit test: Validate the class index and the import completion in server.ts:
+ *   - Class names indexed from source and jar entry paths
+ *   - Workspace classes ordered before Maven and JDK classes
+ *   - Package segments and classes offered while typing an import
+ */
+
+import * as assert from 'assert';
+import { CompletionItem, CompletionItemKind, CompletionList } from 'vscode-languageserver/node';
+
+// ── Replicate the types / helpers from server.ts ────────────────────────────
+
+/** The part of the page model getImportCompletions reads */
+interface DocumentCache {
+    imports: Map<string, string>; // simpleName -> fullyQualifiedName
+}
+
+// Java class index: simple class name -> classes with that name in workspace sources, Maven jars and the JDK
+let javaClassIndex: Map<string, JavaClassEntry[]> | null = null;
+
+/** A class known to the class index */
+interface JavaClassEntry {
+    fqn: string;
+    origin: 'workspace' | 'maven' | 'jdk';
+}
+
+/** JDK packages that are not public API and only clutter lookups and completion */
+const JDK_HIDDEN_PACKAGE_RE = /^(?:sun|com\.sun|jdk)\.|\.internal(?:\.|$)/;
+
+const CLASS_ORIGIN_ORDER: JavaClassEntry['origin'][] = ['workspace', 'maven', 'jdk'];
+
+/** "com/acme/Foo.java" -> "com.acme.Foo"; null for nested, package-info and module-info classes */
+function toIndexedClassName(relativePath: string): string | null {
+    const m = /^((?:[\w$]+\/)*)([A-Za-z_][\w]*)\.(?:java|class)$/.exec(relativePath);
+    if (!m || m[2] === 'package-info' || m[2] === 'module-info') { return null; }
+    return m[1].replace(/\//g, '.') + m[2];
+}
+
+function addClassEntry(index: Map<string, JavaClassEntry[]>, fqn: string, origin: JavaClassEntry['origin']): void {
+    const simpleName = fqn.split('.').pop()!;
+    const entries = index.get(simpleName) ?? [];
+    if (entries.some(e => e.fqn === fqn)) { return; }
+    entries.push({ fqn, origin });
+    entries.sort((a, b) => CLASS_ORIGIN_ORDER.indexOf(a.origin) - CLASS_ORIGIN_ORDER.indexOf(b.origin) || a.fqn.localeCompare(b.fqn));
+    index.set(simpleName, entries);
+}
+
+/** The class index, or null while it is still being built */
+function getJavaClassIndex(): Map<string, JavaClassEntry[]> | null {
+    return javaClassIndex;
+}
+
+/** Classes with a given simple name, workspace classes first */
+function findClassesBySimpleName(simpleName: string): JavaClassEntry[] {
+    return getJavaClassIndex()?.get(simpleName) ?? [];
+}
+
+/**
+ * Completions for the import being typed in a page directive: the next package
+ * segment, and the classes of the package typed so far. Incomplete until the
+ * class index is built, so the client asks again.
+ */
+function getImportCompletions(valueBeforeCursor: string, cache: DocumentCache): CompletionList {
+    const typed = valueBeforeCursor.substring(valueBeforeCursor.lastIndexOf(',') + 1).trimStart();
+    const index = getJavaClassIndex();
+    if (!/^[\w$.]*$/.test(typed) || !index) { return { isIncomplete: !index, items: [] }; }
+
+    const lastDot = typed.lastIndexOf('.');
+    const pkgPrefix = typed.substring(0, lastDot + 1); // "com.acme." or "" at the first segment
+    const subpackages = new Set<string>();
+    const items: CompletionItem[] = [];
+
+    for (const entries of index.values()) {
+        for (const entry of entries) {
+            if (!entry.fqn.startsWith(pkgPrefix)) { continue; }
+            const rest = entry.fqn.substring(pkgPrefix.length);
+            const dot = rest.indexOf('.');
+            if (dot >= 0) {
+                subpackages.add(rest.substring(0, dot));
+            } else if (pkgPrefix && cache.imports.get(rest) !== entry.fqn) {
+                items.push({
+                    label: rest,
+                    kind: CompletionItemKind.Class,
+                    detail: entry.fqn,
+                    sortText: '1' + rest
+                });
+            }
+        }
+    }
+
+    for (const segment of subpackages) {
+        items.push({ label: segment, kind: CompletionItemKind.Module, detail: `package ${pkgPrefix}${segment}`, sortText: '0' + segment });
+    }
+    if (items.some(item => item.kind === CompletionItemKind.Class)) {
+        items.push({ label: '*', kind: CompletionItemKind.Keyword, detail: `All classes of ${pkgPrefix.slice(0, -1)}`, sortText: '2' });
+    }
+    return { isIncomplete: false, items };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Index entry paths the way buildJavaClassIndex does */
+function buildIndex(entries: [string, JavaClassEntry['origin']][]): Map<string, JavaClassEntry[]> {
+    const index = new Map<string, JavaClassEntry[]>();
+    for (const [relativePath, origin] of entries) {
+        const fqn = toIndexedClassName(relativePath);
+        if (fqn && !(origin === 'jdk' && JDK_HIDDEN_PACKAGE_RE.test(fqn))) { addClassEntry(index, fqn, origin); }
+    }
+    return index;
+}
+
+const INDEX_ENTRIES: [string, JavaClassEntry['origin']][] = [
+    ['java/util/List.java', 'jdk'],
+    ['java/util/Map.java', 'jdk'],
+    ['java/util/concurrent/Future.java', 'jdk'],
+    ['sun/misc/Unsafe.java', 'jdk'],
+    ['java/util/internal/Helper.java', 'jdk'],
+    ['com/acme/model/Cart.java', 'workspace'],
+    ['com/acme/model/Order.java', 'workspace'],
+    ['com/acme/model/Order$Line.class', 'maven'],
+    ['com/acme/model/package-info.java', 'workspace'],
+    ['com/acme/util/List.class', 'maven'],
+    ['org/lib/Order.class', 'maven']
+];
+
+function complete(valueBeforeCursor: string, imports: [string, string][] = []): CompletionList {
+    return getImportCompletions(valueBeforeCursor, { imports: new Map(imports) });
+}
+
+const labels = (list: CompletionList, kind: CompletionItemKind) =>
+    list.items.filter(i => i.kind === kind).map(i => i.label).sort();
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Import Completion Tests', () => {
+
+    setup(() => {
+        javaClassIndex = buildIndex(INDEX_ENTRIES);
+    });
+
+    test('indexes top-level classes by simple name', () => {
+        assert.strictEqual(toIndexedClassName('com/acme/Foo.java'), 'com.acme.Foo');
+        assert.strictEqual(toIndexedClassName('Foo.class'), 'Foo');
+        assert.strictEqual(toIndexedClassName('com/acme/Foo$Bar.class'), null);
+        assert.strictEqual(toIndexedClassName('module-info.class'), null);
+        assert.strictEqual(toIndexedClassName('META-INF/MANIFEST.MF'), null);
+
+        assert.ok(!javaClassIndex!.has('Unsafe'));
+        assert.ok(!javaClassIndex!.has('Helper'));
+        assert.ok(!javaClassIndex!.has('package-info'));
+    });
+
+    test('orders workspace classes before Maven and JDK classes', () => {
+        assert.deepStrictEqual(findClassesBySimpleName('List').map(e => e.fqn), ['com.acme.util.List', 'java.util.List']);
+        assert.deepStrictEqual(findClassesBySimpleName('Order').map(e => e.fqn), ['com.acme.model.Order', 'org.lib.Order']);
+        assert.deepStrictEqual(findClassesBySimpleName('Missing'), []);
+    });
+
+    test('offers top-level packages at the first segment', () => {
+        const list = complete('');
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Module), ['com', 'java', 'org']);
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Class), []);
+    });
+
+    test('offers subpackages and classes of the package typed so far', () => {
+        const list = complete('java.util.L');
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Module), ['concurrent']);
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Class), ['List', 'Map']);
+        assert.ok(list.items.some(i => i.label === '*'));
+        assert.strictEqual(list.items.find(i => i.label === 'List')!.detail, 'java.util.List');
+    });
+
+    test('completes the entry after the last comma', () => {
+        const list = complete('java.util.List, com.acme.');
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Module), ['model', 'util']);
+    });
+
+    test('skips classes the page already imports', () => {
+        const list = complete('com.acme.model.', [['Cart', 'com.acme.model.Cart']]);
+        assert.deepStrictEqual(labels(list, CompletionItemKind.Class), ['Order']);
+    });
+
+    test('offers nothing for malformed input and waits for the index', () => {
+        assert.deepStrictEqual(complete('java.util.List<').items, []);
+
+        javaClassIndex = null;
+        const pending = complete('java.');
+        assert.ok(pending.isIncomplete);
+        assert.deepStrictEqual(pending.items, []);
+    });
+});
@@ -0,0 +1,697 @@
+/**
+ * Unit test: Validate the page directive import edits in server.ts:
+ *   - Adding an import to the last import list, or as a new page directive
+ *   - Organize Imports: unused imports removed, the rest sorted into one attribute
+ *   - Removing only the dropped import attributes of a directive
+ *   - Imports used by the fragments of the translation unit kept
+ */
+
+import * as assert from 'assert';
+import { Range, TextEdit } from 'vscode-languageserver/node';
+import { TextDocument as TextDocumentContent } from 'vscode-languageserver-textdocument';
+
+// ── Replicate the types / helpers from server.ts ────────────────────────────
+
+interface ImportEntry {
+    fqn: string; // "com.example.MyClass" or "com.example.*"
+    start: number;
+    end: number;
+    fromDirective: boolean; // <%@ page import %> rather than a Java import statement
+}
+
+interface DocumentCache {
+    version: number;
+    nodes: JspNode[];
+    variables: VariableDeclaration[];
+    imports: Map<string, string>; // simpleName -> fullyQualifiedName
+    importEntries: ImportEntry[];
+}
+
+interface VariableDeclaration {
+    name: string;
+    type: string;
+    offset: number; // position of the variable name in the document
+}
+
+type JspNodeKind = 'directive' | 'scriptlet' | 'expression' | 'declaration' | 'comment'
+    | 'action' | 'customTag' | 'el' | 'template';
+
+interface JspAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number; // first character inside the quotes
+    valueEnd: number;
+}
+
+interface JspNode {
+    kind: JspNodeKind;
+    start: number;
+    end: number;
+    contentStart: number; // Java code, EL body, comment text or tag/directive body
+    contentEnd: number;
+    closed: boolean; // false when the terminating delimiter is missing
+    name?: string; // directive name ("page") or tag name ("jsp:include", "c:forEach")
+    attributes?: JspAttribute[];
+    isEndTag?: boolean;
+    selfClosing?: boolean;
+    deferred?: boolean; // "#{...}" EL
+    children?: JspNode[]; // expressions and EL embedded in attribute values
+}
+
+/** Directive, standard action or custom tag prefix (e.g. "<jsp:include", "</c:forEach") */
+const JSP_TAG_START_RE = /<(\/?)([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)(?=[\s/>]|$)/y;
+const ATTRIBUTE_NAME_RE = /[A-Za-z_:][\w:.-]*/y;
+
+/**
+ * Split a page into its JSP constructs. Every offset is absolute in the document text.
+ * Template HTML is kept as 'template' nodes so the list covers the whole page.
+ */
+function tokenizeJsp(text: string): JspNode[] {
+    const nodes: JspNode[] = [];
+    let templateStart = 0;
+    let i = 0;
+
+    const flushTemplate = (upTo: number) => {
+        if (upTo > templateStart) {
+            nodes.push({ kind: 'template', start: templateStart, end: upTo, contentStart: templateStart, contentEnd: upTo, closed: true });
+        }
+    };
+
+    while (i < text.length) {
+        let node: JspNode | null = null;
+        const ch = text[i];
+
+        if (ch === '<') {
+            if (text.startsWith('<%', i)) {
+                node = scanScriptingElement(text, i);
+            } else {
+                node = scanJspTag(text, i);
+            }
+        } else if (isElStart(text, i)) {
+            node = scanEl(text, i);
+        }
+
+        if (node) {
+            flushTemplate(i);
+            nodes.push(node);
+            i = node.end;
+            templateStart = i;
+        } else {
+            i++;
+        }
+    }
+    flushTemplate(text.length);
+
+    return nodes;
+}
+
+function isElStart(text: string, i: number): boolean {
+    return (text[i] === '$' || text[i] === '#') && text[i + 1] === '{' && text[i - 1] !== '\\';
+}
+
+/**
+ * Scan a JSP comment, directive, scriptlet, expression or declaration starting at "<%".
+ */
+function scanScriptingElement(text: string, start: number): JspNode {
+    if (text.startsWith('<%--', start)) {
+        const close = text.indexOf('--%>', start + 4);
+        const closed = close !== -1;
+        return {
+            kind: 'comment', start, end: closed ? close + 4 : text.length,
+            contentStart: start + 4, contentEnd: closed ? close : text.length, closed
+        };
+    }
+
+    if (text[start + 2] === '@') {
+        let nameStart = start + 3;
+        while (nameStart < text.length && /\s/.test(text[nameStart])) { nameStart++; }
+        let nameEnd = nameStart;
+        while (nameEnd < text.length && /[\w.]/.test(text[nameEnd])) { nameEnd++; }
+
+        const scan = scanAttributes(text, nameEnd, true);
+        return {
+            kind: 'directive', start, end: scan.end,
+            contentStart: start + 3, contentEnd: scan.closed ? scan.end - 2 : scan.end, closed: scan.closed,
+            name: text.substring(nameStart, nameEnd), attributes: scan.attributes, children: scan.children
+        };
+    }
+
+    const marker = text[start + 2];
+    const kind: JspNodeKind = marker === '!' ? 'declaration' : marker === '=' ? 'expression' : 'scriptlet';
+    const contentStart = start + (kind === 'scriptlet' ? 2 : 3);
+    const close = findJavaCodeEnd(text, contentStart);
+    const closed = close !== -1;
+
+    return {
+        kind, start, end: closed ? close + 2 : text.length,
+        contentStart, contentEnd: closed ? close : text.length, closed
+    };
+}
+
+/**
+ * Find the "%>" that terminates a Java code block, skipping string and char literals.
+ * Returns -1 when the block is never closed.
+ */
+function findJavaCodeEnd(text: string, from: number): number {
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            // Literals cannot span lines, which keeps a stray quote from eating the page
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '%' && text[i + 1] === '>') { return i; }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Scan an EL expression "${...}" or "#{...}", honouring nested braces and EL string literals.
+ * An unterminated expression only extends to the end of its line.
+ */
+function scanEl(text: string, start: number): JspNode {
+    let depth = 0;
+    let i = start + 2;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            if (depth === 0) {
+                return {
+                    kind: 'el', start, end: i + 1, contentStart: start + 2, contentEnd: i,
+                    closed: true, deferred: text[start] === '#'
+                };
+            }
+            depth--;
+        }
+        i++;
+    }
+
+    const lineEnd = text.indexOf('\n', start);
+    const end = lineEnd === -1 ? text.length : lineEnd;
+    return { kind: 'el', start, end, contentStart: start + 2, contentEnd: end, closed: false, deferred: text[start] === '#' };
+}
+
+/**
+ * Scan a standard action ("jsp:*") or custom tag ("prefix:name") start or end tag.
+ * Returns null when the "<" does not open a prefixed tag (plain HTML stays template text).
+ */
+function scanJspTag(text: string, start: number): JspNode | null {
+    JSP_TAG_START_RE.lastIndex = start;
+    const m = JSP_TAG_START_RE.exec(text);
+    if (!m) { return null; }
+
+    const contentStart = start + m[0].length;
+    const scan = scanAttributes(text, contentStart, false);
+    const contentEnd = scan.closed ? scan.end - (scan.selfClosing ? 2 : 1) : scan.end;
+
+    return {
+        kind: m[2] === 'jsp' ? 'action' : 'customTag',
+        start, end: scan.end, contentStart, contentEnd, closed: scan.closed,
+        name: `${m[2]}:${m[3]}`, attributes: scan.attributes, children: scan.children,
+        isEndTag: m[1] === '/', selfClosing: scan.selfClosing
+    };
+}
+
+interface AttributeScan {
+    attributes: JspAttribute[];
+    /** Expressions and EL embedded in attribute values */
+    children: JspNode[];
+    /** Offset just past the terminator, or where scanning gave up */
+    end: number;
+    closed: boolean;
+    selfClosing: boolean;
+}
+
+/**
+ * Scan name="value" pairs up to "%>" (directives) or ">" / "/>" (tags).
+ * A "<" outside a quoted value means the element was never terminated.
+ */
+function scanAttributes(text: string, from: number, directive: boolean): AttributeScan {
+    const attributes: JspAttribute[] = [];
+    const children: JspNode[] = [];
+    const result = (end: number, closed: boolean, selfClosing: boolean = false): AttributeScan =>
+        ({ attributes, children, end, closed, selfClosing });
+
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (directive && text.startsWith('%>', i)) { return result(i + 2, true); }
+        if (!directive && ch === '>') { return result(i + 1, true); }
+        if (!directive && text.startsWith('/>', i)) { return result(i + 2, true, true); }
+        if (ch === '<') { return result(i, false); }
+
+        ATTRIBUTE_NAME_RE.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME_RE.exec(text);
+        if (!nameMatch) { i++; continue; }
+
+        const attr: JspAttribute = {
+            name: nameMatch[0], value: '', nameStart: i,
+            valueStart: i + nameMatch[0].length, valueEnd: i + nameMatch[0].length
+        };
+        attributes.push(attr);
+        i += nameMatch[0].length;
+
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+        if (text[j] !== '=') { continue; }
+        j++;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+
+        const quote = text[j];
+        if (quote === '"' || quote === "'") {
+            let k = j + 1;
+            while (k < text.length && text[k] !== quote) {
+                if (text.startsWith('<%', k)) {
+                    const child = scanScriptingElement(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else if (isElStart(text, k)) {
+                    const child = scanEl(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else {
+                    k++;
+                }
+            }
+            attr.valueStart = j + 1;
+            attr.valueEnd = Math.min(k, text.length);
+            attr.value = text.substring(attr.valueStart, attr.valueEnd);
+            if (k >= text.length) { return result(text.length, false); }
+            i = k + 1;
+        } else {
+            let k = j;
+            while (k < text.length && !/[\s>]/.test(text[k]) && !text.startsWith('%>', k)) { k++; }
+            attr.valueStart = j;
+            attr.valueEnd = k;
+            attr.value = text.substring(j, k);
+            i = k;
+        }
+    }
+
+    return result(text.length, false);
+}
+
+function isJavaNode(node: JspNode | undefined): boolean {
+    return !!node && (node.kind === 'scriptlet' || node.kind === 'expression' || node.kind === 'declaration');
+}
+
+function nodeContains(node: JspNode, offset: number): boolean {
+    // Unterminated nodes also own the position right after their last character
+    return offset >= node.start && (offset < node.end || (!node.closed && offset === node.end));
+}
+
+/** Find the top-level node at an offset */
+function findTopLevelNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    let lo = 0;
+    let hi = nodes.length - 1;
+    let candidate = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (nodes[mid].start <= offset) {
+            candidate = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    if (candidate === -1) { return undefined; }
+
+    const node = nodes[candidate];
+    return nodeContains(node, offset) ? node : undefined;
+}
+
+/**
+ * Find the innermost node at an offset, descending into expressions and EL
+ * embedded in tag attribute values.
+ */
+function findNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    const node = findTopLevelNodeAt(nodes, offset);
+    if (!node) { return undefined; }
+
+    const child = node.children?.find(c => nodeContains(c, offset));
+    return child ?? node;
+}
+
+/** Java code blocks, including <%= %> expressions embedded in tag attributes */
+function getJavaNodes(nodes: JspNode[]): JspNode[] {
+    const result: JspNode[] = [];
+    for (const node of nodes) {
+        if (isJavaNode(node)) {
+            result.push(node);
+        } else if (node.children) {
+            result.push(...node.children.filter(isJavaNode));
+        }
+    }
+    return result;
+}
+
+function getAttribute(node: JspNode, name: string): JspAttribute | undefined {
+    return node.attributes?.find(a => a.name === name);
+}
+
+/** Replace matches with spaces so offsets into the original text stay valid */
+function blankOut(text: string, re: RegExp): string {
+    return text.replace(re, m => m.replace(/[^\n]/g, ' '));
+}
+
+/** String/char literals and comments, blanked out before scanning Java code */
+const JAVA_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+const JAVA_NON_TYPE_KEYWORDS = new Set([
+    'return', 'new', 'throw', 'throws', 'else', 'case', 'if', 'while', 'for', 'switch', 'catch', 'synchronized',
+    'instanceof', 'import', 'package', 'extends', 'implements', 'do', 'try', 'finally', 'default', 'assert', 'yield'
+]);
+
+function parseVariableDeclarations(text: string, nodes: JspNode[]): VariableDeclaration[] {
+    const declarations: VariableDeclaration[] = [];
+
+    for (const node of getJavaNodes(nodes)) {
+        const content = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+
+        // Type var = ..., Type var;, for (Type var : ...), catch (Type var), method parameters
+        const declRe = /(?<![\w$.])((?:[A-Za-z_$][\w$]*\s*\.\s*)*[A-Za-z_$][\w$]*(?:\s*<[^;=(){}]*?>)?(?:\s*\[\s*\])*)\s+([a-z_$][\w$]*)\s*(?=[=;,:)])/g;
+        let m;
+        while ((m = declRe.exec(content)) !== null) {
+            const type = m[1].replace(/\s+/g, ' ').replace(/\s*([.<>[\],])\s*/g, '$1').replace(/,/g, ', ');
+            const firstWord = type.split(/[.<[]/)[0];
+            if (JAVA_NON_TYPE_KEYWORDS.has(firstWord) || JAVA_NON_TYPE_KEYWORDS.has(m[2])) { continue; }
+            const offset = node.contentStart + m.index + m[0].lastIndexOf(m[2]);
+            declarations.push({ name: m[2], type, offset });
+        }
+    }
+
+    // <jsp:useBean id="cart" class="com.acme.Cart"/>: type= wins over class=, beanName= names a class too
+    for (const node of nodes) {
+        if (node.kind !== 'action' || node.name !== 'jsp:useBean') { continue; }
+        const id = getAttribute(node, 'id');
+        const type = getAttribute(node, 'type') ?? getAttribute(node, 'class') ?? getAttribute(node, 'beanName');
+        if (id?.value && type?.value && !/[$#]\{|<%/.test(type.value)) {
+            declarations.push({ name: id.value, type: type.value.trim(), offset: id.valueStart });
+        }
+    }
+    declarations.sort((a, b) => a.offset - b.offset);
+
+    return declarations;
+}
+
+/** Page directives, including the XML form <jsp:directive.page .../> used in .jspx */
+function isPageDirective(node: JspNode): boolean {
+    return (node.kind === 'directive' && node.name === 'page')
+        || (node.kind === 'action' && node.name === 'jsp:directive.page');
+}
+
+function parseImports(text: string, nodes: JspNode[]): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+
+    // JSP import directives: <%@page import="com.A,com.B" %>
+    for (const node of nodes) {
+        if (!isPageDirective(node)) { continue; }
+        for (const attr of node.attributes ?? []) {
+            if (attr.name !== 'import') { continue; }
+            let entryStart = attr.valueStart;
+            for (const part of attr.value.split(',')) {
+                const leading = part.length - part.trimStart().length;
+                const trimmed = part.trim();
+                const fqn = trimmed.replace(/\s+/g, '');
+                if (fqn) {
+                    const start = entryStart + leading;
+                    entries.push({ fqn, start, end: start + trimmed.length, fromDirective: true });
+                }
+                entryStart += part.length + 1;
+            }
+        }
+    }
+
+    // Java-style imports inside scriptlets: import com.example.MyClass;
+    for (const node of getJavaNodes(nodes)) {
+        const code = text.substring(node.contentStart, node.contentEnd);
+        const javaImportRe = /\bimport\s+([\w.]+(?:\.\*)?)\s*;/g;
+        let m;
+        while ((m = javaImportRe.exec(code)) !== null) {
+            const start = node.contentStart + m.index + m[0].indexOf(m[1]);
+            entries.push({ fqn: m[1], start, end: start + m[1].length, fromDirective: false });
+        }
+    }
+
+    return entries;
+}
+
+/** Parse a document without caching it, e.g. a page read from disk for an index */
+function buildDocCache(doc: TextDocumentContent): DocumentCache {
+    const text = doc.getText();
+    const nodes = tokenizeJsp(text);
+    const variables = parseVariableDeclarations(text, nodes);
+    const importEntries = parseImports(text, nodes);
+    const imports = new Map<string, string>();
+    for (const entry of importEntries) {
+        const simpleName = entry.fqn.split('.').pop()!;
+        if (simpleName !== '*') {
+            imports.set(simpleName, entry.fqn);
+        }
+    }
+
+    return { version: doc.version, nodes, variables, imports, importEntries };
+}
+
+/**
+ * Capitalized simple names in scripting elements that are not member accesses:
+ * the class names the page's imports have to provide. Import statements are skipped.
+ */
+function findTypeNameReferences(text: string, cache: DocumentCache): { name: string; start: number }[] {
+    const references: { name: string; start: number }[] = [];
+    for (const node of getJavaNodes(cache.nodes)) {
+        const code = blankOut(blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE), /\bimport\s+[\w.*\s]+;/g);
+        const simpleRe = /(?<![\w$.])([A-Z]\w*)\b/g;
+        let m;
+        while ((m = simpleRe.exec(code)) !== null) {
+            references.push({ name: m[1], start: node.contentStart + m.index });
+        }
+    }
+    return references;
+}
+
+/** Simple type names a page refers to: in scripting elements and in jsp:useBean classes */
+function collectUsedTypeNames(text: string, cache: DocumentCache): Set<string> {
+    const used = new Set(findTypeNameReferences(text, cache).map(r => r.name));
+    for (const node of cache.nodes) {
+        if (node.kind !== 'action' || node.name !== 'jsp:useBean') { continue; }
+        for (const name of ['class', 'type', 'beanName']) {
+            const value = getAttribute(node, name)?.value.trim();
+            if (value) { used.add(value.split(/[.<]/)[0]); }
+        }
+    }
+    return used;
+}
+
+/** import="..." attributes of the page directives, in document order */
+function getPageImportAttributes(cache: DocumentCache): { node: JspNode; attr: JspAttribute }[] {
+    const result: { node: JspNode; attr: JspAttribute }[] = [];
+    for (const node of cache.nodes) {
+        if (!isPageDirective(node)) { continue; }
+        for (const attr of node.attributes ?? []) {
+            if (attr.name === 'import') { result.push({ node, attr }); }
+        }
+    }
+    return result;
+}
+
+/** Separator the page already uses between imports, ", " when there is nothing to copy */
+function getImportSeparator(cache: DocumentCache): string {
+    for (const { attr } of getPageImportAttributes(cache)) {
+        const m = /,\s*/.exec(attr.value);
+        if (m) { return m[0]; }
+    }
+    return ', ';
+}
+
+/**
+ * Edit adding an import: appended to the last import="..." list of the page,
+ * or as a new page directive after the last directive (at the top when there is none).
+ */
+function getAddImportEdit(doc: TextDocumentContent, cache: DocumentCache, fqn: string): TextEdit {
+    const importAttrs = getPageImportAttributes(cache);
+    const last = importAttrs[importAttrs.length - 1];
+    if (last) {
+        const value = last.attr.value.trimEnd();
+        const insertAt = last.attr.valueStart + value.length;
+        const text = value.trim() ? getImportSeparator(cache) + fqn : fqn;
+        return TextEdit.insert(doc.positionAt(insertAt), text);
+    }
+
+    const directive = `<%@ page import="${fqn}" %>`;
+    const lastDirective = cache.nodes.filter(n => n.kind === 'directive' && n.closed).pop();
+    if (lastDirective) {
+        return TextEdit.insert(doc.positionAt(lastDirective.end), '\n' + directive);
+    }
+    return TextEdit.insert(doc.positionAt(0), directive + '\n');
+}
+
+/**
+ * Ranges removing import attributes: a directive loses only those attributes, or goes
+ * entirely when it has no other attribute than the removed imports.
+ */
+function getImportAttributeRemovalRanges(doc: TextDocumentContent, removed: { node: JspNode; attr: JspAttribute }[]): Range[] {
+    const text = doc.getText();
+    const ranges: Range[] = [];
+    for (const node of new Set(removed.map(r => r.node))) {
+        const attrs = removed.filter(r => r.node === node).map(r => r.attr);
+        if ((node.attributes ?? []).every(a => attrs.includes(a))) {
+            let end = node.end;
+            const lineBreak = /^[ \t]*\r?\n/.exec(text.substring(end));
+            if (lineBreak && /(?:^|\n)[ \t]*$/.test(text.substring(0, node.start))) { end += lineBreak[0].length; }
+            ranges.push(Range.create(doc.positionAt(node.start), doc.positionAt(end)));
+            continue;
+        }
+
+        for (const attr of attrs) {
+            let start = attr.nameStart;
+            while (start > 0 && /\s/.test(text[start - 1])) { start--; }
+            ranges.push(Range.create(doc.positionAt(start), doc.positionAt(attr.valueEnd + 1)));
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Edits organizing the page directive imports: single-type imports that no file of
+ * the translation unit uses removed, the rest deduplicated, sorted and merged into the
+ * first import attribute. Wildcard imports are kept since their use cannot be told
+ * apart reliably.
+ */
+function getOrganizeImportsEdits(doc: TextDocumentContent, cache: DocumentCache, unitPages: TextDocumentContent[] = []): TextEdit[] {
+    const importAttrs = getPageImportAttributes(cache);
+    if (importAttrs.length === 0) { return []; }
+
+    // Fragments translated with the page use its imports too (given here instead of read through the include graph)
+    const used = collectUsedTypeNames(doc.getText(), cache);
+    for (const page of unitPages) {
+        collectUsedTypeNames(page.getText(), buildDocCache(page)).forEach(name => used.add(name));
+    }
+
+    const directiveImports = cache.importEntries.filter(e => e.fromDirective).map(e => e.fqn);
+    const kept = [...new Set(directiveImports)]
+        .filter(fqn => fqn.endsWith('.*') || used.has(fqn.split('.').pop()!))
+        .sort();
+    if (importAttrs.length === 1 && kept.join() === directiveImports.join()) { return []; }
+
+    const edits: TextEdit[] = [];
+    const [first, ...rest] = importAttrs;
+    if (kept.length > 0) {
+        edits.push(TextEdit.replace(
+            Range.create(doc.positionAt(first.attr.valueStart), doc.positionAt(first.attr.valueEnd)),
+            kept.join(getImportSeparator(cache))));
+    }
+    for (const range of getImportAttributeRemovalRanges(doc, kept.length > 0 ? rest : importAttrs)) {
+        edits.push(TextEdit.del(range));
+    }
+    return edits;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function page(text: string): TextDocumentContent {
+    return TextDocumentContent.create('file:///app/page.jsp', 'jsp', 1, text);
+}
+
+function addImport(text: string, fqn: string): string {
+    const doc = page(text);
+    return TextDocumentContent.applyEdits(doc, [getAddImportEdit(doc, buildDocCache(doc), fqn)]);
+}
+
+function organizeImports(text: string, fragments: string[] = []): string {
+    const doc = page(text);
+    const unitPages = fragments.map((f, i) => TextDocumentContent.create(`file:///app/f${i}.jspf`, 'jsp', 1, f));
+    return TextDocumentContent.applyEdits(doc, getOrganizeImportsEdits(doc, buildDocCache(doc), unitPages));
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Import Edit Tests', () => {
+
+    test('adds to the last import list with the separator the page uses', () => {
+        const text = '<%@ page import="java.util.List" %>\n<%@ page import="com.a.B,com.a.C" %>\n<p/>';
+        assert.strictEqual(addImport(text, 'java.util.Map'),
+            '<%@ page import="java.util.List" %>\n<%@ page import="com.a.B,com.a.C,java.util.Map" %>\n<p/>');
+        assert.strictEqual(addImport('<%@ page import="" %>', 'java.util.Map'), '<%@ page import="java.util.Map" %>');
+    });
+
+    test('adds a page directive after the last directive, or at the top', () => {
+        assert.strictEqual(addImport('<%@ page contentType="text/html" %>\n<p/>', 'java.util.Map'),
+            '<%@ page contentType="text/html" %>\n<%@ page import="java.util.Map" %>\n<p/>');
+        assert.strictEqual(addImport('<p/>', 'java.util.Map'), '<%@ page import="java.util.Map" %>\n<p/>');
+    });
+
+    test('removes unused imports and sorts the rest into the first attribute', () => {
+        const text = [
+            '<%@ page import="java.util.Map, java.util.List" %>',
+            '<%@ page import="java.io.File, java.util.*" %>',
+            '<jsp:useBean id="cart" class="com.acme.Cart"/>',
+            '<% List<String> names = null; // Map',
+            '   String s = "File"; %>'
+        ].join('\n');
+        assert.strictEqual(organizeImports(text), [
+            '<%@ page import="java.util.*, java.util.List" %>',
+            '<jsp:useBean id="cart" class="com.acme.Cart"/>',
+            '<% List<String> names = null; // Map',
+            '   String s = "File"; %>'
+        ].join('\n'));
+    });
+
+    test('leaves organized imports alone', () => {
+        const text = '<%@ page import="java.util.List, java.util.Map" %><% List l; Map m; %>';
+        const doc = page(text);
+        assert.deepStrictEqual(getOrganizeImportsEdits(doc, buildDocCache(doc)), []);
+    });
+
+    test('removes only the dropped import attributes of a directive', () => {
+        const text = '<%@ page import="java.util.List" contentType="text/html" import="java.io.File" %><% List l; %>';
+        assert.strictEqual(organizeImports(text), '<%@ page import="java.util.List" contentType="text/html" %><% List l; %>');
+
+        const unused = '<%@ page import="java.util.Map" import="java.io.File" %>\n<p/>';
+        assert.strictEqual(organizeImports(unused), '<p/>');
+    });
+
+    test('keeps imports used by the fragments of the translation unit', () => {
+        const text = '<%@ page import="java.util.List, java.io.File" %>\n<%@ include file="f0.jspf" %>';
+        assert.strictEqual(organizeImports(text, ['<% File f = null; %>']),
+            '<%@ page import="java.io.File" %>\n<%@ include file="f0.jspf" %>');
+    });
+
+    test('reports the offsets of each directive import entry', () => {
+        const text = '<%@ page import=" java.util.List ,java.io.File" %><% import com.acme.Cart; %>';
+        const entries = buildDocCache(page(text)).importEntries;
+        assert.deepStrictEqual(entries.map(e => [e.fqn, text.substring(e.start, e.end), e.fromDirective]), [
+            ['java.util.List', 'java.util.List', true],
+            ['java.io.File', 'java.io.File', true],
+            ['com.acme.Cart', 'com.acme.Cart', false]
+        ]);
+    });
+
+    test('removal ranges cover a whole directive line', () => {
+        const text = '<p/>\n<%@ page import="java.io.File" %>\n<p/>';
+        const doc = page(text);
+        const ranges = getImportAttributeRemovalRanges(doc, getPageImportAttributes(buildDocCache(doc)));
+        assert.deepStrictEqual(ranges, [Range.create(1, 0, 2, 0)]);
+    });
+});
@@ -0,0 +1,898 @@
+/**
+ * Unit test: Validate member completion and signature help for Java code in server.ts:
+ *   - The receiver before the dot, across whitespace and chained names
+ *   - Instance members for variables, static members for class names
+ *   - Supertype members after the type's own, overrides and shadowed fields once
+ *   - Private members left out, overloads listed separately
+ *   - The call around the cursor, its overloads, @param text and the active parameter
+ */
+
+import * as assert from 'assert';
+import { CompletionItem, CompletionItemKind, SignatureHelp, SignatureInformation } from 'vscode-languageserver/node';
+
+// ── Replicate the parser, member listing and call scanning from server.ts ───
+
+/** The part of a JSP node findEnclosingCall reads */
+interface JspNode {
+    contentStart: number;
+    contentEnd: number;
+}
+
+/** A token of Java source. Comments are dropped; a Javadoc is kept on the token that follows it */
+interface JavaToken {
+    kind: 'word' | 'symbol' | 'literal';
+    text: string;
+    start: number;
+    end: number;
+    javadoc?: string;
+}
+
+interface JavaParameter {
+    type: string; // "String", "Map<String, Integer>", "Object..." for varargs
+    name: string;
+}
+
+/** A field, method or constructor declared in a Java class body */
+interface JavaMemberDeclaration {
+    kind: 'field' | 'method' | 'constructor';
+    name: string;
+    modifiers: string[]; // Including implicit ones: interface fields are public static final
+    type: string; // Field type or method return type, '' for constructors
+    parameters: JavaParameter[];
+    varargs: boolean;
+    signature: string; // Declaration up to its body or initializer, annotations left out
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string; // Raw /** ... */ comment, '' when there is none
+}
+
+interface JavaClassDeclaration {
+    kind: 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+    name: string;
+    qualifiedName: string; // Nested classes use dots: "com.acme.Outer.Inner"
+    modifiers: string[];
+    superclass: string | null; // As written, with type arguments
+    interfaces: string[]; // implements list, or the extends list of an interface
+    signature: string;
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string;
+    members: JavaMemberDeclaration[];
+    classes: JavaClassDeclaration[];
+}
+
+/** Declarations of one .java file */
+interface JavaCompilationUnit {
+    packageName: string;
+    imports: string[]; // "java.util.List", "java.util.*", "static java.lang.Math.max"
+    classes: JavaClassDeclaration[];
+    lineStarts: number[]; // Offset of each line, for offset -> position conversion
+}
+
+const JAVA_IDENTIFIER_RE = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+
+const JAVA_NUMBER_RE = /(?:\d|\.\d)(?:[eEpP][+-]|[\w.])*/y;
+
+const JAVA_MODIFIERS = new Set([
+    'public', 'protected', 'private', 'static', 'final', 'abstract', 'native', 'synchronized',
+    'transient', 'volatile', 'strictfp', 'default', 'sealed'
+]);
+
+/**
+ * Split Java source into words, literals and symbols. Comments are skipped, but a
+ * Javadoc is attached to the next token so declarations can pick it up.
+ */
+function tokenizeJava(content: string): JavaToken[] {
+    const tokens: JavaToken[] = [];
+    let javadoc: string | undefined;
+    let i = 0;
+
+    const push = (kind: JavaToken['kind'], start: number, end: number) => {
+        tokens.push({ kind, text: content.substring(start, end), start, end, javadoc });
+        javadoc = undefined;
+        i = end;
+    };
+
+    /** End of a string or char literal opened at i; stops at an unterminated line */
+    const scanQuoted = (quote: string): number => {
+        let j = i + 1;
+        while (j < content.length && content[j] !== quote && content[j] !== '\n') {
+            j += content[j] === '\\' ? 2 : 1;
+        }
+        return Math.min(j + 1, content.length);
+    };
+
+    while (i < content.length) {
+        const ch = content[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (content.startsWith('//', i)) {
+            const eol = content.indexOf('\n', i);
+            i = eol < 0 ? content.length : eol;
+        } else if (content.startsWith('/*', i)) {
+            const close = content.indexOf('*/', i + 2);
+            const end = close < 0 ? content.length : close + 2;
+            // "/**/" is an empty comment, not a Javadoc
+            if (content.startsWith('/**', i) && end - i > 4) { javadoc = content.substring(i, end); }
+            i = end;
+        } else if (content.startsWith('"""', i)) {
+            let j = i + 3;
+            while (j < content.length && !content.startsWith('"""', j)) {
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            push('literal', i, Math.min(j + 3, content.length));
+        } else if (ch === '"' || ch === '\'') {
+            push('literal', i, scanQuoted(ch));
+        } else {
+            JAVA_IDENTIFIER_RE.lastIndex = i;
+            JAVA_NUMBER_RE.lastIndex = i;
+            if (JAVA_IDENTIFIER_RE.test(content)) {
+                push('word', i, JAVA_IDENTIFIER_RE.lastIndex);
+            } else if (JAVA_NUMBER_RE.test(content)) {
+                push('literal', i, JAVA_NUMBER_RE.lastIndex);
+            } else {
+                push('symbol', i, content.startsWith('...', i) ? i + 3 : i + 1);
+            }
+        }
+    }
+    return tokens;
+}
+
+/** Rebuild declaration text from tokens, with single spaces where Java needs them */
+function joinJavaTokens(tokens: JavaToken[], from: number, to: number): string {
+    let text = '';
+    for (let k = from; k < to; k++) {
+        const token = tokens[k];
+        const previous = k > from ? tokens[k - 1] : null;
+        const separated = previous !== null && (
+            (token.kind !== 'symbol' && (previous.kind !== 'symbol' || /^(?:[,>\])?&]|\.\.\.)$/.test(previous.text)))
+            || token.text === '&' || (token.text === '@' && previous.text !== '(')
+            || (token.text === '<' && JAVA_MODIFIERS.has(previous.text)));
+        text += (separated ? ' ' : '') + token.text;
+    }
+    return text;
+}
+
+/**
+ * Parse the package, imports and class declarations of a Java source, with the
+ * fields, methods and constructors of every class and nested class. Method bodies,
+ * initializers and anonymous classes are skipped without being parsed.
+ */
+function parseJavaSource(content: string): JavaCompilationUnit {
+    const tokens = tokenizeJava(content);
+    let p = 0;
+
+    const is = (text: string, ahead: number = 0) => tokens[p + ahead]?.text === text;
+    const isWord = (ahead: number = 0) => tokens[p + ahead]?.kind === 'word';
+
+    /** Skip from an opening token past its matching close */
+    const skipBalanced = (open: string, close: string) => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p++].text;
+            if (text === open) { depth++; }
+            else if (text === close && --depth <= 0) { return; }
+        }
+    };
+
+    /** "@Name", "@a.b.Name" or "@Name(...)" */
+    const skipAnnotation = () => {
+        p++;
+        while (isWord() && is('.', 1) && isWord(2)) { p += 2; }
+        p++;
+        if (is('(')) { skipBalanced('(', ')'); }
+    };
+
+    /** A type as written: "java.util.Map<String, List<Integer>>[]", '' if none starts here */
+    const readType = (): string => {
+        while (is('@') && !is('interface', 1)) { skipAnnotation(); }
+        let text = '';
+        while (isWord()) {
+            text += tokens[p++].text;
+            if (is('<')) {
+                const start = p;
+                skipBalanced('<', '>');
+                text += joinJavaTokens(tokens, start, p);
+            }
+            if (!is('.') || !isWord(1)) { break; }
+            text += '.';
+            p++;
+        }
+        while (text && is('[') && is(']', 1)) {
+            text += '[]';
+            p += 2;
+        }
+        return text;
+    };
+
+    const readTypeList = (): string[] => {
+        const types = [readType()];
+        while (is(',')) {
+            p++;
+            types.push(readType());
+        }
+        return types.filter(Boolean);
+    };
+
+    /** Modifiers and annotations before a declaration; signatures start after the annotations */
+    const parseModifiers = (): { modifiers: string[]; signatureStart: number } => {
+        const modifiers: string[] = [];
+        let signatureStart = p;
+        for (;;) {
+            if (is('@') && !is('interface', 1)) {
+                skipAnnotation();
+                signatureStart = p;
+            } else if (is('non') && is('-', 1) && is('sealed', 2)) {
+                modifiers.push('non-sealed');
+                p += 3;
+            } else if (isWord() && JAVA_MODIFIERS.has(tokens[p].text) && !is('.', 1)) {
+                modifiers.push(tokens[p++].text);
+            } else {
+                return { modifiers, signatureStart };
+            }
+        }
+    };
+
+    /** "(String name, int... values)", starting at the open parenthesis */
+    const parseParameters = (): { parameters: JavaParameter[]; varargs: boolean; nameTokens: JavaToken[] } => {
+        const parameters: JavaParameter[] = [];
+        const nameTokens: JavaToken[] = [];
+        let varargs = false;
+        p++;
+        while (p < tokens.length && !is(')')) {
+            parseModifiers();
+            let type = readType();
+            if (is('...')) {
+                type += '...';
+                varargs = true;
+                p++;
+            }
+            if (isWord()) {
+                const nameToken = tokens[p++];
+                while (is('[') && is(']', 1)) {
+                    type += '[]';
+                    p += 2;
+                }
+                if (type && nameToken.text !== 'this') {
+                    parameters.push({ type, name: nameToken.text });
+                    nameTokens.push(nameToken);
+                }
+            }
+            // Skip whatever could not be read, up to the next parameter
+            while (p < tokens.length && !is(',') && !is(')')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            if (is(',')) { p++; }
+        }
+        p++;
+        return { parameters, varargs, nameTokens };
+    };
+
+    /**
+     * Skip a field initializer up to the ',' or ';' that ends it. A top-level comma only
+     * ends it when another declarator follows, so "new HashMap<K, V>()" is skipped whole.
+     */
+    const skipInitializer = () => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p].text;
+            if (text === '(' || text === '[' || text === '{') { depth++; }
+            else if (text === ')' || text === ']' || text === '}') {
+                if (depth === 0) { return; }
+                depth--;
+            } else if (depth === 0 && (text === ';'
+                || (text === ',' && isWord(1) && /^(?:[=,;[])$/.test(tokens[p + 2]?.text ?? '')))) {
+                return;
+            }
+            p++;
+        }
+    };
+
+    const isClassStart = () => is('class') || is('interface') || is('enum') || (is('@') && is('interface', 1))
+        || (is('record') && isWord(1) && (is('(', 2) || is('<', 2)));
+
+    const parseClass = (modifiers: string[], javadoc: string, signatureStart: number, outerName: string): JavaClassDeclaration => {
+        let kind: JavaClassDeclaration['kind'];
+        if (is('@')) {
+            kind = 'annotation';
+            p++;
+        } else {
+            kind = tokens[p].text as JavaClassDeclaration['kind'];
+        }
+        p++;
+
+        const nameToken = tokens[p] ?? tokens[p - 1];
+        p++;
+        const decl: JavaClassDeclaration = {
+            kind, name: nameToken.text, qualifiedName: outerName ? `${outerName}.${nameToken.text}` : nameToken.text,
+            modifiers, superclass: null, interfaces: [], signature: '',
+            nameStart: nameToken.start, nameEnd: nameToken.end, javadoc, members: [], classes: []
+        };
+
+        if (is('<')) { skipBalanced('<', '>'); }
+        if (kind === 'record' && is('(')) {
+            // Each record component has a public accessor method
+            const { parameters, nameTokens } = parseParameters();
+            parameters.forEach((component, k) => {
+                const token = nameTokens[k];
+                decl.members.push({
+                    kind: 'method', name: component.name, modifiers: ['public'], type: component.type,
+                    parameters: [], varargs: false, signature: `public ${component.type} ${component.name}()`,
+                    nameStart: token.start, nameEnd: token.end, javadoc: ''
+                });
+            });
+        }
+
+        while (p < tokens.length && !is('{')) {
+            if (is('extends')) {
+                p++;
+                const types = readTypeList();
+                if (kind === 'interface') { decl.interfaces.push(...types); } else { decl.superclass = types[0] ?? null; }
+            } else if (is('implements')) {
+                p++;
+                decl.interfaces.push(...readTypeList());
+            } else {
+                p++; // "permits" list and anything unexpected
+            }
+        }
+        decl.signature = joinJavaTokens(tokens, signatureStart, p);
+
+        if (is('{')) {
+            p++;
+            if (kind === 'enum') { parseEnumConstants(decl); }
+            while (p < tokens.length && !is('}')) { parseMember(decl); }
+            p++;
+        }
+        return decl;
+    };
+
+    /** Enum constants are public static final fields of the enum type */
+    const parseEnumConstants = (decl: JavaClassDeclaration) => {
+        while (p < tokens.length && !is(';') && !is('}')) {
+            const javadoc = tokens[p].javadoc ?? '';
+            while (is('@')) { skipAnnotation(); }
+            if (!isWord()) {
+                p++;
+                continue;
+            }
+            const nameToken = tokens[p++];
+            decl.members.push({
+                kind: 'field', name: nameToken.text, modifiers: ['public', 'static', 'final'], type: decl.name,
+                parameters: [], varargs: false, signature: `${decl.name} ${nameToken.text}`,
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('(')) { skipBalanced('(', ')'); }
+            if (is('{')) { skipBalanced('{', '}'); }
+            if (is(',')) { p++; }
+        }
+        if (is(';')) { p++; }
+    };
+
+    const parseMember = (owner: JavaClassDeclaration) => {
+        const memberStart = p;
+        const javadoc = tokens[p].javadoc ?? '';
+
+        // Initializer blocks and stray semicolons
+        if (is(';')) {
+            p++;
+            return;
+        }
+        if (is('{') || (is('static') && is('{', 1))) {
+            if (is('static')) { p++; }
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const { modifiers, signatureStart } = parseModifiers();
+        const inInterface = owner.kind === 'interface' || owner.kind === 'annotation';
+        if (inInterface && !modifiers.includes('private') && !modifiers.includes('public')) { modifiers.unshift('public'); }
+
+        if (isClassStart()) {
+            if (inInterface && !modifiers.includes('static')) { modifiers.push('static'); }
+            owner.classes.push(parseClass(modifiers, javadoc, signatureStart, owner.qualifiedName));
+            return;
+        }
+
+        // Type parameters of a generic method or constructor
+        if (is('<')) { skipBalanced('<', '>'); }
+
+        // Compact canonical constructor of a record
+        if (is(owner.name) && is('{', 1)) {
+            p++;
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const isConstructor = is(owner.name) && is('(', 1);
+        const type = isConstructor ? '' : readType();
+        if ((!isConstructor && !type) || !isWord()) {
+            // Not a declaration: skip to the end of whatever this is
+            while (p < tokens.length && !is(';') && !is('}') && !is('{')) { p++; }
+            if (is('{')) { skipBalanced('{', '}'); } else if (is(';')) { p++; }
+            if (p === memberStart) { p++; }
+            return;
+        }
+
+        let nameToken = tokens[p++];
+        if (is('(')) {
+            const { parameters, varargs } = parseParameters();
+            while (is('[') && is(']', 1)) { p += 2; }
+            // throws clause, or the default value of an annotation member
+            while (p < tokens.length && !is('{') && !is(';')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            const signature = joinJavaTokens(tokens, signatureStart, p);
+            if (is('{')) { skipBalanced('{', '}'); } else { p++; }
+
+            if (inInterface && !modifiers.includes('default') && !modifiers.includes('static') && !modifiers.includes('private')) {
+                modifiers.push('abstract');
+            }
+            owner.members.push({
+                kind: isConstructor ? 'constructor' : 'method', name: nameToken.text, modifiers, type,
+                parameters, varargs, signature, nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            return;
+        }
+
+        // Fields; interface fields are implicitly static final
+        if (inInterface) {
+            for (const implicit of ['static', 'final']) {
+                if (!modifiers.includes(implicit)) { modifiers.push(implicit); }
+            }
+        }
+        for (;;) {
+            let fieldType = type;
+            while (is('[') && is(']', 1)) {
+                fieldType += '[]';
+                p += 2;
+            }
+            owner.members.push({
+                kind: 'field', name: nameToken.text, modifiers, type: fieldType, parameters: [], varargs: false,
+                signature: [...modifiers, fieldType, nameToken.text].join(' '),
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('=')) { skipInitializer(); }
+            if (!is(',') || !isWord(1)) { break; }
+            p++;
+            nameToken = tokens[p++];
+        }
+        if (is(';')) { p++; }
+    };
+
+    const unit: JavaCompilationUnit = { packageName: '', imports: [], classes: [], lineStarts: [0] };
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') { unit.lineStarts.push(i + 1); }
+    }
+
+    while (p < tokens.length) {
+        if (is('package') || is('import')) {
+            const keyword = tokens[p++].text;
+            const start = p;
+            while (p < tokens.length && !is(';')) { p++; }
+            const name = joinJavaTokens(tokens, start, p).replace(/\s*\.\s*/g, '.');
+            if (keyword === 'package') { unit.packageName = name; } else { unit.imports.push(name); }
+            p++;
+            continue;
+        }
+
+        const start = p;
+        const javadoc = tokens[p].javadoc ?? '';
+        const { modifiers, signatureStart } = parseModifiers();
+        if (isClassStart()) {
+            unit.classes.push(parseClass(modifiers, javadoc, signatureStart, unit.packageName));
+        } else if (p === start) {
+            p++;
+        }
+    }
+    return unit;
+}
+
+/** Every class of a compilation unit, top-level classes first */
+function listJavaClasses(unit: JavaCompilationUnit): JavaClassDeclaration[] {
+    const classes = [...unit.classes];
+    for (let i = 0; i < classes.length; i++) {
+        classes.push(...classes[i].classes);
+    }
+    return classes;
+}
+
+/**
+ * The class an FQN names in a unit. Falls back to the simple name, for nested
+ * classes reached through their outer class's file and for simple-name lookups.
+ */
+function findClassDeclaration(unit: JavaCompilationUnit, fqn: string): JavaClassDeclaration | null {
+    const classes = listJavaClasses(unit);
+    const simpleName = fqn.split('.').pop()!;
+    return classes.find(c => c.qualifiedName === fqn) ?? classes.find(c => c.name === simpleName) ?? null;
+}
+
+/** The source of a class and its parsed declaration */
+interface JavaClassSource {
+    fqn: string;
+    filePath: string;
+    content: string;
+    declaration: JavaClassDeclaration;
+}
+
+/** The non-private fields of a class, enum constants included */
+function listJavaFields(declaration: JavaClassDeclaration): JavaMemberDeclaration[] {
+    return declaration.members.filter(m => m.kind === 'field' && !m.modifiers.includes('private'));
+}
+
+/** The non-private methods of a class, one entry per overload */
+function listJavaMethods(declaration: JavaClassDeclaration): JavaMemberDeclaration[] {
+    return declaration.members.filter(m => m.kind === 'method' && !m.modifiers.includes('private'));
+}
+
+/** "String name, int... values" */
+function formatJavaParameters(member: JavaMemberDeclaration): string {
+    return member.parameters.map(param => `${param.type} ${param.name}`).join(', ');
+}
+
+/**
+ * Fields and methods of a type and its supertypes, nearest first. Overloads are
+ * listed separately; their Javadoc is read in onCompletionResolve.
+ */
+function getTypeMemberCompletions(sources: JavaClassSource[], staticOnly: boolean): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const seen = new Set<string>();
+
+    sources.forEach(({ filePath, declaration }, depth) => {
+        for (const field of listJavaFields(declaration)) {
+            const isStatic = field.modifiers.includes('static');
+            if (isStatic !== staticOnly || seen.has(field.name)) { continue; }
+            seen.add(field.name);
+            items.push({
+                label: field.name,
+                kind: isStatic && field.modifiers.includes('final') ? CompletionItemKind.Constant : CompletionItemKind.Field,
+                detail: `${field.type} ${field.name}`,
+                sortText: String(depth) + field.name,
+                data: { filePath, offset: field.nameStart }
+            });
+        }
+        for (const method of listJavaMethods(declaration)) {
+            const key = `${method.name}(${formatJavaParameters(method)})`;
+            if (method.modifiers.includes('static') !== staticOnly || seen.has(key)) { continue; }
+            seen.add(key);
+            items.push({
+                label: method.name,
+                kind: CompletionItemKind.Method,
+                detail: `${method.type} ${key}`,
+                sortText: String(depth) + method.name,
+                data: { filePath, offset: method.nameStart }
+            });
+        }
+    });
+    return items;
+}
+
+/** Replace matches with spaces so offsets into the original text stay valid */
+function blankOut(text: string, re: RegExp): string {
+    return text.replace(re, m => m.replace(/[^\n]/g, ' '));
+}
+
+/** String/char literals and comments, blanked out before scanning Java code */
+const JAVA_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+/**
+ * Walk the arguments of a call from its opening parenthesis up to end: top-level
+ * commas seen, whether any argument text was seen, and whether the call was closed.
+ */
+function scanCallArguments(text: string, openParenPos: number, end: number): { commas: number; hasContent: boolean; closed: boolean } {
+    let depth = 0;
+    let hasContent = false;
+    let paramCount = 0;
+    let inString = false;
+    let strChar = '';
+
+    for (let i = openParenPos + 1; i < end; i++) {
+        const ch = text[i];
+        const prev = i > 0 ? text[i - 1] : '';
+
+        if ((ch === '"' || ch === "'") && prev !== '\\') {
+            if (!inString) { inString = true; strChar = ch; }
+            else if (ch === strChar) { inString = false; }
+            hasContent = true;
+            continue;
+        }
+        if (inString) { hasContent = true; continue; }
+
+        if (ch === '(' || ch === '[' || ch === '{') { depth++; hasContent = true; continue; }
+        if (ch === ')' || ch === ']' || ch === '}') {
+            if (depth === 0) { return { commas: paramCount, hasContent, closed: true }; }
+            depth--;
+            hasContent = true;
+            continue;
+        }
+        if (ch === ',' && depth === 0) { paramCount++; hasContent = true; continue; }
+        if (!/\s/.test(ch)) { hasContent = true; }
+    }
+    return { commas: paramCount, hasContent, closed: false };
+}
+
+/**
+ * Count parameters in a method call from the opening parenthesis position.
+ */
+function countMethodParams(text: string, openParenPos: number): number {
+    const args = scanCallArguments(text, openParenPos, text.length);
+    return args.closed && args.hasContent ? args.commas + 1 : 0;
+}
+
+/** @param descriptions of a raw Javadoc comment, by parameter name */
+function getJavadocParams(raw: string): Map<string, string> {
+    const params = new Map<string, string>();
+    const paramRe = /@param\s+(\w+)\s+([\s\S]*?)(?=^\s*\*?\s*@\w+|\*\/)/gm;
+    let m;
+    while ((m = paramRe.exec(raw)) !== null) {
+        params.set(m[1], m[2].replace(/^\s*\*\s?/gm, '').replace(/\s+/g, ' ').trim());
+    }
+    return params;
+}
+
+/**
+ * The call whose argument list contains the offset: the callee text before its
+ * open parenthesis, and that parenthesis' offset. Stops at statement boundaries.
+ */
+function findEnclosingCall(text: string, offset: number, node: JspNode): { callee: string; openParen: number } | null {
+    const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE)
+        .substring(0, offset - node.contentStart);
+    let depth = 0;
+    for (let i = code.length - 1; i >= 0; i--) {
+        const ch = code[i];
+        if (ch === ')') { depth++; }
+        else if (ch === '(') {
+            if (depth === 0) {
+                const callee = /((?:[A-Za-z_$][\w$]*\s*\.\s*)*[A-Za-z_$][\w$]*)\s*$/.exec(code.substring(0, i));
+                return callee ? { callee: callee[1].replace(/\s+/g, ''), openParen: node.contentStart + i } : null;
+            }
+            depth--;
+        } else if (depth === 0 && (ch === ';' || ch === '{' || ch === '}')) {
+            return null;
+        }
+    }
+    return null;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** The receiver getJavaCompletions completes members of, for the code before the cursor */
+function getMemberReceiver(prefix: string): string | null {
+    const member = prefix.match(/(?<![\w$.])((?:[a-z_]\w*\s*\.\s*)*[A-Za-z_$][\w$]*)\s*\.\s*\w*$/);
+    return member ? member[1].replace(/\s+/g, '') : null;
+}
+
+const BASE_SOURCE = `package com.acme.model;
+
+public abstract class BaseEntity<ID> {
+    /** The primary key */
+    protected ID id;
+    private long version;
+    public static final String TABLE = "entity";
+
+    public ID getId() { return id; }
+    public String describe() { return ""; }
+    private void touch() { }
+    public static BaseEntity<?> empty() { return null; }
+}
+`;
+
+const CUSTOMER_SOURCE = `package com.acme.model;
+
+public class Customer extends BaseEntity<Long> {
+    public static final int MAX_ORDERS = 10;
+    public static int created;
+    protected String id;
+    private String secret;
+
+    public Customer(String name) { }
+
+    public String getName() { return ""; }
+    @Override
+    public String describe() { return getName(); }
+    /**
+     * Change the name.
+     * @param name the full name,
+     *     as shown on invoices
+     */
+    public void rename(String name) { }
+    /**
+     * @param first given name
+     * @param last family name
+     * @throws IllegalArgumentException when both are empty
+     */
+    public void rename(String first, String last) { }
+    public static Customer of(String name) { return new Customer(name); }
+}
+`;
+
+/** The hierarchy sources getClassHierarchySources returns for Customer: the class, then its superclass */
+function customerHierarchy(): JavaClassSource[] {
+    return [
+        ['com.acme.model.Customer', '/src/com/acme/model/Customer.java', CUSTOMER_SOURCE],
+        ['com.acme.model.BaseEntity', '/src/com/acme/model/BaseEntity.java', BASE_SOURCE]
+    ].map(([fqn, filePath, content]) =>
+        ({ fqn, filePath, content, declaration: findClassDeclaration(parseJavaSource(content), fqn)! }));
+}
+
+const details = (items: CompletionItem[]) => items.map(i => i.detail);
+
+/**
+ * onSignatureHelp for a scriptlet, with the receiver's hierarchy given and the
+ * description rendering left out.
+ */
+function getSignatureHelp(text: string, offset: number, sources: JavaClassSource[], staticOnly: boolean): SignatureHelp | null {
+    const node: JspNode = { contentStart: text.indexOf('<%') + 2, contentEnd: text.lastIndexOf('%>') };
+    const call = findEnclosingCall(text, offset, node);
+    const dot = call ? call.callee.lastIndexOf('.') : -1;
+    if (!call || dot < 0) { return null; }
+
+    const methodName = call.callee.substring(dot + 1);
+    const signatures: SignatureInformation[] = [];
+    const seen = new Set<string>();
+    for (const { declaration } of sources) {
+        for (const method of listJavaMethods(declaration)) {
+            const params = formatJavaParameters(method);
+            if (method.name !== methodName || method.modifiers.includes('static') !== staticOnly || seen.has(params)) { continue; }
+            seen.add(params);
+
+            const paramDocs = getJavadocParams(method.javadoc);
+            signatures.push({
+                label: `${method.type} ${method.name}(${params})`,
+                parameters: method.parameters.map(param => ({
+                    label: `${param.type} ${param.name}`,
+                    documentation: paramDocs.get(param.name)
+                }))
+            });
+        }
+    }
+    if (signatures.length === 0) { return null; }
+
+    const args = scanCallArguments(text, call.openParen, offset);
+    const argCount = countMethodParams(text, call.openParen);
+    const activeParameter = args.commas;
+    let activeSignature = signatures.findIndex(sig => sig.parameters!.length === Math.max(argCount, activeParameter + 1));
+    if (activeSignature < 0) { activeSignature = Math.max(0, signatures.findIndex(sig => sig.parameters!.length > activeParameter)); }
+
+    return { signatures, activeSignature, activeParameter };
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Member Completion Tests', () => {
+
+    test('finds the receiver before the dot', () => {
+        assert.strictEqual(getMemberReceiver(' customer.'), 'customer');
+        assert.strictEqual(getMemberReceiver(' customer . getN'), 'customer');
+        assert.strictEqual(getMemberReceiver('x = order.customer.'), 'order.customer');
+        assert.strictEqual(getMemberReceiver(' String.'), 'String');
+        assert.strictEqual(getMemberReceiver(' java.util.Collections.'), 'java.util.Collections');
+        // Calls and literals are not receivers this completion resolves
+        assert.strictEqual(getMemberReceiver(' customer.getName().'), null);
+        assert.strictEqual(getMemberReceiver(' 1.'), null);
+        assert.strictEqual(getMemberReceiver(' customer'), null);
+    });
+
+    test('lists instance members of the type, then of its supertypes', () => {
+        const items = getTypeMemberCompletions(customerHierarchy(), false);
+        assert.deepStrictEqual(details(items), [
+            'String id',
+            'String getName()',
+            'String describe()',
+            'void rename(String name)',
+            'void rename(String first, String last)',
+            'ID getId()'
+        ]);
+        assert.deepStrictEqual(items.map(i => i.sortText![0]), ['0', '0', '0', '0', '0', '1']);
+        assert.ok(items.every(i => i.kind !== CompletionItemKind.Constant));
+    });
+
+    test('lists static members for class names', () => {
+        const items = getTypeMemberCompletions(customerHierarchy(), true);
+        assert.deepStrictEqual(items.map(i => [i.label, i.kind]), [
+            ['MAX_ORDERS', CompletionItemKind.Constant],
+            ['created', CompletionItemKind.Field],
+            ['of', CompletionItemKind.Method],
+            ['TABLE', CompletionItemKind.Constant],
+            ['empty', CompletionItemKind.Method]
+        ]);
+    });
+
+    test('points each item at its declaration for resolving the Javadoc', () => {
+        const hierarchy = customerHierarchy();
+        const getId = getTypeMemberCompletions(hierarchy, false).find(i => i.label === 'getId')!;
+        assert.strictEqual(getId.data.filePath, '/src/com/acme/model/BaseEntity.java');
+        assert.strictEqual(BASE_SOURCE.substring(getId.data.offset, getId.data.offset + 5), 'getId');
+    });
+
+    test('lists enum constants and interface constants as static', () => {
+        const source = `package p;
+public enum Status {
+    OPEN, PAID;
+    public boolean isFinal() { return this == PAID; }
+}
+interface Limits {
+    int MAX = 3;
+    int limit();
+}
+`;
+        const unit = parseJavaSource(source);
+        const of = (fqn: string): JavaClassSource[] => [{ fqn, filePath: '/p.java', content: source, declaration: findClassDeclaration(unit, fqn)! }];
+        assert.deepStrictEqual(getTypeMemberCompletions(of('p.Status'), true).map(i => i.label), ['OPEN', 'PAID']);
+        assert.deepStrictEqual(getTypeMemberCompletions(of('p.Status'), false).map(i => i.label), ['isFinal']);
+        assert.deepStrictEqual(getTypeMemberCompletions(of('p.Limits'), true).map(i => i.label), ['MAX']);
+        assert.deepStrictEqual(getTypeMemberCompletions(of('p.Limits'), false).map(i => i.label), ['limit']);
+    });
+});
+
+suite('Signature Help Tests', () => {
+
+    /** A scriptlet with the cursor at "|" */
+    const at = (code: string) => {
+        const text = `<% ${code.replace('|', '')} %>`;
+        return { text, offset: text.indexOf(code.split('|')[0]) + code.indexOf('|') };
+    };
+
+    const help = (code: string, staticOnly = false) => {
+        const { text, offset } = at(code);
+        return getSignatureHelp(text, offset, customerHierarchy(), staticOnly);
+    };
+
+    test('finds the call around the cursor', () => {
+        const find = (code: string) => {
+            const { text, offset } = at(code);
+            return findEnclosingCall(text, offset, { contentStart: 2, contentEnd: text.length - 2 })?.callee ?? null;
+        };
+        assert.strictEqual(find('c.rename(|'), 'c.rename');
+        assert.strictEqual(find('c . rename(a, f(b), |'), 'c.rename');
+        assert.strictEqual(find('c.rename(f(|'), 'f');
+        assert.strictEqual(find('c.rename(")", |'), 'c.rename');
+        assert.strictEqual(find('c.rename(a); x = |'), null);
+    });
+
+    test('counts arguments at the top level of the call', () => {
+        const text = 'f(a, g(b, c), "x,y", new int[] {1, 2})';
+        assert.deepStrictEqual(scanCallArguments(text, 1, text.length), { commas: 3, hasContent: true, closed: true });
+        assert.strictEqual(countMethodParams(text, 1), 4);
+        assert.strictEqual(countMethodParams('f( )', 1), 0);
+        assert.strictEqual(countMethodParams('f(a, ', 1), 0);
+    });
+
+    test('reads @param descriptions across lines', () => {
+        const params = getJavadocParams('/**\n * Does it.\n * @param a the first\n *     value\n * @param b second\n * @return x\n */');
+        assert.deepStrictEqual([...params], [['a', 'the first value'], ['b', 'second']]);
+    });
+
+    test('lists every overload with its parameter documentation', () => {
+        const result = help('c.rename(|')!;
+        assert.deepStrictEqual(result.signatures.map(s => s.label), ['void rename(String name)', 'void rename(String first, String last)']);
+        assert.deepStrictEqual(result.signatures[0].parameters!.map(p => p.documentation), ['the full name, as shown on invoices']);
+        assert.deepStrictEqual(result.signatures[1].parameters!.map(p => p.documentation), ['given name', 'family name']);
+        assert.strictEqual(result.activeParameter, 0);
+        assert.strictEqual(result.activeSignature, 0);
+    });
+
+    test('picks the overload that fits the arguments', () => {
+        const second = help('c.rename("a", |')!;
+        assert.strictEqual(second.activeParameter, 1);
+        assert.strictEqual(second.activeSignature, 1);
+
+        // The whole call decides while the cursor is still in the first argument
+        const closed = help('c.rename(|"a", "b")')!;
+        assert.strictEqual(closed.activeParameter, 0);
+        assert.strictEqual(closed.activeSignature, 1);
+    });
+
+    test('lists overrides once, nearest type first', () => {
+        const result = help('c.describe(|')!;
+        assert.strictEqual(result.signatures.length, 1);
+        assert.strictEqual(help('c.getId(|')!.signatures[0].label, 'ID getId()');
+    });
+
+    test('matches static methods only for class names', () => {
+        assert.strictEqual(help('Customer.of(|', true)!.signatures[0].label, 'Customer of(String name)');
+        assert.strictEqual(help('Customer.rename(|', true), null);
+        assert.strictEqual(help('c.of(|'), null);
+        assert.strictEqual(help('rename(|'), null);
+    });
+});
@@ -0,0 +1,673 @@
+/**
+ * Unit test: Validate the Java source parser that backs member lookup in server.ts.
+ * Covers the cases the old line scanning got wrong:
+ *   - Braces and keywords inside string literals and comments
+ *   - Nested classes with members of the same name
+ *   - Overloads, varargs and generic parameter types
+ *   - Javadoc above annotated declarations
+ *   - Enum constants and implicit interface modifiers
+ */
+
+import * as assert from 'assert';
+
+// ── Replicate the parser from server.ts ─────────────────────────────────────
+
+/** A token of Java source. Comments are dropped; a Javadoc is kept on the token that follows it */
+interface JavaToken {
+    kind: 'word' | 'symbol' | 'literal';
+    text: string;
+    start: number;
+    end: number;
+    javadoc?: string;
+}
+
+interface JavaParameter {
+    type: string; // "String", "Map<String, Integer>", "Object..." for varargs
+    name: string;
+}
+
+/** A field, method or constructor declared in a Java class body */
+interface JavaMemberDeclaration {
+    kind: 'field' | 'method' | 'constructor';
+    name: string;
+    modifiers: string[]; // Including implicit ones: interface fields are public static final
+    type: string; // Field type or method return type, '' for constructors
+    parameters: JavaParameter[];
+    varargs: boolean;
+    signature: string; // Declaration up to its body or initializer, annotations left out
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string; // Raw /** ... */ comment, '' when there is none
+}
+
+interface JavaClassDeclaration {
+    kind: 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+    name: string;
+    qualifiedName: string; // Nested classes use dots: "com.acme.Outer.Inner"
+    modifiers: string[];
+    superclass: string | null; // As written, with type arguments
+    interfaces: string[]; // implements list, or the extends list of an interface
+    signature: string;
+    nameStart: number;
+    nameEnd: number;
+    javadoc: string;
+    members: JavaMemberDeclaration[];
+    classes: JavaClassDeclaration[];
+}
+
+/** Declarations of one .java file */
+interface JavaCompilationUnit {
+    packageName: string;
+    imports: string[]; // "java.util.List", "java.util.*", "static java.lang.Math.max"
+    classes: JavaClassDeclaration[];
+    lineStarts: number[]; // Offset of each line, for offset -> position conversion
+}
+
+const JAVA_IDENTIFIER_RE = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const JAVA_NUMBER_RE = /(?:\d|\.\d)(?:[eEpP][+-]|[\w.])*/y;
+
+const JAVA_MODIFIERS = new Set([
+    'public', 'protected', 'private', 'static', 'final', 'abstract', 'native', 'synchronized',
+    'transient', 'volatile', 'strictfp', 'default', 'sealed'
+]);
+
+/**
+ * Split Java source into words, literals and symbols. Comments are skipped, but a
+ * Javadoc is attached to the next token so declarations can pick it up.
+ */
+function tokenizeJava(content: string): JavaToken[] {
+    const tokens: JavaToken[] = [];
+    let javadoc: string | undefined;
+    let i = 0;
+
+    const push = (kind: JavaToken['kind'], start: number, end: number) => {
+        tokens.push({ kind, text: content.substring(start, end), start, end, javadoc });
+        javadoc = undefined;
+        i = end;
+    };
+
+    /** End of a string or char literal opened at i; stops at an unterminated line */
+    const scanQuoted = (quote: string): number => {
+        let j = i + 1;
+        while (j < content.length && content[j] !== quote && content[j] !== '\n') {
+            j += content[j] === '\\' ? 2 : 1;
+        }
+        return Math.min(j + 1, content.length);
+    };
+
+    while (i < content.length) {
+        const ch = content[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (content.startsWith('//', i)) {
+            const eol = content.indexOf('\n', i);
+            i = eol < 0 ? content.length : eol;
+        } else if (content.startsWith('/*', i)) {
+            const close = content.indexOf('*/', i + 2);
+            const end = close < 0 ? content.length : close + 2;
+            // "/**/" is an empty comment, not a Javadoc
+            if (content.startsWith('/**', i) && end - i > 4) { javadoc = content.substring(i, end); }
+            i = end;
+        } else if (content.startsWith('"""', i)) {
+            let j = i + 3;
+            while (j < content.length && !content.startsWith('"""', j)) {
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            push('literal', i, Math.min(j + 3, content.length));
+        } else if (ch === '"' || ch === '\'') {
+            push('literal', i, scanQuoted(ch));
+        } else {
+            JAVA_IDENTIFIER_RE.lastIndex = i;
+            JAVA_NUMBER_RE.lastIndex = i;
+            if (JAVA_IDENTIFIER_RE.test(content)) {
+                push('word', i, JAVA_IDENTIFIER_RE.lastIndex);
+            } else if (JAVA_NUMBER_RE.test(content)) {
+                push('literal', i, JAVA_NUMBER_RE.lastIndex);
+            } else {
+                push('symbol', i, content.startsWith('...', i) ? i + 3 : i + 1);
+            }
+        }
+    }
+    return tokens;
+}
+
+/** Rebuild declaration text from tokens, with single spaces where Java needs them */
+function joinJavaTokens(tokens: JavaToken[], from: number, to: number): string {
+    let text = '';
+    for (let k = from; k < to; k++) {
+        const token = tokens[k];
+        const previous = k > from ? tokens[k - 1] : null;
+        const separated = previous !== null && (
+            (token.kind !== 'symbol' && (previous.kind !== 'symbol' || /^(?:[,>\])?&]|\.\.\.)$/.test(previous.text)))
+            || token.text === '&' || (token.text === '@' && previous.text !== '(')
+            || (token.text === '<' && JAVA_MODIFIERS.has(previous.text)));
+        text += (separated ? ' ' : '') + token.text;
+    }
+    return text;
+}
+
+/**
+ * Parse the package, imports and class declarations of a Java source, with the
+ * fields, methods and constructors of every class and nested class. Method bodies,
+ * initializers and anonymous classes are skipped without being parsed.
+ */
+function parseJavaSource(content: string): JavaCompilationUnit {
+    const tokens = tokenizeJava(content);
+    let p = 0;
+
+    const is = (text: string, ahead: number = 0) => tokens[p + ahead]?.text === text;
+    const isWord = (ahead: number = 0) => tokens[p + ahead]?.kind === 'word';
+
+    /** Skip from an opening token past its matching close */
+    const skipBalanced = (open: string, close: string) => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p++].text;
+            if (text === open) { depth++; }
+            else if (text === close && --depth <= 0) { return; }
+        }
+    };
+
+    /** "@Name", "@a.b.Name" or "@Name(...)" */
+    const skipAnnotation = () => {
+        p++;
+        while (isWord() && is('.', 1) && isWord(2)) { p += 2; }
+        p++;
+        if (is('(')) { skipBalanced('(', ')'); }
+    };
+
+    /** A type as written: "java.util.Map<String, List<Integer>>[]", '' if none starts here */
+    const readType = (): string => {
+        while (is('@') && !is('interface', 1)) { skipAnnotation(); }
+        let text = '';
+        while (isWord()) {
+            text += tokens[p++].text;
+            if (is('<')) {
+                const start = p;
+                skipBalanced('<', '>');
+                text += joinJavaTokens(tokens, start, p);
+            }
+            if (!is('.') || !isWord(1)) { break; }
+            text += '.';
+            p++;
+        }
+        while (text && is('[') && is(']', 1)) {
+            text += '[]';
+            p += 2;
+        }
+        return text;
+    };
+
+    const readTypeList = (): string[] => {
+        const types = [readType()];
+        while (is(',')) {
+            p++;
+            types.push(readType());
+        }
+        return types.filter(Boolean);
+    };
+
+    /** Modifiers and annotations before a declaration; signatures start after the annotations */
+    const parseModifiers = (): { modifiers: string[]; signatureStart: number } => {
+        const modifiers: string[] = [];
+        let signatureStart = p;
+        for (;;) {
+            if (is('@') && !is('interface', 1)) {
+                skipAnnotation();
+                signatureStart = p;
+            } else if (is('non') && is('-', 1) && is('sealed', 2)) {
+                modifiers.push('non-sealed');
+                p += 3;
+            } else if (isWord() && JAVA_MODIFIERS.has(tokens[p].text) && !is('.', 1)) {
+                modifiers.push(tokens[p++].text);
+            } else {
+                return { modifiers, signatureStart };
+            }
+        }
+    };
+
+    /** "(String name, int... values)", starting at the open parenthesis */
+    const parseParameters = (): { parameters: JavaParameter[]; varargs: boolean; nameTokens: JavaToken[] } => {
+        const parameters: JavaParameter[] = [];
+        const nameTokens: JavaToken[] = [];
+        let varargs = false;
+        p++;
+        while (p < tokens.length && !is(')')) {
+            parseModifiers();
+            let type = readType();
+            if (is('...')) {
+                type += '...';
+                varargs = true;
+                p++;
+            }
+            if (isWord()) {
+                const nameToken = tokens[p++];
+                while (is('[') && is(']', 1)) {
+                    type += '[]';
+                    p += 2;
+                }
+                if (type && nameToken.text !== 'this') {
+                    parameters.push({ type, name: nameToken.text });
+                    nameTokens.push(nameToken);
+                }
+            }
+            // Skip whatever could not be read, up to the next parameter
+            while (p < tokens.length && !is(',') && !is(')')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            if (is(',')) { p++; }
+        }
+        p++;
+        return { parameters, varargs, nameTokens };
+    };
+
+    /**
+     * Skip a field initializer up to the ',' or ';' that ends it. A top-level comma only
+     * ends it when another declarator follows, so "new HashMap<K, V>()" is skipped whole.
+     */
+    const skipInitializer = () => {
+        let depth = 0;
+        while (p < tokens.length) {
+            const text = tokens[p].text;
+            if (text === '(' || text === '[' || text === '{') { depth++; }
+            else if (text === ')' || text === ']' || text === '}') {
+                if (depth === 0) { return; }
+                depth--;
+            } else if (depth === 0 && (text === ';'
+                || (text === ',' && isWord(1) && /^(?:[=,;[])$/.test(tokens[p + 2]?.text ?? '')))) {
+                return;
+            }
+            p++;
+        }
+    };
+
+    const isClassStart = () => is('class') || is('interface') || is('enum') || (is('@') && is('interface', 1))
+        || (is('record') && isWord(1) && (is('(', 2) || is('<', 2)));
+
+    const parseClass = (modifiers: string[], javadoc: string, signatureStart: number, outerName: string): JavaClassDeclaration => {
+        let kind: JavaClassDeclaration['kind'];
+        if (is('@')) {
+            kind = 'annotation';
+            p++;
+        } else {
+            kind = tokens[p].text as JavaClassDeclaration['kind'];
+        }
+        p++;
+
+        const nameToken = tokens[p] ?? tokens[p - 1];
+        p++;
+        const decl: JavaClassDeclaration = {
+            kind, name: nameToken.text, qualifiedName: outerName ? `${outerName}.${nameToken.text}` : nameToken.text,
+            modifiers, superclass: null, interfaces: [], signature: '',
+            nameStart: nameToken.start, nameEnd: nameToken.end, javadoc, members: [], classes: []
+        };
+
+        if (is('<')) { skipBalanced('<', '>'); }
+        if (kind === 'record' && is('(')) {
+            // Each record component has a public accessor method
+            const { parameters, nameTokens } = parseParameters();
+            parameters.forEach((component, k) => {
+                const token = nameTokens[k];
+                decl.members.push({
+                    kind: 'method', name: component.name, modifiers: ['public'], type: component.type,
+                    parameters: [], varargs: false, signature: `public ${component.type} ${component.name}()`,
+                    nameStart: token.start, nameEnd: token.end, javadoc: ''
+                });
+            });
+        }
+
+        while (p < tokens.length && !is('{')) {
+            if (is('extends')) {
+                p++;
+                const types = readTypeList();
+                if (kind === 'interface') { decl.interfaces.push(...types); } else { decl.superclass = types[0] ?? null; }
+            } else if (is('implements')) {
+                p++;
+                decl.interfaces.push(...readTypeList());
+            } else {
+                p++; // "permits" list and anything unexpected
+            }
+        }
+        decl.signature = joinJavaTokens(tokens, signatureStart, p);
+
+        if (is('{')) {
+            p++;
+            if (kind === 'enum') { parseEnumConstants(decl); }
+            while (p < tokens.length && !is('}')) { parseMember(decl); }
+            p++;
+        }
+        return decl;
+    };
+
+    /** Enum constants are public static final fields of the enum type */
+    const parseEnumConstants = (decl: JavaClassDeclaration) => {
+        while (p < tokens.length && !is(';') && !is('}')) {
+            const javadoc = tokens[p].javadoc ?? '';
+            while (is('@')) { skipAnnotation(); }
+            if (!isWord()) {
+                p++;
+                continue;
+            }
+            const nameToken = tokens[p++];
+            decl.members.push({
+                kind: 'field', name: nameToken.text, modifiers: ['public', 'static', 'final'], type: decl.name,
+                parameters: [], varargs: false, signature: `${decl.name} ${nameToken.text}`,
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('(')) { skipBalanced('(', ')'); }
+            if (is('{')) { skipBalanced('{', '}'); }
+            if (is(',')) { p++; }
+        }
+        if (is(';')) { p++; }
+    };
+
+    const parseMember = (owner: JavaClassDeclaration) => {
+        const memberStart = p;
+        const javadoc = tokens[p].javadoc ?? '';
+
+        // Initializer blocks and stray semicolons
+        if (is(';')) {
+            p++;
+            return;
+        }
+        if (is('{') || (is('static') && is('{', 1))) {
+            if (is('static')) { p++; }
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const { modifiers, signatureStart } = parseModifiers();
+        const inInterface = owner.kind === 'interface' || owner.kind === 'annotation';
+        if (inInterface && !modifiers.includes('private') && !modifiers.includes('public')) { modifiers.unshift('public'); }
+
+        if (isClassStart()) {
+            if (inInterface && !modifiers.includes('static')) { modifiers.push('static'); }
+            owner.classes.push(parseClass(modifiers, javadoc, signatureStart, owner.qualifiedName));
+            return;
+        }
+
+        // Type parameters of a generic method or constructor
+        if (is('<')) { skipBalanced('<', '>'); }
+
+        // Compact canonical constructor of a record
+        if (is(owner.name) && is('{', 1)) {
+            p++;
+            skipBalanced('{', '}');
+            return;
+        }
+
+        const isConstructor = is(owner.name) && is('(', 1);
+        const type = isConstructor ? '' : readType();
+        if ((!isConstructor && !type) || !isWord()) {
+            // Not a declaration: skip to the end of whatever this is
+            while (p < tokens.length && !is(';') && !is('}') && !is('{')) { p++; }
+            if (is('{')) { skipBalanced('{', '}'); } else if (is(';')) { p++; }
+            if (p === memberStart) { p++; }
+            return;
+        }
+
+        let nameToken = tokens[p++];
+        if (is('(')) {
+            const { parameters, varargs } = parseParameters();
+            while (is('[') && is(']', 1)) { p += 2; }
+            // throws clause, or the default value of an annotation member
+            while (p < tokens.length && !is('{') && !is(';')) {
+                if (is('(')) { skipBalanced('(', ')'); } else { p++; }
+            }
+            const signature = joinJavaTokens(tokens, signatureStart, p);
+            if (is('{')) { skipBalanced('{', '}'); } else { p++; }
+
+            if (inInterface && !modifiers.includes('default') && !modifiers.includes('static') && !modifiers.includes('private')) {
+                modifiers.push('abstract');
+            }
+            owner.members.push({
+                kind: isConstructor ? 'constructor' : 'method', name: nameToken.text, modifiers, type,
+                parameters, varargs, signature, nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            return;
+        }
+
+        // Fields; interface fields are implicitly static final
+        if (inInterface) {
+            for (const implicit of ['static', 'final']) {
+                if (!modifiers.includes(implicit)) { modifiers.push(implicit); }
+            }
+        }
+        for (;;) {
+            let fieldType = type;
+            while (is('[') && is(']', 1)) {
+                fieldType += '[]';
+                p += 2;
+            }
+            owner.members.push({
+                kind: 'field', name: nameToken.text, modifiers, type: fieldType, parameters: [], varargs: false,
+                signature: [...modifiers, fieldType, nameToken.text].join(' '),
+                nameStart: nameToken.start, nameEnd: nameToken.end, javadoc
+            });
+            if (is('=')) { skipInitializer(); }
+            if (!is(',') || !isWord(1)) { break; }
+            p++;
+            nameToken = tokens[p++];
+        }
+        if (is(';')) { p++; }
+    };
+
+    const unit: JavaCompilationUnit = { packageName: '', imports: [], classes: [], lineStarts: [0] };
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') { unit.lineStarts.push(i + 1); }
+    }
+
+    while (p < tokens.length) {
+        if (is('package') || is('import')) {
+            const keyword = tokens[p++].text;
+            const start = p;
+            while (p < tokens.length && !is(';')) { p++; }
+            const name = joinJavaTokens(tokens, start, p).replace(/\s*\.\s*/g, '.');
+            if (keyword === 'package') { unit.packageName = name; } else { unit.imports.push(name); }
+            p++;
+            continue;
+        }
+
+        const start = p;
+        const javadoc = tokens[p].javadoc ?? '';
+        const { modifiers, signatureStart } = parseModifiers();
+        if (isClassStart()) {
+            unit.classes.push(parseClass(modifiers, javadoc, signatureStart, unit.packageName));
+        } else if (p === start) {
+            p++;
+        }
+    }
+    return unit;
+}
+
+/** Every class of a compilation unit, top-level classes first */
+function listJavaClasses(unit: JavaCompilationUnit): JavaClassDeclaration[] {
+    const classes = [...unit.classes];
+    for (let i = 0; i < classes.length; i++) {
+        classes.push(...classes[i].classes);
+    }
+    return classes;
+}
+
+/**
+ * The class an FQN names in a unit. Falls back to the simple name, for nested
+ * classes reached through their outer class's file and for simple-name lookups.
+ */
+function findClassDeclaration(unit: JavaCompilationUnit, fqn: string): JavaClassDeclaration | null {
+    const classes = listJavaClasses(unit);
+    const simpleName = fqn.split('.').pop()!;
+    return classes.find(c => c.qualifiedName === fqn) ?? classes.find(c => c.name === simpleName) ?? null;
+}
+
+/**
+ * The overload of a method (or constructor, by the class name) that best fits a
+ * call with paramCount arguments: exact arity, then varargs, then the closest arity.
+ */
+function findMethodDeclaration(decl: JavaClassDeclaration, methodName: string, paramCount: number): JavaMemberDeclaration | null {
+    let best: JavaMemberDeclaration | null = null;
+    let bestScore = Infinity;
+    for (const member of decl.members) {
+        if (member.kind === 'field' || member.name !== methodName) { continue; }
+        const count = member.parameters.length;
+        const score = count === paramCount ? 0
+            : member.varargs && paramCount >= count - 1 ? 1
+            : 2 + Math.abs(count - paramCount);
+        if (score < bestScore) {
+            best = member;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+const ORDER_SOURCE = `package com.acme.model;
+
+import java.util.*;
+import static java.lang.Math.max;
+
+/**
+ * An order.
+ */
+@Entity
+public class Order extends BaseEntity<Long> implements Serializable, Comparable<Order> {
+    private static final String OPEN = "{ not a body }";
+    public static final int MAX = 10, MIN = 1;
+    private Map<String, List<Integer>> totals = new HashMap<String, List<Integer>>(), other;
+    protected int[] codes = { 1, 2 };
+
+    static { System.out.println("class Fake { void oops() {} }"); }
+
+    public Order() { }
+
+    /** Format with a pattern. @param pattern the pattern */
+    @Deprecated
+    public String format(String pattern) { return "}"; }
+
+    public String format(String pattern, Object... args) {
+        Runnable r = new Runnable() { public void run() { } };
+        return pattern; // }
+    }
+
+    public <T extends Comparable<T>> T max(java.util.List<? extends T> items, final int limit) { return null; }
+
+    public static class Line {
+        public String format(Locale locale) { return ""; }
+    }
+
+    public enum Status {
+        /** Not paid yet */
+        OPEN("o"), PAID("p") { @Override public String toString() { return "paid"; } };
+        Status(String code) { }
+        public String code() { return ""; }
+    }
+}
+
+interface Priced {
+    double TAX = 0.2;
+    double price();
+    default double gross() { return price() * (1 + TAX); }
+}
+`;
+
+suite('Java Parser Tests', () => {
+
+    const unit = parseJavaSource(ORDER_SOURCE);
+    const order = unit.classes[0];
+
+    test('reads the package, imports and top-level classes', () => {
+        assert.strictEqual(unit.packageName, 'com.acme.model');
+        assert.deepStrictEqual(unit.imports, ['java.util.*', 'static java.lang.Math.max']);
+        assert.deepStrictEqual(unit.classes.map(c => c.qualifiedName), ['com.acme.model.Order', 'com.acme.model.Priced']);
+    });
+
+    test('keeps the supertypes, signature and Javadoc of a class', () => {
+        assert.strictEqual(order.superclass, 'BaseEntity<Long>');
+        assert.deepStrictEqual(order.interfaces, ['Serializable', 'Comparable<Order>']);
+        assert.strictEqual(order.signature, 'public class Order extends BaseEntity<Long> implements Serializable, Comparable<Order>');
+        assert.ok(order.javadoc.includes('An order.'));
+        assert.strictEqual(ORDER_SOURCE.substring(order.nameStart, order.nameEnd), 'Order');
+    });
+
+    test('braces in strings, comments and initializers do not end the class', () => {
+        const names = order.members.map(m => `${m.kind}:${m.name}`);
+        assert.deepStrictEqual(names, [
+            'field:OPEN', 'field:MAX', 'field:MIN', 'field:totals', 'field:other', 'field:codes',
+            'constructor:Order', 'method:format', 'method:format', 'method:max'
+        ]);
+    });
+
+    test('splits fields on declarators, not on commas inside initializers', () => {
+        const totals = order.members.find(m => m.name === 'totals')!;
+        const other = order.members.find(m => m.name === 'other')!;
+        assert.strictEqual(totals.type, 'Map<String, List<Integer>>');
+        assert.strictEqual(other.type, totals.type);
+        assert.deepStrictEqual(order.members.find(m => m.name === 'MIN')!.modifiers, ['public', 'static', 'final']);
+    });
+
+    test('reads parameters of overloads, varargs and generic methods', () => {
+        const [single, varargs] = order.members.filter(m => m.name === 'format');
+        assert.deepStrictEqual(single.parameters, [{ type: 'String', name: 'pattern' }]);
+        assert.strictEqual(varargs.varargs, true);
+        assert.deepStrictEqual(varargs.parameters.map(p => p.type), ['String', 'Object...']);
+
+        const max = order.members.find(m => m.name === 'max')!;
+        assert.strictEqual(max.type, 'T');
+        assert.deepStrictEqual(max.parameters, [
+            { type: 'java.util.List<? extends T>', name: 'items' },
+            { type: 'int', name: 'limit' }
+        ]);
+        assert.strictEqual(max.signature, 'public <T extends Comparable<T>> T max(java.util.List<? extends T> items, final int limit)');
+    });
+
+    test('attaches the Javadoc above annotations and leaves annotations out of the signature', () => {
+        const format = order.members.find(m => m.name === 'format')!;
+        assert.ok(format.javadoc.startsWith('/** Format with a pattern.'));
+        assert.strictEqual(format.signature, 'public String format(String pattern)');
+        assert.strictEqual(ORDER_SOURCE.substring(format.nameStart, format.nameEnd), 'format');
+    });
+
+    test('parses nested classes and enums', () => {
+        assert.deepStrictEqual(order.classes.map(c => c.qualifiedName), ['com.acme.model.Order.Line', 'com.acme.model.Order.Status']);
+        const status = order.classes[1];
+        assert.strictEqual(status.kind, 'enum');
+        const constants = status.members.filter(m => m.kind === 'field');
+        assert.deepStrictEqual(constants.map(c => c.name), ['OPEN', 'PAID']);
+        assert.strictEqual(constants[0].type, 'Status');
+        assert.ok(constants[0].javadoc.includes('Not paid yet'));
+        assert.deepStrictEqual(status.members.filter(m => m.kind !== 'field').map(m => m.name), ['Status', 'code']);
+    });
+
+    test('adds the implicit modifiers of interface members', () => {
+        const priced = unit.classes[1];
+        const [tax, price, gross] = priced.members;
+        assert.deepStrictEqual(tax.modifiers, ['public', 'static', 'final']);
+        assert.deepStrictEqual(price.modifiers, ['public', 'abstract']);
+        assert.deepStrictEqual(gross.modifiers, ['public', 'default']);
+    });
+
+    test('finds nested classes and the best overload', () => {
+        const line = findClassDeclaration(unit, 'com.acme.model.Order.Line')!;
+        assert.strictEqual(findMethodDeclaration(line, 'format', 1)!.parameters[0].type, 'Locale');
+        assert.strictEqual(findClassDeclaration(unit, 'Status')!.kind, 'enum');
+
+        assert.strictEqual(findMethodDeclaration(order, 'format', 1)!.varargs, false);
+        assert.strictEqual(findMethodDeclaration(order, 'format', 3)!.varargs, true);
+        assert.strictEqual(findMethodDeclaration(order, 'missing', 0), null);
+    });
+
+    test('text blocks, char literals and unterminated comments', () => {
+        const source = 'class A {\n    String s = """\n        } class B {\n        """;\n    char c = \'}\';\n    void run() {} /* }';
+        const [a] = parseJavaSource(source).classes;
+        assert.deepStrictEqual(a.members.map(m => m.name), ['s', 'c', 'run']);
+    });
+
+    test('records expose their components as accessors', () => {
+        const [point] = parseJavaSource('public record Point(int x, int y) implements Shape { public Point { } }').classes;
+        assert.strictEqual(point.kind, 'record');
+        assert.deepStrictEqual(point.interfaces, ['Shape']);
+        assert.deepStrictEqual(point.members.map(m => `${m.type} ${m.name}()`), ['int x()', 'int y()']);
+    });
+});
@@ -0,0 +1,585 @@
+/**
+ * Unit test: Validate the JSP tokenizer that backs DocumentCache in server.ts.
+ * Covers the cases the old regex scanning got wrong:
+ *   - "%>" inside Java string literals
+ *   - JSP comments containing scriptlet delimiters
+ *   - EL and expressions embedded in tag attribute values
+ *   - Unterminated scriptlets, comments, directives and EL
+ * Also covers the structure diagnostics built on it (delimiters and tag pairs).
+ */
+
+import * as assert from 'assert';
+
+// ── Replicate the tokenizer from server.ts ──────────────────────────────────
+
+type JspNodeKind = 'directive' | 'scriptlet' | 'expression' | 'declaration' | 'comment'
+    | 'action' | 'customTag' | 'el' | 'template';
+
+interface JspAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number; // first character inside the quotes
+    valueEnd: number;
+}
+
+interface JspNode {
+    kind: JspNodeKind;
+    start: number;
+    end: number;
+    contentStart: number; // Java code, EL body, comment text or tag/directive body
+    contentEnd: number;
+    closed: boolean; // false when the terminating delimiter is missing
+    name?: string; // directive name ("page") or tag name ("jsp:include", "c:forEach")
+    attributes?: JspAttribute[];
+    isEndTag?: boolean;
+    selfClosing?: boolean;
+    deferred?: boolean; // "#{...}" EL
+    children?: JspNode[]; // expressions and EL embedded in attribute values
+}
+
+/** Directive, standard action or custom tag prefix (e.g. "<jsp:include", "</c:forEach") */
+const JSP_TAG_START_RE = /<(\/?)([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)(?=[\s/>]|$)/y;
+const ATTRIBUTE_NAME_RE = /[A-Za-z_:][\w:.-]*/y;
+
+/**
+ * Split a page into its JSP constructs. Every offset is absolute in the document text.
+ * Template HTML is kept as 'template' nodes so the list covers the whole page.
+ */
+function tokenizeJsp(text: string): JspNode[] {
+    const nodes: JspNode[] = [];
+    let templateStart = 0;
+    let i = 0;
+
+    const flushTemplate = (upTo: number) => {
+        if (upTo > templateStart) {
+            nodes.push({ kind: 'template', start: templateStart, end: upTo, contentStart: templateStart, contentEnd: upTo, closed: true });
+        }
+    };
+
+    while (i < text.length) {
+        let node: JspNode | null = null;
+        const ch = text[i];
+
+        if (ch === '<') {
+            if (text.startsWith('<%', i)) {
+                node = scanScriptingElement(text, i);
+            } else {
+                node = scanJspTag(text, i);
+            }
+        } else if (isElStart(text, i)) {
+            node = scanEl(text, i);
+        }
+
+        if (node) {
+            flushTemplate(i);
+            nodes.push(node);
+            i = node.end;
+            templateStart = i;
+        } else {
+            i++;
+        }
+    }
+    flushTemplate(text.length);
+
+    return nodes;
+}
+
+function isElStart(text: string, i: number): boolean {
+    return (text[i] === '$' || text[i] === '#') && text[i + 1] === '{' && text[i - 1] !== '\\';
+}
+
+/**
+ * Scan a JSP comment, directive, scriptlet, expression or declaration starting at "<%".
+ */
+function scanScriptingElement(text: string, start: number): JspNode {
+    if (text.startsWith('<%--', start)) {
+        const close = text.indexOf('--%>', start + 4);
+        const closed = close !== -1;
+        return {
+            kind: 'comment', start, end: closed ? close + 4 : text.length,
+            contentStart: start + 4, contentEnd: closed ? close : text.length, closed
+        };
+    }
+
+    if (text[start + 2] === '@') {
+        let nameStart = start + 3;
+        while (nameStart < text.length && /\s/.test(text[nameStart])) { nameStart++; }
+        let nameEnd = nameStart;
+        while (nameEnd < text.length && /[\w.]/.test(text[nameEnd])) { nameEnd++; }
+
+        const scan = scanAttributes(text, nameEnd, true);
+        return {
+            kind: 'directive', start, end: scan.end,
+            contentStart: start + 3, contentEnd: scan.closed ? scan.end - 2 : scan.end, closed: scan.closed,
+            name: text.substring(nameStart, nameEnd), attributes: scan.attributes, children: scan.children
+        };
+    }
+
+    const marker = text[start + 2];
+    const kind: JspNodeKind = marker === '!' ? 'declaration' : marker === '=' ? 'expression' : 'scriptlet';
+    const contentStart = start + (kind === 'scriptlet' ? 2 : 3);
+    const close = findJavaCodeEnd(text, contentStart);
+    const closed = close !== -1;
+
+    return {
+        kind, start, end: closed ? close + 2 : text.length,
+        contentStart, contentEnd: closed ? close : text.length, closed
+    };
+}
+
+/**
+ * Find the "%>" that terminates a Java code block, skipping string and char literals.
+ * Returns -1 when the block is never closed.
+ */
+function findJavaCodeEnd(text: string, from: number): number {
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            // Literals cannot span lines, which keeps a stray quote from eating the page
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '%' && text[i + 1] === '>') { return i; }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Scan an EL expression "${...}" or "#{...}", honouring nested braces and EL string literals.
+ * An unterminated expression only extends to the end of its line.
+ */
+function scanEl(text: string, start: number): JspNode {
+    let depth = 0;
+    let i = start + 2;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            if (depth === 0) {
+                return {
+                    kind: 'el', start, end: i + 1, contentStart: start + 2, contentEnd: i,
+                    closed: true, deferred: text[start] === '#'
+                };
+            }
+            depth--;
+        }
+        i++;
+    }
+
+    const lineEnd = text.indexOf('\n', start);
+    const end = lineEnd === -1 ? text.length : lineEnd;
+    return { kind: 'el', start, end, contentStart: start + 2, contentEnd: end, closed: false, deferred: text[start] === '#' };
+}
+
+/**
+ * Scan a standard action ("jsp:*") or custom tag ("prefix:name") start or end tag.
+ * Returns null when the "<" does not open a prefixed tag (plain HTML stays template text).
+ */
+function scanJspTag(text: string, start: number): JspNode | null {
+    JSP_TAG_START_RE.lastIndex = start;
+    const m = JSP_TAG_START_RE.exec(text);
+    if (!m) { return null; }
+
+    const contentStart = start + m[0].length;
+    const scan = scanAttributes(text, contentStart, false);
+    const contentEnd = scan.closed ? scan.end - (scan.selfClosing ? 2 : 1) : scan.end;
+
+    return {
+        kind: m[2] === 'jsp' ? 'action' : 'customTag',
+        start, end: scan.end, contentStart, contentEnd, closed: scan.closed,
+        name: `${m[2]}:${m[3]}`, attributes: scan.attributes, children: scan.children,
+        isEndTag: m[1] === '/', selfClosing: scan.selfClosing
+    };
+}
+
+interface AttributeScan {
+    attributes: JspAttribute[];
+    /** Expressions and EL embedded in attribute values */
+    children: JspNode[];
+    /** Offset just past the terminator, or where scanning gave up */
+    end: number;
+    closed: boolean;
+    selfClosing: boolean;
+}
+
+/**
+ * Scan name="value" pairs up to "%>" (directives) or ">" / "/>" (tags).
+ * A "<" outside a quoted value means the element was never terminated.
+ */
+function scanAttributes(text: string, from: number, directive: boolean): AttributeScan {
+    const attributes: JspAttribute[] = [];
+    const children: JspNode[] = [];
+    const result = (end: number, closed: boolean, selfClosing: boolean = false): AttributeScan =>
+        ({ attributes, children, end, closed, selfClosing });
+
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (directive && text.startsWith('%>', i)) { return result(i + 2, true); }
+        if (!directive && ch === '>') { return result(i + 1, true); }
+        if (!directive && text.startsWith('/>', i)) { return result(i + 2, true, true); }
+        if (ch === '<') { return result(i, false); }
+
+        ATTRIBUTE_NAME_RE.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME_RE.exec(text);
+        if (!nameMatch) { i++; continue; }
+
+        const attr: JspAttribute = {
+            name: nameMatch[0], value: '', nameStart: i,
+            valueStart: i + nameMatch[0].length, valueEnd: i + nameMatch[0].length
+        };
+        attributes.push(attr);
+        i += nameMatch[0].length;
+
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+        if (text[j] !== '=') { continue; }
+        j++;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+
+        const quote = text[j];
+        if (quote === '"' || quote === "'") {
+            let k = j + 1;
+            while (k < text.length && text[k] !== quote) {
+                if (text.startsWith('<%', k)) {
+                    const child = scanScriptingElement(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else if (isElStart(text, k)) {
+                    const child = scanEl(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else {
+                    k++;
+                }
+            }
+            attr.valueStart = j + 1;
+            attr.valueEnd = Math.min(k, text.length);
+            attr.value = text.substring(attr.valueStart, attr.valueEnd);
+            if (k >= text.length) { return result(text.length, false); }
+            i = k + 1;
+        } else {
+            let k = j;
+            while (k < text.length && !/[\s>]/.test(text[k]) && !text.startsWith('%>', k)) { k++; }
+            attr.valueStart = j;
+            attr.valueEnd = k;
+            attr.value = text.substring(j, k);
+            i = k;
+        }
+    }
+
+    return result(text.length, false);
+}
+
+function isJavaNode(node: JspNode | undefined): boolean {
+    return !!node && (node.kind === 'scriptlet' || node.kind === 'expression' || node.kind === 'declaration');
+}
+
+function nodeContains(node: JspNode, offset: number): boolean {
+    // Unterminated nodes also own the position right after their last character
+    return offset >= node.start && (offset < node.end || (!node.closed && offset === node.end));
+}
+
+/** Find the top-level node at an offset */
+function findTopLevelNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    let lo = 0;
+    let hi = nodes.length - 1;
+    let candidate = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (nodes[mid].start <= offset) {
+            candidate = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    if (candidate === -1) { return undefined; }
+
+    const node = nodes[candidate];
+    return nodeContains(node, offset) ? node : undefined;
+}
+
+/**
+ * Find the innermost node at an offset, descending into expressions and EL
+ * embedded in tag attribute values.
+ */
+function findNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    const node = findTopLevelNodeAt(nodes, offset);
+    if (!node) { return undefined; }
+
+    const child = node.children?.find(c => nodeContains(c, offset));
+    return child ?? node;
+}
+
+function getAttribute(node: JspNode, name: string): JspAttribute | undefined {
+    return node.attributes?.find(a => a.name === name);
+}
+
+// ── Replicate the structure diagnostics (offsets instead of LSP ranges) ─────
+
+interface StructureProblem {
+    start: number;
+    end: number;
+    message: string;
+}
+
+/** Opening delimiters and the terminator each scripting element needs */
+const UNTERMINATED_MESSAGES: Partial<Record<JspNodeKind, { open: number; message: string }>> = {
+    scriptlet: { open: 2, message: "Unterminated scriptlet: missing '%>'" },
+    expression: { open: 3, message: "Unterminated expression: missing '%>'" },
+    declaration: { open: 3, message: "Unterminated declaration: missing '%>'" },
+    comment: { open: 4, message: "Unterminated JSP comment: missing '--%>'" },
+    directive: { open: 3, message: "Unterminated directive: missing '%>'" },
+    el: { open: 2, message: "Unterminated EL expression: missing '}'" },
+};
+
+/**
+ * Prefixes whose tags are JSP elements: "jsp" and those declared by taglib directives.
+ * Other prefixed tags (<o:p>, <svg:rect>) are template text.
+ */
+function getDeclaredTagPrefixes(pages: JspNode[][]): Set<string> {
+    const prefixes = new Set(['jsp']);
+    for (const nodes of pages) {
+        for (const node of nodes) {
+            const prefix = node.kind === 'directive' && node.name === 'taglib' ? getAttribute(node, 'prefix')?.value : undefined;
+            if (prefix) { prefixes.add(prefix); }
+        }
+    }
+    return prefixes;
+}
+
+/**
+ * Report unbalanced JSP delimiters and mismatched jsp:* / custom tag pairs. A fragment
+ * may use the prefixes declared by the pages that include it.
+ */
+function collectStructureProblems(text: string, includers: string[] = []): StructureProblem[] {
+    const nodes = tokenizeJsp(text);
+    const problems: StructureProblem[] = [];
+    const prefixes = getDeclaredTagPrefixes([nodes, ...includers.map(tokenizeJsp)]);
+    const report = (start: number, end: number, message: string) => {
+        problems.push({ start, end, message });
+    };
+
+    // Tag name range: "<c:out" / "</c:out" without the brackets
+    const reportTag = (node: JspNode, message: string) => {
+        const nameStart = node.start + (node.isEndTag ? 2 : 1);
+        report(nameStart, nameStart + node.name!.length, message);
+    };
+
+    const openTags: JspNode[] = [];
+
+    for (const node of nodes) {
+        for (const element of [node, ...(node.children ?? [])]) {
+            const unterminated = UNTERMINATED_MESSAGES[element.kind];
+            if (unterminated && !element.closed) {
+                report(element.start, element.start + unterminated.open, unterminated.message);
+            }
+        }
+
+        if (node.kind === 'template') {
+            // A "%>" in template text has no opening delimiter
+            let idx = text.indexOf('%>', node.start);
+            while (idx !== -1 && idx < node.end - 1) {
+                report(idx, idx + 2, "Unexpected '%>' without a matching '<%'");
+                idx = text.indexOf('%>', idx + 2);
+            }
+            continue;
+        }
+
+        if (node.kind !== 'action' && node.kind !== 'customTag') { continue; }
+        if (!prefixes.has(node.name!.split(':')[0])) { continue; }
+
+        if (!node.closed) {
+            reportTag(node, `Tag <${node.isEndTag ? '/' : ''}${node.name}> is missing '>'`);
+            continue;
+        }
+
+        if (node.selfClosing) { continue; }
+
+        if (!node.isEndTag) {
+            openTags.push(node);
+            continue;
+        }
+
+        const matchIdx = openTags.map(t => t.name).lastIndexOf(node.name);
+        if (matchIdx === -1) {
+            reportTag(node, `Closing tag </${node.name}> has no matching opening tag`);
+            continue;
+        }
+
+        // Everything opened after the match was never closed
+        const [, ...unclosedTags] = openTags.splice(matchIdx);
+        for (const unclosed of unclosedTags) {
+            reportTag(unclosed, `Tag <${unclosed.name}> is not closed before </${node.name}>`);
+        }
+    }
+
+    for (const unclosed of openTags) {
+        reportTag(unclosed, `Tag <${unclosed.name}> has no closing tag`);
+    }
+
+    return problems;
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('JSP Tokenizer Tests', () => {
+
+    test('splits directives, scriptlets, expressions and template text', () => {
+        const text = '<%@ page import="java.util.List" %>\n<p><%= name %></p>\n<% int x = 1; %>';
+        const kinds = tokenizeJsp(text).map(n => n.kind);
+        assert.deepStrictEqual(kinds, ['directive', 'template', 'expression', 'template', 'scriptlet']);
+    });
+
+    test('keeps offsets of directive attributes', () => {
+        const text = '<%@ page import="java.util.List, java.util.Map" %>';
+        const [directive] = tokenizeJsp(text);
+        assert.strictEqual(directive.name, 'page');
+        const attr = directive.attributes!.find(a => a.name === 'import')!;
+        assert.strictEqual(text.substring(attr.valueStart, attr.valueEnd), 'java.util.List, java.util.Map');
+    });
+
+    test('"%>" inside a Java string does not end the scriptlet', () => {
+        const text = '<% String s = "50%> done"; %><b>after</b>';
+        const nodes = tokenizeJsp(text);
+        assert.strictEqual(nodes[0].kind, 'scriptlet');
+        assert.strictEqual(text.substring(nodes[0].contentStart, nodes[0].contentEnd), ' String s = "50%> done"; ');
+        assert.strictEqual(nodes[1].kind, 'template');
+    });
+
+    test('JSP comments swallow scriptlet delimiters', () => {
+        const text = '<%-- <% broken %> ${x} --%>ok';
+        const nodes = tokenizeJsp(text);
+        assert.strictEqual(nodes.length, 2);
+        assert.strictEqual(nodes[0].kind, 'comment');
+        assert.ok(nodes[0].closed);
+    });
+
+    test('recognises actions, custom tags and embedded EL', () => {
+        const text = '<jsp:include page="/menu.jsp"/><c:forEach items="${list}" var="item"></c:forEach>';
+        const nodes = tokenizeJsp(text);
+        assert.strictEqual(nodes[0].kind, 'action');
+        assert.strictEqual(nodes[0].name, 'jsp:include');
+        assert.ok(nodes[0].selfClosing);
+        assert.strictEqual(nodes[1].kind, 'customTag');
+        assert.strictEqual(nodes[1].children!.length, 1);
+        assert.strictEqual(nodes[1].children![0].kind, 'el');
+        assert.ok(nodes[2].isEndTag);
+
+        const offsetInEl = text.indexOf('list');
+        assert.strictEqual(findNodeAt(nodes, offsetInEl)!.kind, 'el');
+    });
+
+    test('quotes inside an attribute expression do not end the value', () => {
+        const text = '<c:out value="<%= map.get("k") %>"/>';
+        const [tag] = tokenizeJsp(text);
+        assert.ok(tag.closed);
+        assert.strictEqual(tag.children![0].kind, 'expression');
+    });
+
+    test('EL handles nested braces and strings', () => {
+        const text = 'a ${fn:join(list, "}")} b #{bean.value}';
+        const els = tokenizeJsp(text).filter(n => n.kind === 'el');
+        assert.strictEqual(els.length, 2);
+        assert.strictEqual(text.substring(els[0].contentStart, els[0].contentEnd), 'fn:join(list, "}")');
+        assert.ok(els[1].deferred);
+    });
+
+    test('escaped EL stays template text', () => {
+        const nodes = tokenizeJsp('\\${notEl}');
+        assert.deepStrictEqual(nodes.map(n => n.kind), ['template']);
+    });
+
+    test('reports unterminated constructs', () => {
+        assert.ok(!tokenizeJsp('<% int x = 1;')[0].closed);
+        assert.ok(!tokenizeJsp('<%-- never closed')[0].closed);
+
+        const directive = tokenizeJsp('<%@ page import="a.B"\n<html>')[0];
+        assert.ok(!directive.closed);
+        assert.strictEqual(directive.end, directive.start + '<%@ page import="a.B"\n'.length);
+
+        const el = tokenizeJsp('${user.name\n<p>')[0];
+        assert.ok(!el.closed);
+        assert.strictEqual(el.end, '${user.name'.length);
+    });
+
+    test('plain HTML tags are template text', () => {
+        const nodes = tokenizeJsp('<div class="x"><a href="#">link</a></div>');
+        assert.deepStrictEqual(nodes.map(n => n.kind), ['template']);
+    });
+
+    test('an unclosed quote in EL stops at the end of its line', () => {
+        const text = '${a == "x}\n<p>${b}</p>';
+        const els = tokenizeJsp(text).filter(n => n.kind === 'el');
+        assert.strictEqual(els.length, 2);
+        assert.ok(!els[0].closed);
+        assert.strictEqual(els[0].end, text.indexOf('\n'));
+        assert.ok(els[1].closed);
+        assert.strictEqual(text.substring(els[1].contentStart, els[1].contentEnd), 'b');
+    });
+});
+
+suite('JSP Structure Diagnostics Tests', () => {
+
+    const messages = (text: string, includers?: string[]) => collectStructureProblems(text, includers).map(p => p.message);
+
+    test('balanced pages have no problems', () => {
+        const text = '<%@ taglib prefix="c" uri="http://java.sun.com/jsp/jstl/core" %>\n'
+            + '<c:forEach items="${list}" var="i"><c:out value="${i}"/></c:forEach>\n'
+            + '<jsp:include page="menu.jsp"/>';
+        assert.deepStrictEqual(messages(text), []);
+    });
+
+    test('reports unterminated scripting elements and stray "%>"', () => {
+        assert.deepStrictEqual(messages('<p>50%></p>'), ["Unexpected '%>' without a matching '<%'"]);
+        const [problem] = collectStructureProblems('<p>${user.name\n</p>');
+        assert.strictEqual(problem.message, "Unterminated EL expression: missing '}'");
+        assert.deepStrictEqual([problem.start, problem.end], [3, 5]);
+    });
+
+    test('reports mismatched tag pairs on the tag name', () => {
+        const text = '<%@ taglib prefix="c" uri="u" %><c:if test="${x}"><c:forEach items="${l}"></c:if></c:choose>';
+        const problems = collectStructureProblems(text);
+        assert.deepStrictEqual(problems.map(p => p.message), [
+            'Tag <c:forEach> is not closed before </c:if>',
+            'Closing tag </c:choose> has no matching opening tag'
+        ]);
+        assert.strictEqual(text.substring(problems[0].start, problems[0].end), 'c:forEach');
+    });
+
+    test('reports unclosed and unterminated tags', () => {
+        assert.deepStrictEqual(messages('<jsp:body>text'), ['Tag <jsp:body> has no closing tag']);
+        assert.deepStrictEqual(messages('<jsp:include page="a.jsp"\n<p>'), ["Tag <jsp:include> is missing '>'"]);
+    });
+
+    test('tags with undeclared prefixes are template text', () => {
+        assert.deepStrictEqual(messages('<p>Word <o:p></o:p><svg:svg><svg:rect/></p>'), []);
+        assert.deepStrictEqual(messages('<c:if test="${x}">'), []);
+    });
+
+    test('fragments use the prefixes declared by their includers', () => {
+        const includer = '<%@ taglib prefix="c" uri="u" %><%@ include file="frag.jspf" %>';
+        assert.deepStrictEqual(messages('<c:if test="${x}">', [includer]), ['Tag <c:if> has no closing tag']);
+    });
+});
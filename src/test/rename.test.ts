@@ -0,0 +1,667 @@
+/**
+ * Unit test: Validate the rename rules in server.ts:
+ *   - Java variable occurrences across scriptlets, skipping member accesses and calls
+ *   - JavaScript function occurrences in inline scripts and event handlers
+ *   - The names prepareRename refuses: implicit objects, jsp:useBean ids, members,
+ *     undeclared or redeclared variables, fragments and functions declared elsewhere
+ */
+
+import * as assert from 'assert';
+
+// ── Replicate the types / helpers from server.ts ────────────────────────────
+
+interface VariableDeclaration {
+    name: string;
+    type: string;
+    offset: number; // position of the variable name in the document
+}
+
+type JspNodeKind = 'directive' | 'scriptlet' | 'expression' | 'declaration' | 'comment'
+    | 'action' | 'customTag' | 'el' | 'template';
+
+interface JspAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number; // first character inside the quotes
+    valueEnd: number;
+}
+
+interface JspNode {
+    kind: JspNodeKind;
+    start: number;
+    end: number;
+    contentStart: number; // Java code, EL body, comment text or tag/directive body
+    contentEnd: number;
+    closed: boolean; // false when the terminating delimiter is missing
+    name?: string; // directive name ("page") or tag name ("jsp:include", "c:forEach")
+    attributes?: JspAttribute[];
+    isEndTag?: boolean;
+    selfClosing?: boolean;
+    deferred?: boolean; // "#{...}" EL
+    children?: JspNode[]; // expressions and EL embedded in attribute values
+}
+
+/** Directive, standard action or custom tag prefix (e.g. "<jsp:include", "</c:forEach") */
+const JSP_TAG_START_RE = /<(\/?)([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)(?=[\s/>]|$)/y;
+const ATTRIBUTE_NAME_RE = /[A-Za-z_:][\w:.-]*/y;
+
+/**
+ * Split a page into its JSP constructs. Every offset is absolute in the document text.
+ * Template HTML is kept as 'template' nodes so the list covers the whole page.
+ */
+function tokenizeJsp(text: string): JspNode[] {
+    const nodes: JspNode[] = [];
+    let templateStart = 0;
+    let i = 0;
+
+    const flushTemplate = (upTo: number) => {
+        if (upTo > templateStart) {
+            nodes.push({ kind: 'template', start: templateStart, end: upTo, contentStart: templateStart, contentEnd: upTo, closed: true });
+        }
+    };
+
+    while (i < text.length) {
+        let node: JspNode | null = null;
+        const ch = text[i];
+
+        if (ch === '<') {
+            if (text.startsWith('<%', i)) {
+                node = scanScriptingElement(text, i);
+            } else {
+                node = scanJspTag(text, i);
+            }
+        } else if (isElStart(text, i)) {
+            node = scanEl(text, i);
+        }
+
+        if (node) {
+            flushTemplate(i);
+            nodes.push(node);
+            i = node.end;
+            templateStart = i;
+        } else {
+            i++;
+        }
+    }
+    flushTemplate(text.length);
+
+    return nodes;
+}
+
+function isElStart(text: string, i: number): boolean {
+    return (text[i] === '$' || text[i] === '#') && text[i + 1] === '{' && text[i - 1] !== '\\';
+}
+
+/**
+ * Scan a JSP comment, directive, scriptlet, expression or declaration starting at "<%".
+ */
+function scanScriptingElement(text: string, start: number): JspNode {
+    if (text.startsWith('<%--', start)) {
+        const close = text.indexOf('--%>', start + 4);
+        const closed = close !== -1;
+        return {
+            kind: 'comment', start, end: closed ? close + 4 : text.length,
+            contentStart: start + 4, contentEnd: closed ? close : text.length, closed
+        };
+    }
+
+    if (text[start + 2] === '@') {
+        let nameStart = start + 3;
+        while (nameStart < text.length && /\s/.test(text[nameStart])) { nameStart++; }
+        let nameEnd = nameStart;
+        while (nameEnd < text.length && /[\w.]/.test(text[nameEnd])) { nameEnd++; }
+
+        const scan = scanAttributes(text, nameEnd, true);
+        return {
+            kind: 'directive', start, end: scan.end,
+            contentStart: start + 3, contentEnd: scan.closed ? scan.end - 2 : scan.end, closed: scan.closed,
+            name: text.substring(nameStart, nameEnd), attributes: scan.attributes, children: scan.children
+        };
+    }
+
+    const marker = text[start + 2];
+    const kind: JspNodeKind = marker === '!' ? 'declaration' : marker === '=' ? 'expression' : 'scriptlet';
+    const contentStart = start + (kind === 'scriptlet' ? 2 : 3);
+    const close = findJavaCodeEnd(text, contentStart);
+    const closed = close !== -1;
+
+    return {
+        kind, start, end: closed ? close + 2 : text.length,
+        contentStart, contentEnd: closed ? close : text.length, closed
+    };
+}
+
+/**
+ * Find the "%>" that terminates a Java code block, skipping string and char literals.
+ * Returns -1 when the block is never closed.
+ */
+function findJavaCodeEnd(text: string, from: number): number {
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            // Literals cannot span lines, which keeps a stray quote from eating the page
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '%' && text[i + 1] === '>') { return i; }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Scan an EL expression "${...}" or "#{...}", honouring nested braces and EL string literals.
+ * An unterminated expression only extends to the end of its line.
+ */
+function scanEl(text: string, start: number): JspNode {
+    let depth = 0;
+    let i = start + 2;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            if (depth === 0) {
+                return {
+                    kind: 'el', start, end: i + 1, contentStart: start + 2, contentEnd: i,
+                    closed: true, deferred: text[start] === '#'
+                };
+            }
+            depth--;
+        }
+        i++;
+    }
+
+    const lineEnd = text.indexOf('\n', start);
+    const end = lineEnd === -1 ? text.length : lineEnd;
+    return { kind: 'el', start, end, contentStart: start + 2, contentEnd: end, closed: false, deferred: text[start] === '#' };
+}
+
+/**
+ * Scan a standard action ("jsp:*") or custom tag ("prefix:name") start or end tag.
+ * Returns null when the "<" does not open a prefixed tag (plain HTML stays template text).
+ */
+function scanJspTag(text: string, start: number): JspNode | null {
+    JSP_TAG_START_RE.lastIndex = start;
+    const m = JSP_TAG_START_RE.exec(text);
+    if (!m) { return null; }
+
+    const contentStart = start + m[0].length;
+    const scan = scanAttributes(text, contentStart, false);
+    const contentEnd = scan.closed ? scan.end - (scan.selfClosing ? 2 : 1) : scan.end;
+
+    return {
+        kind: m[2] === 'jsp' ? 'action' : 'customTag',
+        start, end: scan.end, contentStart, contentEnd, closed: scan.closed,
+        name: `${m[2]}:${m[3]}`, attributes: scan.attributes, children: scan.children,
+        isEndTag: m[1] === '/', selfClosing: scan.selfClosing
+    };
+}
+
+interface AttributeScan {
+    attributes: JspAttribute[];
+    /** Expressions and EL embedded in attribute values */
+    children: JspNode[];
+    /** Offset just past the terminator, or where scanning gave up */
+    end: number;
+    closed: boolean;
+    selfClosing: boolean;
+}
+
+/**
+ * Scan name="value" pairs up to "%>" (directives) or ">" / "/>" (tags).
+ * A "<" outside a quoted value means the element was never terminated.
+ */
+function scanAttributes(text: string, from: number, directive: boolean): AttributeScan {
+    const attributes: JspAttribute[] = [];
+    const children: JspNode[] = [];
+    const result = (end: number, closed: boolean, selfClosing: boolean = false): AttributeScan =>
+        ({ attributes, children, end, closed, selfClosing });
+
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (directive && text.startsWith('%>', i)) { return result(i + 2, true); }
+        if (!directive && ch === '>') { return result(i + 1, true); }
+        if (!directive && text.startsWith('/>', i)) { return result(i + 2, true, true); }
+        if (ch === '<') { return result(i, false); }
+
+        ATTRIBUTE_NAME_RE.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME_RE.exec(text);
+        if (!nameMatch) { i++; continue; }
+
+        const attr: JspAttribute = {
+            name: nameMatch[0], value: '', nameStart: i,
+            valueStart: i + nameMatch[0].length, valueEnd: i + nameMatch[0].length
+        };
+        attributes.push(attr);
+        i += nameMatch[0].length;
+
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+        if (text[j] !== '=') { continue; }
+        j++;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+
+        const quote = text[j];
+        if (quote === '"' || quote === "'") {
+            let k = j + 1;
+            while (k < text.length && text[k] !== quote) {
+                if (text.startsWith('<%', k)) {
+                    const child = scanScriptingElement(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else if (isElStart(text, k)) {
+                    const child = scanEl(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else {
+                    k++;
+                }
+            }
+            attr.valueStart = j + 1;
+            attr.valueEnd = Math.min(k, text.length);
+            attr.value = text.substring(attr.valueStart, attr.valueEnd);
+            if (k >= text.length) { return result(text.length, false); }
+            i = k + 1;
+        } else {
+            let k = j;
+            while (k < text.length && !/[\s>]/.test(text[k]) && !text.startsWith('%>', k)) { k++; }
+            attr.valueStart = j;
+            attr.valueEnd = k;
+            attr.value = text.substring(j, k);
+            i = k;
+        }
+    }
+
+    return result(text.length, false);
+}
+
+function isJavaNode(node: JspNode | undefined): boolean {
+    return !!node && (node.kind === 'scriptlet' || node.kind === 'expression' || node.kind === 'declaration');
+}
+
+function nodeContains(node: JspNode, offset: number): boolean {
+    // Unterminated nodes also own the position right after their last character
+    return offset >= node.start && (offset < node.end || (!node.closed && offset === node.end));
+}
+
+/** Find the top-level node at an offset */
+function findTopLevelNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    let lo = 0;
+    let hi = nodes.length - 1;
+    let candidate = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (nodes[mid].start <= offset) {
+            candidate = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    if (candidate === -1) { return undefined; }
+
+    const node = nodes[candidate];
+    return nodeContains(node, offset) ? node : undefined;
+}
+
+/**
+ * Find the innermost node at an offset, descending into expressions and EL
+ * embedded in tag attribute values.
+ */
+function findNodeAt(nodes: JspNode[], offset: number): JspNode | undefined {
+    const node = findTopLevelNodeAt(nodes, offset);
+    if (!node) { return undefined; }
+
+    const child = node.children?.find(c => nodeContains(c, offset));
+    return child ?? node;
+}
+
+/** Java code blocks, including <%= %> expressions embedded in tag attributes */
+function getJavaNodes(nodes: JspNode[]): JspNode[] {
+    const result: JspNode[] = [];
+    for (const node of nodes) {
+        if (isJavaNode(node)) {
+            result.push(node);
+        } else if (node.children) {
+            result.push(...node.children.filter(isJavaNode));
+        }
+    }
+    return result;
+}
+
+function getAttribute(node: JspNode, name: string): JspAttribute | undefined {
+    return node.attributes?.find(a => a.name === name);
+}
+
+/** Replace matches with spaces so offsets into the original text stay valid */
+function blankOut(text: string, re: RegExp): string {
+    return text.replace(re, m => m.replace(/[^\n]/g, ' '));
+}
+
+/** String/char literals and comments, blanked out before scanning Java code */
+const JAVA_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+const JAVA_NON_TYPE_KEYWORDS = new Set([
+    'return', 'new', 'throw', 'throws', 'else', 'case', 'if', 'while', 'for', 'switch', 'catch', 'synchronized',
+    'instanceof', 'import', 'package', 'extends', 'implements', 'do', 'try', 'finally', 'default', 'assert', 'yield'
+]);
+
+function parseVariableDeclarations(text: string, nodes: JspNode[]): VariableDeclaration[] {
+    const declarations: VariableDeclaration[] = [];
+
+    for (const node of getJavaNodes(nodes)) {
+        const content = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+
+        // Type var = ..., Type var;, for (Type var : ...), catch (Type var), method parameters
+        const declRe = /(?<![\w$.])((?:[A-Za-z_$][\w$]*\s*\.\s*)*[A-Za-z_$][\w$]*(?:\s*<[^;=(){}]*?>)?(?:\s*\[\s*\])*)\s+([a-z_$][\w$]*)\s*(?=[=;,:)])/g;
+        let m;
+        while ((m = declRe.exec(content)) !== null) {
+            const type = m[1].replace(/\s+/g, ' ').replace(/\s*([.<>[\],])\s*/g, '$1').replace(/,/g, ', ');
+            const firstWord = type.split(/[.<[]/)[0];
+            if (JAVA_NON_TYPE_KEYWORDS.has(firstWord) || JAVA_NON_TYPE_KEYWORDS.has(m[2])) { continue; }
+            const offset = node.contentStart + m.index + m[0].lastIndexOf(m[2]);
+            declarations.push({ name: m[2], type, offset });
+        }
+    }
+
+    // <jsp:useBean id="cart" class="com.acme.Cart"/>: type= wins over class=, beanName= names a class too
+    for (const node of nodes) {
+        if (node.kind !== 'action' || node.name !== 'jsp:useBean') { continue; }
+        const id = getAttribute(node, 'id');
+        const type = getAttribute(node, 'type') ?? getAttribute(node, 'class') ?? getAttribute(node, 'beanName');
+        if (id?.value && type?.value && !/[$#]\{|<%/.test(type.value)) {
+            declarations.push({ name: id.value, type: type.value.trim(), offset: id.valueStart });
+        }
+    }
+    declarations.sort((a, b) => a.offset - b.offset);
+
+    return declarations;
+}
+
+/** Build regex patterns for matching JS function/method definitions */
+function buildJsFunctionPatterns(functionName: string): RegExp[] {
+    const escaped = functionName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return [
+        // function functionName(...)
+        new RegExp(`\\bfunction\\s+${escaped}\\s*\\(`),
+        // var/let/const functionName = function(...)
+        new RegExp(`\\b(?:var|let|const)\\s+${escaped}\\s*=\\s*function\\s*\\(`),
+        // functionName: function(...)
+        new RegExp(`\\b${escaped}\\s*:\\s*function\\s*\\(`),
+        // const/let/var functionName = (...) =>
+        new RegExp(`\\b(?:const|let|var)\\s+${escaped}\\s*=\\s*(?:\\([^)]*\\)|[A-Za-z_$][A-Za-z0-9_$]*)\\s*=>`),
+        // Object shorthand method: functionName(...) { (inside object/class)
+        new RegExp(`\\b${escaped}\\s*\\([^)]*\\)\\s*\\{`),
+        // Prototype: Something.prototype.functionName = function
+        new RegExp(`\\.prototype\\.${escaped}\\s*=\\s*function`),
+        // Static-like: Something.functionName = function
+        new RegExp(`\\w+\\.${escaped}\\s*=\\s*function`),
+        // export function / export default function
+        new RegExp(`\\bexport\\s+(?:default\\s+)?function\\s+${escaped}\\s*\\(`),
+        // export const/let/var functionName =
+        new RegExp(`\\bexport\\s+(?:const|let|var)\\s+${escaped}\\s*=`),
+    ];
+}
+
+const JAVA_RESERVED_WORDS = new Set([
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+    'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+    'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+    'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+    'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null', 'var'
+]);
+
+const JS_RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+    'export', 'extends', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new',
+    'return', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+    'true', 'false', 'null', 'undefined'
+]);
+
+/** JavaScript string literals and comments, blanked out before scanning scripts */
+const JS_LITERALS_AND_COMMENTS_RE = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+
+/** Offsets of name in a piece of code, skipping member accesses (x.name) */
+function findIdentifierOccurrences(code: string, name: string, skipCalls: boolean): number[] {
+    const occurrences: number[] = [];
+    const re = new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+    let m;
+    while ((m = re.exec(code)) !== null) {
+        if (skipCalls && /^\s*\(/.test(code.substring(m.index + name.length))) { continue; }
+        occurrences.push(m.index);
+    }
+    return occurrences;
+}
+
+/** Java variable occurrences in the scripting elements of a page, as absolute offsets */
+function findJavaVariableOccurrences(text: string, nodes: JspNode[], name: string): number[] {
+    const offsets: number[] = [];
+    for (const node of getJavaNodes(nodes)) {
+        const code = blankOut(text.substring(node.contentStart, node.contentEnd), JAVA_LITERALS_AND_COMMENTS_RE);
+        offsets.push(...findIdentifierOccurrences(code, name, true).map(o => node.contentStart + o));
+    }
+    return offsets;
+}
+
+/** Inline <script> blocks (without src) of a page */
+function getInlineScriptRanges(text: string): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = [];
+    const scriptRe = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+    let m;
+    while ((m = scriptRe.exec(text)) !== null) {
+        if (/\bsrc\s*=/i.test(m[1])) { continue; }
+        const start = m.index + '<script'.length + m[1].length + 1;
+        ranges.push({ start, end: start + m[2].length });
+    }
+    return ranges;
+}
+
+/**
+ * JavaScript occurrences of a name in a page: inside inline scripts and inline
+ * event handlers (onclick="..."), outside of JSP elements.
+ */
+function findJsOccurrences(text: string, nodes: JspNode[], name: string): number[] {
+    const regions = getInlineScriptRanges(text);
+    const handlerRe = /\bon[a-z]+\s*=\s*(["'])([\s\S]*?)\1/gi;
+    let m;
+    while ((m = handlerRe.exec(text)) !== null) {
+        const start = m.index + m[0].indexOf(m[1]) + 1;
+        regions.push({ start, end: start + m[2].length });
+    }
+
+    const offsets: number[] = [];
+    for (const region of regions) {
+        const code = blankOut(text.substring(region.start, region.end), JS_LITERALS_AND_COMMENTS_RE);
+        for (const o of findIdentifierOccurrences(code, name, false)) {
+            const offset = region.start + o;
+            const node = findNodeAt(nodes, offset);
+            if (!node || node.kind === 'template') { offsets.push(offset); }
+        }
+    }
+    return offsets;
+}
+
+/** Whether an inline script of the page declares the function */
+function isJsFunctionDeclaredInPage(text: string, name: string): boolean {
+    const patterns = buildJsFunctionPatterns(name);
+    return getInlineScriptRanges(text).some(r => {
+        const code = blankOut(text.substring(r.start, r.end), JS_LITERALS_AND_COMMENTS_RE);
+        return patterns.some(p => p.test(code));
+    });
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const JSP_IMPLICIT_OBJECT_NAMES = ['request', 'response', 'session', 'application', 'out', 'pageContext', 'config', 'page', 'exception'];
+
+interface RenameContext {
+    fragments?: string[]; // Pages statically included by this one
+    includedStatically?: boolean; // This page is a fragment of another page
+    externalFunctions?: string[]; // Functions declared by the page's external scripts
+}
+
+/**
+ * The checks of resolveRenameTarget over in-memory pages: the reason the rename
+ * at an offset is refused, or null when it is allowed.
+ */
+function getRenameRefusal(text: string, offset: number, context: RenameContext = {}): string | null {
+    let start = offset;
+    let end = offset;
+    while (start > 0 && /[\w$]/.test(text[start - 1])) { start--; }
+    while (end < text.length && /[\w$]/.test(text[end])) { end++; }
+    const name = text.substring(start, end);
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) { return 'Place the cursor on a variable or function name.'; }
+    if (text[start - 1] === '.') { return `"${name}" is a member access; only local names can be renamed.`; }
+
+    const nodes = tokenizeJsp(text);
+    const node = findNodeAt(nodes, offset);
+
+    if (isJavaNode(node)) {
+        if (JSP_IMPLICIT_OBJECT_NAMES.includes(name) && !parseVariableDeclarations(text, nodes).some(v => v.name === name)) {
+            return `"${name}" is a JSP implicit object.`;
+        }
+        if (context.includedStatically) {
+            return 'This fragment is statically included by other pages; rename from the including page.';
+        }
+
+        let declarations = 0;
+        for (const page of [text, ...(context.fragments ?? [])]) {
+            const pageNodes = tokenizeJsp(page);
+            for (const v of parseVariableDeclarations(page, pageNodes).filter(v => v.name === name)) {
+                if (findNodeAt(pageNodes, v.offset)?.name === 'jsp:useBean') {
+                    return `"${name}" is declared by jsp:useBean; rename its id instead.`;
+                }
+                declarations++;
+            }
+        }
+        if (declarations === 0) { return `Cannot find the declaration of "${name}" in this page or its static includes.`; }
+        if (declarations > 1) { return `"${name}" is declared more than once in this page; rename it by hand.`; }
+        return null;
+    }
+
+    if (!node || node.kind === 'template') {
+        if (!isJsFunctionDeclaredInPage(text, name)) {
+            return `"${name}" is not a function declared in this page's <script> blocks.`;
+        }
+        if (context.externalFunctions?.includes(name)) {
+            return `"${name}" is also declared in an external script; rename it there.`;
+        }
+        if (!findJsOccurrences(text, nodes, name).includes(start)) {
+            return 'Place the cursor on a variable or function name.';
+        }
+        return null;
+    }
+
+    return 'Only scriptlet variables and page JavaScript functions can be renamed.';
+}
+
+/** The text at each offset, for readable assertions */
+function textsAt(text: string, offsets: number[], length: number): string[] {
+    return offsets.map(o => text.substring(o, o + length));
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Rename Tests', () => {
+
+    const PAGE = [
+        '<% String total = "total"; // total',
+        '   int count = total.length(); %>',
+        '<p><%= total %> <%= order.total %></p>',
+        '<c:out value="<%= total %>"/>',
+        '<% total(); %>'
+    ].join('\n');
+
+    test('finds Java variable occurrences in every scripting element', () => {
+        const offsets = findJavaVariableOccurrences(PAGE, tokenizeJsp(PAGE), 'total');
+        // Not in the string, the comment, the member access or the method call
+        assert.strictEqual(offsets.length, 4);
+        assert.deepStrictEqual(textsAt(PAGE, offsets, 6), ['total ', 'total.', 'total ', 'total ']);
+        assert.ok(offsets.includes(PAGE.indexOf('<c:out') + '<c:out value="<%= '.length));
+    });
+
+    test('finds JavaScript occurrences in scripts and event handlers only', () => {
+        const text = [
+            '<script src="lib.js"></script>',
+            '<script>function save(form) { /* save() */ return validate(form) && save.call(this); }</script>',
+            '<button onclick="save(this.form)">save</button>',
+            '<a href="#" onmouseover=\'obj.save()\'>x</a>',
+            '<% save(); %>'
+        ].join('\n');
+        const offsets = findJsOccurrences(text, tokenizeJsp(text), 'save');
+        assert.deepStrictEqual(offsets, [text.indexOf('save('), text.indexOf('save.call'), text.indexOf('save(this')]);
+        assert.ok(isJsFunctionDeclaredInPage(text, 'save'));
+        assert.ok(!isJsFunctionDeclaredInPage(text, 'validate'));
+    });
+
+    test('allows page variables and page functions', () => {
+        assert.strictEqual(getRenameRefusal(PAGE, PAGE.indexOf('count')), null);
+        const fragment = '<% for (Item item : items) { } %>';
+        const page = '<% List<Item> items = null; %>';
+        assert.strictEqual(getRenameRefusal(page, page.indexOf('items'), { fragments: [fragment] }), null);
+
+        const script = '<script>const toggle = (id) => id;</script><a onclick="toggle(1)">t</a>';
+        assert.strictEqual(getRenameRefusal(script, script.lastIndexOf('toggle')), null);
+    });
+
+    test('refuses implicit objects, members and jsp:useBean ids', () => {
+        const text = '<jsp:useBean id="cart" class="com.acme.Cart"/><% out.print(cart.size()); %>';
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('out')), '"out" is a JSP implicit object.');
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('print')), '"print" is a member access; only local names can be renamed.');
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('cart.')), '"cart" is declared by jsp:useBean; rename its id instead.');
+
+        // A page variable shadowing an implicit object is an ordinary variable
+        const shadow = '<% String page = "1"; %><%= page %>';
+        assert.strictEqual(getRenameRefusal(shadow, shadow.lastIndexOf('page')), null);
+    });
+
+    test('refuses undeclared and redeclared variables', () => {
+        const text = '<% int a = 1; %><%= b %>';
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('b ')), 'Cannot find the declaration of "b" in this page or its static includes.');
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('a'), { fragments: ['<% int a = 2; %>'] }),
+            '"a" is declared more than once in this page; rename it by hand.');
+    });
+
+    test('refuses names in fragments and functions declared elsewhere', () => {
+        const fragment = '<% int a = 1; %>';
+        assert.strictEqual(getRenameRefusal(fragment, fragment.indexOf('a'), { includedStatically: true }),
+            'This fragment is statically included by other pages; rename from the including page.');
+
+        const text = '<script>function go() { }</script><button onclick="stop()">x</button>';
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('stop')), '"stop" is not a function declared in this page\'s <script> blocks.');
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('go'), { externalFunctions: ['go'] }),
+            '"go" is also declared in an external script; rename it there.');
+    });
+
+    test('refuses EL and tag attributes', () => {
+        const text = '<% int a = 1; %><p>${a}</p>';
+        assert.strictEqual(getRenameRefusal(text, text.indexOf('${') + 2), 'Only scriptlet variables and page JavaScript functions can be renamed.');
+    });
+
+    test('new names must be identifiers that are not reserved', () => {
+        assert.ok(JAVA_RESERVED_WORDS.has('var'));
+        assert.ok(!JAVA_RESERVED_WORDS.has('let'));
+        assert.ok(JS_RESERVED_WORDS.has('let'));
+        assert.ok(!JS_RESERVED_WORDS.has('goto'));
+    });
+});
@@ -0,0 +1,460 @@
+/**
+ * Unit test: Validate the Gradle build parsing used for project discovery:
+ *   - settings.gradle / settings.gradle.kts includes and projectDir overrides
+ *   - main source set directories (Groovy and Kotlin DSL)
+ *   - dependencies in string and map notation, with version properties
+ *   - versions missing from the build, taken from the Gradle cache
+ *
+ * This test writes temporary Gradle projects on disk, runs the same parsing
+ * logic that server.ts uses, and asserts the discovered paths and dependencies.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// ── Replicate the minimal types / helpers from server.ts ────────────────────
+
+interface JavaSourcePath { modulePath: string; sourcePath: string; }
+interface PomInfo { sourceDirectories: string[]; modules: string[]; }
+interface MavenDependency { groupId: string; artifactId: string; version: string; }
+
+let javaSourcePaths: JavaSourcePath[] = [];
+let mavenDependencies: MavenDependency[] = [];
+let mavenRepoPath = '';
+let gradleCachePath = '';
+let projectWebappPaths: string[] = [];
+const gradleProjectPaths = new Set<string>();
+
+function addSourcePathIfNew(modulePath: string, sourcePath: string): void {
+    if (!javaSourcePaths.some(p => p.sourcePath === sourcePath)) {
+        javaSourcePaths.push({ modulePath, sourcePath });
+    }
+}
+
+function addDependencyIfNew(dep: MavenDependency): void {
+    if (!mavenDependencies.some(d => d.groupId === dep.groupId && d.artifactId === dep.artifactId && d.version === dep.version)) {
+        mavenDependencies.push(dep);
+    }
+}
+
+/** Settings and build script names (Groovy DSL first, then Kotlin DSL) */
+const GRADLE_SETTINGS_FILES = ['settings.gradle', 'settings.gradle.kts'];
+const GRADLE_BUILD_FILES = ['build.gradle', 'build.gradle.kts'];
+
+/** Calls inside a dependencies block whose string argument is not a module coordinate */
+const GRADLE_NON_COORDINATE_CALLS = new Set([
+    'project', 'files', 'fileTree', 'platform', 'enforcedPlatform', 'kotlin',
+    'gradleApi', 'localGroovy', 'because', 'exclude', 'strictly', 'require', 'prefer', 'reject',
+]);
+
+/** Literal assignments usable as version variables: def/val x = '1.0', ext.x = '1.0', set("x", "1.0"), extra["x"] = "1.0" */
+const GRADLE_PROPERTY_RES = [
+    /\b(\w+)\s*(?::\s*String\s*)?=\s*(['"])([^'"$\n]*)\2/g,
+    /\bset\(\s*(['"])(\w+)\1\s*,\s*(['"])([^'"$\n]*)\3\s*\)/g,
+    /\bextra\[\s*(['"])(\w+)\1\s*\]\s*=\s*(['"])([^'"$\n]*)\3/g,
+    /\bval\s+(\w+)\s+by\s+extra\(\s*(['"])([^'"$\n]*)\2\s*\)/g,
+];
+
+function findGradleFile(dir: string, names: string[]): string | null {
+    for (const name of names) {
+        const filePath = path.join(dir, name);
+        if (fs.existsSync(filePath)) { return filePath; }
+    }
+    return null;
+}
+
+function isGradleProject(dir: string): boolean {
+    return findGradleFile(dir, GRADLE_SETTINGS_FILES) !== null || findGradleFile(dir, GRADLE_BUILD_FILES) !== null;
+}
+
+/** Read a Gradle script with its comments replaced by spaces (strings are kept) */
+function readGradleScript(filePath: string | null): string {
+    if (!filePath) { return ''; }
+    try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return content.replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+            (m, str) => str ?? m.replace(/[^\n]/g, ' '));
+    } catch (error) {
+        console.error('Error reading Gradle script:', filePath, error);
+        return '';
+    }
+}
+
+/**
+ * Blocks "name { ... }" of a Gradle script, with the offsets of the whole block.
+ * `name` is a regex source, e.g. 'main|getByName\\("main"\\)'.
+ */
+function findGradleBlocks(content: string, name: string): { body: string; start: number; end: number }[] {
+    const blocks: { body: string; start: number; end: number }[] = [];
+    const re = new RegExp(`(^|[^\\w.])(?:${name})\\s*\\{`, 'g');
+    let m;
+    while ((m = re.exec(content)) !== null) {
+        const bodyStart = m.index + m[0].length;
+        let depth = 1;
+        let i = bodyStart;
+        for (; i < content.length && depth > 0; i++) {
+            if (content[i] === '{') { depth++; }
+            else if (content[i] === '}') { depth--; }
+        }
+        blocks.push({ body: content.slice(bodyStart, depth === 0 ? i - 1 : i), start: m.index + m[1].length, end: i });
+        re.lastIndex = i;
+    }
+    return blocks;
+}
+
+/** Quoted strings of a Groovy / Kotlin argument list */
+function getGradleStrings(text: string): string[] {
+    return [...text.matchAll(/(['"])([^'"\n]*)\1/g)].map(m => m[2]);
+}
+
+/**
+ * Subprojects of a settings script: include 'app', ':lib:core' / include(":app"),
+ * mapped to their directories (":lib:core" -> "lib/core", or its projectDir when set).
+ */
+function parseGradleSettings(settingsPath: string): string[] {
+    const content = readGradleScript(settingsPath);
+    const projectDirs = new Map<string, string>();
+    const dirRe = /\bproject\(\s*(['"])([^'"]+)\1\s*\)\.projectDir\s*=\s*(?:file\(|new\s+File\(\s*(?:rootDir|settingsDir)\s*,)\s*(['"])([^'"]+)\3/g;
+    for (const m of content.matchAll(dirRe)) {
+        projectDirs.set(m[2].replace(/^:/, ''), m[4]);
+    }
+
+    const modules: string[] = [];
+    const includeRe = /\binclude\b\s*\(?((?:\s*(['"])[^'"\n]+\2\s*,?)+)/g;
+    for (const m of content.matchAll(includeRe)) {
+        for (const project of getGradleStrings(m[1])) {
+            const name = project.replace(/^:/, '');
+            if (!name) { continue; }
+            const dir = projectDirs.get(name) ?? name.split(':').join('/');
+            if (!modules.includes(dir)) { modules.push(dir); }
+        }
+    }
+    return modules;
+}
+
+/** Properties of gradle.properties and of literal assignments in a build script */
+function collectGradleProperties(projectDir: string, content: string, inherited: Map<string, string>): Map<string, string> {
+    const properties = new Map(inherited);
+    try {
+        const propertiesPath = path.join(projectDir, 'gradle.properties');
+        if (fs.existsSync(propertiesPath)) {
+            for (const line of fs.readFileSync(propertiesPath, 'utf-8').split(/\r?\n/)) {
+                const m = /^\s*([\w.-]+)\s*[=:]\s*(.*?)\s*$/.exec(line);
+                if (m && !line.trimStart().startsWith('#')) { properties.set(m[1], m[2]); }
+            }
+        }
+    } catch (error) {
+        console.error('Error reading gradle.properties:', projectDir, error);
+    }
+
+    for (const re of GRADLE_PROPERTY_RES) {
+        for (const m of content.matchAll(re)) {
+            // Name and value are the first and last capture that is not a quote
+            const groups = m.slice(1).filter(g => g !== '"' && g !== '\'');
+            properties.set(groups[0], groups[groups.length - 1]);
+        }
+    }
+    return properties;
+}
+
+/** Substitute $name / ${name} / ${rootProject.ext.name}; null when a variable is unknown */
+function interpolateGradleString(value: string, properties: Map<string, string>): string | null {
+    let unresolved = false;
+    const result = value.replace(/\$\{\s*([\w.]+)\s*\}|\$(\w+)/g, (_, dotted: string | undefined, simple: string | undefined) => {
+        const name = simple ?? dotted!.split('.').pop()!;
+        const resolved = properties.get(name);
+        if (resolved === undefined) { unresolved = true; }
+        return resolved ?? '';
+    });
+    return unresolved || result.includes('$') ? null : result;
+}
+
+/**
+ * Newest version of a module in the Gradle cache or the Maven repository, for
+ * dependencies whose version comes from a platform / BOM or is dynamic ("1.+").
+ */
+function findCachedDependencyVersion(groupId: string, artifactId: string): string | null {
+    const versions: string[] = [];
+    for (const dir of [
+        path.join(gradleCachePath, groupId, artifactId),
+        path.join(mavenRepoPath, groupId.replace(/\./g, path.sep), artifactId),
+    ]) {
+        try {
+            versions.push(...fs.readdirSync(dir, { withFileTypes: true }).filter(e => e.isDirectory()).map(e => e.name));
+        } catch {
+            // Not in this repository
+        }
+    }
+    versions.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    return versions[0] ?? null;
+}
+
+function toGradleDependency(groupId: string, artifactId: string, version: string | null): MavenDependency | null {
+    if (!groupId || !artifactId) { return null; }
+    if (!version || /[+[\]()]|^latest\./.test(version)) {
+        version = findCachedDependencyVersion(groupId, artifactId);
+    }
+    return version ? { groupId, artifactId, version } : null;
+}
+
+/**
+ * Module dependencies of the dependencies blocks (buildscript classpath excluded), in
+ * string notation ('g:a:v', "g:a:v:classifier@jar") and map notation
+ * (group: 'g', name: 'a', version: 'v' / group = "g", name = "a", version = "v").
+ */
+function parseGradleDependencies(content: string, properties: Map<string, string>): MavenDependency[] {
+    for (const block of findGradleBlocks(content, 'buildscript').reverse()) {
+        content = content.slice(0, block.start) + ' '.repeat(block.end - block.start) + content.slice(block.end);
+    }
+
+    const dependencies: MavenDependency[] = [];
+    for (const { body } of findGradleBlocks(content, 'dependencies')) {
+        const stringRe = /\b(\w+)\s*\(?\s*(['"])([^'"\n]+)\2/g;
+        for (const m of body.matchAll(stringRe)) {
+            if (GRADLE_NON_COORDINATE_CALLS.has(m[1])) { continue; }
+            const notation = m[3].replace(/@\w+$/, '');
+            const coordinates = interpolateGradleString(notation, properties);
+            const parts = (coordinates ?? notation).split(':');
+            if (parts.length < 2) { continue; }
+            const dep = toGradleDependency(parts[0], parts[1], coordinates !== null ? parts[2] ?? null : null);
+            if (dep) { dependencies.push(dep); }
+        }
+
+        const mapRe = /\b(\w+)\s*\(?\s*((?:\w+\s*[:=]\s*(['"])[^'"\n]*\3\s*,?\s*)+)/g;
+        for (const m of body.matchAll(mapRe)) {
+            if (GRADLE_NON_COORDINATE_CALLS.has(m[1])) { continue; }
+            const attributes = new Map<string, string>();
+            for (const a of m[2].matchAll(/(\w+)\s*[:=]\s*(['"])([^'"\n]*)\2/g)) {
+                attributes.set(a[1], a[3]);
+            }
+            const group = interpolateGradleString(attributes.get('group') ?? '', properties);
+            const name = interpolateGradleString(attributes.get('name') ?? '', properties);
+            const version = attributes.has('version') ? interpolateGradleString(attributes.get('version')!, properties) : null;
+            const dep = group && name ? toGradleDependency(group, name, version) : null;
+            if (dep) { dependencies.push(dep); }
+        }
+    }
+    return dependencies;
+}
+
+/**
+ * Java source directories of the main source set. `srcDirs = [...]` / `setSrcDirs(...)`
+ * replace the src/main/java convention, `srcDir` / `srcDirs(...)` add to it.
+ */
+function parseGradleSourceSets(content: string): string[] {
+    const mainBlocks = [
+        ...findGradleBlocks(content, 'sourceSets').flatMap(b =>
+            findGradleBlocks(b.body, 'main|getByName\\(\\s*"main"\\s*\\)|named\\(\\s*"main"\\s*\\)')),
+        ...findGradleBlocks(content, 'sourceSets\\s*\\.\\s*main'),
+    ];
+    const statements: string[] = [];
+    for (const main of mainBlocks) {
+        statements.push(...findGradleBlocks(main.body, 'java').map(b => b.body));
+        statements.push(...[...main.body.matchAll(/\bjava\s*\.\s*((?:set)?[sS]rcDirs?\b[^\n]*)/g)].map(m => m[1]));
+    }
+    const dottedRe = /\bsourceSets\s*(?:\.\s*main|\[\s*"main"\s*\]|\.getByName\(\s*"main"\s*\))\s*\.\s*java\s*\.\s*((?:set)?[sS]rcDirs?\b[^\n]*)/g;
+    statements.push(...[...content.matchAll(dottedRe)].map(m => m[1]));
+
+    let directories = ['src/main/java'];
+    for (const statement of statements) {
+        for (const m of statement.matchAll(/\b(setSrcDirs|srcDirs?)\b(\s*=)?([^\n]*)/g)) {
+            const dirs = getGradleStrings(m[3]);
+            if (m[1] === 'setSrcDirs' || m[2]) {
+                directories = dirs;
+            } else {
+                directories.push(...dirs.filter(d => !directories.includes(d)));
+            }
+        }
+    }
+    return directories;
+}
+
+/** Webapp directory of the war plugin: webAppDirName / webAppDirectory, or src/main/webapp */
+function parseGradleWebappDirectory(content: string): string {
+    const m = /\bwebAppDirName\s*=\s*(['"])([^'"\n]+)\1/.exec(content)
+        ?? /\bwebAppDirectory(?:\s*=|\.set\()\s*(?:file\(|layout\.projectDirectory\.dir\()\s*(['"])([^'"\n]+)\1/.exec(content);
+    return m ? m[2] : 'src/main/webapp';
+}
+
+/**
+ * Parse the settings and build scripts of a Gradle project directory. Subprojects
+ * inherit the version properties of their parent (gradle.properties and ext blocks).
+ */
+function parseGradleBuild(projectDir: string, inheritedProperties: Map<string, string>): PomInfo & {
+    dependencies: MavenDependency[];
+    webappDirectory: string;
+    properties: Map<string, string>;
+} {
+    const settingsPath = findGradleFile(projectDir, GRADLE_SETTINGS_FILES);
+    const content = readGradleScript(findGradleFile(projectDir, GRADLE_BUILD_FILES));
+    const properties = collectGradleProperties(projectDir, content, inheritedProperties);
+    return {
+        sourceDirectories: parseGradleSourceSets(content),
+        modules: settingsPath ? parseGradleSettings(settingsPath) : [],
+        dependencies: parseGradleDependencies(content, properties),
+        webappDirectory: parseGradleWebappDirectory(content),
+        properties,
+    };
+}
+
+function collectGradleSourcePaths(basePath: string, inheritedProperties: Map<string, string>): void {
+    if (gradleProjectPaths.has(basePath)) { return; }
+    gradleProjectPaths.add(basePath);
+
+    const buildInfo = parseGradleBuild(basePath, inheritedProperties);
+
+    for (const relPath of buildInfo.sourceDirectories) {
+        const absPath = path.join(basePath, relPath);
+        if (fs.existsSync(absPath)) {
+            addSourcePathIfNew(basePath, absPath);
+        }
+    }
+
+    for (const dep of buildInfo.dependencies) {
+        addDependencyIfNew(dep);
+    }
+
+    const webappPath = path.join(basePath, buildInfo.webappDirectory);
+    if (fs.existsSync(webappPath) && !projectWebappPaths.includes(webappPath)) {
+        projectWebappPaths.push(webappPath);
+    }
+
+    // Recurse into the subprojects of settings.gradle
+    for (const mod of buildInfo.modules) {
+        collectGradleSourcePaths(path.join(basePath, mod), buildInfo.properties);
+    }
+}
+
+// ── Helpers to build mock project structures ────────────────────────────────
+
+function mkdirp(p: string): void {
+    fs.mkdirSync(p, { recursive: true });
+}
+
+function writeFile(filePath: string, content: string): void {
+    mkdirp(path.dirname(filePath));
+    fs.writeFileSync(filePath, content, 'utf-8');
+}
+
+function resetState(): void {
+    javaSourcePaths = [];
+    mavenDependencies = [];
+    projectWebappPaths = [];
+    gradleProjectPaths.clear();
+}
+
+function rmrf(dir: string): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+function coordinates(deps: MavenDependency[]): string[] {
+    return deps.map(d => `${d.groupId}:${d.artifactId}:${d.version}`);
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Gradle Project Scanning Tests', () => {
+    let tmpRoot: string;
+
+    setup(() => {
+        tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'jsp-gradle-test-'));
+        mavenRepoPath = path.join(tmpRoot, 'm2');
+        gradleCachePath = path.join(tmpRoot, 'gradle', 'caches', 'modules-2', 'files-2.1');
+        resetState();
+    });
+
+    teardown(() => {
+        rmrf(tmpRoot);
+    });
+
+    test('Case 1 — settings includes, nested paths and projectDir overrides', () => {
+        writeFile(path.join(tmpRoot, 'settings.gradle'), [
+            `rootProject.name = 'shop'`,
+            `// include 'commented'`,
+            `include 'web', ':lib:core',`,
+            `        ':api'`,
+            `project(':api').projectDir = file('modules/api')`,
+        ].join('\n'));
+        assert.deepStrictEqual(parseGradleSettings(path.join(tmpRoot, 'settings.gradle')), ['web', 'lib/core', 'modules/api']);
+
+        writeFile(path.join(tmpRoot, 'settings.gradle.kts'), 'include("app")\ninclude(":tools:cli", ":tools:gen")\n');
+        assert.deepStrictEqual(parseGradleSettings(path.join(tmpRoot, 'settings.gradle.kts')), ['app', 'tools/cli', 'tools/gen']);
+    });
+
+    test('Case 2 — main source set directories', () => {
+        assert.deepStrictEqual(parseGradleSourceSets(''), ['src/main/java']);
+        assert.deepStrictEqual(
+            parseGradleSourceSets(`sourceSets {\n  main {\n    java { srcDirs = ['src/java', 'gen'] }\n    resources { srcDirs = ['res'] }\n  }\n}`),
+            ['src/java', 'gen']);
+        assert.deepStrictEqual(
+            parseGradleSourceSets(`sourceSets {\n  main {\n    java.srcDir("build/generated")\n  }\n}`),
+            ['src/main/java', 'build/generated']);
+        assert.deepStrictEqual(parseGradleSourceSets(`sourceSets.main.java.srcDirs = ['src']`), ['src']);
+        assert.deepStrictEqual(
+            parseGradleSourceSets(`sourceSets {\n  named("main") {\n    java { setSrcDirs(listOf("java")) }\n  }\n}`),
+            ['java']);
+    });
+
+    test('Case 3 — string and map notation with version properties', () => {
+        writeFile(path.join(tmpRoot, 'gradle.properties'), '# versions\nspringVersion=5.3.30\n');
+        const content = [
+            `buildscript {`,
+            `    dependencies { classpath 'org.example:plugin:9.9' }`,
+            `}`,
+            `ext { jstlVersion = '1.2' }`,
+            `dependencies {`,
+            `    implementation project(':core')`,
+            `    implementation "org.springframework:spring-webmvc:$springVersion"`,
+            `    implementation("com.google.guava:guava:32.1.3-jre") { exclude group: 'com.google.code.findbugs' }`,
+            `    compileOnly group: 'javax.servlet.jsp.jstl', name: 'jstl', version: "\${jstlVersion}"`,
+            `    providedCompile(group = "javax.servlet", name = "javax.servlet-api", version = "4.0.1")`,
+            `    runtimeOnly 'org.postgresql:postgresql:42.6.0@jar'`,
+            `    implementation platform('org.acme:bom:1.0')`,
+            `    implementation files('libs/local.jar')`,
+            `}`,
+        ].join('\n');
+        const properties = collectGradleProperties(tmpRoot, content, new Map());
+        assert.deepStrictEqual(coordinates(parseGradleDependencies(content, properties)), [
+            'org.springframework:spring-webmvc:5.3.30',
+            'com.google.guava:guava:32.1.3-jre',
+            'org.postgresql:postgresql:42.6.0',
+            'javax.servlet.jsp.jstl:jstl:1.2',
+            'javax.servlet:javax.servlet-api:4.0.1',
+        ]);
+    });
+
+    test('Case 4 — missing or dynamic versions come from the Gradle cache', () => {
+        mkdirp(path.join(gradleCachePath, 'org.apache.commons', 'commons-lang3', '3.9', 'a1'));
+        mkdirp(path.join(gradleCachePath, 'org.apache.commons', 'commons-lang3', '3.12.0', 'b2'));
+        const content = `dependencies {\n    implementation 'org.apache.commons:commons-lang3'\n    implementation 'org.apache.commons:commons-lang3:3.+'\n    implementation 'org.unknown:missing'\n}`;
+        assert.deepStrictEqual(coordinates(parseGradleDependencies(content, new Map())), [
+            'org.apache.commons:commons-lang3:3.12.0',
+            'org.apache.commons:commons-lang3:3.12.0',
+        ]);
+    });
+
+    test('Case 5 — multi-project build with webapp directories', () => {
+        mkdirp(path.join(tmpRoot, 'web', 'src', 'main', 'java'));
+        mkdirp(path.join(tmpRoot, 'web', 'src', 'main', 'webapp'));
+        mkdirp(path.join(tmpRoot, 'admin', 'WebContent'));
+        mkdirp(path.join(tmpRoot, 'core', 'src', 'main', 'java'));
+        writeFile(path.join(tmpRoot, 'settings.gradle'), `include 'web', 'admin', 'core'`);
+        writeFile(path.join(tmpRoot, 'gradle.properties'), 'coreVersion=2.1\n');
+        writeFile(path.join(tmpRoot, 'web', 'build.gradle'), `plugins { id 'war' }\ndependencies { implementation "com.acme:widgets:$coreVersion" }`);
+        writeFile(path.join(tmpRoot, 'admin', 'build.gradle'), `apply plugin: 'war'\nwebAppDirName = 'WebContent'`);
+
+        collectGradleSourcePaths(tmpRoot, new Map());
+
+        assert.deepStrictEqual(javaSourcePaths.map(p => p.sourcePath), [
+            path.join(tmpRoot, 'web', 'src', 'main', 'java'),
+            path.join(tmpRoot, 'core', 'src', 'main', 'java'),
+        ]);
+        assert.deepStrictEqual(projectWebappPaths, [
+            path.join(tmpRoot, 'web', 'src', 'main', 'webapp'),
+            path.join(tmpRoot, 'admin', 'WebContent'),
+        ]);
+        assert.deepStrictEqual(coordinates(mavenDependencies), ['com.acme:widgets:2.1']);
+    });
+});
@@ -0,0 +1,678 @@
+/**
+ * Unit test: Validate tag library parsing and the required-attribute check in server.ts:
+ *   - TLD tags, attributes, variables and functions (JSP 1.1 and 1.2+ element names)
+ *   - Tag files described by their attribute and variable directives
+ *   - Required attributes supplied as <jsp:attribute> children
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ── Replicate the types / helpers from server.ts ────────────────────────────
+
+type JspNodeKind = 'directive' | 'scriptlet' | 'expression' | 'declaration' | 'comment'
+    | 'action' | 'customTag' | 'el' | 'template';
+
+interface JspAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number; // first character inside the quotes
+    valueEnd: number;
+}
+
+interface JspNode {
+    kind: JspNodeKind;
+    start: number;
+    end: number;
+    contentStart: number; // Java code, EL body, comment text or tag/directive body
+    contentEnd: number;
+    closed: boolean; // false when the terminating delimiter is missing
+    name?: string; // directive name ("page") or tag name ("jsp:include", "c:forEach")
+    attributes?: JspAttribute[];
+    isEndTag?: boolean;
+    selfClosing?: boolean;
+    deferred?: boolean; // "#{...}" EL
+    children?: JspNode[]; // expressions and EL embedded in attribute values
+}
+
+interface TagAttributeInfo {
+    name: string;
+    required: boolean;
+    rtexprvalue: boolean;
+    type?: string;
+    description?: string;
+    nameOffset: number; // <name> text of the <attribute> in the TLD
+}
+
+interface TagVariableInfo {
+    nameGiven?: string;
+    nameFromAttribute?: string;
+    variableClass: string;
+    scope: 'NESTED' | 'AT_BEGIN' | 'AT_END';
+}
+
+interface TagInfo {
+    name: string;
+    tagClass?: string;
+    tagFile?: string; // .tag/.tagx implementing the tag, for tag files
+    bodyContent?: string;
+    description?: string;
+    dynamicAttributes: boolean;
+    attributes: TagAttributeInfo[];
+    variables: TagVariableInfo[];
+    nameOffset: number; // <name> text of the <tag> in the TLD
+}
+
+interface TagFunctionInfo {
+    name: string;
+    functionClass?: string;
+    signature?: string; // "int length(java.lang.Object)"
+    description?: string;
+    nameOffset: number; // <name> text of the <function> in the TLD
+}
+
+interface TagLibrary {
+    uri: string;
+    shortName: string;
+    description?: string;
+    location: { path: string; jarPath?: string }; // TLD file, or entry name inside jarPath
+    tags: TagInfo[];
+    functions: TagFunctionInfo[];
+}
+
+/** Directive, standard action or custom tag prefix (e.g. "<jsp:include", "</c:forEach") */
+const JSP_TAG_START_RE = /<(\/?)([A-Za-z_][\w.-]*):([A-Za-z_][\w.-]*)(?=[\s/>]|$)/y;
+
+const ATTRIBUTE_NAME_RE = /[A-Za-z_:][\w:.-]*/y;
+
+/**
+ * Split a page into its JSP constructs. Every offset is absolute in the document text.
+ * Template HTML is kept as 'template' nodes so the list covers the whole page.
+ */
+function tokenizeJsp(text: string): JspNode[] {
+    const nodes: JspNode[] = [];
+    let templateStart = 0;
+    let i = 0;
+
+    const flushTemplate = (upTo: number) => {
+        if (upTo > templateStart) {
+            nodes.push({ kind: 'template', start: templateStart, end: upTo, contentStart: templateStart, contentEnd: upTo, closed: true });
+        }
+    };
+
+    while (i < text.length) {
+        let node: JspNode | null = null;
+        const ch = text[i];
+
+        if (ch === '<') {
+            if (text.startsWith('<%', i)) {
+                node = scanScriptingElement(text, i);
+            } else {
+                node = scanJspTag(text, i);
+            }
+        } else if (isElStart(text, i)) {
+            node = scanEl(text, i);
+        }
+
+        if (node) {
+            flushTemplate(i);
+            nodes.push(node);
+            i = node.end;
+            templateStart = i;
+        } else {
+            i++;
+        }
+    }
+    flushTemplate(text.length);
+
+    return nodes;
+}
+
+function isElStart(text: string, i: number): boolean {
+    return (text[i] === '$' || text[i] === '#') && text[i + 1] === '{' && text[i - 1] !== '\\';
+}
+
+/**
+ * Scan a JSP comment, directive, scriptlet, expression or declaration starting at "<%".
+ */
+function scanScriptingElement(text: string, start: number): JspNode {
+    if (text.startsWith('<%--', start)) {
+        const close = text.indexOf('--%>', start + 4);
+        const closed = close !== -1;
+        return {
+            kind: 'comment', start, end: closed ? close + 4 : text.length,
+            contentStart: start + 4, contentEnd: closed ? close : text.length, closed
+        };
+    }
+
+    if (text[start + 2] === '@') {
+        let nameStart = start + 3;
+        while (nameStart < text.length && /\s/.test(text[nameStart])) { nameStart++; }
+        let nameEnd = nameStart;
+        while (nameEnd < text.length && /[\w.]/.test(text[nameEnd])) { nameEnd++; }
+
+        const scan = scanAttributes(text, nameEnd, true);
+        return {
+            kind: 'directive', start, end: scan.end,
+            contentStart: start + 3, contentEnd: scan.closed ? scan.end - 2 : scan.end, closed: scan.closed,
+            name: text.substring(nameStart, nameEnd), attributes: scan.attributes, children: scan.children
+        };
+    }
+
+    const marker = text[start + 2];
+    const kind: JspNodeKind = marker === '!' ? 'declaration' : marker === '=' ? 'expression' : 'scriptlet';
+    const contentStart = start + (kind === 'scriptlet' ? 2 : 3);
+    const close = findJavaCodeEnd(text, contentStart);
+    const closed = close !== -1;
+
+    return {
+        kind, start, end: closed ? close + 2 : text.length,
+        contentStart, contentEnd: closed ? close : text.length, closed
+    };
+}
+
+/**
+ * Find the "%>" that terminates a Java code block, skipping string and char literals.
+ * Returns -1 when the block is never closed.
+ */
+function findJavaCodeEnd(text: string, from: number): number {
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            // Literals cannot span lines, which keeps a stray quote from eating the page
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '%' && text[i + 1] === '>') { return i; }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Scan an EL expression "${...}" or "#{...}", honouring nested braces and EL string literals.
+ * An unterminated expression only extends to the end of its line.
+ */
+function scanEl(text: string, start: number): JspNode {
+    let depth = 0;
+    let i = start + 2;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i++;
+            while (i < text.length && text[i] !== ch && text[i] !== '\n') {
+                if (text[i] === '\\') { i++; }
+                i++;
+            }
+            i++;
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            if (depth === 0) {
+                return {
+                    kind: 'el', start, end: i + 1, contentStart: start + 2, contentEnd: i,
+                    closed: true, deferred: text[start] === '#'
+                };
+            }
+            depth--;
+        }
+        i++;
+    }
+
+    const lineEnd = text.indexOf('\n', start);
+    const end = lineEnd === -1 ? text.length : lineEnd;
+    return { kind: 'el', start, end, contentStart: start + 2, contentEnd: end, closed: false, deferred: text[start] === '#' };
+}
+
+/**
+ * Scan a standard action ("jsp:*") or custom tag ("prefix:name") start or end tag.
+ * Returns null when the "<" does not open a prefixed tag (plain HTML stays template text).
+ */
+function scanJspTag(text: string, start: number): JspNode | null {
+    JSP_TAG_START_RE.lastIndex = start;
+    const m = JSP_TAG_START_RE.exec(text);
+    if (!m) { return null; }
+
+    const contentStart = start + m[0].length;
+    const scan = scanAttributes(text, contentStart, false);
+    const contentEnd = scan.closed ? scan.end - (scan.selfClosing ? 2 : 1) : scan.end;
+
+    return {
+        kind: m[2] === 'jsp' ? 'action' : 'customTag',
+        start, end: scan.end, contentStart, contentEnd, closed: scan.closed,
+        name: `${m[2]}:${m[3]}`, attributes: scan.attributes, children: scan.children,
+        isEndTag: m[1] === '/', selfClosing: scan.selfClosing
+    };
+}
+
+interface AttributeScan {
+    attributes: JspAttribute[];
+    /** Expressions and EL embedded in attribute values */
+    children: JspNode[];
+    /** Offset just past the terminator, or where scanning gave up */
+    end: number;
+    closed: boolean;
+    selfClosing: boolean;
+}
+
+/**
+ * Scan name="value" pairs up to "%>" (directives) or ">" / "/>" (tags).
+ * A "<" outside a quoted value means the element was never terminated.
+ */
+function scanAttributes(text: string, from: number, directive: boolean): AttributeScan {
+    const attributes: JspAttribute[] = [];
+    const children: JspNode[] = [];
+    const result = (end: number, closed: boolean, selfClosing: boolean = false): AttributeScan =>
+        ({ attributes, children, end, closed, selfClosing });
+
+    let i = from;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (directive && text.startsWith('%>', i)) { return result(i + 2, true); }
+        if (!directive && ch === '>') { return result(i + 1, true); }
+        if (!directive && text.startsWith('/>', i)) { return result(i + 2, true, true); }
+        if (ch === '<') { return result(i, false); }
+
+        ATTRIBUTE_NAME_RE.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME_RE.exec(text);
+        if (!nameMatch) { i++; continue; }
+
+        const attr: JspAttribute = {
+            name: nameMatch[0], value: '', nameStart: i,
+            valueStart: i + nameMatch[0].length, valueEnd: i + nameMatch[0].length
+        };
+        attributes.push(attr);
+        i += nameMatch[0].length;
+
+        let j = i;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+        if (text[j] !== '=') { continue; }
+        j++;
+        while (j < text.length && /\s/.test(text[j])) { j++; }
+
+        const quote = text[j];
+        if (quote === '"' || quote === "'") {
+            let k = j + 1;
+            while (k < text.length && text[k] !== quote) {
+                if (text.startsWith('<%', k)) {
+                    const child = scanScriptingElement(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else if (isElStart(text, k)) {
+                    const child = scanEl(text, k);
+                    children.push(child);
+                    k = child.end;
+                } else {
+                    k++;
+                }
+            }
+            attr.valueStart = j + 1;
+            attr.valueEnd = Math.min(k, text.length);
+            attr.value = text.substring(attr.valueStart, attr.valueEnd);
+            if (k >= text.length) { return result(text.length, false); }
+            i = k + 1;
+        } else {
+            let k = j;
+            while (k < text.length && !/[\s>]/.test(text[k]) && !text.startsWith('%>', k)) { k++; }
+            attr.valueStart = j;
+            attr.valueEnd = k;
+            attr.value = text.substring(j, k);
+            i = k;
+        }
+    }
+
+    return result(text.length, false);
+}
+
+function getAttribute(node: JspNode, name: string): JspAttribute | undefined {
+    return node.attributes?.find(a => a.name === name);
+}
+
+/** Replace matches with spaces so offsets into the original text stay valid */
+function blankOut(text: string, re: RegExp): string {
+    return text.replace(re, m => m.replace(/[^\n]/g, ' '));
+}
+
+function findXmlElement(xml: string, element: string): { text: string; offset: number } | undefined {
+    const m = new RegExp(`<${element}>\\s*([\\s\\S]*?)\\s*</${element}>`).exec(xml);
+    if (!m) { return undefined; }
+    return {
+        text: m[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim(),
+        offset: m.index + m[0].indexOf(m[1], element.length + 2)
+    };
+}
+
+function getXmlElementText(xml: string, element: string): string | undefined {
+    return findXmlElement(xml, element)?.text;
+}
+
+/**
+ * Parse a tag library descriptor. Handles both the JSP 1.1 (tagclass, bodycontent, info)
+ * and JSP 1.2+ (tag-class, body-content, description) element names.
+ */
+function parseTld(content: string, location: TagLibrary['location']): TagLibrary {
+    const xml = blankOut(content, /<!--[\s\S]*?-->/g);
+    const tags: TagInfo[] = [];
+
+    const tagRe = /<tag>([\s\S]*?)<\/tag>/g;
+    let m;
+    while ((m = tagRe.exec(xml)) !== null) {
+        const bodyOffset = m.index + '<tag>'.length;
+        const attributes: TagAttributeInfo[] = [];
+        const attrRe = /<attribute>([\s\S]*?)<\/attribute>/g;
+        let am;
+        while ((am = attrRe.exec(m[1])) !== null) {
+            const name = findXmlElement(am[1], 'name');
+            if (!name) { continue; }
+            attributes.push({
+                name: name.text,
+                required: /^(true|yes)$/i.test(getXmlElementText(am[1], 'required') ?? ''),
+                rtexprvalue: /^(true|yes)$/i.test(getXmlElementText(am[1], 'rtexprvalue') ?? ''),
+                type: getXmlElementText(am[1], 'type'),
+                description: getXmlElementText(am[1], 'description'),
+                nameOffset: bodyOffset + am.index + '<attribute>'.length + name.offset
+            });
+        }
+
+        const variables: TagVariableInfo[] = [];
+        const variableRe = /<variable>([\s\S]*?)<\/variable>/g;
+        let vm;
+        while ((vm = variableRe.exec(m[1])) !== null) {
+            variables.push({
+                nameGiven: getXmlElementText(vm[1], 'name-given'),
+                nameFromAttribute: getXmlElementText(vm[1], 'name-from-attribute'),
+                variableClass: getXmlElementText(vm[1], 'variable-class') ?? 'java.lang.String',
+                scope: parseVariableScope(getXmlElementText(vm[1], 'scope'))
+            });
+        }
+
+        // The tag's own elements, without those of its attributes and variables
+        const own = blankOut(m[1], /<(attribute|variable)>[\s\S]*?<\/\1>/g);
+        const name = findXmlElement(own, 'name');
+        if (!name) { continue; }
+        tags.push({
+            name: name.text,
+            tagClass: getXmlElementText(own, 'tag-class') ?? getXmlElementText(own, 'tagclass'),
+            bodyContent: getXmlElementText(own, 'body-content') ?? getXmlElementText(own, 'bodycontent'),
+            description: getXmlElementText(own, 'description') ?? getXmlElementText(own, 'info'),
+            dynamicAttributes: /^(true|yes)$/i.test(getXmlElementText(own, 'dynamic-attributes') ?? ''),
+            attributes,
+            variables,
+            nameOffset: bodyOffset + name.offset
+        });
+    }
+
+    const functions: TagFunctionInfo[] = [];
+    const functionRe = /<function>([\s\S]*?)<\/function>/g;
+    while ((m = functionRe.exec(xml)) !== null) {
+        const name = findXmlElement(m[1], 'name');
+        if (!name) { continue; }
+        functions.push({
+            name: name.text,
+            functionClass: getXmlElementText(m[1], 'function-class'),
+            signature: getXmlElementText(m[1], 'function-signature'),
+            description: getXmlElementText(m[1], 'description'),
+            nameOffset: m.index + '<function>'.length + name.offset
+        });
+    }
+
+    // Library-level elements come before the first tag or function
+    const header = xml.split(/<(?:tag|tag-file|function)>/)[0];
+    return {
+        uri: getXmlElementText(header, 'uri') ?? '',
+        shortName: getXmlElementText(header, 'short-name') ?? getXmlElementText(header, 'shortname') ?? '',
+        description: getXmlElementText(header, 'description') ?? getXmlElementText(header, 'info'),
+        location,
+        tags,
+        functions
+    };
+}
+
+function parseVariableScope(scope: string | undefined): TagVariableInfo['scope'] {
+    return scope === 'AT_BEGIN' || scope === 'AT_END' ? scope : 'NESTED';
+}
+
+/** Name of a <%@ name %> directive or of its XML form <jsp:directive.name/> */
+function getDirectiveName(node: JspNode): string | undefined {
+    if (node.kind === 'directive') { return node.name; }
+    if (node.kind === 'action' && node.name?.startsWith('jsp:directive.')) {
+        return node.name.substring('jsp:directive.'.length);
+    }
+    return undefined;
+}
+
+/**
+ * Describe a tag file from its tag, attribute and variable directives,
+ * applying the JSP defaults for tag files.
+ */
+function parseTagFile(filePath: string): TagInfo | null {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    const tag: TagInfo = {
+        name: path.basename(filePath).replace(/\.tagx?$/i, ''),
+        tagFile: filePath,
+        bodyContent: 'scriptless',
+        dynamicAttributes: false,
+        attributes: [],
+        variables: [],
+        nameOffset: 0
+    };
+
+    for (const node of tokenizeJsp(content)) {
+        const value = (name: string) => getAttribute(node, name)?.value;
+        switch (getDirectiveName(node)) {
+            case 'tag':
+                tag.bodyContent = value('body-content') ?? tag.bodyContent;
+                tag.description = value('description') ?? tag.description;
+                tag.dynamicAttributes = tag.dynamicAttributes || !!value('dynamic-attributes');
+                break;
+            case 'attribute': {
+                const name = getAttribute(node, 'name');
+                if (!name) { break; }
+                tag.attributes.push({
+                    name: name.value,
+                    required: /^(true|yes)$/i.test(value('required') ?? ''),
+                    rtexprvalue: !/^(false|no)$/i.test(value('rtexprvalue') ?? ''),
+                    type: /^(true|yes)$/i.test(value('fragment') ?? '') ? 'JspFragment' : value('type') ?? 'java.lang.String',
+                    description: value('description'),
+                    nameOffset: name.valueStart
+                });
+                break;
+            }
+            case 'variable':
+                tag.variables.push({
+                    nameGiven: value('name-given'),
+                    nameFromAttribute: value('name-from-attribute'),
+                    variableClass: value('variable-class') ?? 'java.lang.String',
+                    scope: parseVariableScope(value('scope'))
+                });
+                break;
+        }
+    }
+    return tag;
+}
+
+/** Look up "prefix:name" among the page's tag libraries */
+function findTagInfo(taglibs: Map<string, TagLibrary | null>, qualifiedName: string): { library: TagLibrary; tag: TagInfo | undefined } | null {
+    const [prefix, name] = qualifiedName.split(':');
+    const library = taglibs.get(prefix);
+    if (!library) { return null; }
+    return { library, tag: library.tags.find(t => t.name === name) };
+}
+
+/**
+ * Attribute names a tag receives through <jsp:attribute name="..."> children: the
+ * actions between its start tag (nodes[startIndex]) and its end tag, nested tags excluded.
+ */
+function getJspAttributeChildNames(nodes: JspNode[], startIndex: number): Set<string> {
+    const names = new Set<string>();
+    if (nodes[startIndex].selfClosing) { return names; }
+
+    let depth = 0;
+    for (let i = startIndex + 1; i < nodes.length && depth >= 0; i++) {
+        const node = nodes[i];
+        if ((node.kind !== 'action' && node.kind !== 'customTag') || !node.closed) { continue; }
+        if (node.isEndTag) {
+            depth--;
+            continue;
+        }
+        if (depth === 0 && node.name === 'jsp:attribute') {
+            const name = getAttribute(node, 'name')?.value.trim();
+            if (name) { names.add(name); }
+        }
+        if (!node.selfClosing) { depth++; }
+    }
+    return names;
+}
+
+/** Required attributes of a tag that neither its start tag nor a jsp:attribute child supplies */
+function getMissingRequiredAttributes(nodes: JspNode[], startIndex: number, tag: TagInfo): string[] {
+    const node = nodes[startIndex];
+    const missing = tag.attributes.filter(a => a.required && !getAttribute(node, a.name)).map(a => a.name);
+    if (missing.length === 0) { return missing; }
+
+    const children = getJspAttributeChildNames(nodes, startIndex);
+    return missing.filter(name => !children.has(name));
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const TLD = `<?xml version="1.0" encoding="UTF-8"?>
+<taglib>
+  <tlib-version>1.0</tlib-version>
+  <short-name>acme</short-name>
+  <uri>http://acme.com/tags</uri>
+  <!-- <tag><name>commented</name></tag> -->
+  <tag>
+    <name>grid</name>
+    <tag-class>com.acme.tags.GridTag</tag-class>
+    <body-content>scriptless</body-content>
+    <variable>
+      <name-given>row</name-given>
+      <variable-class>com.acme.model.Item</variable-class>
+      <scope>AT_BEGIN</scope>
+    </variable>
+    <attribute>
+      <name>items</name>
+      <required>true</required>
+      <rtexprvalue>true</rtexprvalue>
+    </attribute>
+    <attribute>
+      <name>styleClass</name>
+    </attribute>
+  </tag>
+  <tag>
+    <name>legacy</name>
+    <tagclass>com.acme.tags.LegacyTag</tagclass>
+    <bodycontent>JSP</bodycontent>
+    <info>JSP 1.1 names</info>
+  </tag>
+  <function>
+    <name>join</name>
+    <function-class>com.acme.Functions</function-class>
+    <function-signature>java.lang.String join(java.lang.String[], java.lang.String)</function-signature>
+  </function>
+</taglib>`;
+
+/** Missing required attributes of every tag of a page, as "<name>: <attribute>" */
+function missingAttributes(page: string, library: TagLibrary, prefix: string): string[] {
+    const nodes = tokenizeJsp(page);
+    const taglibs = new Map([[prefix, library]]);
+    const missing: string[] = [];
+    nodes.forEach((node, index) => {
+        if (node.kind !== 'customTag' || node.isEndTag || !node.closed) { return; }
+        const tag = findTagInfo(taglibs, node.name!)?.tag;
+        if (tag) { missing.push(...getMissingRequiredAttributes(nodes, index, tag).map(a => `${node.name}: ${a}`)); }
+    });
+    return missing;
+}
+
+// ── Test Suite ──────────────────────────────────────────────────────────────
+
+suite('Tag Library Tests', () => {
+
+    test('parses tags, attributes, variables and functions of a TLD', () => {
+        const library = parseTld(TLD, { path: '/WEB-INF/acme.tld' });
+        assert.strictEqual(library.uri, 'http://acme.com/tags');
+        assert.strictEqual(library.shortName, 'acme');
+        assert.deepStrictEqual(library.tags.map(t => t.name), ['grid', 'legacy']);
+
+        const grid = library.tags[0];
+        assert.strictEqual(grid.tagClass, 'com.acme.tags.GridTag');
+        assert.deepStrictEqual(grid.attributes.map(a => [a.name, a.required, a.rtexprvalue]), [['items', true, true], ['styleClass', false, false]]);
+        assert.strictEqual(TLD.substr(grid.attributes[0].nameOffset, 5), 'items');
+        assert.strictEqual(TLD.substr(grid.nameOffset, 4), 'grid');
+        assert.deepStrictEqual(grid.variables, [{ nameGiven: 'row', nameFromAttribute: undefined, variableClass: 'com.acme.model.Item', scope: 'AT_BEGIN' }]);
+
+        assert.strictEqual(library.functions[0].name, 'join');
+        assert.strictEqual(library.functions[0].functionClass, 'com.acme.Functions');
+    });
+
+    test('reads the JSP 1.1 element names', () => {
+        const legacy = parseTld(TLD, { path: '/WEB-INF/acme.tld' }).tags[1];
+        assert.strictEqual(legacy.tagClass, 'com.acme.tags.LegacyTag');
+        assert.strictEqual(legacy.bodyContent, 'JSP');
+        assert.strictEqual(legacy.description, 'JSP 1.1 names');
+    });
+
+    test('describes a tag file from its directives', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsp-tagfile-test-'));
+        try {
+            const tagPath = path.join(dir, 'button.tag');
+            fs.writeFileSync(tagPath, [
+                '<%@ tag body-content="empty" description="A button" %>',
+                '<%@ attribute name="label" required="true" %>',
+                '<%@ attribute name="onClick" fragment="true" %>',
+                '<%@ variable name-from-attribute="var" alias="v" variable-class="java.lang.Integer" %>',
+            ].join('\n'));
+            const tag = parseTagFile(tagPath)!;
+            assert.strictEqual(tag.name, 'button');
+            assert.strictEqual(tag.bodyContent, 'empty');
+            assert.deepStrictEqual(tag.attributes.map(a => [a.name, a.required, a.type]), [['label', true, 'java.lang.String'], ['onClick', false, 'JspFragment']]);
+            assert.strictEqual(tag.variables[0].variableClass, 'java.lang.Integer');
+
+            const tagxPath = path.join(dir, 'panel.tagx');
+            fs.writeFileSync(tagxPath, '<jsp:root><jsp:directive.attribute name="title" required="true"/></jsp:root>');
+            assert.deepStrictEqual(parseTagFile(tagxPath)!.attributes.map(a => a.name), ['title']);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('required attributes can be supplied as jsp:attribute children', () => {
+        const library = parseTld(TLD, { path: '/WEB-INF/acme.tld' });
+        assert.deepStrictEqual(missingAttributes('<a:grid items="${list}"/>', library, 'a'), []);
+        assert.deepStrictEqual(missingAttributes('<a:grid><jsp:attribute name="items">${list}</jsp:attribute></a:grid>', library, 'a'), []);
+        assert.deepStrictEqual(missingAttributes('<a:grid/>', library, 'a'), ['a:grid: items']);
+        assert.deepStrictEqual(missingAttributes('<a:grid>body</a:grid>', library, 'a'), ['a:grid: items']);
+    });
+
+    test('jsp:attribute of a nested tag does not count for the outer tag', () => {
+        const library = parseTld(TLD, { path: '/WEB-INF/acme.tld' });
+        const page = '<a:grid><a:grid><jsp:attribute name="items">x</jsp:attribute></a:grid></a:grid>';
+        assert.deepStrictEqual(missingAttributes(page, library, 'a'), ['a:grid: items']);
+    });
+
+    test('unknown prefixes and tags are not checked', () => {
+        const library = parseTld(TLD, { path: '/WEB-INF/acme.tld' });
+        assert.deepStrictEqual(missingAttributes('<x:grid/><a:unknown/>', library, 'a'), []);
+    });
+});
@@ -0,0 +1,25 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+/**
+ * Receives requests from the client and sends them to any resource on the server.
+ */
+public interface RequestDispatcher {
+
+    /**
+     * Forwards a request from a servlet to another resource on the server.
+     * @param request the request
+     * @param response the response
+     */
+    void forward(ServletRequest request, ServletResponse response) throws ServletException, java.io.IOException;
+
+    /**
+     * Includes the content of a resource in the response.
+     * @param request the request
+     * @param response the response
+     */
+    void include(ServletRequest request, ServletResponse response) throws ServletException, java.io.IOException;
+}
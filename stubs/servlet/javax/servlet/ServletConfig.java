@@ -0,0 +1,29 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+import java.util.Enumeration;
+
+/**
+ * A servlet configuration object used by a servlet container to pass information to a servlet during initialization.
+ * The {@code config} implicit object of a JSP page.
+ */
+public interface ServletConfig {
+
+    /** Returns the name of this servlet instance. */
+    String getServletName();
+
+    /** Returns a reference to the {@code ServletContext} in which the caller is executing. */
+    ServletContext getServletContext();
+
+    /**
+     * Returns the value of the named initialization parameter, or {@code null}.
+     * @param name the name of the initialization parameter
+     */
+    String getInitParameter(String name);
+
+    /** Returns the names of the servlet's initialization parameters. */
+    Enumeration<String> getInitParameterNames();
+}
@@ -0,0 +1,87 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+import java.util.Enumeration;
+
+/**
+ * Defines a set of methods that a servlet uses to communicate with its servlet container.
+ * The {@code application} implicit object of a JSP page.
+ */
+public interface ServletContext {
+
+    /** Returns the context path of the web application. */
+    String getContextPath();
+
+    /**
+     * Returns the servlet container attribute with the given name, or {@code null}.
+     * @param name the name of the attribute
+     */
+    Object getAttribute(String name);
+
+    /** Returns the names of the attributes available within this servlet context. */
+    Enumeration<String> getAttributeNames();
+
+    /**
+     * Binds an object to a given attribute name in this servlet context.
+     * @param name the name of the attribute
+     * @param object the object to be bound
+     */
+    void setAttribute(String name, Object object);
+
+    /**
+     * Removes the attribute with the given name from this servlet context.
+     * @param name the name of the attribute to remove
+     */
+    void removeAttribute(String name);
+
+    /**
+     * Returns the value of the named context-wide initialization parameter.
+     * @param name the name of the parameter
+     */
+    String getInitParameter(String name);
+
+    /** Returns the names of the context's initialization parameters. */
+    Enumeration<String> getInitParameterNames();
+
+    /**
+     * Returns the MIME type of the specified file, or {@code null} if it is not known.
+     * @param file the name of the file
+     */
+    String getMimeType(String file);
+
+    /**
+     * Returns the real file system path for a given virtual path.
+     * @param path the virtual path to be translated
+     */
+    String getRealPath(String path);
+
+    /**
+     * Returns a URL to the resource mapped to the given path.
+     * @param path the path to the resource
+     */
+    java.net.URL getResource(String path) throws java.net.MalformedURLException;
+
+    /**
+     * Returns the resource located at the named path as an {@code InputStream}.
+     * @param path the path to the resource
+     */
+    java.io.InputStream getResourceAsStream(String path);
+
+    /**
+     * Returns a {@code RequestDispatcher} that acts as a wrapper for the resource at the given path.
+     * @param path the path to the resource
+     */
+    RequestDispatcher getRequestDispatcher(String path);
+
+    /** Returns the name and version of the servlet container. */
+    String getServerInfo();
+
+    /**
+     * Writes the specified message to the servlet log file.
+     * @param msg the message to write
+     */
+    void log(String msg);
+}
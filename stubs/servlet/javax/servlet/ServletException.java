@@ -0,0 +1,23 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+/**
+ * Defines a general exception a servlet can throw when it encounters difficulty.
+ */
+public class ServletException extends Exception {
+
+    /**
+     * Constructs a new servlet exception with the specified message.
+     * @param message the message of the exception
+     */
+    public ServletException(String message) {
+    }
+
+    /** Returns the exception that caused this servlet exception. */
+    public Throwable getRootCause() {
+        return null;
+    }
+}
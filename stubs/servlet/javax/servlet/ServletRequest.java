@@ -0,0 +1,106 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+import java.util.Enumeration;
+import java.util.Locale;
+import java.util.Map;
+
+/**
+ * Provides client request information to a servlet.
+ */
+public interface ServletRequest {
+
+    /**
+     * Returns the value of the named attribute, or {@code null} if no attribute of the given name exists.
+     * @param name the name of the attribute
+     */
+    Object getAttribute(String name);
+
+    /** Returns the names of the attributes available to this request. */
+    Enumeration<String> getAttributeNames();
+
+    /**
+     * Stores an attribute in this request.
+     * @param name the name of the attribute
+     * @param o the object to be stored
+     */
+    void setAttribute(String name, Object o);
+
+    /**
+     * Removes an attribute from this request.
+     * @param name the name of the attribute to remove
+     */
+    void removeAttribute(String name);
+
+    /** Returns the name of the character encoding used in the body of this request. */
+    String getCharacterEncoding();
+
+    /**
+     * Overrides the name of the character encoding used in the body of this request.
+     * @param env the name of the character encoding
+     */
+    void setCharacterEncoding(String env) throws java.io.UnsupportedEncodingException;
+
+    /** Returns the length, in bytes, of the request body. */
+    int getContentLength();
+
+    /** Returns the MIME type of the body of the request. */
+    String getContentType();
+
+    /**
+     * Returns the value of a request parameter as a {@code String}, or {@code null} if the parameter does not exist.
+     * @param name the name of the parameter
+     */
+    String getParameter(String name);
+
+    /** Returns the names of the parameters contained in this request. */
+    Enumeration<String> getParameterNames();
+
+    /**
+     * Returns all values of the given request parameter, or {@code null} if the parameter does not exist.
+     * @param name the name of the parameter
+     */
+    String[] getParameterValues(String name);
+
+    /** Returns a map of the parameters of this request. */
+    Map<String, String[]> getParameterMap();
+
+    /** Returns the name and version of the protocol the request uses. */
+    String getProtocol();
+
+    /** Returns the name of the scheme used to make this request, e.g. {@code http} or {@code https}. */
+    String getScheme();
+
+    /** Returns the host name of the server to which the request was sent. */
+    String getServerName();
+
+    /** Returns the port number to which the request was sent. */
+    int getServerPort();
+
+    /** Returns the IP address of the client or last proxy that sent the request. */
+    String getRemoteAddr();
+
+    /** Returns the fully qualified name of the client or the last proxy that sent the request. */
+    String getRemoteHost();
+
+    /** Returns the preferred {@code Locale} of the client. */
+    Locale getLocale();
+
+    /** Returns the locales acceptable to the client, in decreasing order of preference. */
+    Enumeration<Locale> getLocales();
+
+    /** Returns whether this request was made using a secure channel. */
+    boolean isSecure();
+
+    /**
+     * Returns a {@code RequestDispatcher} that acts as a wrapper for the resource at the given path.
+     * @param path the path to the resource
+     */
+    RequestDispatcher getRequestDispatcher(String path);
+
+    /** Gets the servlet context to which this request was last dispatched. */
+    ServletContext getServletContext();
+}
@@ -0,0 +1,68 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet;
+
+import java.io.PrintWriter;
+import java.util.Locale;
+
+/**
+ * Assists a servlet in sending a response to the client.
+ */
+public interface ServletResponse {
+
+    /** Returns the name of the character encoding used for the body sent in this response. */
+    String getCharacterEncoding();
+
+    /** Returns the content type used for the MIME body sent in this response. */
+    String getContentType();
+
+    /** Returns a {@code PrintWriter} object that can send character text to the client. */
+    PrintWriter getWriter() throws java.io.IOException;
+
+    /**
+     * Sets the character encoding of the response being sent to the client.
+     * @param charset the name of the character encoding
+     */
+    void setCharacterEncoding(String charset);
+
+    /**
+     * Sets the content type of the response being sent to the client.
+     * @param type the MIME type of the content
+     */
+    void setContentType(String type);
+
+    /**
+     * Sets the length of the content body in the response.
+     * @param len the length of the content in bytes
+     */
+    void setContentLength(int len);
+
+    /**
+     * Sets the preferred buffer size for the body of the response.
+     * @param size the preferred buffer size
+     */
+    void setBufferSize(int size);
+
+    /** Returns the actual buffer size used for the response. */
+    int getBufferSize();
+
+    /** Forces any content in the buffer to be written to the client. */
+    void flushBuffer() throws java.io.IOException;
+
+    /** Returns whether the response has been committed. */
+    boolean isCommitted();
+
+    /** Clears any data that exists in the buffer as well as the status code and headers. */
+    void reset();
+
+    /**
+     * Sets the locale of the response.
+     * @param loc the locale of the response
+     */
+    void setLocale(Locale loc);
+
+    /** Returns the locale specified for this response. */
+    Locale getLocale();
+}
@@ -0,0 +1,60 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.http;
+
+/**
+ * A small amount of information sent by a servlet to a Web browser, saved by the browser and later sent back to the server.
+ */
+public class Cookie {
+
+    /**
+     * Constructs a cookie with the specified name and value.
+     * @param name the name of the cookie
+     * @param value the value of the cookie
+     */
+    public Cookie(String name, String value) {
+    }
+
+    /** Returns the name of the cookie. */
+    public String getName() {
+        return null;
+    }
+
+    /** Gets the current value of this cookie. */
+    public String getValue() {
+        return null;
+    }
+
+    /**
+     * Assigns a new value to this cookie.
+     * @param newValue the new value of the cookie
+     */
+    public void setValue(String newValue) {
+    }
+
+    /** Returns the path on the server to which the browser returns this cookie. */
+    public String getPath() {
+        return null;
+    }
+
+    /**
+     * Specifies a path for the cookie to which the client should return the cookie.
+     * @param uri a path
+     */
+    public void setPath(String uri) {
+    }
+
+    /** Gets the maximum age in seconds of this cookie. */
+    public int getMaxAge() {
+        return 0;
+    }
+
+    /**
+     * Sets the maximum age in seconds for this cookie.
+     * @param expiry the maximum age of the cookie in seconds
+     */
+    public void setMaxAge(int expiry) {
+    }
+}
@@ -0,0 +1,91 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.http;
+
+import java.util.Enumeration;
+import javax.servlet.ServletRequest;
+
+/**
+ * Extends the {@code ServletRequest} interface to provide request information for HTTP servlets.
+ * The {@code request} implicit object of a JSP page.
+ */
+public interface HttpServletRequest extends ServletRequest {
+
+    /** Returns the name of the authentication scheme used to protect the servlet. */
+    String getAuthType();
+
+    /** Returns an array containing all of the {@code Cookie} objects the client sent with this request. */
+    Cookie[] getCookies();
+
+    /**
+     * Returns the value of the specified request header as a {@code String}, or {@code null}.
+     * @param name the header name
+     */
+    String getHeader(String name);
+
+    /**
+     * Returns all the values of the specified request header.
+     * @param name the header name
+     */
+    Enumeration<String> getHeaders(String name);
+
+    /** Returns all the header names this request contains. */
+    Enumeration<String> getHeaderNames();
+
+    /**
+     * Returns the value of the specified request header as an {@code int}.
+     * @param name the header name
+     */
+    int getIntHeader(String name);
+
+    /** Returns the name of the HTTP method with which this request was made, e.g. GET or POST. */
+    String getMethod();
+
+    /** Returns any extra path information associated with the URL the client sent. */
+    String getPathInfo();
+
+    /** Returns the portion of the request URI that indicates the context of the request. */
+    String getContextPath();
+
+    /** Returns the query string that is contained in the request URL after the path. */
+    String getQueryString();
+
+    /** Returns the login of the user making this request, or {@code null} if not authenticated. */
+    String getRemoteUser();
+
+    /**
+     * Returns whether the authenticated user is included in the specified logical role.
+     * @param role the name of the role
+     */
+    boolean isUserInRole(String role);
+
+    /** Returns a {@code java.security.Principal} object containing the name of the current authenticated user. */
+    java.security.Principal getUserPrincipal();
+
+    /** Returns the session ID specified by the client. */
+    String getRequestedSessionId();
+
+    /** Returns the part of this request's URL from the protocol name up to the query string. */
+    String getRequestURI();
+
+    /** Reconstructs the URL the client used to make the request. */
+    StringBuffer getRequestURL();
+
+    /** Returns the part of this request's URL that calls the servlet. */
+    String getServletPath();
+
+    /**
+     * Returns the current {@code HttpSession} associated with this request or, if there is none and
+     * {@code create} is true, returns a new session.
+     * @param create {@code true} to create a new session if necessary
+     */
+    HttpSession getSession(boolean create);
+
+    /** Returns the current session associated with this request, creating one if the request does not have a session. */
+    HttpSession getSession();
+
+    /** Checks whether the requested session ID is still valid. */
+    boolean isRequestedSessionIdValid();
+}
@@ -0,0 +1,80 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.http;
+
+import javax.servlet.ServletResponse;
+
+/**
+ * Extends the {@code ServletResponse} interface to provide HTTP-specific functionality in sending a response.
+ * The {@code response} implicit object of a JSP page.
+ */
+public interface HttpServletResponse extends ServletResponse {
+
+    /**
+     * Adds the specified cookie to the response.
+     * @param cookie the cookie to return to the client
+     */
+    void addCookie(Cookie cookie);
+
+    /**
+     * Returns whether the named response header has already been set.
+     * @param name the header name
+     */
+    boolean containsHeader(String name);
+
+    /**
+     * Encodes the specified URL by including the session ID, or returns it unchanged if encoding is not needed.
+     * @param url the url to be encoded
+     */
+    String encodeURL(String url);
+
+    /**
+     * Encodes the specified URL for use in the {@code sendRedirect} method.
+     * @param url the url to be encoded
+     */
+    String encodeRedirectURL(String url);
+
+    /**
+     * Sends an error response to the client using the specified status code and message.
+     * @param sc the error status code
+     * @param msg the descriptive message
+     */
+    void sendError(int sc, String msg) throws java.io.IOException;
+
+    /**
+     * Sends an error response to the client using the specified status code.
+     * @param sc the error status code
+     */
+    void sendError(int sc) throws java.io.IOException;
+
+    /**
+     * Sends a temporary redirect response to the client using the specified redirect location URL.
+     * @param location the redirect location URL
+     */
+    void sendRedirect(String location) throws java.io.IOException;
+
+    /**
+     * Sets a response header with the given name and value.
+     * @param name the name of the header
+     * @param value the header value
+     */
+    void setHeader(String name, String value);
+
+    /**
+     * Adds a response header with the given name and value.
+     * @param name the name of the header
+     * @param value the additional header value
+     */
+    void addHeader(String name, String value);
+
+    /**
+     * Sets the status code for this response.
+     * @param sc the status code
+     */
+    void setStatus(int sc);
+
+    /** Gets the current status code of this response. */
+    int getStatus();
+}
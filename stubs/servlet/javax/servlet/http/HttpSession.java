@@ -0,0 +1,64 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.http;
+
+import java.util.Enumeration;
+import javax.servlet.ServletContext;
+
+/**
+ * Identifies a user across more than one page request and stores information about that user.
+ * The {@code session} implicit object of a JSP page.
+ */
+public interface HttpSession {
+
+    /** Returns the time when this session was created, in milliseconds since the epoch. */
+    long getCreationTime();
+
+    /** Returns a string containing the unique identifier assigned to this session. */
+    String getId();
+
+    /** Returns the last time the client sent a request associated with this session. */
+    long getLastAccessedTime();
+
+    /** Returns the {@code ServletContext} to which this session belongs. */
+    ServletContext getServletContext();
+
+    /**
+     * Specifies the time, in seconds, between client requests before the container invalidates this session.
+     * @param interval an integer specifying the number of seconds
+     */
+    void setMaxInactiveInterval(int interval);
+
+    /** Returns the maximum time interval, in seconds, the container keeps this session open between client accesses. */
+    int getMaxInactiveInterval();
+
+    /**
+     * Returns the object bound with the specified name in this session, or {@code null}.
+     * @param name the name of the object
+     */
+    Object getAttribute(String name);
+
+    /** Returns the names of all the objects bound to this session. */
+    Enumeration<String> getAttributeNames();
+
+    /**
+     * Binds an object to this session, using the name specified.
+     * @param name the name to which the object is bound
+     * @param value the object to be bound
+     */
+    void setAttribute(String name, Object value);
+
+    /**
+     * Removes the object bound with the specified name from this session.
+     * @param name the name of the object to remove
+     */
+    void removeAttribute(String name);
+
+    /** Invalidates this session then unbinds any objects bound to it. */
+    void invalidate();
+
+    /** Returns whether the client does not yet know about the session. */
+    boolean isNew();
+}
@@ -0,0 +1,73 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.jsp;
+
+/**
+ * Emulates some of the functionality of {@code java.io.BufferedWriter} and {@code java.io.PrintWriter}.
+ * The {@code out} implicit object of a JSP page.
+ */
+public abstract class JspWriter extends java.io.Writer {
+
+    /** Writes a line separator. */
+    public abstract void newLine() throws java.io.IOException;
+
+    /**
+     * Prints a string.
+     * @param s the {@code String} to be printed
+     */
+    public abstract void print(String s) throws java.io.IOException;
+
+    /**
+     * Prints an object, using {@code String.valueOf(Object)}.
+     * @param obj the {@code Object} to be printed
+     */
+    public abstract void print(Object obj) throws java.io.IOException;
+
+    /**
+     * Prints an integer.
+     * @param i the {@code int} to be printed
+     */
+    public abstract void print(int i) throws java.io.IOException;
+
+    /** Terminates the current line by writing the line separator string. */
+    public abstract void println() throws java.io.IOException;
+
+    /**
+     * Prints a string and then terminates the line.
+     * @param x the {@code String} value to be printed
+     */
+    public abstract void println(String x) throws java.io.IOException;
+
+    /**
+     * Prints an object and then terminates the line.
+     * @param x the {@code Object} value to be printed
+     */
+    public abstract void println(Object x) throws java.io.IOException;
+
+    /** Clears the contents of the buffer. */
+    public abstract void clear() throws java.io.IOException;
+
+    /** Clears the current contents of the buffer without throwing if it was already flushed. */
+    public abstract void clearBuffer() throws java.io.IOException;
+
+    /** Flushes the stream. */
+    public abstract void flush() throws java.io.IOException;
+
+    /** Closes the stream, flushing it first. */
+    public abstract void close() throws java.io.IOException;
+
+    /** Returns the size of the buffer in bytes, or 0 if unbuffered. */
+    public int getBufferSize() {
+        return 0;
+    }
+
+    /** Returns the number of unused bytes in the buffer. */
+    public abstract int getRemaining();
+
+    /** Returns whether the JspWriter is autoFlushing. */
+    public boolean isAutoFlush() {
+        return false;
+    }
+}
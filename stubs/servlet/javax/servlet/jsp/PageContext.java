@@ -0,0 +1,106 @@
+/*
+ * Signature stub bundled with the JSP Support extension.
+ * Used for navigation, hover and completion when no servlet API sources jar is available.
+ */
+package javax.servlet.jsp;
+
+import javax.servlet.ServletConfig;
+import javax.servlet.ServletContext;
+import javax.servlet.ServletRequest;
+import javax.servlet.ServletResponse;
+import javax.servlet.http.HttpSession;
+
+/**
+ * Provides access to all the namespaces associated with a JSP page and to several page attributes.
+ * The {@code pageContext} implicit object of a JSP page.
+ */
+public abstract class PageContext {
+
+    /** Page scope: the attribute is visible within the current page. */
+    public static final int PAGE_SCOPE = 1;
+
+    /** Request scope: the attribute is visible for the lifetime of the request. */
+    public static final int REQUEST_SCOPE = 2;
+
+    /** Session scope: the attribute is visible for the lifetime of the session. */
+    public static final int SESSION_SCOPE = 3;
+
+    /** Application scope: the attribute is visible for the lifetime of the web application. */
+    public static final int APPLICATION_SCOPE = 4;
+
+    /**
+     * Searches for the named attribute in page, request, session and application scope, in order.
+     * @param name the name of the attribute to search for
+     */
+    public abstract Object findAttribute(String name);
+
+    /**
+     * Returns the object associated with the name in the page scope, or {@code null}.
+     * @param name the name of the attribute to get
+     */
+    public abstract Object getAttribute(String name);
+
+    /**
+     * Returns the object associated with the name in the specified scope, or {@code null}.
+     * @param name the name of the attribute to get
+     * @param scope the scope where to look for
+     */
+    public abstract Object getAttribute(String name, int scope);
+
+    /**
+     * Registers the name and value specified with page scope semantics.
+     * @param name the name of the attribute to set
+     * @param value the value to associate with the name
+     */
+    public abstract void setAttribute(String name, Object value);
+
+    /**
+     * Registers the name and value specified with appropriate scope semantics.
+     * @param name the name of the attribute to set
+     * @param value the object to associate with the name
+     * @param scope the scope with which to associate the name/object
+     */
+    public abstract void setAttribute(String name, Object value, int scope);
+
+    /**
+     * Removes the object reference associated with the given name from all scopes.
+     * @param name the name of the object to remove
+     */
+    public abstract void removeAttribute(String name);
+
+    /** Returns the current value of the out object (a {@code JspWriter}). */
+    public abstract JspWriter getOut();
+
+    /** Returns the current value of the session object. */
+    public abstract HttpSession getSession();
+
+    /** Returns the current value of the page object. */
+    public abstract Object getPage();
+
+    /** Returns the current value of the request object. */
+    public abstract ServletRequest getRequest();
+
+    /** Returns the current value of the response object. */
+    public abstract ServletResponse getResponse();
+
+    /** Returns the current value of the exception object. */
+    public abstract Exception getException();
+
+    /** Returns the {@code ServletConfig} instance. */
+    public abstract ServletConfig getServletConfig();
+
+    /** Returns the {@code ServletContext} instance. */
+    public abstract ServletContext getServletContext();
+
+    /**
+     * Forwards the current request to another active component in the application.
+     * @param relativeUrlPath the relative URL path of the target resource
+     */
+    public abstract void forward(String relativeUrlPath) throws javax.servlet.ServletException, java.io.IOException;
+
+    /**
+     * Causes the resource specified to be processed as part of the current request and response.
+     * @param relativeUrlPath the relative URL path of the resource to include
+     */
+    public abstract void include(String relativeUrlPath) throws javax.servlet.ServletException, java.io.IOException;
+}